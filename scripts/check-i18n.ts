@@ -0,0 +1,51 @@
+// Reports message keys missing from any catalog, placeholders that differ from
+// the pt-BR source and malformed plural forms. Usage: npm run i18n:check
+import { LANGUAGES } from "../src/languages";
+import { catalogs, PLACEHOLDER_PATTERN, sourceCatalog, MessageKey } from "../src/i18n/catalogs";
+import { Message } from "../src/i18n/types";
+
+const texts = (message: Message) => typeof message === "string" ? [message] : Object.values(message) as string[];
+const placeholders = (message: Message) =>
+  [...new Set(texts(message).flatMap(text => [...text.matchAll(PLACEHOLDER_PATTERN)].map(match => match[1])))].sort().join(",");
+
+const problems: string[] = [];
+const sourceKeys = Object.keys(sourceCatalog) as MessageKey[];
+
+for (const { code } of LANGUAGES) {
+  const catalog = catalogs[code];
+  if (!catalog) {
+    problems.push(`${code}: no catalog registered`);
+    continue;
+  }
+
+  const categories = new Intl.PluralRules(code).resolvedOptions().pluralCategories as string[];
+  for (const key of sourceKeys) {
+    const message = catalog[key];
+    if (message === undefined) {
+      problems.push(`${code}: missing "${key}"`);
+      continue;
+    }
+    if (typeof message !== typeof sourceCatalog[key]) {
+      problems.push(`${code}: "${key}" should be ${typeof sourceCatalog[key] === "string" ? "a string" : "a plural message"}`);
+      continue;
+    }
+    if (placeholders(message) !== placeholders(sourceCatalog[key])) {
+      problems.push(`${code}: "${key}" uses {${placeholders(message)}} instead of {${placeholders(sourceCatalog[key])}}`);
+    }
+    if (typeof message !== "string") {
+      const unknown = Object.keys(message).filter(category => !categories.includes(category));
+      if (unknown.length) problems.push(`${code}: "${key}" has plural forms ${unknown.join(", ")} not used by this locale`);
+    }
+  }
+
+  for (const key of Object.keys(catalog)) {
+    if (!(key in sourceCatalog)) problems.push(`${code}: unknown key "${key}"`);
+  }
+}
+
+if (problems.length) {
+  console.error(problems.join("\n"));
+  console.error(`\n${problems.length} i18n problem(s) found.`);
+  process.exit(1);
+}
+console.log(`i18n: ${LANGUAGES.length} catalogs, ${sourceKeys.length} keys, all complete.`);
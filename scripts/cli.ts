@@ -0,0 +1,293 @@
+// Command-line access to the library in minha_hq.db, for generating comics in
+// bulk and managing them without the web app. It runs the server's own code,
+// so jobs, moderation, quotas and exports behave as they do there.
+// Usage: npm run cli -- help
+import fs from "fs";
+import path from "path";
+import { parseArgs } from "util";
+import dotenv from "dotenv";
+import { z } from "zod";
+import { db } from "../server/db";
+import { assetUrl, deleteUnusedAssets, sniffMimeType, storeAsset } from "../server/assets";
+import { accessibleCharacter } from "../server/characters";
+import { deleteComic, getComic, listComics } from "../server/library";
+import { comicSettingsInput, parseComicSettings } from "../server/styles";
+import { moderate } from "../server/moderation";
+import { trackUsage } from "../server/usage";
+import { cacheResponses } from "../server/cache";
+import { enqueueComicJob, waitForJob } from "../server/jobs";
+import { loadExportDocument } from "../server/export/document";
+import { EXPORT_FORMATS, ExportFormat, renderExport, slugify } from "../server/export";
+import { PAGE_SIZES, PageSize } from "../server/export/pdf";
+import { AUDIENCES, DEFAULT_STYLE_ID, GENRES, TONES } from "../src/generation";
+import { findLanguage, LANGUAGES } from "../src/languages";
+import { MAX_COMICS_PAGE_SIZE } from "../src/library";
+import type { Comic, GenerationJob, User } from "../src/types";
+
+dotenv.config({ path: [".env.local", ".env"], quiet: true });
+
+const USAGE = `Usage: npm run cli -- <command> [options]
+
+Commands:
+  generate [prompt]    Generate a comic from the prompt, or one from each line of --file
+    --file <path>        Prompts, one per line; blank lines and lines starting with # are skipped
+    --language <code>    Language of the story: ${LANGUAGES.map(language => language.code).join(", ")} (default pt-BR)
+    --style <id>         Style preset (default ${DEFAULT_STYLE_ID})
+    --panels <n>         Number of panels (default: up to the story)
+    --genre <genre>      ${GENRES.join(", ")}
+    --tone <tone>        ${TONES.join(", ")}
+    --audience <who>     ${AUDIENCES.join(", ")}
+    --reference <path>   Photo that guides the art of every panel
+    --character <id>     Character from the library to cast; repeat for more
+  list                 List comics, newest first: every comic, or those of --user
+    --search <words>     Only comics matching the words
+    --tag <tag>          Only comics with the tag
+  show <id>            Show a comic with its panels
+  delete <id>...       Delete comics
+  export <id>          Render a comic to a file
+    --format <format>    ${Object.keys(EXPORT_FORMATS).join(", ")} (default pdf)
+    --page-size <size>   ${PAGE_SIZES.join(", ")} (default a4, PDF only)
+    --language <code>    Export a translated edition
+    --output <path>      File to write (default: the title, in the current directory)
+  prune-assets         Delete stored images that no comic, character or job refers to any more
+
+Options:
+  --user <username>    Account that owns generated comics (default: the first admin)
+  --json               Print JSON for scripts: one object per line while generating
+`;
+
+// Wrong arguments; answered with the usage text and exit code 2.
+class UsageError extends Error {}
+
+const options = {
+  file: { type: "string" },
+  language: { type: "string" },
+  style: { type: "string" },
+  panels: { type: "string" },
+  genre: { type: "string" },
+  tone: { type: "string" },
+  audience: { type: "string" },
+  reference: { type: "string" },
+  character: { type: "string", multiple: true },
+  search: { type: "string" },
+  tag: { type: "string" },
+  format: { type: "string" },
+  "page-size": { type: "string" },
+  output: { type: "string" },
+  user: { type: "string" },
+  json: { type: "boolean", default: false },
+  help: { type: "boolean", short: "h", default: false },
+} as const;
+
+type Options = ReturnType<typeof parseArgs<{ options: typeof options; allowPositionals: true }>>["values"];
+
+const printJson = (value: unknown) => console.log(JSON.stringify(value));
+
+function findAccount(username?: string): User {
+  const user = username
+    ? db.prepare("SELECT id, username, role FROM users WHERE username = ?").get(username)
+    : db.prepare("SELECT id, username, role FROM users WHERE role = 'admin' ORDER BY created_at ASC LIMIT 1").get();
+  if (!user) throw new Error(username ? `No account named ${username}` : "No account yet: register one in the app first");
+  return user;
+}
+
+function readPrompts(args: string[], file?: string) {
+  const prompts = args.length ? [args.join(" ")] : [];
+  if (file) {
+    prompts.push(...fs.readFileSync(file, "utf8").split(/\r?\n/)
+      .map(line => line.trim())
+      .filter(line => line && !line.startsWith("#")));
+  }
+  if (!prompts.length) throw new UsageError("generate needs a prompt or --file");
+  return prompts;
+}
+
+async function storeReference(file: string) {
+  const data = fs.readFileSync(file);
+  const mimeType = sniffMimeType(data);
+  if (!mimeType) throw new Error(`${file} is not a PNG, JPEG, GIF or WebP image`);
+  return assetUrl((await storeAsset(data, mimeType)).hash);
+}
+
+// What a script needs to know about a finished job: the comic it made, and
+// every step that failed with why.
+function jobResult(job: GenerationJob) {
+  const comic = job.comic_id ? db.prepare("SELECT title FROM comics WHERE id = ?").get(job.comic_id) : null;
+  return {
+    job_id: job.id,
+    status: job.status,
+    comic_id: job.comic_id,
+    title: comic?.title ?? null,
+    error: job.error,
+    failures: job.steps
+      .filter(step => step.status === "failed")
+      .map(step => ({ kind: step.kind, position: step.position, panel_id: step.panel_id, error: step.error })),
+  };
+}
+
+// Prompts are generated one after the other, as the job queue would anyway,
+// so progress reads in order. A failed or rejected prompt does not stop the rest.
+async function generate(args: string[], values: Options) {
+  const user = findAccount(values.user);
+  const prompts = readPrompts(args, values.file);
+
+  const language = values.language ?? "pt-BR";
+  if (!findLanguage(language)) throw new UsageError(`Unknown language ${language}`);
+  const parsed = comicSettingsInput.safeParse({
+    panelCount: values.panels === undefined ? null : Number(values.panels),
+    genre: values.genre ?? null,
+    tone: values.tone ?? null,
+    audience: values.audience ?? null,
+    styleId: values.style,
+  });
+  if (!parsed.success) {
+    const [issue] = parsed.error.issues;
+    throw new UsageError(`${issue.path.join(".")}: ${issue.message}`);
+  }
+  const settings = parseComicSettings(user, parsed.data);
+  if (typeof settings === "string") throw new UsageError(settings);
+  const characterIds = values.character ?? [];
+  const unknown = characterIds.find(id => !accessibleCharacter(user, id));
+  if (unknown) throw new UsageError(`No character ${unknown} in the library of ${user.username}`);
+  const referenceImage = values.reference ? await storeReference(values.reference) : null;
+
+  trackUsage();
+  cacheResponses();
+
+  let failed = 0;
+  for (const [index, prompt] of prompts.entries()) {
+    const label = `[${index + 1}/${prompts.length}]`;
+    const verdict = moderate("prompt", { prompt }, { userId: user.id, audience: settings.audience });
+    if (verdict.action !== "allow") {
+      failed++;
+      if (values.json) printJson({ type: "result", index: index + 1, prompt, status: "rejected", error: verdict.reason, moderation: verdict });
+      else console.log(`${label} ${prompt}: refused by moderation (${verdict.reason})`);
+      continue;
+    }
+
+    const job = enqueueComicJob(user.id, { prompt, language, characterIds, referenceImage, settings });
+    // Snapshots come on every change of a step; only those that move the progress are shown.
+    let last = "";
+    const finished = await waitForJob(job.id, snapshot => {
+      const { current, total } = snapshot.progress;
+      if (snapshot.status === "completed" || snapshot.status === "failed") return;
+      const stage = snapshot.status === "queued" ? "queued" : !total ? "writing the story" : `panel ${Math.min(current + 1, total)} of ${total}`;
+      if (stage === last) return;
+      last = stage;
+      if (values.json) {
+        printJson({ type: "progress", index: index + 1, prompt, job_id: snapshot.id, status: snapshot.status, panels_done: current, panels_total: total });
+      } else {
+        console.error(`${label} ${prompt}: ${stage}`);
+      }
+    });
+
+    const result = jobResult(finished);
+    if (result.status === "failed") failed++;
+    if (values.json) {
+      printJson({ type: "result", index: index + 1, prompt, ...result });
+    } else if (result.status === "completed") {
+      console.log(`${label} ${result.title} (${result.comic_id})`);
+    } else {
+      console.log(`${label} ${result.title ?? prompt}: failed${result.comic_id ? ` (${result.comic_id})` : ""}`);
+      result.failures.forEach(failure => console.log(`    ${failure.kind === "story" ? "story" : `panel ${failure.position}`}: ${failure.error}`));
+    }
+  }
+  if (!values.json) console.error(`${prompts.length - failed} of ${prompts.length} comics generated.`);
+  return failed ? 1 : 0;
+}
+
+function list(values: Options) {
+  const owner = values.user ? findAccount(values.user).id : "all";
+  const comics: Comic[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = listComics({ owner, q: values.search, tag: values.tag, cursor, limit: MAX_COMICS_PAGE_SIZE });
+    if (typeof page === "string") throw new Error(page);
+    comics.push(...page.comics);
+    cursor = page.next_cursor ?? undefined;
+  } while (cursor);
+
+  if (values.json) return printJson(comics.map(({ cover_url, reading_progress, ...comic }) => comic));
+  for (const comic of comics) {
+    const details = [comic.owner_name, comic.series_title, comic.tags?.length ? comic.tags.map(tag => `#${tag}`).join(" ") : null].filter(Boolean);
+    console.log(`${comic.id}  ${comic.title}${details.length ? `  (${details.join(", ")})` : ""}`);
+  }
+}
+
+function show(args: string[], values: Options) {
+  if (args.length !== 1) throw new UsageError("show needs one comic id");
+  const comic = getComic(args[0], findAccount(values.user).id);
+  if (!comic) throw new Error(`No comic ${args[0]}`);
+  if (values.json) return printJson(comic);
+
+  console.log(comic.title);
+  if (comic.description) console.log(comic.description);
+  if (comic.series) console.log(`Chapter ${comic.chapter_number} of ${comic.series.title}`);
+  if (comic.settings) console.log(`Style: ${comic.settings.style_name}`);
+  if (comic.tags?.length) console.log(`Tags: ${comic.tags.join(", ")}`);
+  comic.panels?.forEach((panel, index) => {
+    const image = panel.image_url ? "" : panel.image_status === "failed" ? ` [image failed: ${panel.image_error}]` : " [no image]";
+    console.log(`\n${index + 1}.${image}${panel.caption ? ` ${panel.caption}` : ""}`);
+    panel.balloons?.forEach(balloon => console.log(`   ${balloon.speaker ? `${balloon.speaker}: ` : ""}${balloon.text}`));
+  });
+}
+
+function remove(args: string[], values: Options) {
+  if (!args.length) throw new UsageError("delete needs at least one comic id");
+  const missing = args.filter(id => !db.prepare("SELECT id FROM comics WHERE id = ?").get(id));
+  if (missing.length) throw new Error(`No comic ${missing.join(", ")}`);
+  args.forEach(id => deleteComic(id));
+  if (values.json) printJson({ deleted: args });
+  else console.log(`Deleted ${args.length} comic${args.length === 1 ? "" : "s"}.`);
+}
+
+function pruneAssets(values: Options) {
+  const deleted = deleteUnusedAssets();
+  if (values.json) printJson({ deleted_assets: deleted });
+  else console.log(`Deleted ${deleted} unused asset${deleted === 1 ? "" : "s"}.`);
+}
+
+async function exportComic(args: string[], values: Options) {
+  if (args.length !== 1) throw new UsageError("export needs one comic id");
+  const format = z.enum(Object.keys(EXPORT_FORMATS) as ExportFormat[]).safeParse(values.format ?? "pdf");
+  if (!format.success) throw new UsageError(`Unknown format ${values.format}`);
+  const pageSize = z.enum(PAGE_SIZES).safeParse(values["page-size"] ?? "a4");
+  if (!pageSize.success) throw new UsageError(`Unknown page size ${values["page-size"]}`);
+  if (values.language && !findLanguage(values.language)) throw new UsageError(`Unknown language ${values.language}`);
+
+  const doc = await loadExportDocument(args[0], values.language);
+  if (!doc) throw new Error(`No comic ${args[0]}`);
+  const file = await renderExport(doc, format.data, pageSize.data as PageSize);
+  const output = values.output ?? `${slugify(doc.title)}.${EXPORT_FORMATS[format.data].extension}`;
+  fs.writeFileSync(output, file);
+  if (values.json) printJson({ comic_id: args[0], format: format.data, path: path.resolve(output), bytes: file.length });
+  else console.log(`Wrote ${output}`);
+}
+
+async function main() {
+  const { values, positionals } = parseArgs({ options, allowPositionals: true });
+  const [command, ...args] = positionals;
+  if (values.help || !command || command === "help") return void console.log(USAGE);
+
+  switch (command) {
+    case "generate": return generate(args, values);
+    case "list": return list(values);
+    case "show": return show(args, values);
+    case "delete": return remove(args, values);
+    case "export": return exportComic(args, values);
+    case "prune-assets": return pruneAssets(values);
+    default: throw new UsageError(`Unknown command ${command}`);
+  }
+}
+
+main().then(code => {
+  if (code) process.exitCode = code;
+}, error => {
+  console.error(error instanceof Error ? error.message : error);
+  if (error instanceof UsageError || (error as { code?: string }).code?.startsWith("ERR_PARSE_ARGS")) {
+    console.error("Run `npm run cli -- help` for the commands and their options.");
+    process.exitCode = 2;
+  } else {
+    process.exitCode = 1;
+  }
+});
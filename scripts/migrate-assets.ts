@@ -0,0 +1,39 @@
+// One-off migration: moves data URLs stored in panels.image_url and in job
+// reference images into the asset store, then compacts the database.
+// Safe to run more than once. Usage: npm run migrate:assets
+import { db } from "../server/db";
+import { isDataUrl, storeDataUrl } from "../server/assets";
+
+async function migrate() {
+  const panels = db.prepare("SELECT id, image_url FROM panels WHERE image_url LIKE 'data:%'").all();
+  const updatePanel = db.prepare("UPDATE panels SET image_url = ? WHERE id = ?");
+  let migratedPanels = 0;
+  for (const panel of panels) {
+    try {
+      updatePanel.run(await storeDataUrl(panel.image_url), panel.id);
+      migratedPanels++;
+    } catch (error) {
+      console.error(`Panel ${panel.id}: could not convert image`, error);
+    }
+  }
+
+  const jobs = db.prepare("SELECT id, input FROM jobs WHERE input LIKE '%data:%'").all();
+  const updateJob = db.prepare("UPDATE jobs SET input = ? WHERE id = ?");
+  let migratedJobs = 0;
+  for (const job of jobs) {
+    const input = JSON.parse(job.input);
+    if (!isDataUrl(input.referenceImage)) continue;
+    try {
+      input.referenceImage = await storeDataUrl(input.referenceImage);
+      updateJob.run(JSON.stringify(input), job.id);
+      migratedJobs++;
+    } catch (error) {
+      console.error(`Job ${job.id}: could not convert reference image`, error);
+    }
+  }
+
+  if (migratedPanels + migratedJobs > 0) db.exec("VACUUM");
+  console.log(`Migrated ${migratedPanels}/${panels.length} panel images and ${migratedJobs} job reference images.`);
+}
+
+migrate();
@@ -1,77 +1,209 @@
 import express from "express";
 import { createServer as createViteServer } from "vite";
 import path from "path";
-import Database from "better-sqlite3";
+import fs from "fs";
+import dotenv from "dotenv";
 import { v4 as uuidv4 } from "uuid";
+import { z } from "zod";
+import { db } from "./server/db";
+import { apiErrorHandler, apiNotFound, asyncRoute, sendError } from "./server/errors";
+import { idList, requiredText, validate, validateParams } from "./server/validation";
+import { currentUser, registerAuthRoutes } from "./server/auth";
+import { normalizeImageUrl, registerAssetRoutes } from "./server/assets";
+import { registerJobRoutes, resumeJobs } from "./server/jobs";
+import { registerTranslationRoutes } from "./server/translations";
+import { registerExportRoutes } from "./server/export";
+import { registerBackupRoutes } from "./server/backup";
+import { getPanelCharacterIds, registerCharacterRoutes } from "./server/characters";
+import { getPanelBalloons, registerBalloonRoutes } from "./server/balloons";
+import { registerPageRoutes } from "./server/pages";
+import { registerStyleRoutes } from "./server/styles";
+import { changePanel, PanelState, registerHistoryRoutes } from "./server/history";
+import { addVariant, registerVariantRoutes } from "./server/variants";
+import { deleteComic, getComic, listPanels, registerLibraryRoutes } from "./server/library";
+import { registerSeriesRoutes } from "./server/series";
+import { registerPublicShareRoutes, registerShareRoutes, withShareMetadata } from "./server/shares";
+import { registerModerationRoutes } from "./server/moderation";
+import { registerUsageRoutes, trackUsage } from "./server/usage";
+import { registerReadingRoutes } from "./server/reading";
+import { cacheResponses } from "./server/cache";
+import { MAX_ALT_TEXT_LENGTH } from "./src/accessibility";
 
-const db = new Database("minha_hq.db");
-
-// Initialize database
-db.exec(`
-  CREATE TABLE IF NOT EXISTS comics (
-    id TEXT PRIMARY KEY,
-    title TEXT NOT NULL,
-    description TEXT,
-    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
-  );
-
-  CREATE TABLE IF NOT EXISTS panels (
-    id TEXT PRIMARY KEY,
-    comic_id TEXT NOT NULL,
-    image_url TEXT,
-    caption TEXT,
-    order_index INTEGER,
-    FOREIGN KEY (comic_id) REFERENCES comics(id)
-  );
-`);
+dotenv.config({ path: [".env.local", ".env"], quiet: true });
 
 async function startServer() {
+  trackUsage();
+  cacheResponses();
   const app = express();
   const PORT = 3000;
 
-  app.use(express.json({ limit: '50mb' }));
+  // Images are stored as assets, but reference photos still arrive inline as data URLs.
+  app.use(express.json({ limit: '20mb' }));
 
   // API Routes
-  app.get("/api/comics", (req, res) => {
-    const comics = db.prepare("SELECT * FROM comics ORDER BY created_at DESC").all();
-    res.json(comics);
-  });
+  validateParams(app);
+  registerPublicShareRoutes(app);
+  registerAuthRoutes(app);
+  registerLibraryRoutes(app);
+  // Before the export routes, which include the series volume.
+  registerSeriesRoutes(app);
 
-  app.post("/api/comics", (req, res) => {
+  app.post("/api/comics", validate({ body: z.object({ title: requiredText, description: z.string().nullable().default(null) }) }), (req, res) => {
     const { title, description } = req.body;
     const id = uuidv4();
-    db.prepare("INSERT INTO comics (id, title, description) VALUES (?, ?, ?)").run(id, title, description);
-    res.json({ id, title, description });
+    const ownerId = currentUser(req).id;
+    db.prepare("INSERT INTO comics (id, title, description, owner_id) VALUES (?, ?, ?, ?)").run(id, title, description, ownerId);
+    res.json({ id, title, description, owner_id: ownerId });
   });
 
   app.get("/api/comics/:id", (req, res) => {
+    const comic = getComic(req.params.id, currentUser(req).id);
+    if (!comic) return sendError(res, 404, "Comic not found");
+    res.json(comic);
+  });
+
+  app.patch("/api/comics/:id", validate({ body: z.object({ title: requiredText, description: z.string().nullable() }).partial() }), (req, res) => {
     const comic = db.prepare("SELECT * FROM comics WHERE id = ?").get(req.params.id);
-    if (!comic) return res.status(404).json({ error: "Comic not found" });
-    
-    const panels = db.prepare("SELECT * FROM panels WHERE comic_id = ? ORDER BY order_index ASC").all(req.params.id);
-    res.json({ ...comic, panels });
+    if (!comic) return sendError(res, 404, "Comic not found");
+
+    const { title = comic.title, description = comic.description } = req.body;
+    db.prepare("UPDATE comics SET title = ?, description = ? WHERE id = ?").run(title, description, req.params.id);
+    res.json({ ...comic, title, description });
   });
 
   app.delete("/api/comics/:id", (req, res) => {
-    db.prepare("DELETE FROM panels WHERE comic_id = ?").run(req.params.id);
-    db.prepare("DELETE FROM comics WHERE id = ?").run(req.params.id);
+    deleteComic(req.params.id);
     res.json({ success: true });
   });
 
-  app.post("/api/comics/:id/panels", (req, res) => {
-    const { image_url, caption, order_index } = req.body;
+  // Inserting at an existing position shifts the following panels down by one.
+  const insertPanel = db.transaction((comicId: string, panel: { image_url: string | null; caption: string; order_index: number }) => {
     const id = uuidv4();
+    db.prepare("UPDATE panels SET order_index = order_index + 1 WHERE comic_id = ? AND order_index >= ?")
+      .run(comicId, panel.order_index);
     db.prepare("INSERT INTO panels (id, comic_id, image_url, caption, order_index) VALUES (?, ?, ?, ?, ?)")
-      .run(id, req.params.id, image_url, caption, order_index);
-    res.json({ id, image_url, caption, order_index });
+      .run(id, comicId, panel.image_url, panel.caption, panel.order_index);
+    return { id, ...panel, image_status: "idle", image_error: null, visual_description: null, alt_text: null, character_ids: [], balloons: [] };
   });
 
-  // Vite middleware for development
-  if (process.env.NODE_ENV !== "production") {
-    const vite = await createViteServer({
-      server: { middlewareMode: true },
-      appType: "spa",
+  app.post("/api/comics/:id/panels", validate({
+    body: z.object({ caption: z.string().default(""), image_url: z.string().nullish(), order_index: z.int().min(0).optional() }),
+  }), asyncRoute(async (req, res) => {
+    const { caption, order_index } = req.body;
+    let image_url;
+    try {
+      image_url = await normalizeImageUrl(req.body.image_url ?? null);
+    } catch (error) {
+      return sendError(res, 400, "image_url is not a valid image");
+    }
+    const { count } = db.prepare("SELECT COUNT(*) AS count FROM panels WHERE comic_id = ?").get(req.params.id);
+    res.json(insertPanel(req.params.id, { image_url, caption, order_index: Math.min(order_index ?? count, count) }));
+  }));
+
+  // Uploaded images join the variants so the editor can switch back to them.
+  const updatePanel = db.transaction((panelId: string, state: PanelState, previousImage: string | null) => {
+    if (state.image_url && state.image_url !== previousImage) addVariant(panelId, state.image_url, null);
+    changePanel(panelId, state);
+  });
+
+  // Alt text is not part of the undo history; an empty one falls back to the visual description.
+  app.patch("/api/comics/:id/panels/:panelId", validate({
+    body: z.object({ caption: z.string().nullable(), image_url: z.string().nullable(), alt_text: z.string().max(MAX_ALT_TEXT_LENGTH).nullable() }).partial(),
+  }), asyncRoute(async (req, res) => {
+    const panel = db.prepare("SELECT * FROM panels WHERE id = ? AND comic_id = ?").get(req.params.panelId, req.params.id);
+    if (!panel) return sendError(res, 404, "Panel not found");
+
+    const { caption = panel.caption } = req.body;
+    let image_url;
+    try {
+      image_url = await normalizeImageUrl(req.body.image_url ?? panel.image_url);
+    } catch (error) {
+      return sendError(res, 400, "image_url is not a valid image");
+    }
+    updatePanel(panel.id, { caption, image_url }, panel.image_url);
+    if (req.body.alt_text !== undefined) {
+      db.prepare("UPDATE panels SET alt_text = ? WHERE id = ?").run(req.body.alt_text?.trim() || null, panel.id);
+    }
+    res.json({
+      ...db.prepare("SELECT * FROM panels WHERE id = ?").get(panel.id),
+      character_ids: getPanelCharacterIds(panel.id),
+      balloons: getPanelBalloons(panel.id),
     });
+  }));
+
+  // Its balloons, translations, variants and history go with it.
+  const deletePanel = db.transaction((comicId: string, panelId: string) => {
+    const panel = db.prepare("SELECT * FROM panels WHERE id = ? AND comic_id = ?").get(panelId, comicId);
+    if (!panel) return false;
+    db.prepare("DELETE FROM panels WHERE id = ?").run(panelId);
+    db.prepare("UPDATE panels SET order_index = order_index - 1 WHERE comic_id = ? AND order_index > ?")
+      .run(comicId, panel.order_index);
+    return true;
+  });
+
+  app.delete("/api/comics/:id/panels/:panelId", (req, res) => {
+    if (!deletePanel(req.params.id, req.params.panelId)) return sendError(res, 404, "Panel not found");
+    res.json({ success: true });
+  });
+
+  // Rewrites order_index for every panel of the comic in one transaction.
+  // The body must list each existing panel id exactly once.
+  const reorderPanels = db.transaction((comicId: string, panelIds: string[]) => {
+    const existing = db.prepare("SELECT id FROM panels WHERE comic_id = ?").all(comicId).map((p: { id: string }) => p.id);
+    const sameSet = existing.length === panelIds.length
+      && new Set(panelIds).size === panelIds.length
+      && panelIds.every(id => existing.includes(id));
+    if (!sameSet) return false;
+
+    const update = db.prepare("UPDATE panels SET order_index = ? WHERE id = ?");
+    panelIds.forEach((id, index) => update.run(index, id));
+    return true;
+  });
+
+  app.put("/api/comics/:id/panels/order", validate({ body: z.object({ panelIds: idList }) }), (req, res) => {
+    const { panelIds } = req.body;
+    if (!reorderPanels(req.params.id, panelIds)) {
+      return sendError(res, 400, "panelIds must list every panel of the comic exactly once");
+    }
+    res.json(listPanels(req.params.id));
+  });
+
+  registerAssetRoutes(app);
+  registerJobRoutes(app);
+  registerTranslationRoutes(app);
+  registerExportRoutes(app);
+  registerBackupRoutes(app);
+  registerCharacterRoutes(app);
+  registerBalloonRoutes(app);
+  registerPageRoutes(app);
+  registerStyleRoutes(app);
+  registerHistoryRoutes(app);
+  registerVariantRoutes(app);
+  registerShareRoutes(app);
+  registerModerationRoutes(app);
+  registerUsageRoutes(app);
+  registerReadingRoutes(app);
+  app.use("/api", apiNotFound);
+  app.use("/api", apiErrorHandler);
+
+  const vite = process.env.NODE_ENV !== "production"
+    ? await createViteServer({ server: { middlewareMode: true }, appType: "spa" })
+    : null;
+
+  // The read-only reader behind share links; its HTML carries the comic's preview metadata.
+  app.get("/s/:token", async (req, res, next) => {
+    try {
+      const html = vite
+        ? await vite.transformIndexHtml(req.originalUrl, fs.readFileSync(path.join(process.cwd(), "index.html"), "utf8"))
+        : fs.readFileSync(path.join(process.cwd(), "dist", "index.html"), "utf8");
+      res.type("html").send(withShareMetadata(html, req, req.params.token));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Vite middleware for development
+  if (vite) {
     app.use(vite.middlewares);
   } else {
     app.use(express.static(path.join(process.cwd(), "dist")));
@@ -82,6 +214,7 @@ async function startServer() {
 
   app.listen(PORT, "0.0.0.0", () => {
     console.log(`Server running on http://localhost:${PORT}`);
+    resumeJobs();
   });
 }
 
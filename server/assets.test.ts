@@ -0,0 +1,50 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import sharp from "sharp";
+import { db } from "./db";
+import { assetUrl, deleteUnusedAssets, getAsset, storeAsset } from "./assets";
+
+const png = (red: number) => sharp({ create: { width: 4, height: 4, channels: 3, background: { r: red, g: 0, b: 0 } } }).png().toBuffer();
+
+// Assets younger than an hour are spared, so every test ages the ones it stores.
+async function oldAsset(red: number) {
+  const asset = await storeAsset(await png(red), "image/png");
+  db.prepare("UPDATE assets SET created_at = datetime('now', '-2 hours') WHERE hash = ?").run(asset.hash);
+  return asset.hash;
+}
+
+beforeEach(() => {
+  db.exec("DELETE FROM jobs; DELETE FROM panels; DELETE FROM comics; DELETE FROM assets;");
+});
+
+describe("deleteUnusedAssets", () => {
+  it("keeps the reference photo of a job", async () => {
+    const reference = await oldAsset(1);
+    const unused = await oldAsset(2);
+    db.prepare("INSERT INTO jobs (id, type, status, input) VALUES ('job', 'comic', 'failed', ?)")
+      .run(JSON.stringify({ prompt: "A cat", referenceImage: assetUrl(reference) }));
+
+    expect(deleteUnusedAssets()).toBe(1);
+    expect(getAsset(reference)).not.toBeNull();
+    expect(getAsset(unused)).toBeNull();
+  });
+
+  it("spares recent assets", async () => {
+    const recent = (await storeAsset(await png(3), "image/png")).hash;
+
+    expect(deleteUnusedAssets()).toBe(0);
+    expect(getAsset(recent)).not.toBeNull();
+  });
+
+  it("only looks at the given images when there are any", async () => {
+    const inUse = await oldAsset(4);
+    const freed = await oldAsset(5);
+    const elsewhere = await oldAsset(6);
+    db.prepare("INSERT INTO comics (id, title) VALUES ('comic', 'Comic')").run();
+    db.prepare("INSERT INTO panels (id, comic_id, image_url, caption, order_index) VALUES ('panel', 'comic', ?, '', 0)").run(assetUrl(inUse));
+
+    expect(deleteUnusedAssets([assetUrl(inUse), assetUrl(freed), null])).toBe(1);
+    expect(getAsset(inUse)).not.toBeNull();
+    expect(getAsset(freed)).toBeNull();
+    expect(getAsset(elsewhere)).not.toBeNull();
+  });
+});
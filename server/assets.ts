@@ -0,0 +1,213 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import sharp from "sharp";
+import type { Express, Request, Response } from "express";
+import { db } from "./db";
+import { sendError } from "./errors";
+
+export const ASSETS_DIR = path.resolve(process.env.ASSETS_DIR || "assets");
+export const ASSET_URL_PREFIX = "/api/assets/";
+
+const THUMBNAIL_WIDTH = 320;
+const HASH_PATTERN = /^[a-f0-9]{64}$/;
+
+export interface Asset {
+  hash: string;
+  mime_type: string;
+  size: number;
+  width: number | null;
+  height: number | null;
+  thumbnail_hash: string | null;
+}
+
+const sha256 = (data: Buffer) => crypto.createHash("sha256").update(data).digest("hex");
+
+// Blobs are sharded by the first two hex digits to keep directories small.
+const blobPath = (hash: string) => path.join(ASSETS_DIR, hash.slice(0, 2), hash);
+
+function writeBlob(hash: string, data: Buffer) {
+  const target = blobPath(hash);
+  if (fs.existsSync(target)) return;
+  fs.mkdirSync(path.dirname(target), { recursive: true });
+  // Write then rename so a crash never leaves a truncated blob under its final name.
+  const temp = `${target}.${process.pid}.tmp`;
+  fs.writeFileSync(temp, data);
+  fs.renameSync(temp, target);
+}
+
+export function getAsset(hash: string): Asset | null {
+  return db.prepare("SELECT hash, mime_type, size, width, height, thumbnail_hash FROM assets WHERE hash = ?").get(hash) || null;
+}
+
+const insertAsset = db.prepare(
+  "INSERT OR IGNORE INTO assets (hash, mime_type, size, width, height, thumbnail_hash) VALUES (?, ?, ?, ?, ?, ?)"
+);
+
+// Stores an image once under its SHA-256. Storing identical bytes again is a
+// no-op that returns the existing record. Images wider than THUMBNAIL_WIDTH
+// get a WebP thumbnail, itself stored as an asset.
+export async function storeAsset(data: Buffer, mimeType: string): Promise<Asset> {
+  const hash = sha256(data);
+  const existing = getAsset(hash);
+  if (existing) return existing;
+
+  const { width = null, height = null } = await sharp(data).metadata();
+  writeBlob(hash, data);
+
+  let thumbnailHash: string | null = null;
+  if (width && width > THUMBNAIL_WIDTH) {
+    const thumbnail = await sharp(data).resize({ width: THUMBNAIL_WIDTH }).webp({ quality: 80 }).toBuffer({ resolveWithObject: true });
+    thumbnailHash = sha256(thumbnail.data);
+    writeBlob(thumbnailHash, thumbnail.data);
+    insertAsset.run(thumbnailHash, "image/webp", thumbnail.data.length, thumbnail.info.width, thumbnail.info.height, null);
+  }
+
+  insertAsset.run(hash, mimeType, data.length, width, height, thumbnailHash);
+  return getAsset(hash)!;
+}
+
+export function readAsset(hash: string) {
+  const asset = getAsset(hash);
+  if (!asset) return null;
+  return { asset, data: fs.readFileSync(blobPath(hash)) };
+}
+
+export const assetUrl = (hash: string) => `${ASSET_URL_PREFIX}${hash}`;
+
+export function hashFromUrl(url: string | null | undefined) {
+  if (!url?.startsWith(ASSET_URL_PREFIX)) return null;
+  const hash = url.slice(ASSET_URL_PREFIX.length).split(/[/?]/)[0];
+  return HASH_PATTERN.test(hash) ? hash : null;
+}
+
+export function isDataUrl(value: unknown): value is string {
+  return typeof value === "string" && value.startsWith("data:");
+}
+
+function parseDataUrl(dataUrl: string) {
+  const match = /^data:([^;,]+)?(;base64)?,(.*)$/s.exec(dataUrl);
+  if (!match) throw new Error("Invalid data URL");
+  const [, mimeType = "application/octet-stream", base64, payload] = match;
+  const data = base64 ? Buffer.from(payload, "base64") : Buffer.from(decodeURIComponent(payload));
+  return { mimeType, data };
+}
+
+// Neither file extensions nor the MIME types clients declare are trustworthy,
+// so the stored type comes from the magic bytes. Other formats are refused.
+export function sniffMimeType(data: Uint8Array) {
+  const ascii = (start: number, end: number) => String.fromCharCode(...data.subarray(start, end));
+  if (data[0] === 0x89 && ascii(1, 4) === "PNG") return "image/png";
+  if (data[0] === 0xff && data[1] === 0xd8) return "image/jpeg";
+  if (ascii(0, 4) === "GIF8") return "image/gif";
+  if (ascii(0, 4) === "RIFF" && ascii(8, 12) === "WEBP") return "image/webp";
+  return null;
+}
+
+export async function storeDataUrl(dataUrl: string) {
+  const { data } = parseDataUrl(dataUrl);
+  const mimeType = sniffMimeType(data);
+  if (!mimeType) throw new Error("Unsupported image format");
+  const asset = await storeAsset(data, mimeType);
+  return assetUrl(asset.hash);
+}
+
+// Accepts whatever a client may send as an image: data URLs are moved into
+// the store, anything else (asset URLs, null) is kept as is.
+export async function normalizeImageUrl<T>(value: T): Promise<T | string> {
+  return isDataUrl(value) ? storeDataUrl(value) : value;
+}
+
+// Raw bytes behind an image URL as stored in the database: an asset URL or a legacy data URL.
+export function readImageUrl(url: string | null | undefined) {
+  if (!url) return null;
+  if (isDataUrl(url)) return parseDataUrl(url).data;
+  const hash = hashFromUrl(url);
+  return hash ? readAsset(hash)?.data ?? null : null;
+}
+
+// AI providers take inline image data, so asset URLs are expanded back to data URLs.
+export function toDataUrl(url: string | null | undefined) {
+  if (!url) return undefined;
+  const hash = hashFromUrl(url);
+  if (!hash) return url;
+  const stored = readAsset(hash);
+  if (!stored) return undefined;
+  return `data:${stored.asset.mime_type};base64,${stored.data.toString("base64")}`;
+}
+
+// Small version of a stored image for library cards. Data URLs and foreign
+// URLs have no thumbnail and yield null rather than megabytes of base64.
+export function thumbnailUrl(url: string | null | undefined) {
+  const hash = hashFromUrl(url);
+  if (!hash) return null;
+  const asset = getAsset(hash);
+  return asset ? assetUrl(asset.thumbnail_hash || asset.hash) : null;
+}
+
+// Every column that may hold an asset URL. Jobs keep their reference photo in
+// their input, for when they are resumed or retried.
+const ASSET_REFERENCES = [
+  ["panels", "image_url"],
+  ["panel_variants", "image_url"],
+  ["panel_edits", "image_before"],
+  ["panel_edits", "image_after"],
+  ["character_photos", "image_url"],
+  ["jobs", "json_extract(input, '$.referenceImage')"],
+];
+
+// Deletes assets nothing points to any more, with their blobs. Recent assets
+// are spared: an upload or import may have stored them without saving the row yet.
+// `urls` limits the sweep to those images and their thumbnails, for callers
+// that only know what they themselves stopped referencing.
+export function deleteUnusedAssets(urls?: (string | null)[]) {
+  const candidates = urls && new Set<string>();
+  for (const hash of (urls || []).map(hashFromUrl).filter((hash): hash is string => !!hash)) {
+    candidates.add(hash);
+    const thumbnail = getAsset(hash)?.thumbnail_hash;
+    if (thumbnail) candidates.add(thumbnail);
+  }
+
+  const used = new Set<string>();
+  for (const [table, column] of ASSET_REFERENCES) {
+    for (const row of db.prepare(`SELECT ${column} AS url FROM ${table} WHERE ${column} IS NOT NULL`).all()) {
+      const hash = hashFromUrl(row.url);
+      if (hash) used.add(hash);
+    }
+  }
+  for (const hash of [...used]) {
+    const thumbnail = getAsset(hash)?.thumbnail_hash;
+    if (thumbnail) used.add(thumbnail);
+  }
+
+  const unused: string[] = db.prepare("SELECT hash FROM assets WHERE created_at < datetime('now', '-1 hour')").all()
+    .map((asset: { hash: string }) => asset.hash)
+    .filter((hash: string) => !used.has(hash) && (!candidates || candidates.has(hash)));
+  const remove = db.prepare("DELETE FROM assets WHERE hash = ?");
+  db.transaction(() => unused.forEach(hash => remove.run(hash)))();
+  unused.forEach(hash => fs.rmSync(blobPath(hash), { force: true }));
+  return unused.length;
+}
+
+export function sendAsset(hash: string, req: Request, res: Response) {
+  const asset = HASH_PATTERN.test(hash) ? getAsset(hash) : null;
+  if (!asset) return sendError(res, 404, "Asset not found");
+
+  // The content never changes for a given hash, so clients may cache it forever.
+  const etag = `"${asset.hash}"`;
+  res.set("ETag", etag);
+  res.set("Cache-Control", "public, max-age=31536000, immutable");
+  if (req.headers["if-none-match"] === etag) return res.status(304).end();
+
+  res.type(asset.mime_type);
+  res.sendFile(blobPath(asset.hash), { etag: false, lastModified: false, cacheControl: false });
+}
+
+export function registerAssetRoutes(app: Express) {
+  app.get("/api/assets/:hash", (req, res) => sendAsset(req.params.hash, req, res));
+
+  app.get("/api/assets/:hash/thumbnail", (req, res) => {
+    const asset = HASH_PATTERN.test(req.params.hash) ? getAsset(req.params.hash) : null;
+    sendAsset(asset?.thumbnail_hash || req.params.hash, req, res);
+  });
+}
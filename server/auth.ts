@@ -0,0 +1,185 @@
+import type { Express, NextFunction, Request, Response } from "express";
+import crypto from "crypto";
+import { promisify } from "util";
+import { v4 as uuidv4 } from "uuid";
+import { z } from "zod";
+import { db } from "./db";
+import { asyncRoute, sendError } from "./errors";
+import { validate } from "./validation";
+import type { User, UserRole, UserSummary } from "../src/types";
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: User;
+    }
+  }
+}
+
+const scrypt = promisify(crypto.scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+const SESSION_COOKIE = "minha_hq_session";
+const SESSION_DAYS = 30;
+const USERNAME_PATTERN = /^[a-z0-9_.-]{3,32}$/i;
+const MIN_PASSWORD_LENGTH = 8;
+
+// Stored as "scrypt$<salt>$<key>", both hex, so the parameters can change later.
+async function hashPassword(password: string) {
+  const salt = crypto.randomBytes(16);
+  const key = await scrypt(password, salt, 64);
+  return `scrypt$${salt.toString("hex")}$${key.toString("hex")}`;
+}
+
+async function verifyPassword(password: string, stored: string) {
+  const [scheme, salt, key] = stored.split("$");
+  if (scheme !== "scrypt" || !salt || !key) return false;
+  const expected = Buffer.from(key, "hex");
+  const actual = await scrypt(password, Buffer.from(salt, "hex"), expected.length);
+  return crypto.timingSafeEqual(actual, expected);
+}
+
+// Only a hash of the token is stored, so a copy of the database cannot be used to sign in.
+const hashToken = (token: string) => crypto.createHash("sha256").update(token).digest("hex");
+
+function readCookie(req: Request, name: string) {
+  for (const part of (req.headers.cookie || "").split(";")) {
+    const [key, ...value] = part.trim().split("=");
+    if (key === name) return decodeURIComponent(value.join("="));
+  }
+  return null;
+}
+
+function startSession(req: Request, res: Response, userId: string) {
+  const token = crypto.randomBytes(32).toString("base64url");
+  const expires = new Date(Date.now() + SESSION_DAYS * 24 * 60 * 60 * 1000);
+  db.transaction(() => {
+    db.prepare("DELETE FROM sessions WHERE expires_at < ?").run(new Date().toISOString());
+    db.prepare("INSERT INTO sessions (token_hash, user_id, expires_at) VALUES (?, ?, ?)").run(hashToken(token), userId, expires.toISOString());
+  })();
+  res.cookie(SESSION_COOKIE, token, { httpOnly: true, sameSite: "lax", secure: req.secure, expires, path: "/" });
+}
+
+function sessionUser(req: Request): User | null {
+  const token = readCookie(req, SESSION_COOKIE);
+  if (!token) return null;
+  return db.prepare(`
+    SELECT u.id, u.username, u.role FROM sessions s JOIN users u ON u.id = s.user_id
+    WHERE s.token_hash = ? AND s.expires_at > ?
+  `).get(hashToken(token), new Date().toISOString()) || null;
+}
+
+// The signed-in user; only call this from routes behind the authentication middleware.
+export const currentUser = (req: Request) => req.user!;
+
+export const isAdmin = (user: User) => user.role === "admin";
+
+// Admins may touch anything; everyone else only what they own.
+export const canAccess = (user: User, ownerId: string | null | undefined) => isAdmin(user) || ownerId === user.id;
+
+export function findUser(id: string): User | null {
+  return db.prepare("SELECT id, username, role FROM users WHERE id = ?").get(id) || null;
+}
+
+// Comics the user may open, or null when it does not exist for them. A comic
+// owned by someone else looks the same as a missing one.
+export function accessibleComic(user: User, comicId: string) {
+  const comic = db.prepare("SELECT id, owner_id FROM comics WHERE id = ?").get(comicId);
+  return comic && canAccess(user, comic.owner_id) ? comic : null;
+}
+
+function listUsers(): UserSummary[] {
+  return db.prepare(`
+    SELECT u.id, u.username, u.role, u.created_at, (SELECT COUNT(*) FROM comics c WHERE c.owner_id = u.id) AS comic_count
+    FROM users u ORDER BY u.username COLLATE NOCASE ASC
+  `).all();
+}
+
+// The first account administers the instance and adopts everything created before accounts existed.
+const createUser = db.transaction((username: string, passwordHash: string): User => {
+  const { count } = db.prepare("SELECT COUNT(*) AS count FROM users").get();
+  const role: UserRole = count === 0 ? "admin" : "user";
+  const id = uuidv4();
+  db.prepare("INSERT INTO users (id, username, password_hash, role) VALUES (?, ?, ?, ?)").run(id, username, passwordHash, role);
+  if (role === "admin") {
+    for (const table of ["comics", "characters", "style_presets", "jobs"]) {
+      db.prepare(`UPDATE ${table} SET owner_id = ? WHERE owner_id IS NULL`).run(id);
+    }
+  }
+  return { id, username, role };
+});
+
+export function requireAdmin(req: Request, res: Response, next: NextFunction) {
+  if (!isAdmin(currentUser(req))) return sendError(res, 403, "Admins only");
+  next();
+}
+
+// Registers the account routes and puts every other /api route behind a
+// session. Must run before any other route is registered.
+export function registerAuthRoutes(app: Express) {
+  const registration = z.object({
+    username: z.string().regex(USERNAME_PATTERN, "must be 3 to 32 letters, digits, dots, dashes or underscores"),
+    password: z.string().min(MIN_PASSWORD_LENGTH, `must have at least ${MIN_PASSWORD_LENGTH} characters`),
+  });
+
+  app.post("/api/auth/register", validate({ body: registration }), asyncRoute(async (req, res) => {
+    const { username, password } = req.body;
+    if (db.prepare("SELECT id FROM users WHERE username = ?").get(username)) {
+      return sendError(res, 409, "This username is taken");
+    }
+    const user = createUser(username, await hashPassword(password));
+    startSession(req, res, user.id);
+    res.status(201).json(user);
+  }));
+
+  app.post("/api/auth/login", validate({ body: z.object({ username: z.string(), password: z.string() }) }), asyncRoute(async (req, res) => {
+    const { username, password } = req.body;
+    const row = db.prepare("SELECT id, username, role, password_hash FROM users WHERE username = ?").get(username);
+    if (!row || !(await verifyPassword(password, row.password_hash))) {
+      return sendError(res, 401, "Invalid username or password");
+    }
+    startSession(req, res, row.id);
+    res.json({ id: row.id, username: row.username, role: row.role });
+  }));
+
+  app.post("/api/auth/logout", (req, res) => {
+    const token = readCookie(req, SESSION_COOKIE);
+    if (token) db.prepare("DELETE FROM sessions WHERE token_hash = ?").run(hashToken(token));
+    res.clearCookie(SESSION_COOKIE, { path: "/" });
+    res.json({ success: true });
+  });
+
+  app.get("/api/auth/me", (req, res) => {
+    const user = sessionUser(req);
+    if (!user) return sendError(res, 401, "Not signed in");
+    res.json(user);
+  });
+
+  app.use("/api", (req, res, next) => {
+    const user = sessionUser(req);
+    if (!user) return sendError(res, 401, "Not signed in");
+    req.user = user;
+    next();
+  });
+
+  // Every route under a comic answers 404 for comics the user cannot access.
+  app.use("/api/comics/:id", (req, res, next) => {
+    if (!accessibleComic(currentUser(req), req.params.id)) return sendError(res, 404, "Comic not found");
+    next();
+  });
+
+  app.get("/api/users", requireAdmin, (req, res) => {
+    res.json(listUsers());
+  });
+
+  app.patch("/api/users/:id", requireAdmin, validate({ body: z.object({ role: z.enum(["user", "admin"]) }) }), (req, res) => {
+    const user = findUser(req.params.id);
+    if (!user) return sendError(res, 404, "User not found");
+    const { role } = req.body;
+    // Someone must always be able to manage the instance.
+    if (user.id === currentUser(req).id && role !== "admin") {
+      return sendError(res, 400, "Admins cannot remove their own admin role");
+    }
+    db.prepare("UPDATE users SET role = ? WHERE id = ?").run(role, user.id);
+    res.json(findUser(user.id));
+  });
+}
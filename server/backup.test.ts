@@ -0,0 +1,88 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import { strToU8, zipSync } from "fflate";
+import sharp from "sharp";
+import { db } from "./db";
+import { assetUrl, storeAsset } from "./assets";
+import { DEFAULT_BALLOON, getPanelBalloons } from "./balloons";
+import { getComicSettings } from "./styles";
+import { BundleError, createBundle, importArchive } from "./backup";
+
+const OWNER = "owner";
+
+const png = () => sharp({ create: { width: 4, height: 4, channels: 3, background: "#c00" } }).png().toBuffer();
+
+const manifest = (comic: object) => ({
+  format: "minha-hq-bundle",
+  version: 1,
+  exported_at: "",
+  comics: [{ title: "Imported", panels: [], ...comic }],
+});
+
+const archive = (content: object, files: Record<string, Uint8Array> = {}) =>
+  Buffer.from(zipSync({ "manifest.json": strToU8(JSON.stringify(content)), ...files }));
+
+const importedPanels = (comicId: string) =>
+  db.prepare("SELECT id, caption, image_url FROM panels WHERE comic_id = ? ORDER BY order_index").all(comicId);
+
+beforeAll(() => {
+  db.prepare("INSERT INTO users (id, username, password_hash, role) VALUES (?, 'ana', '', 'admin')").run(OWNER);
+});
+
+describe("importArchive", () => {
+  it("imports what createBundle exports", async () => {
+    const image = await storeAsset(await png(), "image/png");
+    db.prepare("INSERT INTO comics (id, title, owner_id) VALUES ('original', 'Original', ?)").run(OWNER);
+    db.prepare("INSERT INTO panels (id, comic_id, image_url, caption, order_index) VALUES ('p1', 'original', ?, 'First', 0)").run(assetUrl(image.hash));
+    db.prepare("INSERT INTO panels (id, comic_id, image_url, caption, order_index) VALUES ('p2', 'original', NULL, 'Second', 1)").run();
+
+    const [imported] = await importArchive(OWNER, createBundle(["original"]), "Fallback");
+
+    expect(imported.title).toBe("Original (2)");
+    expect(importedPanels(imported.id)).toMatchObject([
+      { caption: "First", image_url: assetUrl(image.hash) },
+      { caption: "Second", image_url: null },
+    ]);
+  });
+
+  it("fills the fields a balloon leaves out from the defaults", async () => {
+    const bundle = archive(manifest({ panels: [{ caption: "", balloons: [{ text: "Oi!" }] }] }));
+
+    const [imported] = await importArchive(OWNER, bundle, "Fallback");
+
+    const [panel] = importedPanels(imported.id);
+    const { type, x, y, width, height } = DEFAULT_BALLOON;
+    expect(getPanelBalloons(panel.id)).toMatchObject([{ type, x, y, width, height, text: "Oi!" }]);
+  });
+
+  it("keeps settings the API would accept", async () => {
+    const settings = { panel_count: 6, genre: "comedy", tone: null, audience: null, style_id: "s", style_name: "S", style_prompt: "ink" };
+
+    const [imported] = await importArchive(OWNER, archive(manifest({ settings })), "Fallback");
+
+    expect(getComicSettings(imported.id)).toMatchObject(settings);
+  });
+
+  it("rejects a panel count outside the range the API allows", async () => {
+    const settings = { panel_count: 1000, genre: null, tone: null, audience: null, style_id: "s", style_name: "S", style_prompt: "ink" };
+
+    await expect(importArchive(OWNER, archive(manifest({ settings })), "Fallback"))
+      .rejects.toThrow(/^Invalid manifest\.json: comics\.0\.settings\.panel_count/);
+  });
+
+  it("rejects a manifest that does not match the format", async () => {
+    const bundle = archive(manifest({ panels: [{ caption: 42 }] }));
+
+    await expect(importArchive(OWNER, bundle, "Fallback")).rejects.toThrow(BundleError);
+    await expect(importArchive(OWNER, bundle, "Fallback")).rejects.toThrow(/^Invalid manifest\.json: comics\.0\.panels\.0\.caption/);
+  });
+
+  it("rejects archives that declare more than 1 GB unpacked", async () => {
+    // A small file whose central directory entry claims 2 GB, as a zip bomb would.
+    const bundle = archive(manifest({}), { "images/huge.png": new Uint8Array(16) });
+    const entry = bundle.lastIndexOf(Buffer.from("images/huge.png")) - 46;
+    expect(bundle.readUInt32LE(entry)).toBe(0x02014b50);
+    bundle.writeUInt32LE(2 * 1024 ** 3, entry + 24);
+
+    await expect(importArchive(OWNER, bundle, "Fallback")).rejects.toThrow("The archive unpacks to more than 1 GB");
+  });
+});
@@ -0,0 +1,423 @@
+import express from "express";
+import type { Express, Response } from "express";
+import { strToU8, strFromU8, unzipSync, zipSync, Zippable } from "fflate";
+import { v4 as uuidv4 } from "uuid";
+import { z } from "zod";
+import { db } from "./db";
+import { asyncRoute, sendError } from "./errors";
+import { validate } from "./validation";
+import { assetUrl, hashFromUrl, readAsset, readImageUrl, sniffMimeType, storeAsset } from "./assets";
+import { slugify } from "./export";
+import { currentUser } from "./auth";
+import { getComicTags, setComicTags } from "./library";
+import { MAX_TAG_LENGTH, MAX_TAGS, normalizeTags } from "../src/library";
+import { MAX_ALT_TEXT_LENGTH } from "../src/accessibility";
+import { createCharacter, findCharacterByName, getPanelCharacterIds, setPanelCharacters } from "./characters";
+import { addBalloon, applyBalloonFields, balloonInput, DEFAULT_BALLOON, getPanelBalloons } from "./balloons";
+import { getPageTemplates, setPageTemplates } from "./pages";
+import { getComicSettings, saveComicSettings } from "./styles";
+import { createSeries, getContinuity, saveContinuity, setComicSeries } from "./series";
+import { DEFAULT_PAGE_TEMPLATE, isPageTemplate } from "../src/layouts";
+import { AUDIENCES, GENRES, MAX_PANEL_COUNT, MIN_PANEL_COUNT, TONES } from "../src/generation";
+
+// A bundle is a zip with manifest.json and the panel images under images/,
+// named by hash so an image shared by several panels is stored once.
+const BUNDLE_FORMAT = "minha-hq-bundle";
+const BUNDLE_VERSION = 1;
+const MAX_UPLOAD = "500mb";
+// What the files of an archive may add up to once unpacked, as the archive declares them.
+const MAX_UNPACKED_BYTES = 1024 ** 3;
+
+const EXTENSIONS: Record<string, string> = {
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "image/webp": "webp",
+  "image/gif": "gif",
+};
+const MIME_TYPES: Record<string, string> = { png: "image/png", jpg: "image/jpeg", jpeg: "image/jpeg", webp: "image/webp", gif: "image/gif" };
+
+export class BundleError extends Error {}
+
+// SQLite's CURRENT_TIMESTAMP format, for rows inserted with an explicit created_at.
+const sqliteNow = () => new Date().toISOString().replace("T", " ").slice(0, 19);
+
+// What an import accepts as manifest.json, and what an export writes. Fields
+// added by later versions of the format are optional, so older bundles still import.
+const translationFlag = z.boolean().default(false);
+
+const bundlePanel = z.object({
+  caption: z.string().default(""),
+  image: z.string().nullable().default(null),
+  visual_description: z.string().nullable().optional(),
+  alt_text: z.string().nullable().optional(),
+  // Character names, resolved against BundleManifest.characters on import.
+  characters: z.array(z.string()).optional(),
+  translations: z.record(z.string(), z.object({ caption: z.string(), is_manual: translationFlag })).default({}),
+  // Same checks as the API, so a hand-edited manifest cannot store out-of-range
+  // positions; missing fields are filled from DEFAULT_BALLOON there too.
+  balloons: z.array(balloonInput.extend({
+    translations: z.record(z.string(), z.object({ text: z.string(), is_manual: translationFlag })).default({}),
+  })).optional(),
+});
+
+const bundleCharacter = z.object({
+  name: z.string().trim().min(1, "is required"),
+  description: z.string().default(""),
+  photos: z.array(z.string()).default([]),
+});
+
+const bundleSeries = z.object({ title: z.string(), description: z.string().nullable().default(null) });
+
+const bundleComic = z.object({
+  title: z.string().default(""),
+  description: z.string().nullable().default(null),
+  created_at: z.string().default(sqliteNow),
+  panels: z.array(bundlePanel),
+  page_templates: z.array(z.string()).optional(),
+  settings: z.object({
+    panel_count: z.int().min(MIN_PANEL_COUNT).max(MAX_PANEL_COUNT).nullable().default(null),
+    genre: z.enum(GENRES).nullable().default(null),
+    tone: z.enum(TONES).nullable().default(null),
+    audience: z.enum(AUDIENCES).nullable().default(null),
+    style_id: z.string(),
+    style_name: z.string(),
+    style_prompt: z.string(),
+  }).nullable().optional(),
+  tags: z.array(z.string()).optional(),
+  // Index into BundleManifest.series, with the comic's chapter number there.
+  series: z.object({ index: z.int().min(0), chapter_number: z.number() }).nullable().optional(),
+  continuity: z.object({ summary: z.string(), open_threads: z.array(z.string()) }).nullable().optional(),
+  translations: z.array(z.object({
+    language: z.string(),
+    title: z.string().nullable(),
+    description: z.string().nullable(),
+    title_is_manual: translationFlag,
+    description_is_manual: translationFlag,
+  })).default([]),
+});
+
+const bundleManifest = z.object({
+  format: z.literal(BUNDLE_FORMAT),
+  version: z.number(),
+  exported_at: z.string().default(""),
+  characters: z.array(bundleCharacter).optional(),
+  series: z.array(bundleSeries).optional(),
+  comics: z.array(bundleComic),
+});
+
+type BundleCharacter = z.infer<typeof bundleCharacter>;
+type BundleSeries = z.infer<typeof bundleSeries>;
+type BundleComic = z.infer<typeof bundleComic>;
+type BundleManifest = z.infer<typeof bundleManifest>;
+
+const mimeFromName = (name: string) => MIME_TYPES[name.split(".").pop()!.toLowerCase()];
+
+// `characterIds` adds characters beyond those appearing in the comics, for full-library backups.
+export function createBundle(comicIds: string[], characterIds: string[] = []): Buffer {
+  const files: Zippable = {};
+  const comics: BundleComic[] = [];
+  const characters = new Map<string, BundleCharacter>();
+  const series = new Map<string, BundleSeries>();
+
+  const addImage = (url: string | null) => {
+    const hash = hashFromUrl(url);
+    const stored = hash ? readAsset(hash) : null;
+    // Legacy data URLs are exported too; they are re-hashed on import anyway.
+    const data = stored?.data ?? readImageUrl(url);
+    if (!data) return null;
+    const name = `images/${hash ?? uuidv4()}.${EXTENSIONS[sniffMimeType(data) ?? ""] ?? "bin"}`;
+    files[name] = [data, { level: 0 }];
+    return name;
+  };
+
+  // Characters travel with the comics they appear in.
+  const addCharacter = (characterId: string) => {
+    if (!characters.has(characterId)) {
+      const character = db.prepare("SELECT * FROM characters WHERE id = ?").get(characterId);
+      const photos = db.prepare("SELECT image_url FROM character_photos WHERE character_id = ? ORDER BY order_index ASC").all(characterId);
+      characters.set(characterId, {
+        name: character.name,
+        description: character.description || "",
+        photos: photos.map((photo: { image_url: string }) => addImage(photo.image_url)).filter((name: string | null): name is string => !!name),
+      });
+    }
+    return characters.get(characterId)!.name;
+  };
+  const addCharacters = (panelId: string) => getPanelCharacterIds(panelId).map(addCharacter);
+
+  // Series travel with their chapters; chapters left out of the bundle leave gaps that close on import.
+  const addSeries = (comic: { series_id: string | null; chapter_number: number | null }) => {
+    if (!comic.series_id) return null;
+    if (!series.has(comic.series_id)) {
+      const row = db.prepare("SELECT title, description FROM series WHERE id = ?").get(comic.series_id);
+      series.set(comic.series_id, { title: row.title, description: row.description });
+    }
+    return { index: [...series.keys()].indexOf(comic.series_id), chapter_number: comic.chapter_number ?? 1 };
+  };
+
+  for (const id of comicIds) {
+    const comic = db.prepare("SELECT * FROM comics WHERE id = ?").get(id);
+    if (!comic) continue;
+    const panels = db.prepare("SELECT * FROM panels WHERE comic_id = ? ORDER BY order_index ASC").all(id);
+    const panelTranslations = db.prepare("SELECT language, caption, is_manual FROM panel_translations WHERE panel_id = ?");
+    const balloonTranslations = db.prepare("SELECT language, text, is_manual FROM balloon_translations WHERE balloon_id = ?");
+
+    comics.push({
+      title: comic.title,
+      description: comic.description,
+      created_at: comic.created_at,
+      page_templates: getPageTemplates(id),
+      settings: getComicSettings(id),
+      tags: getComicTags(id),
+      series: addSeries(comic),
+      continuity: getContinuity(id),
+      panels: panels.map((panel: { id: string; caption: string | null; image_url: string | null; visual_description: string | null; alt_text: string | null }) => ({
+        caption: panel.caption || "",
+        image: addImage(panel.image_url),
+        visual_description: panel.visual_description,
+        alt_text: panel.alt_text,
+        characters: addCharacters(panel.id),
+        translations: Object.fromEntries(panelTranslations.all(panel.id).map((t: { language: string; caption: string; is_manual: number }) =>
+          [t.language, { caption: t.caption, is_manual: !!t.is_manual }])),
+        balloons: getPanelBalloons(panel.id).map(({ id, order_index, ...balloon }) => ({
+          ...balloon,
+          translations: Object.fromEntries(balloonTranslations.all(id).map((t: { language: string; text: string; is_manual: number }) =>
+            [t.language, { text: t.text, is_manual: !!t.is_manual }])),
+        })),
+      })),
+      translations: db.prepare("SELECT * FROM comic_translations WHERE comic_id = ? ORDER BY language").all(id).map((t: {
+        language: string; title: string | null; description: string | null; title_is_manual: number; description_is_manual: number;
+      }) => ({
+        language: t.language,
+        title: t.title,
+        description: t.description,
+        title_is_manual: !!t.title_is_manual,
+        description_is_manual: !!t.description_is_manual,
+      })),
+    });
+  }
+
+  characterIds.forEach(addCharacter);
+
+  const manifest: BundleManifest = {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    exported_at: new Date().toISOString(),
+    characters: [...characters.values()],
+    series: [...series.values()],
+    comics,
+  };
+  files["manifest.json"] = strToU8(JSON.stringify(manifest, null, 2));
+  return Buffer.from(zipSync(files));
+}
+
+// Appends " (2)", " (3)", ... until the title is unused in the library and in this import.
+function uniqueTitle(title: string, taken: Set<string>) {
+  let candidate = title;
+  for (let n = 2; taken.has(candidate.toLowerCase()); n++) candidate = `${title} (${n})`;
+  taken.add(candidate.toLowerCase());
+  return candidate;
+}
+
+const unescapeXml = (text: string) =>
+  text.replace(/&lt;/g, "<").replace(/&gt;/g, ">").replace(/&quot;/g, "\"").replace(/&apos;/g, "'").replace(/&amp;/g, "&");
+
+function readComicInfo(files: Record<string, Uint8Array>) {
+  const name = Object.keys(files).find(file => file.split("/").pop()!.toLowerCase() === "comicinfo.xml");
+  const xml = name ? strFromU8(files[name]) : "";
+  const field = (tag: string) => {
+    const match = new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`).exec(xml);
+    return match ? unescapeXml(match[1]).trim() : null;
+  };
+  return { title: field("Title"), summary: field("Summary") };
+}
+
+// A CBZ carries no captions: every page becomes an uncaptioned panel, in file name order.
+function comicFromCbz(files: Record<string, Uint8Array>, fallbackTitle: string): BundleComic {
+  const pages = Object.keys(files)
+    .filter(name => mimeFromName(name) && !name.startsWith("__MACOSX/") && !name.split("/").pop()!.startsWith("."))
+    .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+  if (!pages.length) throw new BundleError("The archive contains no images");
+
+  const info = readComicInfo(files);
+  return {
+    title: info.title || fallbackTitle,
+    description: info.summary,
+    created_at: sqliteNow(),
+    panels: pages.map(image => ({ caption: "", image, translations: {} })),
+    translations: [],
+  };
+}
+
+function parseManifest(files: Record<string, Uint8Array>): BundleManifest | null {
+  if (!files["manifest.json"]) return null;
+  let manifest;
+  try {
+    manifest = JSON.parse(strFromU8(files["manifest.json"]));
+  } catch {
+    throw new BundleError("manifest.json is not valid JSON");
+  }
+  if (manifest?.format !== BUNDLE_FORMAT || !Array.isArray(manifest.comics)) throw new BundleError("Not a Minha HQ bundle");
+  if (manifest.version > BUNDLE_VERSION) throw new BundleError(`Bundle version ${manifest.version} is newer than this app supports`);
+  const result = bundleManifest.safeParse(manifest);
+  if (!result.success) {
+    const [issue] = result.error.issues;
+    throw new BundleError(`Invalid manifest.json: ${issue.path.join(".")} ${issue.message}`);
+  }
+  return result.data;
+}
+
+// Imports a bundle or a CBZ archive. Everything gets fresh ids, so importing
+// the same file twice yields two copies rather than overwriting anything.
+// Everything imported goes into the library of `ownerId`.
+export async function importArchive(ownerId: string, archive: Buffer, fallbackTitle: string) {
+  // Files are unpacked into buffers of their declared size, so adding those up
+  // first keeps a small archive from unpacking into more than memory can hold.
+  let unpacked = 0;
+  let files: Record<string, Uint8Array>;
+  try {
+    files = unzipSync(new Uint8Array(archive), { filter: file => (unpacked += file.originalSize) <= MAX_UNPACKED_BYTES });
+  } catch {
+    throw new BundleError("The file is not a zip archive");
+  }
+  if (unpacked > MAX_UNPACKED_BYTES) throw new BundleError("The archive unpacks to more than 1 GB");
+
+  const manifest = parseManifest(files);
+  const comics = manifest?.comics ?? [comicFromCbz(files, fallbackTitle)];
+  const characters = manifest?.characters ?? [];
+
+  // Images go into the asset store first; the database rows are then written in one transaction.
+  const images = new Map<string, string>();
+  const storeImage = async (name: string) => {
+    if (images.has(name)) return;
+    const data = files[name];
+    if (!data) throw new BundleError(`Missing image ${name}`);
+    const mimeType = sniffMimeType(data);
+    if (!mimeType) throw new BundleError(`${name} is not a supported image`);
+    const asset = await storeAsset(Buffer.from(data), mimeType);
+    images.set(name, assetUrl(asset.hash));
+  };
+  for (const comic of comics) {
+    for (const panel of comic.panels) if (panel.image) await storeImage(panel.image);
+  }
+  for (const character of characters) {
+    for (const photo of character.photos) await storeImage(photo);
+  }
+
+  const taken = new Set<string>(db.prepare("SELECT title FROM comics WHERE owner_id = ?").all(ownerId).map((c: { title: string }) => c.title.toLowerCase()));
+  const insertComic = db.prepare("INSERT INTO comics (id, title, description, created_at, owner_id) VALUES (?, ?, ?, ?, ?)");
+  const insertPanel = db.prepare("INSERT INTO panels (id, comic_id, image_url, caption, order_index, visual_description, alt_text) VALUES (?, ?, ?, ?, ?, ?, ?)");
+  const optionalText = (value: string | null | undefined, maxLength?: number) => value?.trim() ? value.trim().slice(0, maxLength) : null;
+  const insertComicTranslation = db.prepare(`
+    INSERT INTO comic_translations (comic_id, language, title, description, title_is_manual, description_is_manual)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `);
+  const insertPanelTranslation = db.prepare("INSERT INTO panel_translations (panel_id, language, caption, is_manual) VALUES (?, ?, ?, ?)");
+  const insertBalloonTranslation = db.prepare("INSERT INTO balloon_translations (balloon_id, language, text, is_manual) VALUES (?, ?, ?, ?)");
+
+  return db.transaction(() => {
+    // Characters are shared across the library: a name that already exists is reused, not duplicated.
+    const characterIds = new Map<string, string>();
+    for (const character of characters) {
+      const existing = findCharacterByName(ownerId, character.name);
+      const id = existing ? existing.id : createCharacter(ownerId, character.name, character.description, character.photos.map(photo => images.get(photo)!)).id;
+      characterIds.set(character.name.trim().toLowerCase(), id);
+    }
+
+    const chapters: { id: string; series: number; chapter_number: number }[] = [];
+    const imported = comics.map(comic => {
+      const id = uuidv4();
+      const title = uniqueTitle(comic.title || fallbackTitle, taken);
+      insertComic.run(id, title, comic.description, comic.created_at, ownerId);
+      // Templates this version does not know fall back to the default layout.
+      setPageTemplates(id, (comic.page_templates || []).map(template => isPageTemplate(template) ? template : DEFAULT_PAGE_TEMPLATE));
+      if (comic.settings?.style_prompt) saveComicSettings(id, comic.settings);
+      const tags = (comic.tags || []).filter(tag => tag.trim().length <= MAX_TAG_LENGTH);
+      setComicTags(id, normalizeTags(tags).slice(0, MAX_TAGS));
+      if (comic.continuity) saveContinuity(id, comic.continuity.summary, comic.continuity.open_threads);
+      if (comic.series && manifest?.series?.[comic.series.index]) {
+        chapters.push({ id, series: comic.series.index, chapter_number: comic.series.chapter_number });
+      }
+
+      comic.panels.forEach((panel, index) => {
+        const panelId = uuidv4();
+        insertPanel.run(panelId, id, panel.image ? images.get(panel.image) : null, panel.caption, index,
+          optionalText(panel.visual_description), optionalText(panel.alt_text, MAX_ALT_TEXT_LENGTH));
+        const panelCharacters = (panel.characters || []).map(name => characterIds.get(name.trim().toLowerCase()));
+        setPanelCharacters(panelId, panelCharacters.filter((characterId): characterId is string => !!characterId));
+        for (const [language, translation] of Object.entries(panel.translations)) {
+          insertPanelTranslation.run(panelId, language, translation.caption, translation.is_manual ? 1 : 0);
+        }
+        for (const { translations, ...balloon } of panel.balloons || []) {
+          const balloonId = addBalloon(panelId, applyBalloonFields(balloon, DEFAULT_BALLOON));
+          for (const [language, translation] of Object.entries(translations)) {
+            insertBalloonTranslation.run(balloonId, language, translation.text, translation.is_manual ? 1 : 0);
+          }
+        }
+      });
+      for (const t of comic.translations) {
+        insertComicTranslation.run(id, t.language, t.title, t.description, t.title_is_manual ? 1 : 0, t.description_is_manual ? 1 : 0);
+      }
+      return { id, title };
+    });
+
+    // Imported series are always new, like the comics in them.
+    const seriesIds = new Map<number, string>();
+    chapters.sort((a, b) => a.chapter_number - b.chapter_number).forEach(chapter => {
+      if (!seriesIds.has(chapter.series)) {
+        const { title, description } = manifest!.series![chapter.series];
+        seriesIds.set(chapter.series, createSeries(ownerId, title || fallbackTitle, description ?? "", []));
+      }
+      setComicSeries(chapter.id, seriesIds.get(chapter.series)!);
+    });
+    return imported;
+  })();
+}
+
+const sendBundle = (res: Response, filename: string, bundle: Buffer) => {
+  res.set({
+    "Content-Type": "application/zip",
+    "Content-Length": String(bundle.length),
+    "Content-Disposition": `attachment; filename="${filename}"`,
+  });
+  res.send(bundle);
+};
+
+export function registerBackupRoutes(app: Express) {
+  // The signed-in user's own library, admins included.
+  app.get("/api/backup", (req, res) => {
+    const ownerId = currentUser(req).id;
+    const ids = db.prepare("SELECT id FROM comics WHERE owner_id = ? ORDER BY created_at ASC").all(ownerId).map((c: { id: string }) => c.id);
+    const characterIds = db.prepare("SELECT id FROM characters WHERE owner_id = ? ORDER BY name").all(ownerId).map((c: { id: string }) => c.id);
+    sendBundle(res, `minha-hq-backup-${new Date().toISOString().slice(0, 10)}.zip`, createBundle(ids, characterIds));
+  });
+
+  app.get("/api/comics/:id/bundle", (req, res) => {
+    const comic = db.prepare("SELECT id, title FROM comics WHERE id = ?").get(req.params.id);
+    if (!comic) return sendError(res, 404, "Comic not found");
+    sendBundle(res, `${slugify(comic.title)}.minha-hq.zip`, createBundle([comic.id]));
+  });
+
+  // Every chapter of the series, to be imported as a new series.
+  app.get("/api/series/:id/bundle", (req, res) => {
+    const series = db.prepare("SELECT id, title FROM series WHERE id = ?").get(req.params.id);
+    const ids = db.prepare("SELECT id FROM comics WHERE series_id = ? ORDER BY chapter_number ASC").all(series.id).map((c: { id: string }) => c.id);
+    sendBundle(res, `${slugify(series.title)}.minha-hq.zip`, createBundle(ids));
+  });
+
+  // The archive is sent as the raw request body; `filename` names CBZ imports without ComicInfo.xml.
+  const importQuery = z.object({ filename: z.string().default("") });
+
+  app.post("/api/import", express.raw({ type: () => true, limit: MAX_UPLOAD }), validate({ query: importQuery }), asyncRoute(async (req, res) => {
+    if (!Buffer.isBuffer(req.body) || !req.body.length) return sendError(res, 400, "Empty upload");
+    const filename = String(req.query.filename).replace(/\.[^.]+$/, "").trim() || "HQ importada";
+
+    try {
+      res.status(201).json({ comics: await importArchive(currentUser(req).id, req.body, filename) });
+    } catch (error) {
+      if (error instanceof BundleError) return sendError(res, 400, error.message);
+      console.error("Import failed:", error);
+      sendError(res, 500, "Import failed");
+    }
+  }));
+}
@@ -0,0 +1,127 @@
+import type { Express } from "express";
+import { v4 as uuidv4 } from "uuid";
+import { z } from "zod";
+import { db } from "./db";
+import { sendError } from "./errors";
+import { validate } from "./validation";
+import { BALLOON_TYPES, clamp01, defaultBalloonLayout, MIN_BALLOON_SIZE } from "../src/balloons";
+import type { Balloon, BalloonType } from "../src/types";
+
+type BalloonFields = Omit<Balloon, "id" | "order_index">;
+
+// Fallbacks for fields a request leaves out: a speech balloon in the middle of the panel.
+export const DEFAULT_BALLOON: BalloonFields = {
+  type: "speech", speaker: null, text: "", x: 0.3, y: 0.3, width: 0.4, height: 0.2, tail_x: null, tail_y: null,
+};
+
+export function getPanelBalloons(panelId: string): Balloon[] {
+  return db.prepare("SELECT id, order_index, type, speaker, text, x, y, width, height, tail_x, tail_y FROM panel_balloons WHERE panel_id = ? ORDER BY order_index ASC").all(panelId);
+}
+
+const insertBalloon = db.prepare(`
+  INSERT INTO panel_balloons (id, panel_id, order_index, type, speaker, text, x, y, width, height, tail_x, tail_y)
+  VALUES (@id, @panel_id, @order_index, @type, @speaker, @text, @x, @y, @width, @height, @tail_x, @tail_y)
+`);
+
+export function addBalloon(panelId: string, fields: BalloonFields) {
+  const id = uuidv4();
+  const { count } = db.prepare("SELECT COUNT(*) AS count FROM panel_balloons WHERE panel_id = ?").get(panelId);
+  insertBalloon.run({ id, panel_id: panelId, order_index: count, ...fields });
+  return id;
+}
+
+// Places generated dialogue with the default layout, in reading order.
+export function addStoryBalloons(panelId: string, elements: { type: BalloonType; speaker?: string | null; text: string }[]) {
+  const layouts = defaultBalloonLayout(elements.map(element => element.type));
+  elements.forEach((element, index) => {
+    addBalloon(panelId, { type: element.type, speaker: element.speaker || null, text: element.text, ...layouts[index] });
+  });
+}
+
+export const isBalloonType = (value: unknown): value is BalloonType => BALLOON_TYPES.includes(value as BalloonType);
+
+// A full or partial balloon as sent by the editor or found in an imported bundle.
+export const balloonInput = z.object({
+  type: z.enum(BALLOON_TYPES),
+  text: z.string(),
+  speaker: z.string().nullable(),
+  x: z.number(),
+  y: z.number(),
+  width: z.number(),
+  height: z.number(),
+  tail_x: z.number().nullable(),
+  tail_y: z.number().nullable(),
+}).partial();
+
+// Applies a validated balloon on top of `base`. Positions are clamped into the
+// image; narration never keeps a tail.
+export function applyBalloonFields(input: z.infer<typeof balloonInput>, base: BalloonFields): BalloonFields {
+  const fields = { ...base };
+  if (input.type !== undefined) fields.type = input.type;
+  if (input.text !== undefined) fields.text = input.text;
+  if (input.speaker !== undefined) fields.speaker = input.speaker?.trim() || null;
+  for (const key of ["x", "y", "width", "height"] as const) {
+    const value = input[key];
+    if (value !== undefined) fields[key] = clamp01(value);
+  }
+  for (const key of ["tail_x", "tail_y"] as const) {
+    const value = input[key];
+    if (value !== undefined) fields[key] = value === null ? null : clamp01(value);
+  }
+
+  fields.width = Math.max(MIN_BALLOON_SIZE, Math.min(fields.width, 1 - fields.x));
+  fields.height = Math.max(MIN_BALLOON_SIZE, Math.min(fields.height, 1 - fields.y));
+  fields.x = Math.min(fields.x, 1 - fields.width);
+  fields.y = Math.min(fields.y, 1 - fields.height);
+  if (fields.type === "narration") {
+    fields.tail_x = null;
+    fields.tail_y = null;
+  } else if (fields.tail_x === null || fields.tail_y === null) {
+    fields.tail_x = fields.x + fields.width / 2;
+    fields.tail_y = Math.min(fields.y + fields.height + 0.12, 1);
+  }
+  return fields;
+}
+
+export function registerBalloonRoutes(app: Express) {
+  const findPanel = (comicId: string, panelId: string) =>
+    db.prepare("SELECT id FROM panels WHERE id = ? AND comic_id = ?").get(panelId, comicId);
+  const findBalloon = (panelId: string, balloonId: string): Balloon | undefined =>
+    getPanelBalloons(panelId).find(balloon => balloon.id === balloonId);
+
+  app.post("/api/comics/:id/panels/:panelId/balloons", validate({ body: balloonInput }), (req, res) => {
+    const panel = findPanel(req.params.id, req.params.panelId);
+    if (!panel) return sendError(res, 404, "Panel not found");
+
+    const id = addBalloon(panel.id, applyBalloonFields(req.body, DEFAULT_BALLOON));
+    res.status(201).json(findBalloon(panel.id, id));
+  });
+
+  app.patch("/api/comics/:id/panels/:panelId/balloons/:balloonId", validate({ body: balloonInput }), (req, res) => {
+    const panel = findPanel(req.params.id, req.params.panelId);
+    const balloon = panel && findBalloon(panel.id, req.params.balloonId);
+    if (!balloon) return sendError(res, 404, "Balloon not found");
+
+    const { id, order_index, ...current } = balloon;
+    const fields = applyBalloonFields(req.body, current);
+    db.prepare(`
+      UPDATE panel_balloons SET type = @type, speaker = @speaker, text = @text, x = @x, y = @y,
+        width = @width, height = @height, tail_x = @tail_x, tail_y = @tail_y
+      WHERE id = @id
+    `).run({ ...fields, id });
+    res.json(findBalloon(panel.id, id));
+  });
+
+  app.delete("/api/comics/:id/panels/:panelId/balloons/:balloonId", (req, res) => {
+    const panel = findPanel(req.params.id, req.params.panelId);
+    const balloon = panel && findBalloon(panel.id, req.params.balloonId);
+    if (!balloon) return sendError(res, 404, "Balloon not found");
+
+    db.transaction(() => {
+      db.prepare("DELETE FROM panel_balloons WHERE id = ?").run(balloon.id);
+      db.prepare("UPDATE panel_balloons SET order_index = order_index - 1 WHERE panel_id = ? AND order_index > ?")
+        .run(panel.id, balloon.order_index);
+    })();
+    res.json({ success: true });
+  });
+}
@@ -0,0 +1,55 @@
+import crypto from "crypto";
+import { db } from "./db";
+import { storeDataUrl, toDataUrl } from "./assets";
+import { setResponseCache } from "../src/services/geminiService";
+import type { CacheKey } from "../src/services/geminiService";
+
+// Hours an AI answer is reused for identical requests; AI_CACHE_TTL_HOURS
+// overrides the week it is kept by default, and 0 turns the cache off.
+function ttlHours() {
+  const value = process.env.AI_CACHE_TTL_HOURS;
+  return value === undefined || value === "" ? 24 * 7 : Number(value);
+}
+
+// Reference photos are part of the request, so the hash covers them too.
+const hashKey = (key: CacheKey) => crypto.createHash("sha256").update(JSON.stringify(key)).digest("hex");
+
+async function get(key: CacheKey) {
+  const ttl = ttlHours();
+  if (!(ttl > 0)) return undefined;
+  const hash = hashKey(key);
+  const row = db.prepare("SELECT response FROM ai_cache WHERE key = ? AND created_at >= datetime('now', ?)").get(hash, `-${ttl} hours`);
+  if (!row) return undefined;
+
+  let response = JSON.parse(row.response);
+  if (key.operation === "image") {
+    // Unused assets get deleted; the entry goes with its image.
+    response = toDataUrl(response);
+    if (!response) {
+      db.prepare("DELETE FROM ai_cache WHERE key = ?").run(hash);
+      return undefined;
+    }
+  }
+  db.prepare("UPDATE ai_cache SET hits = hits + 1 WHERE key = ?").run(hash);
+  return response;
+}
+
+async function set(key: CacheKey, response: unknown) {
+  const ttl = ttlHours();
+  if (!(ttl > 0)) return;
+  const stored = key.operation === "image" ? await storeDataUrl(response as string) : response;
+  db.transaction(() => {
+    db.prepare("DELETE FROM ai_cache WHERE created_at < datetime('now', ?)").run(`-${ttl} hours`);
+    db.prepare("INSERT OR REPLACE INTO ai_cache (key, operation, model, response) VALUES (?, ?, ?, ?)")
+      .run(hashKey(key), key.operation, key.model, JSON.stringify(stored));
+  })();
+}
+
+async function remove(key: CacheKey) {
+  db.prepare("DELETE FROM ai_cache WHERE key = ?").run(hashKey(key));
+}
+
+// Called once at startup: identical AI requests are answered from the database.
+export function cacheResponses() {
+  setResponseCache({ get, set, delete: remove });
+}
@@ -0,0 +1,150 @@
+import type { Express } from "express";
+import { v4 as uuidv4 } from "uuid";
+import { z } from "zod";
+import { db } from "./db";
+import { asyncRoute, sendError } from "./errors";
+import { idList, requiredText, validate } from "./validation";
+import { storeDataUrl, thumbnailUrl, toDataUrl } from "./assets";
+import { canAccess, currentUser } from "./auth";
+import type { CharacterReference } from "../src/services/ai";
+import type { Character, User } from "../src/types";
+
+export function getCharacter(id: string): Character | null {
+  const character = db.prepare("SELECT * FROM characters WHERE id = ?").get(id);
+  if (!character) return null;
+  const photos = db.prepare("SELECT id, image_url FROM character_photos WHERE character_id = ? ORDER BY order_index ASC").all(id);
+  return {
+    ...character,
+    description: character.description || "",
+    photos: photos.map((photo: { id: string; image_url: string }) => ({ ...photo, thumbnail_url: thumbnailUrl(photo.image_url) })),
+  };
+}
+
+export function listCharacters(ownerId: string): Character[] {
+  const rows = db.prepare("SELECT id FROM characters WHERE owner_id = ? ORDER BY name COLLATE NOCASE ASC").all(ownerId);
+  return rows.map((row: { id: string }) => getCharacter(row.id)!);
+}
+
+// Names are how the script refers to characters, so they must be unique in a library regardless of case.
+export function findCharacterByName(ownerId: string, name: string, exceptId?: string) {
+  return db.prepare("SELECT id FROM characters WHERE owner_id = ? AND name = ? COLLATE NOCASE AND id IS NOT ?")
+    .get(ownerId, name.trim(), exceptId ?? null) || null;
+}
+
+export function createCharacter(ownerId: string, name: string, description: string, photoUrls: string[] = []) {
+  const id = uuidv4();
+  db.transaction(() => {
+    db.prepare("INSERT INTO characters (id, name, description, owner_id) VALUES (?, ?, ?, ?)").run(id, name.trim(), description, ownerId);
+    photoUrls.forEach((url, index) => {
+      db.prepare("INSERT INTO character_photos (id, character_id, image_url, order_index) VALUES (?, ?, ?, ?)").run(uuidv4(), id, url, index);
+    });
+  })();
+  return getCharacter(id)!;
+}
+
+// Everything the image model needs about the given characters, photos inlined as data URLs.
+export function characterReferences(ids: string[]): CharacterReference[] {
+  return ids.map(getCharacter).filter((c): c is Character => !!c).map(character => ({
+    name: character.name,
+    description: character.description,
+    images: character.photos.map(photo => toDataUrl(photo.image_url)).filter((image): image is string => !!image),
+  }));
+}
+
+export function getPanelCharacterIds(panelId: string): string[] {
+  return db.prepare("SELECT character_id FROM panel_characters WHERE panel_id = ?").all(panelId).map((row: { character_id: string }) => row.character_id);
+}
+
+export const setPanelCharacters = db.transaction((panelId: string, characterIds: string[]) => {
+  db.prepare("DELETE FROM panel_characters WHERE panel_id = ?").run(panelId);
+  const insert = db.prepare("INSERT OR IGNORE INTO panel_characters (panel_id, character_id) VALUES (?, ?)");
+  characterIds.forEach(characterId => insert.run(panelId, characterId));
+});
+
+// Characters from someone else's library count as missing.
+export function accessibleCharacter(user: User, id: string) {
+  const character = getCharacter(id);
+  return character && canAccess(user, character.owner_id) ? character : null;
+}
+
+export function registerCharacterRoutes(app: Express) {
+  app.get("/api/characters", (req, res) => {
+    res.json(listCharacters(currentUser(req).id));
+  });
+
+  app.use("/api/characters/:id", (req, res, next) => {
+    if (!accessibleCharacter(currentUser(req), req.params.id)) return sendError(res, 404, "Character not found");
+    next();
+  });
+
+  app.get("/api/characters/:id", (req, res) => {
+    res.json(getCharacter(req.params.id));
+  });
+
+  const characterFields = z.object({
+    name: requiredText,
+    description: z.string().default(""),
+    photos: z.array(z.string()).default([]),
+  });
+
+  // Photos may be sent along as data URLs; more can be added later one by one.
+  app.post("/api/characters", validate({ body: characterFields }), asyncRoute(async (req, res) => {
+    const { name, description, photos } = req.body;
+    const ownerId = currentUser(req).id;
+    if (findCharacterByName(ownerId, name)) return sendError(res, 409, "A character with this name already exists");
+
+    let photoUrls;
+    try {
+      photoUrls = await Promise.all(photos.map(storeDataUrl));
+    } catch (error) {
+      return sendError(res, 400, "photos must be valid images");
+    }
+    res.status(201).json(createCharacter(ownerId, name, description, photoUrls));
+  }));
+
+  app.patch("/api/characters/:id", validate({ body: characterFields.pick({ name: true, description: true }).partial() }), (req, res) => {
+    const character = getCharacter(req.params.id)!;
+    const { name = character.name, description = character.description } = req.body;
+    if (findCharacterByName(character.owner_id, name, character.id)) return sendError(res, 409, "A character with this name already exists");
+
+    db.prepare("UPDATE characters SET name = ?, description = ? WHERE id = ?").run(name.trim(), description, character.id);
+    res.json(getCharacter(character.id));
+  });
+
+  // Panels keep their generated images; they just stop referencing the character.
+  // Its photos and those references go with it through the foreign keys.
+  app.delete("/api/characters/:id", (req, res) => {
+    db.prepare("DELETE FROM characters WHERE id = ?").run(req.params.id);
+    res.json({ success: true });
+  });
+
+  app.post("/api/characters/:id/photos", validate({ body: z.object({ image: z.string() }) }), asyncRoute(async (req, res) => {
+    const character = getCharacter(req.params.id)!;
+    let imageUrl;
+    try {
+      imageUrl = await storeDataUrl(req.body.image);
+    } catch (error) {
+      return sendError(res, 400, "image is not a valid image");
+    }
+    db.prepare("INSERT INTO character_photos (id, character_id, image_url, order_index) VALUES (?, ?, ?, ?)")
+      .run(uuidv4(), character.id, imageUrl, character.photos.length);
+    res.status(201).json(getCharacter(character.id));
+  }));
+
+  app.delete("/api/characters/:id/photos/:photoId", (req, res) => {
+    const result = db.prepare("DELETE FROM character_photos WHERE id = ? AND character_id = ?").run(req.params.photoId, req.params.id);
+    if (result.changes === 0) return sendError(res, 404, "Photo not found");
+    res.json(getCharacter(req.params.id));
+  });
+
+  app.put("/api/comics/:id/panels/:panelId/characters", validate({ body: z.object({ characterIds: idList }) }), (req, res) => {
+    const panel = db.prepare("SELECT id FROM panels WHERE id = ? AND comic_id = ?").get(req.params.panelId, req.params.id);
+    if (!panel) return sendError(res, 404, "Panel not found");
+
+    const { characterIds } = req.body;
+    if (characterIds.some(id => !accessibleCharacter(currentUser(req), id))) return sendError(res, 400, "Unknown character");
+
+    setPanelCharacters(panel.id, characterIds);
+    res.json({ character_ids: getPanelCharacterIds(panel.id) });
+  });
+}
@@ -0,0 +1,10 @@
+import Database from "better-sqlite3";
+import { migrate } from "./migrations";
+
+// DATABASE_PATH points elsewhere, e.g. ":memory:" for the tests.
+export const db = new Database(process.env.DATABASE_PATH || "minha_hq.db");
+
+// Schema changes live in migrations.ts. Deletes rely on foreign keys to cascade,
+// so they are switched on explicitly rather than left to how SQLite was built.
+migrate(db);
+db.pragma("foreign_keys = ON");
@@ -0,0 +1,41 @@
+import type { ErrorRequestHandler, NextFunction, Request, RequestHandler, Response } from "express";
+import type { ApiError, ApiErrorDetail } from "../src/types";
+
+// A stable, machine-readable name for each status the API answers with.
+const ERROR_CODES: Record<number, string> = {
+  400: "invalid_request",
+  401: "unauthorized",
+  403: "forbidden",
+  404: "not_found",
+  409: "conflict",
+  413: "payload_too_large",
+  422: "content_rejected",
+  429: "rate_limited",
+  500: "internal_error",
+  502: "upstream_failed",
+};
+
+// Every API error has the same body: `error` for people, `code` for programs,
+// and for invalid requests `details` with one entry per offending field.
+// `extra` adds fields specific to one kind of error.
+export function sendError(res: Response, status: number, message: string, details?: ApiErrorDetail[], extra?: Partial<ApiError>) {
+  return res.status(status).json({ error: message, code: ERROR_CODES[status] ?? "error", ...(details ? { details } : {}), ...extra });
+}
+
+// Express 4 does not catch rejected promises, so async routes hand their failures to the error handler through this.
+export const asyncRoute = (handler: (req: Request, res: Response, next: NextFunction) => Promise<unknown>): RequestHandler =>
+  (req, res, next) => {
+    handler(req, res, next).catch(next);
+  };
+
+// Registered after every /api route: answers unknown endpoints, bodies that
+// are not JSON or too large, and anything a route threw, in the same format.
+export const apiNotFound: RequestHandler = (req, res) => sendError(res, 404, "Not found");
+
+export const apiErrorHandler: ErrorRequestHandler = (error, req, res, next) => {
+  if (res.headersSent) return next(error);
+  if (error?.type === "entity.parse.failed") return sendError(res, 400, "The request body is not valid JSON");
+  if (error?.type === "entity.too.large") return sendError(res, 413, "The request body is too large");
+  console.error(`${req.method} ${req.originalUrl} failed:`, error);
+  sendError(res, 500, "Internal server error");
+};
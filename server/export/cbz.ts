@@ -0,0 +1,50 @@
+import { zipSync } from "fflate";
+import type { ExportDocument } from "./document";
+import { escapeXml, renderPanelPage, renderTitleCard } from "./raster";
+
+const PAGE_WIDTH = 1200;
+
+const pad = (n: number) => String(n).padStart(3, "0");
+
+// ComicInfo.xml as read by ComicRack, Komga, Kavita and most other readers.
+function comicInfo(doc: ExportDocument, pages: { width: number; height: number }[]) {
+  const pageEntries = pages
+    .map((page, index) => `    <Page Image="${index}"${index === 0 ? ' Type="FrontCover"' : ""} ImageWidth="${page.width}" ImageHeight="${page.height}" />`)
+    .join("\n");
+  return `<?xml version="1.0" encoding="utf-8"?>
+<ComicInfo xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xmlns:xsd="http://www.w3.org/2001/XMLSchema">
+  <Title>${escapeXml(doc.title)}</Title>
+  <Summary>${escapeXml(doc.description)}</Summary>
+  <Year>${doc.createdAt.getUTCFullYear()}</Year>
+  <Month>${doc.createdAt.getUTCMonth() + 1}</Month>
+  <Day>${doc.createdAt.getUTCDate()}</Day>
+  <PageCount>${pages.length}</PageCount>
+  <LanguageISO>${escapeXml(doc.language.split("-")[0])}</LanguageISO>
+  <Pages>
+${pageEntries}
+  </Pages>
+</ComicInfo>
+`;
+}
+
+// Comic book archive: a zip of page images in reading order plus ComicInfo.xml.
+// Titled chapters open with a title card like the cover.
+export async function renderCbz(doc: ExportDocument): Promise<Buffer> {
+  const titleCard = (card: { title: string; description: string }) => renderTitleCard(card, PAGE_WIDTH, Math.round(PAGE_WIDTH * 1.4));
+  const pages = [await titleCard(doc)];
+  for (const chapter of doc.chapters) {
+    if (chapter.title !== null) pages.push(await titleCard({ title: chapter.title, description: chapter.description }));
+    for (const panel of chapter.panels) pages.push(await renderPanelPage(panel, PAGE_WIDTH));
+  }
+
+  // JPEGs are already compressed; storing them keeps the archive fast to open.
+  const files: Record<string, [Uint8Array, { level: 0 }]> = {};
+  pages.forEach((page, index) => {
+    files[`${pad(index)}.jpg`] = [page.data, { level: 0 }];
+  });
+
+  return Buffer.from(zipSync({
+    ...files,
+    "ComicInfo.xml": new TextEncoder().encode(comicInfo(doc, pages)),
+  }));
+}
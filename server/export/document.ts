@@ -0,0 +1,133 @@
+import sharp from "sharp";
+import { db } from "../db";
+import { readImageUrl } from "../assets";
+import { getTranslation } from "../translations";
+import { getPanelBalloons } from "../balloons";
+import { getPageTemplates } from "../pages";
+import { panelAltText } from "../../src/accessibility";
+import type { BalloonShape } from "../../src/balloons";
+import type { PageTemplateId } from "../../src/layouts";
+
+// Everything an exporter needs, decoupled from the database layout. Images
+// are normalized to JPEG so every format can embed them as is.
+export interface ExportImage {
+  data: Buffer;
+  width: number;
+  height: number;
+}
+
+export interface ExportBalloon extends BalloonShape {
+  speaker: string | null;
+  text: string;
+}
+
+export interface ExportPanel {
+  caption: string;
+  image: ExportImage | null;
+  // Describes the image for formats that carry alt text; empty when unknown.
+  altText: string;
+  // Drawn over the image; panels without an image carry no balloons.
+  balloons: ExportBalloon[];
+}
+
+// A run of panels laid out on its own pages. A single comic is one untitled
+// chapter; a series volume has one titled chapter per comic.
+export interface ExportChapter {
+  title: string | null;
+  description: string;
+  panels: ExportPanel[];
+  // Page layout for formats that put several panels on a page.
+  pageTemplates: PageTemplateId[];
+}
+
+export interface ExportDocument {
+  id: string;
+  title: string;
+  description: string;
+  language: string;
+  createdAt: Date;
+  chapters: ExportChapter[];
+}
+
+async function toJpeg(data: Buffer | null): Promise<ExportImage | null> {
+  if (!data) return null;
+  try {
+    const { data: jpeg, info } = await sharp(data)
+      .flatten({ background: "#ffffff" })
+      .jpeg({ quality: 90 })
+      .toBuffer({ resolveWithObject: true });
+    return { data: jpeg, width: info.width, height: info.height };
+  } catch (error) {
+    console.error("Could not decode panel image for export:", error);
+    return null;
+  }
+}
+
+// The original text has no stored language, so fall back to the one the comic was generated in.
+export function originalLanguage(comicId: string) {
+  const job = db.prepare("SELECT input FROM jobs WHERE comic_id = ? AND type = 'comic' ORDER BY created_at ASC LIMIT 1").get(comicId);
+  return (job && JSON.parse(job.input).language) || "pt-BR";
+}
+
+// A comic's title, description and panels, from the translated edition when `language` has one.
+async function loadChapter(comic: { id: string; title: string; description: string | null }, language?: string) {
+  const panels = db.prepare("SELECT * FROM panels WHERE comic_id = ? ORDER BY order_index ASC").all(comic.id);
+  const edition = language ? getTranslation(comic.id, language) : null;
+  const captions = new Map(edition?.panels.map(p => [p.panel_id, p.caption]));
+  const balloonTexts = new Map(edition?.balloons.map(b => [b.balloon_id, b.text]));
+
+  return {
+    title: edition?.title || comic.title,
+    description: edition?.description ?? comic.description ?? "",
+    language: edition?.language || originalLanguage(comic.id),
+    pageTemplates: getPageTemplates(comic.id),
+    panels: await Promise.all(panels.map(async (panel: { id: string; caption: string; image_url: string | null; visual_description: string | null; alt_text: string | null }): Promise<ExportPanel> => {
+      const image = await toJpeg(readImageUrl(panel.image_url));
+      return {
+        caption: captions.get(panel.id) ?? panel.caption ?? "",
+        image,
+        altText: panelAltText(panel) ?? "",
+        balloons: image
+          ? getPanelBalloons(panel.id)
+            .map(({ id, order_index, ...balloon }) => ({ ...balloon, text: balloonTexts.get(id) ?? balloon.text }))
+            .filter(balloon => balloon.text.trim())
+          : [],
+      };
+    })),
+  };
+}
+
+// Loads a comic for export, using the translated edition when `language` has one.
+export async function loadExportDocument(comicId: string, language?: string): Promise<ExportDocument | null> {
+  const comic = db.prepare("SELECT * FROM comics WHERE id = ?").get(comicId);
+  if (!comic) return null;
+
+  const { language: chapterLanguage, ...chapter } = await loadChapter(comic, language);
+  return {
+    id: comic.id,
+    title: chapter.title,
+    description: chapter.description,
+    language: chapterLanguage,
+    createdAt: new Date(`${comic.created_at}Z`),
+    chapters: [{ ...chapter, title: null }],
+  };
+}
+
+// Loads every chapter of a series, in order, as one volume. Chapters without
+// an edition in `language` are exported in their original text.
+export async function loadSeriesExportDocument(seriesId: string, language?: string): Promise<ExportDocument | null> {
+  const series = db.prepare("SELECT * FROM series WHERE id = ?").get(seriesId);
+  if (!series) return null;
+
+  const comics = db.prepare("SELECT * FROM comics WHERE series_id = ? ORDER BY chapter_number ASC").all(seriesId);
+  const chapters = [];
+  for (const comic of comics) chapters.push(await loadChapter(comic, language));
+  return {
+    id: series.id,
+    title: series.title,
+    description: series.description ?? "",
+    language: language || chapters[0]?.language || "pt-BR",
+    createdAt: new Date(`${series.created_at}Z`),
+    chapters: chapters.map(({ language, ...chapter }) => chapter),
+  };
+}
@@ -0,0 +1,157 @@
+import { strToU8, zipSync, Zippable } from "fflate";
+import type { ExportBalloon, ExportDocument } from "./document";
+import { balloonFontSize, balloonShapeSvg, balloonTextBox, escapeXml, fitBalloonText, renderTitleCard } from "./raster";
+
+const PAGE_WIDTH = 1200;
+const CAPTION_HEIGHT = 320;
+
+const pad = (n: number) => String(n).padStart(3, "0");
+
+const STYLE = `
+body { margin: 0; padding: 0; background: #ffffff; font-family: sans-serif; }
+.page { position: relative; overflow: hidden; }
+.page img { position: absolute; top: 0; left: 0; }
+.caption { position: absolute; left: 0; right: 0; bottom: 0; box-sizing: border-box; padding: 24px 32px;
+  background: #fef9c3; border-top: 4px solid #000000; font-size: 38px; line-height: 1.3; }
+.balloons { position: absolute; top: 0; left: 0; }
+.balloon { position: absolute; display: flex; align-items: center; justify-content: center; margin: 0;
+  text-align: center; font-weight: bold; line-height: 1.3; }
+.balloon.narration { justify-content: flex-start; text-align: left; font-weight: normal; }
+.cover { text-align: center; padding-top: 30%; }
+.cover h1 { font-size: 96px; text-transform: uppercase; margin: 0 60px; }
+.cover p { font-size: 40px; font-style: italic; margin: 60px 120px; }
+`;
+
+function xhtml(doc: ExportDocument, title: string, width: number, height: number, body: string) {
+  return `<?xml version="1.0" encoding="utf-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" xml:lang="${escapeXml(doc.language)}" lang="${escapeXml(doc.language)}">
+<head>
+  <meta charset="utf-8" />
+  <meta name="viewport" content="width=${width}, height=${height}" />
+  <title>${escapeXml(title)}</title>
+  <link rel="stylesheet" type="text/css" href="style.css" />
+</head>
+<body style="width: ${width}px; height: ${height}px;">
+${body}
+</body>
+</html>
+`;
+}
+
+// Balloon shapes are drawn in SVG; the text on top stays HTML so it can be selected and read aloud.
+function balloonsHtml(balloons: ExportBalloon[], width: number, height: number) {
+  if (!balloons.length) return "";
+  const texts = balloons.map(balloon => {
+    const box = balloonTextBox(balloon, width, height);
+    const { fontSize } = fitBalloonText(balloon.text, box.width, box.height, balloonFontSize(width));
+    const left = balloon.x * width + (balloon.width * width - box.width) / 2;
+    const top = balloon.y * height + (balloon.height * height - box.height) / 2;
+    const speaker = balloon.speaker ? ` title="${escapeXml(balloon.speaker)}"` : "";
+    return `<p class="balloon ${balloon.type}"${speaker} style="left: ${left}px; top: ${top}px; width: ${box.width}px; height: ${box.height}px; font-size: ${fontSize}px;">${escapeXml(balloon.text)}</p>`;
+  });
+  return `<svg class="balloons" xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">${balloons.map(balloon => balloonShapeSvg(balloon, width, height)).join("")}</svg>
+    ${texts.join("\n    ")}`;
+}
+
+function titlePage(doc: ExportDocument, card: { title: string; description: string }, height: number) {
+  return xhtml(doc, card.title, PAGE_WIDTH, height, `  <div class="page cover" style="width: ${PAGE_WIDTH}px; height: ${height}px;">
+    <h1>${escapeXml(card.title)}</h1>
+    ${card.description ? `<p>"${escapeXml(card.description)}"</p>` : ""}
+  </div>`);
+}
+
+// Fixed-layout EPUB 3: one pre-paginated page per panel, with the caption and
+// balloons kept as real, selectable text instead of being baked into the image.
+// Titled chapters open with a text title page and get their own entry in the table of contents.
+export async function renderEpub(doc: ExportDocument): Promise<Buffer> {
+  const coverHeight = Math.round(PAGE_WIDTH * 1.4);
+  const cover = await renderTitleCard(doc, PAGE_WIDTH, coverHeight);
+
+  const files: Zippable = {
+    mimetype: [strToU8("application/epub+zip"), { level: 0 }],
+    "META-INF/container.xml": strToU8(`<?xml version="1.0" encoding="utf-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles>
+    <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml" />
+  </rootfiles>
+</container>
+`),
+    "OEBPS/style.css": strToU8(STYLE),
+    "OEBPS/images/cover.jpg": [cover.data, { level: 0 }],
+    "OEBPS/cover.xhtml": strToU8(titlePage(doc, doc, coverHeight)),
+  };
+
+  const manifest = [
+    `<item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav" />`,
+    `<item id="style" href="style.css" media-type="text/css" />`,
+    `<item id="cover-image" href="images/cover.jpg" media-type="image/jpeg" properties="cover-image" />`,
+    `<item id="cover" href="cover.xhtml" media-type="application/xhtml+xml" />`,
+  ];
+  const spine = [`<itemref idref="cover" />`];
+  const navItems = [`<li><a href="cover.xhtml">${escapeXml(doc.title)}</a></li>`];
+
+  const panels = doc.chapters.flatMap((chapter, chapterIndex) => chapter.panels.map((panel, index) => ({ panel, chapter, chapterIndex, first: index === 0 })));
+  panels.forEach(({ panel, chapter, chapterIndex, first }, index) => {
+    const number = pad(index + 1);
+    if (first && chapter.title !== null) {
+      const chapterNumber = pad(chapterIndex + 1);
+      files[`OEBPS/chapter-${chapterNumber}.xhtml`] = strToU8(titlePage(doc, { title: chapter.title, description: chapter.description }, coverHeight));
+      manifest.push(`<item id="chapter-${chapterNumber}" href="chapter-${chapterNumber}.xhtml" media-type="application/xhtml+xml" />`);
+      spine.push(`<itemref idref="chapter-${chapterNumber}" />`);
+      navItems.push(`<li><a href="chapter-${chapterNumber}.xhtml">${escapeXml(chapter.title)}</a></li>`);
+    }
+    const imageHeight = panel.image ? Math.round((panel.image.height / panel.image.width) * PAGE_WIDTH) : PAGE_WIDTH;
+    const height = imageHeight + (panel.caption ? CAPTION_HEIGHT : 0);
+    const image = panel.image
+      ? `<img src="images/panel-${number}.jpg" alt="${escapeXml(panel.altText)}" style="width: ${PAGE_WIDTH}px; height: ${imageHeight}px;" />`
+      : "";
+    const caption = panel.caption ? `<p class="caption" style="height: ${CAPTION_HEIGHT}px;">${escapeXml(panel.caption)}</p>` : "";
+
+    if (panel.image) {
+      files[`OEBPS/images/panel-${number}.jpg`] = [panel.image.data, { level: 0 }];
+      manifest.push(`<item id="image-${number}" href="images/panel-${number}.jpg" media-type="image/jpeg" />`);
+    }
+    files[`OEBPS/page-${number}.xhtml`] = strToU8(xhtml(doc, `${doc.title} ${index + 1}`, PAGE_WIDTH, height,
+      `  <div class="page" style="width: ${PAGE_WIDTH}px; height: ${height}px;">\n    ${image}\n    ${balloonsHtml(panel.balloons, PAGE_WIDTH, imageHeight)}\n    ${caption}\n  </div>`));
+    manifest.push(`<item id="page-${number}" href="page-${number}.xhtml" media-type="application/xhtml+xml" />`);
+    spine.push(`<itemref idref="page-${number}" />`);
+    navItems.push(`<li><a href="page-${number}.xhtml">${index + 1}</a></li>`);
+  });
+
+  files["OEBPS/nav.xhtml"] = strToU8(`<?xml version="1.0" encoding="utf-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" xml:lang="${escapeXml(doc.language)}">
+<head><meta charset="utf-8" /><title>${escapeXml(doc.title)}</title></head>
+<body>
+  <nav epub:type="toc"><ol>
+    ${navItems.join("\n    ")}
+  </ol></nav>
+</body>
+</html>
+`);
+
+  const modified = new Date().toISOString().replace(/\.\d{3}Z$/, "Z");
+  files["OEBPS/content.opf"] = strToU8(`<?xml version="1.0" encoding="utf-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="${escapeXml(doc.language)}">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+    <dc:identifier id="book-id">urn:uuid:${escapeXml(doc.id)}</dc:identifier>
+    <dc:title>${escapeXml(doc.title)}</dc:title>
+    <dc:description>${escapeXml(doc.description)}</dc:description>
+    <dc:language>${escapeXml(doc.language)}</dc:language>
+    <meta property="dcterms:modified">${modified}</meta>
+    <meta property="rendition:layout">pre-paginated</meta>
+    <meta property="rendition:spread">none</meta>
+    <meta name="cover" content="cover-image" />
+  </metadata>
+  <manifest>
+    ${manifest.join("\n    ")}
+  </manifest>
+  <spine>
+    ${spine.join("\n    ")}
+  </spine>
+</package>
+`);
+
+  return Buffer.from(zipSync(files));
+}
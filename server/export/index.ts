@@ -0,0 +1,69 @@
+import type { Express, Request, Response } from "express";
+import { z } from "zod";
+import { sendError } from "../errors";
+import { languageCode, validate } from "../validation";
+import { ExportDocument, loadExportDocument, loadSeriesExportDocument } from "./document";
+import { PAGE_SIZES, PageSize, renderPdf } from "./pdf";
+import { renderCbz } from "./cbz";
+import { renderEpub } from "./epub";
+
+export const EXPORT_FORMATS = {
+  pdf: { contentType: "application/pdf", extension: "pdf" },
+  cbz: { contentType: "application/vnd.comicbook+zip", extension: "cbz" },
+  epub: { contentType: "application/epub+zip", extension: "epub" },
+} as const;
+export type ExportFormat = keyof typeof EXPORT_FORMATS;
+
+export function slugify(text: string) {
+  return text
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-zA-Z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .toLowerCase() || "minha-hq";
+}
+
+export async function renderExport(doc: ExportDocument, format: ExportFormat, pageSize: PageSize): Promise<Buffer> {
+  return format === "pdf" ? renderPdf(doc, { pageSize })
+    : format === "cbz" ? await renderCbz(doc)
+    : await renderEpub(doc);
+}
+
+const exportQuery = z.object({
+  format: z.enum(Object.keys(EXPORT_FORMATS) as ExportFormat[]).default("pdf"),
+  pageSize: z.enum(PAGE_SIZES).default("a4"),
+  language: languageCode.optional(),
+});
+
+// Loads the document and sends it rendered as a download; the query has been validated with `exportQuery`.
+async function sendExport(req: Request, res: Response, load: (language?: string) => Promise<ExportDocument | null>, notFound: string) {
+  const { format, pageSize, language } = req.query as z.infer<typeof exportQuery>;
+
+  try {
+    const doc = await load(language);
+    if (!doc) return sendError(res, 404, notFound);
+
+    const file = await renderExport(doc, format, pageSize);
+
+    const { contentType, extension } = EXPORT_FORMATS[format];
+    const filename = `${doc.title}.${extension}`;
+    res.set({
+      "Content-Type": contentType,
+      "Content-Length": String(file.length),
+      "Content-Disposition": `attachment; filename="${slugify(doc.title)}.${extension}"; filename*=UTF-8''${encodeURIComponent(filename)}`,
+    });
+    res.send(file);
+  } catch (error) {
+    console.error("Export failed:", error);
+    sendError(res, 500, "Export failed");
+  }
+}
+
+export function registerExportRoutes(app: Express) {
+  app.get("/api/comics/:id/export", validate({ query: exportQuery }), (req, res) =>
+    sendExport(req, res, language => loadExportDocument(req.params.id, language), "Comic not found"));
+
+  // Every chapter of the series in one volume, each opening with its title page.
+  app.get("/api/series/:id/export", validate({ query: exportQuery }), (req, res) =>
+    sendExport(req, res, language => loadSeriesExportDocument(req.params.id, language), "Series not found"));
+}
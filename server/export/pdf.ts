@@ -0,0 +1,164 @@
+import fs from "fs";
+import path from "path";
+import { jsPDF } from "jspdf";
+import type { ExportBalloon, ExportDocument, ExportPanel } from "./document";
+import { balloonTail } from "../../src/balloons";
+import { paginate } from "../../src/layouts";
+import { balloonTextBox } from "./raster";
+
+export const PAGE_SIZES = ["a4", "a5", "letter"] as const;
+export type PageSize = typeof PAGE_SIZES[number];
+
+export interface PdfOptions {
+  pageSize: PageSize;
+}
+
+const MARGIN = 15;
+const FOOTER = 8;
+const GAP = 4;
+const CAPTION_PADDING = 3;
+const CAPTION_FONT_SIZE = 11;
+const PT_TO_MM = 0.3528;
+const LINE_HEIGHT = CAPTION_FONT_SIZE * PT_TO_MM * 1.3; // with leading
+
+// The built-in PDF fonts only cover Latin-1. PDF_FONT_PATH may point to a TTF
+// file (e.g. a Noto CJK font) to embed for other scripts such as Japanese.
+function applyFont(pdf: jsPDF) {
+  const fontPath = process.env.PDF_FONT_PATH;
+  if (!fontPath) return "helvetica";
+  const name = path.basename(fontPath);
+  pdf.addFileToVFS(name, fs.readFileSync(fontPath).toString("base64"));
+  pdf.addFont(name, "custom", "normal");
+  pdf.addFont(name, "custom", "bold");
+  pdf.addFont(name, "custom", "italic");
+  return "custom";
+}
+
+// The cover, and the opening page of each chapter in a volume.
+function drawTitlePage(pdf: jsPDF, doc: Pick<ExportDocument, "title" | "description">, font: string) {
+  const width = pdf.internal.pageSize.getWidth();
+  const height = pdf.internal.pageSize.getHeight();
+
+  pdf.setLineWidth(2);
+  pdf.rect(MARGIN, MARGIN, width - MARGIN * 2, height - MARGIN * 2);
+
+  pdf.setFont(font, "bold");
+  pdf.setFontSize(32);
+  const titleLines = pdf.splitTextToSize(doc.title.toUpperCase(), width - MARGIN * 4);
+  pdf.text(titleLines, width / 2, height / 3, { align: "center" });
+
+  if (doc.description) {
+    pdf.setFont(font, "italic");
+    pdf.setFontSize(14);
+    const titleHeight = titleLines.length * 32 * PT_TO_MM * 1.2;
+    pdf.text(pdf.splitTextToSize(`"${doc.description}"`, width - MARGIN * 6), width / 2, height / 3 + titleHeight + 10, { align: "center" });
+  }
+}
+
+// Balloons over an image placed at (x, y) with the given size, text shrunk until it fits.
+function drawBalloons(pdf: jsPDF, balloons: ExportBalloon[], x: number, y: number, width: number, height: number, font: string) {
+  pdf.setLineWidth(0.4);
+  pdf.setDrawColor(0, 0, 0);
+  for (const balloon of balloons) {
+    const bx = x + balloon.x * width;
+    const by = y + balloon.y * height;
+    const bw = balloon.width * width;
+    const bh = balloon.height * height;
+    const isNarration = balloon.type === "narration";
+    if (isNarration) pdf.setFillColor(254, 240, 138);
+    else pdf.setFillColor(255, 255, 255);
+
+    const tail = balloonTail(balloon, width, height);
+    if (tail?.triangle) {
+      const [[x1, y1], [x2, y2], [x3, y3]] = tail.triangle;
+      pdf.triangle(x + x1, y + y1, x + x2, y + y2, x + x3, y + y3, "FD");
+    }
+    for (const bubble of tail?.bubbles || []) pdf.circle(x + bubble.x, y + bubble.y, bubble.r, "FD");
+    if (isNarration) pdf.rect(bx, by, bw, bh, "FD");
+    else pdf.ellipse(bx + bw / 2, by + bh / 2, bw / 2, bh / 2, "FD");
+
+    const box = balloonTextBox(balloon, width, height);
+    pdf.setFont(font, isNarration ? "normal" : "bold");
+    let fontSize = 12;
+    let lines: string[];
+    for (;;) {
+      pdf.setFontSize(fontSize);
+      lines = pdf.splitTextToSize(balloon.text, box.width);
+      if (fontSize <= 5 || lines.length * fontSize * PT_TO_MM * 1.2 <= box.height) break;
+      fontSize -= 0.5;
+    }
+    const lineHeight = fontSize * PT_TO_MM * 1.2;
+    const textY = by + bh / 2 - (lines.length * lineHeight) / 2 + lineHeight * 0.8;
+    if (isNarration) pdf.text(lines, bx + (bw - box.width) / 2, textY, { lineHeightFactor: 1.2 });
+    else pdf.text(lines, bx + bw / 2, textY, { align: "center", lineHeightFactor: 1.2 });
+  }
+}
+
+function drawPanel(pdf: jsPDF, panel: ExportPanel, x: number, y: number, width: number, height: number, font: string) {
+  pdf.setFont(font, "normal");
+  pdf.setFontSize(CAPTION_FONT_SIZE);
+  const lines: string[] = panel.caption ? pdf.splitTextToSize(panel.caption, width - CAPTION_PADDING * 2) : [];
+  const captionHeight = lines.length ? lines.length * LINE_HEIGHT + CAPTION_PADDING * 2 : 0;
+
+  // Fit the image into the space left above the caption, keeping its aspect ratio.
+  const maxImageHeight = height - captionHeight - (captionHeight ? GAP : 0);
+  let imageWidth = width;
+  let imageHeight = panel.image ? (panel.image.height / panel.image.width) * width : maxImageHeight;
+  if (imageHeight > maxImageHeight) {
+    imageWidth *= maxImageHeight / imageHeight;
+    imageHeight = maxImageHeight;
+  }
+  const imageX = x + (width - imageWidth) / 2;
+
+  pdf.setLineWidth(0.8);
+  if (panel.image) {
+    pdf.addImage(panel.image.data, "JPEG", imageX, y, imageWidth, imageHeight);
+  } else {
+    pdf.setFillColor(231, 229, 228);
+    pdf.rect(imageX, y, imageWidth, imageHeight, "F");
+  }
+  pdf.rect(imageX, y, imageWidth, imageHeight);
+
+  if (lines.length) {
+    const captionY = y + imageHeight + GAP;
+    pdf.setFillColor(254, 249, 195);
+    pdf.rect(imageX, captionY, imageWidth, captionHeight, "FD");
+    pdf.text(lines, imageX + CAPTION_PADDING, captionY + CAPTION_PADDING + LINE_HEIGHT * 0.8);
+  }
+
+  if (panel.image) drawBalloons(pdf, panel.balloons, imageX, y, imageWidth, imageHeight, font);
+}
+
+// Cover page, then one page per layout page of the comic, each panel in its
+// template slot with its caption and balloons as real text. Titled chapters
+// start with their own title page and their own page layout.
+export function renderPdf(doc: ExportDocument, options: PdfOptions): Buffer {
+  const pdf = new jsPDF({ unit: "mm", format: options.pageSize, orientation: "portrait" });
+  pdf.setProperties({ title: doc.title, subject: doc.description, creator: "Minha HQ" });
+  pdf.setLanguage(doc.language as Parameters<jsPDF["setLanguage"]>[0]);
+  const font = applyFont(pdf);
+
+  drawTitlePage(pdf, doc, font);
+
+  const width = pdf.internal.pageSize.getWidth() - MARGIN * 2;
+  const height = pdf.internal.pageSize.getHeight() - MARGIN * 2 - FOOTER;
+  for (const chapter of doc.chapters) {
+    if (chapter.title !== null) {
+      pdf.addPage();
+      drawTitlePage(pdf, { title: chapter.title, description: chapter.description }, font);
+    }
+    for (const page of paginate(chapter.pageTemplates, chapter.panels)) {
+      pdf.addPage();
+      pdf.setFont(font, "normal");
+      pdf.setFontSize(9);
+      pdf.text(String(pdf.getNumberOfPages() - 1), pdf.internal.pageSize.getWidth() / 2, pdf.internal.pageSize.getHeight() - MARGIN / 2, { align: "center" });
+      page.panels.forEach((panel, index) => {
+        const slot = page.slots[index];
+        drawPanel(pdf, panel, MARGIN + slot.x * width + GAP / 2, MARGIN + slot.y * height + GAP / 2,
+          slot.width * width - GAP, slot.height * height - GAP, font);
+      });
+    }
+  }
+
+  return Buffer.from(pdf.output("arraybuffer"));
+}
@@ -0,0 +1,144 @@
+import sharp, { OverlayOptions } from "sharp";
+import type { ExportBalloon, ExportDocument, ExportImage, ExportPanel } from "./document";
+import { balloonTail } from "../../src/balloons";
+
+// Image formats (CBZ pages, EPUB cover) have no text layer, so titles and
+// captions are drawn as SVG text and composited by sharp.
+
+const FONT_FAMILY = "DejaVu Sans, Noto Sans, Noto Sans CJK JP, sans-serif";
+
+export const escapeXml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+// Greedy word wrap on an estimated glyph width. Words longer than a line (and
+// scripts written without spaces) are broken by character.
+export function wrapText(text: string, fontSize: number, maxWidth: number) {
+  const maxChars = Math.max(1, Math.floor(maxWidth / (fontSize * 0.55)));
+  const lines: string[] = [];
+  for (const paragraph of text.split(/\n/)) {
+    let line = "";
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if ([...candidate].length <= maxChars) {
+        line = candidate;
+        continue;
+      }
+      if (line) lines.push(line);
+      const chars = [...word];
+      while (chars.length > maxChars) lines.push(chars.splice(0, maxChars).join(""));
+      line = chars.join("");
+    }
+    if (line) lines.push(line);
+  }
+  return lines;
+}
+
+function textBlock(lines: string[], x: number, y: number, fontSize: number, options: { anchor?: string; weight?: string; style?: string } = {}) {
+  const tspans = lines
+    .map((line, index) => `<tspan x="${x}" dy="${index === 0 ? 0 : fontSize * 1.3}">${escapeXml(line)}</tspan>`)
+    .join("");
+  return `<text x="${x}" y="${y}" font-family="${FONT_FAMILY}" font-size="${fontSize}" text-anchor="${options.anchor || "start"}" font-weight="${options.weight || "normal"}" font-style="${options.style || "normal"}">${tspans}</text>`;
+}
+
+// Largest font size (down to a floor) at which the text fits the box.
+export function fitBalloonText(text: string, boxWidth: number, boxHeight: number, maxFontSize: number) {
+  const minFontSize = Math.min(10, maxFontSize);
+  let fontSize = maxFontSize;
+  let lines = wrapText(text, fontSize, boxWidth);
+  while (fontSize > minFontSize && lines.length * fontSize * 1.3 > boxHeight) {
+    fontSize = Math.max(minFontSize, Math.floor(fontSize * 0.9));
+    lines = wrapText(text, fontSize, boxWidth);
+  }
+  return { fontSize, lines };
+}
+
+// Ellipses leave less room for text than their bounding box.
+export const balloonTextBox = (balloon: ExportBalloon, width: number, height: number) => {
+  const inset = balloon.type === "narration" ? 0.9 : 0.72;
+  return { width: balloon.width * width * inset, height: balloon.height * height * inset };
+};
+
+export const balloonFontSize = (width: number) => Math.round(width / 22);
+
+// Tail and body of a balloon as SVG elements, without the text.
+export function balloonShapeSvg(balloon: ExportBalloon, width: number, height: number) {
+  const x = balloon.x * width;
+  const y = balloon.y * height;
+  const w = balloon.width * width;
+  const h = balloon.height * height;
+  const tail = balloonTail(balloon, width, height);
+  const style = `fill="${balloon.type === "narration" ? "#fef08a" : "#ffffff"}" stroke="#000000" stroke-width="${Math.max(2, Math.round(width / 250))}"`;
+
+  return [
+    tail?.triangle ? `<polygon points="${tail.triangle.map(point => point.join(",")).join(" ")}" ${style}/>` : "",
+    ...(tail?.bubbles || []).map(bubble => `<circle cx="${bubble.x}" cy="${bubble.y}" r="${bubble.r}" ${style}/>`),
+    balloon.type === "narration"
+      ? `<rect x="${x}" y="${y}" width="${w}" height="${h}" ${style}/>`
+      : `<ellipse cx="${x + w / 2}" cy="${y + h / 2}" rx="${w / 2}" ry="${h / 2}" ${style}/>`,
+  ].join("");
+}
+
+// SVG for the balloons of one panel, drawn over an image of the given size.
+export function balloonsSvg(balloons: ExportBalloon[], width: number, height: number) {
+  const elements = balloons.map(balloon => {
+    const x = balloon.x * width;
+    const w = balloon.width * width;
+    const box = balloonTextBox(balloon, width, height);
+    const { fontSize, lines } = fitBalloonText(balloon.text, box.width, box.height, balloonFontSize(width));
+    const textTop = (balloon.y + balloon.height / 2) * height - (lines.length * fontSize * 1.3) / 2 + fontSize;
+    return balloonShapeSvg(balloon, width, height) + (balloon.type === "narration"
+      ? textBlock(lines, x + (w - box.width) / 2, textTop, fontSize)
+      : textBlock(lines, x + w / 2, textTop, fontSize, { anchor: "middle", weight: "bold" }));
+  });
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">${elements.join("")}</svg>`;
+}
+
+async function toJpeg(svg: string, composites: OverlayOptions[] = []): Promise<ExportImage> {
+  const { data, info } = await sharp(Buffer.from(svg))
+    .composite(composites)
+    .flatten({ background: "#ffffff" })
+    .jpeg({ quality: 90 })
+    .toBuffer({ resolveWithObject: true });
+  return { data, width: info.width, height: info.height };
+}
+
+// Title and description on a yellow card: the cover, and the opening page of each chapter in a volume.
+export async function renderTitleCard(doc: Pick<ExportDocument, "title" | "description">, width: number, height: number) {
+  const titleSize = Math.round(width / 12);
+  const titleLines = wrapText(doc.title.toUpperCase(), titleSize, width * 0.8);
+  const descriptionSize = Math.round(width / 32);
+  const descriptionLines = doc.description ? wrapText(`"${doc.description}"`, descriptionSize, width * 0.7) : [];
+  const descriptionY = height / 3 + titleLines.length * titleSize * 1.3 + descriptionSize * 2;
+
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">
+    <rect width="${width}" height="${height}" fill="#facc15"/>
+    <rect x="${width * 0.05}" y="${width * 0.05}" width="${width * 0.9}" height="${height - width * 0.1}" fill="#ffffff" stroke="#000000" stroke-width="${width / 60}"/>
+    ${textBlock(titleLines, width / 2, height / 3, titleSize, { anchor: "middle", weight: "bold" })}
+    ${textBlock(descriptionLines, width / 2, descriptionY, descriptionSize, { anchor: "middle", style: "italic" })}
+  </svg>`;
+  return toJpeg(svg);
+}
+
+// One panel as a standalone page: the art scaled to `width`, with the caption in a strip below.
+export async function renderPanelPage(panel: ExportPanel, width: number) {
+  const padding = Math.round(width / 40);
+  const fontSize = Math.round(width / 30);
+  const lines = panel.caption ? wrapText(panel.caption, fontSize, width - padding * 2) : [];
+  const captionHeight = lines.length ? Math.round(lines.length * fontSize * 1.3 + padding * 2) : 0;
+
+  const art = panel.image
+    ? await sharp(panel.image.data).resize({ width }).toBuffer({ resolveWithObject: true })
+    : null;
+  const balloons = art && panel.balloons.length
+    ? [{ input: Buffer.from(balloonsSvg(panel.balloons, width, art.info.height)), top: 0, left: 0 }]
+    : [];
+  const artHeight = art ? art.info.height : width;
+  const height = artHeight + captionHeight;
+
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">
+    <rect width="${width}" height="${artHeight}" fill="#e7e5e4"/>
+    ${lines.length ? `<rect y="${artHeight}" width="${width}" height="${captionHeight}" fill="#fef9c3" stroke="#000000" stroke-width="4"/>` : ""}
+    ${textBlock(lines, padding, artHeight + padding + fontSize, fontSize)}
+  </svg>`;
+  return toJpeg(svg, art ? [{ input: art.data, top: 0, left: 0 }, ...balloons] : []);
+}
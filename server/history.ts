@@ -0,0 +1,82 @@
+import type { Express } from "express";
+import { v4 as uuidv4 } from "uuid";
+import { db } from "./db";
+import { sendError } from "./errors";
+
+export interface PanelState {
+  caption: string | null;
+  image_url: string | null;
+}
+
+// A new image takes the description it was generated from, or none if it was
+// uploaded, and drops the alt text written for the previous one.
+const describeImage = (panelId: string) => db.prepare(`
+  UPDATE panels SET alt_text = NULL, visual_description = (
+    SELECT v.description FROM panel_variants v WHERE v.panel_id = panels.id AND v.image_url = panels.image_url AND v.description IS NOT NULL
+    ORDER BY v.created_at DESC, v.rowid DESC LIMIT 1
+  ) WHERE id = ? AND image_url IS NOT NULL
+`).run(panelId);
+
+// Changes a panel's caption and/or image and records the change so it can be
+// undone. A new change drops whatever had been undone, like any editor.
+export function changePanel(panelId: string, changes: Partial<PanelState>, { record = true } = {}) {
+  const panel = db.prepare("SELECT comic_id, caption, image_url FROM panels WHERE id = ?").get(panelId);
+  if (!panel) return;
+  const next: PanelState = {
+    caption: changes.caption !== undefined ? changes.caption : panel.caption,
+    image_url: changes.image_url !== undefined ? changes.image_url : panel.image_url,
+  };
+  if (next.caption === panel.caption && next.image_url === panel.image_url) return;
+
+  db.transaction(() => {
+    db.prepare("UPDATE panels SET caption = ?, image_url = ? WHERE id = ?").run(next.caption, next.image_url, panelId);
+    if (next.image_url !== panel.image_url) describeImage(panelId);
+    if (!record) return;
+    db.prepare("DELETE FROM panel_edits WHERE comic_id = ? AND undone = 1").run(panel.comic_id);
+    const { position } = db.prepare("SELECT COALESCE(MAX(position), -1) + 1 AS position FROM panel_edits WHERE comic_id = ?").get(panel.comic_id);
+    db.prepare(`
+      INSERT INTO panel_edits (id, comic_id, panel_id, position, caption_before, image_before, caption_after, image_after)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(uuidv4(), panel.comic_id, panelId, position, panel.caption, panel.image_url, next.caption, next.image_url);
+  })();
+}
+
+export function getHistoryState(comicId: string) {
+  const { undo, redo } = db.prepare(`
+    SELECT COALESCE(SUM(undone = 0), 0) AS undo, COALESCE(SUM(undone = 1), 0) AS redo FROM panel_edits WHERE comic_id = ?
+  `).get(comicId);
+  return { can_undo: undo > 0, can_redo: redo > 0 };
+}
+
+// Steps back through the latest change, or forward through the earliest undone one.
+const step = db.transaction((comicId: string, direction: "undo" | "redo") => {
+  const edit = direction === "undo"
+    ? db.prepare("SELECT * FROM panel_edits WHERE comic_id = ? AND undone = 0 ORDER BY position DESC LIMIT 1").get(comicId)
+    : db.prepare("SELECT * FROM panel_edits WHERE comic_id = ? AND undone = 1 ORDER BY position ASC LIMIT 1").get(comicId);
+  if (!edit) return null;
+
+  const [caption, imageUrl] = direction === "undo" ? [edit.caption_before, edit.image_before] : [edit.caption_after, edit.image_after];
+  const panel = db.prepare("SELECT image_url FROM panels WHERE id = ?").get(edit.panel_id);
+  db.prepare("UPDATE panels SET caption = ?, image_url = ? WHERE id = ?").run(caption, imageUrl, edit.panel_id);
+  if (imageUrl !== panel.image_url) describeImage(edit.panel_id);
+  db.prepare("UPDATE panel_edits SET undone = ? WHERE id = ?").run(direction === "undo" ? 1 : 0, edit.id);
+  return edit.panel_id as string;
+});
+
+export function registerHistoryRoutes(app: Express) {
+  const findComic = (id: string) => db.prepare("SELECT id FROM comics WHERE id = ?").get(id);
+
+  app.get("/api/comics/:id/history", (req, res) => {
+    if (!findComic(req.params.id)) return sendError(res, 404, "Comic not found");
+    res.json(getHistoryState(req.params.id));
+  });
+
+  for (const direction of ["undo", "redo"] as const) {
+    app.post(`/api/comics/:id/${direction}`, (req, res) => {
+      if (!findComic(req.params.id)) return sendError(res, 404, "Comic not found");
+      const panelId = step(req.params.id, direction);
+      if (!panelId) return sendError(res, 409, `Nothing to ${direction}`);
+      res.json({ panel_id: panelId, ...getHistoryState(req.params.id) });
+    });
+  }
+}
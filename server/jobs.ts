@@ -0,0 +1,480 @@
+import { EventEmitter } from "events";
+import type { Express } from "express";
+import { v4 as uuidv4 } from "uuid";
+import { z } from "zod";
+import { db } from "./db";
+import { sendError } from "./errors";
+import { idList, languageCode, requiredText, validate } from "./validation";
+import { storeDataUrl, toDataUrl } from "./assets";
+import { accessibleComic, canAccess, currentUser } from "./auth";
+import { accessibleCharacter, characterReferences, getCharacter, getPanelCharacterIds, setPanelCharacters } from "./characters";
+import { addStoryBalloons, isBalloonType } from "./balloons";
+import { panelAspectRatio, setPageTemplates } from "./pages";
+import { comicSettingsInput, getComicSettings, panelStyle, parseComicSettings, saveComicSettings } from "./styles";
+import { addVariant, countVariants, currentDescription } from "./variants";
+import { changePanel } from "./history";
+import { originalLanguage } from "./export/document";
+import { createSeries, saveContinuity, seriesContinuity, setComicSeries, storyCast } from "./series";
+import { jobRejection, moderate, sendRejection } from "./moderation";
+import { attributeJobUsage, generationLimit } from "./usage";
+import { discardComicStory, generateComicStory, generatePanelImage } from "../src/services/geminiService";
+import type { UsageContext } from "../src/services/geminiService";
+import { planPages } from "../src/layouts";
+import type { CharacterReference, ComicStory } from "../src/services/ai";
+import type { Character, ComicSettings, GenerationJob, JobStatus, JobStepStatus, PanelImageStatus, User } from "../src/types";
+
+// `referenceImage` is an unnamed reference (an asset URL) that applies to every
+// panel: jobs queued before the character library carry one, and so do jobs
+// started from the command line with a reference photo.
+interface ComicJobInput {
+  prompt: string;
+  language: string;
+  characterIds?: string[];
+  referenceImage?: string | null;
+  // Missing on jobs queued before generation settings existed.
+  settings?: ComicSettings;
+  // The comic becomes the next chapter of this series, written to follow the earlier ones.
+  seriesId?: string;
+}
+
+interface PanelJobInput {
+  referenceImage?: string | null;
+  // False when generating alternatives: the images are kept as variants without replacing the current one.
+  activate?: boolean;
+}
+
+function panelReferences(panelId: string, input: PanelJobInput): CharacterReference[] {
+  const references = characterReferences(getPanelCharacterIds(panelId));
+  const legacy = toDataUrl(input.referenceImage);
+  if (legacy) references.push({ name: "", description: "", images: [legacy] });
+  return references;
+}
+
+// Emits the fresh job snapshot under the job id whenever the job or one of its steps changes.
+const jobEvents = new EventEmitter();
+jobEvents.setMaxListeners(0);
+
+const pendingJobs: string[] = [];
+let isWorking = false;
+
+export function getJob(id: string): GenerationJob | null {
+  const job = db.prepare("SELECT id, type, comic_id, status, error, created_at, updated_at FROM jobs WHERE id = ?").get(id);
+  if (!job) return null;
+
+  const steps = db.prepare("SELECT id, kind, position, panel_id, status, attempts, error FROM job_steps WHERE job_id = ? ORDER BY position ASC").all(id);
+  const panelSteps = steps.filter((s: { kind: string }) => s.kind === "panel");
+  const finished = panelSteps.filter((s: { status: JobStepStatus }) => s.status !== "pending" && s.status !== "running");
+  return {
+    ...job,
+    steps,
+    progress: { current: finished.length, total: panelSteps.length },
+    moderation: job.type === "comic" ? jobRejection(id) : null,
+  };
+}
+
+// A job is visible to whoever started it and to anyone who can access its comic.
+function accessibleJob(user: User, id: string) {
+  const job = db.prepare("SELECT id, owner_id, comic_id FROM jobs WHERE id = ?").get(id);
+  if (!job) return null;
+  return canAccess(user, job.owner_id) || (job.comic_id && accessibleComic(user, job.comic_id)) ? getJob(id) : null;
+}
+
+export function isJobFinished(job: GenerationJob) {
+  return job.status === "completed" || job.status === "failed";
+}
+
+// Resolves with the job once it finishes, passing every snapshot on the way to `onChange`.
+export function waitForJob(jobId: string, onChange?: (job: GenerationJob) => void): Promise<GenerationJob> {
+  return new Promise(resolve => {
+    const listener = (job: GenerationJob) => {
+      onChange?.(job);
+      if (!isJobFinished(job)) return;
+      jobEvents.off(jobId, listener);
+      resolve(job);
+    };
+    jobEvents.on(jobId, listener);
+    listener(getJob(jobId)!);
+  });
+}
+
+function notify(jobId: string) {
+  const job = getJob(jobId);
+  if (job) jobEvents.emit(jobId, job);
+}
+
+function setJobStatus(jobId: string, status: JobStatus, error: string | null = null) {
+  db.prepare("UPDATE jobs SET status = ?, error = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?").run(status, error, jobId);
+  notify(jobId);
+}
+
+function setStepStatus(stepId: string, jobId: string, status: JobStepStatus, error: string | null = null) {
+  const attempts = status === "running" ? "attempts + 1" : "attempts";
+  db.transaction(() => {
+    db.prepare(`UPDATE job_steps SET status = ?, error = ?, attempts = ${attempts} WHERE id = ?`).run(status, error, stepId);
+    db.prepare("UPDATE jobs SET updated_at = CURRENT_TIMESTAMP WHERE id = ?").run(jobId);
+  })();
+  notify(jobId);
+}
+
+const insertStep = db.prepare(
+  "INSERT INTO job_steps (id, job_id, kind, position, panel_id, description, status) VALUES (?, ?, ?, ?, ?, ?, 'pending')"
+);
+
+// The comic created by the job belongs to `ownerId`. Asking again for the
+// same comic while it is still being made returns the job already underway.
+export function enqueueComicJob(ownerId: string, input: ComicJobInput) {
+  const duplicate = db.prepare(
+    "SELECT id FROM jobs WHERE owner_id = ? AND type = 'comic' AND status IN ('queued', 'running') AND input = ?"
+  ).get(ownerId, JSON.stringify(input));
+  if (duplicate) return getJob(duplicate.id)!;
+
+  const id = uuidv4();
+  db.transaction(() => {
+    db.prepare("INSERT INTO jobs (id, type, status, input, owner_id) VALUES (?, 'comic', 'queued', ?, ?)").run(id, JSON.stringify(input), ownerId);
+    insertStep.run(uuidv4(), id, "story", 0, null, null);
+  })();
+  schedule(id);
+  return getJob(id)!;
+}
+
+// Panels without an image say why: a job is about to draw it, or drawing it
+// failed. Panels that have one keep showing it, whatever happens to a new attempt.
+function setImageStatus(panelId: string, status: PanelImageStatus, error: string | null = null) {
+  db.prepare("UPDATE panels SET image_status = ?, image_error = ? WHERE id = ? AND image_url IS NULL").run(status, error, panelId);
+}
+
+// One step per image, generated one after the other.
+function enqueuePanelSteps(ownerId: string, comicId: string, steps: { panelId: string; description: string }[], input: PanelJobInput) {
+  const id = uuidv4();
+  db.transaction(() => {
+    db.prepare("INSERT INTO jobs (id, type, comic_id, status, input, owner_id) VALUES (?, 'panel', ?, 'queued', ?, ?)")
+      .run(id, comicId, JSON.stringify(input), ownerId);
+    steps.forEach((step, position) => {
+      insertStep.run(uuidv4(), id, "panel", position, step.panelId, step.description);
+      setImageStatus(step.panelId, "pending");
+    });
+  })();
+  schedule(id);
+  return getJob(id)!;
+}
+
+// `count` alternatives of the same panel.
+export function enqueuePanelJob(ownerId: string, comicId: string, panelId: string, description: string, input: PanelJobInput = {}, count = 1) {
+  return enqueuePanelSteps(ownerId, comicId, Array.from({ length: count }, () => ({ panelId, description })), input);
+}
+
+// Queues one job drawing every panel of the comic whose image failed, each
+// from the description of its latest attempt. Null when none failed.
+export function retryFailedPanels(ownerId: string, comicId: string) {
+  const failed = db.prepare(`
+    SELECT p.id, (SELECT s.description FROM job_steps s WHERE s.panel_id = p.id AND s.description IS NOT NULL ORDER BY s.rowid DESC LIMIT 1) AS description
+    FROM panels p WHERE p.comic_id = ? AND p.image_status = 'failed' ORDER BY p.order_index ASC
+  `).all(comicId).filter((panel: { description: string | null }) => panel.description);
+  if (failed.length === 0) return null;
+  return enqueuePanelSteps(ownerId, comicId, failed.map((panel: { id: string; description: string }) => ({ panelId: panel.id, description: panel.description })), {});
+}
+
+// Puts failed panel steps back to pending and queues the job again.
+// A failed story step is retried as well, since nothing after it has run.
+export function retryJob(jobId: string) {
+  const job = getJob(jobId);
+  if (!job || job.status !== "failed") return null;
+  db.transaction(() => {
+    db.prepare("SELECT panel_id FROM job_steps WHERE job_id = ? AND status = 'failed' AND panel_id IS NOT NULL").all(jobId)
+      .forEach((step: { panel_id: string }) => setImageStatus(step.panel_id, "pending"));
+    db.prepare("UPDATE job_steps SET status = 'pending', error = NULL WHERE job_id = ? AND status = 'failed'").run(jobId);
+    setJobStatus(jobId, "queued");
+  })();
+  schedule(jobId);
+  return getJob(jobId);
+}
+
+// Called once at startup: jobs interrupted by a restart are queued again and
+// continue from their first unfinished step.
+export function resumeJobs() {
+  db.transaction(() => {
+    db.prepare("UPDATE job_steps SET status = 'pending' WHERE status = 'running'").run();
+    db.prepare("UPDATE jobs SET status = 'queued' WHERE status = 'running'").run();
+  })();
+  const queued = db.prepare("SELECT id FROM jobs WHERE status = 'queued' ORDER BY created_at ASC").all();
+  queued.forEach((job: { id: string }) => schedule(job.id));
+}
+
+function schedule(jobId: string) {
+  if (!pendingJobs.includes(jobId)) pendingJobs.push(jobId);
+  void work();
+}
+
+async function work() {
+  if (isWorking) return;
+  isWorking = true;
+  try {
+    while (pendingJobs.length > 0) {
+      const jobId = pendingJobs.shift()!;
+      try {
+        await runJob(jobId);
+      } catch (error) {
+        console.error(`Job ${jobId} crashed:`, error);
+        setJobStatus(jobId, "failed", error instanceof Error ? error.message : String(error));
+      }
+    }
+  } finally {
+    isWorking = false;
+  }
+}
+
+async function runJob(jobId: string) {
+  const row = db.prepare("SELECT * FROM jobs WHERE id = ?").get(jobId);
+  if (!row || row.status !== "queued") return;
+  const input = JSON.parse(row.input);
+  setJobStatus(jobId, "running");
+
+  // Re-read after every step: the story step adds the panel steps on the first run.
+  const nextStep = db.prepare("SELECT * FROM job_steps WHERE job_id = ? AND status = 'pending' ORDER BY position ASC LIMIT 1");
+  let step;
+  while ((step = nextStep.get(jobId))) {
+    setStepStatus(step.id, jobId, "running");
+    try {
+      const status = step.kind === "story"
+        ? await runStoryStep(jobId, input)
+        : await runPanelStep(step, input, { userId: row.owner_id, jobId });
+      setStepStatus(step.id, jobId, status);
+    } catch (error) {
+      console.error(`Job ${jobId} step ${step.position} failed:`, error);
+      const message = error instanceof Error ? error.message : String(error);
+      setStepStatus(step.id, jobId, "failed", message);
+      if (step.kind === "story") break;
+      setImageStatus(step.panel_id, "failed", message);
+    }
+  }
+
+  const failed = db.prepare("SELECT error FROM job_steps WHERE job_id = ? AND status = 'failed'").all(jobId);
+  if (failed.length > 0) {
+    setJobStatus(jobId, "failed", failed.length === 1 ? failed[0].error : `${failed.length} steps failed`);
+  } else {
+    setJobStatus(jobId, "completed");
+  }
+}
+
+// Everything of a generated story that readers get to see, keyed by where it is.
+function storyText(story: ComicStory): Record<string, string> {
+  const fields: Record<string, string> = { title: story.title, summary: story.summary ?? "" };
+  story.panels.forEach((panel, index) => {
+    fields[`panels.${index}.caption`] = panel.caption ?? "";
+    (panel.elements || []).forEach((element, position) => {
+      if (typeof element?.text === "string") fields[`panels.${index}.elements.${position}.text`] = element.text;
+    });
+  });
+  return fields;
+}
+
+// Generates the script, then creates the comic with one empty panel per beat
+// so that failed images stay visible as gaps instead of disappearing.
+// A new chapter is written from the series as it is when the step runs, and
+// its cast includes everyone who has appeared in the earlier chapters.
+async function runStoryStep(jobId: string, input: ComicJobInput): Promise<JobStepStatus> {
+  const series = input.seriesId ? seriesContinuity(input.seriesId) : null;
+  const castIds = [...new Set([...(input.characterIds || []), ...(series?.characterIds || [])])];
+  const cast = castIds.map(getCharacter).filter((c): c is Character => !!c);
+  const settings = input.settings;
+  const { owner_id } = db.prepare("SELECT owner_id FROM jobs WHERE id = ?").get(jobId);
+  const request = [input.prompt, input.language, storyCast(cast, series?.speakers || []), {
+    panelCount: settings?.panel_count ?? undefined,
+    genre: settings?.genre ?? undefined,
+    tone: settings?.tone ?? undefined,
+    audience: settings?.audience ?? undefined,
+    continuity: series?.continuity,
+  }] as const;
+  const story = await generateComicStory(...request, { userId: owner_id, jobId });
+  if (!story.panels || story.panels.length === 0) {
+    await discardComicStory(...request);
+    throw new Error("The generated story has no panels");
+  }
+
+  // A rejected story is neither saved nor kept in the response cache; retrying the job writes a new one.
+  const verdict = moderate("output", storyText(story), { userId: owner_id, audience: settings?.audience, jobId });
+  if (verdict.action !== "allow") {
+    await discardComicStory(...request);
+    throw new Error(`The generated story was rejected by moderation: ${verdict.reason}`);
+  }
+
+  // The script names characters; match them back to the cast, ignoring case and stray spaces.
+  const castByName = new Map(cast.map(character => [character.name.trim().toLowerCase(), character.id]));
+  const panelCast = (names: unknown) => (Array.isArray(names) ? names : [])
+    .map(name => castByName.get(String(name).trim().toLowerCase()))
+    .filter((id): id is string => !!id);
+
+  const comicId = uuidv4();
+  db.transaction(() => {
+    db.prepare("INSERT INTO comics (id, title, description, owner_id) VALUES (?, ?, ?, ?)").run(comicId, story.title, input.prompt, owner_id);
+    if (settings) saveComicSettings(comicId, settings);
+    if (story.summary) saveContinuity(comicId, story.summary, Array.isArray(story.openThreads) ? story.openThreads.map(String) : []);
+    if (input.seriesId) setComicSeries(comicId, input.seriesId);
+    const insertPanel = db.prepare(`
+      INSERT INTO panels (id, comic_id, image_url, caption, order_index, image_status, visual_description) VALUES (?, ?, NULL, ?, ?, 'pending', ?)
+    `);
+    story.panels.forEach((panel, index) => {
+      const panelId = uuidv4();
+      insertPanel.run(panelId, comicId, panel.caption || "", index, panel.visualDescription || null);
+      setPanelCharacters(panelId, panelCast(panel.characters));
+      addStoryBalloons(panelId, (panel.elements || [])
+        .filter(element => typeof element?.text === "string" && element.text.trim())
+        .map(element => ({ ...element, type: isBalloonType(element.type) ? element.type : "speech" })));
+      insertStep.run(uuidv4(), jobId, "panel", index + 1, panelId, panel.visualDescription);
+    });
+    setPageTemplates(comicId, planPages(story.panels.map(panel =>
+      panel.size === "wide" || panel.size === "splash" ? panel.size : "standard")));
+    db.prepare("UPDATE jobs SET comic_id = ? WHERE id = ?").run(comicId, jobId);
+    attributeJobUsage(jobId, comicId);
+  })();
+  return "completed";
+}
+
+// Characters, the panel's slot on the page and the comic's style are read when the step runs, so edits made in the meantime apply.
+async function runPanelStep(step: { panel_id: string; description: string }, input: PanelJobInput, context: UsageContext): Promise<JobStepStatus> {
+  const panel = db.prepare("SELECT id, comic_id, image_url FROM panels WHERE id = ?").get(step.panel_id);
+  // The panel was deleted in the editor while the job was queued.
+  if (!panel) return "skipped";
+
+  const image = await generatePanelImage(step.description, {
+    references: panelReferences(panel.id, input),
+    aspectRatio: panelAspectRatio(panel.id),
+    style: panelStyle(panel.id),
+    variant: countVariants(panel.id),
+  }, { ...context, comicId: panel.comic_id });
+  const imageUrl = await storeDataUrl(image);
+  db.transaction(() => {
+    addVariant(panel.id, imageUrl, step.description);
+    db.prepare("UPDATE panels SET image_status = 'idle', image_error = NULL WHERE id = ?").run(panel.id);
+    // A panel's first image is not an edit worth undoing.
+    if (input.activate !== false) changePanel(panel.id, { image_url: imageUrl }, { record: panel.image_url !== null });
+  })();
+  return "completed";
+}
+
+const MAX_ALTERNATIVES = 4;
+
+export function registerJobRoutes(app: Express) {
+  const comicJob = comicSettingsInput.extend({
+    prompt: requiredText,
+    language: languageCode.default("pt-BR"),
+    characterIds: idList.default([]),
+  });
+
+  app.post("/api/jobs", generationLimit, validate({ body: comicJob }), (req, res) => {
+    const user = currentUser(req);
+    const { prompt, language, characterIds } = req.body;
+    if (characterIds.some((id: string) => !accessibleCharacter(user, id))) {
+      return sendError(res, 400, "characterIds must list existing characters");
+    }
+    const settings = parseComicSettings(user, req.body);
+    if (typeof settings === "string") return sendError(res, 400, settings);
+    const verdict = moderate("prompt", { prompt }, { userId: user.id, audience: settings.audience });
+    if (verdict.action !== "allow") return sendRejection(res, "prompt", verdict);
+    res.status(202).json(enqueueComicJob(user.id, { prompt, language, characterIds, settings }));
+  });
+
+  app.get("/api/jobs", validate({ query: z.object({ comic_id: z.string().optional() }) }), (req, res) => {
+    const user = currentUser(req);
+    const { comic_id } = req.query;
+    if (comic_id && !accessibleComic(user, String(comic_id))) return res.json([]);
+    const rows = comic_id
+      ? db.prepare("SELECT id FROM jobs WHERE comic_id = ? ORDER BY created_at DESC").all(comic_id)
+      : db.prepare("SELECT id FROM jobs WHERE owner_id = ? ORDER BY created_at DESC LIMIT 50").all(user.id);
+    res.json(rows.map((row: { id: string }) => getJob(row.id)));
+  });
+
+  app.get("/api/jobs/:id", (req, res) => {
+    const job = accessibleJob(currentUser(req), req.params.id);
+    if (!job) return sendError(res, 404, "Job not found");
+    res.json(job);
+  });
+
+  app.post("/api/jobs/:id/retry", generationLimit, (req, res) => {
+    if (!accessibleJob(currentUser(req), req.params.id)) return sendError(res, 404, "Job not found");
+    const job = retryJob(req.params.id);
+    if (!job) return sendError(res, 409, "Only failed jobs can be retried");
+    res.status(202).json(job);
+  });
+
+  // Server-Sent Events: one `data:` message per snapshot; the stream ends once the job finishes.
+  app.get("/api/jobs/:id/events", (req, res) => {
+    const job = accessibleJob(currentUser(req), req.params.id);
+    if (!job) return sendError(res, 404, "Job not found");
+
+    res.set({
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    });
+    res.flushHeaders();
+
+    const send = (snapshot: GenerationJob) => {
+      res.write(`data: ${JSON.stringify(snapshot)}\n\n`);
+      if (isJobFinished(snapshot)) close();
+    };
+    const close = () => {
+      jobEvents.off(job.id, send);
+      res.end();
+    };
+
+    jobEvents.on(job.id, send);
+    req.on("close", close);
+    send(job);
+  });
+
+  // Queues the next chapter of the comic's series. A standalone comic first
+  // becomes chapter 1 of a new series named after it. The new chapter keeps the
+  // language and settings of the latest one; `prompt` optionally steers what happens next.
+  const continuation = z.object({ prompt: z.string().trim().default(""), characterIds: idList.default([]) });
+
+  app.post("/api/comics/:id/continue", generationLimit, validate({ body: continuation }), (req, res) => {
+    const user = currentUser(req);
+    const { prompt, characterIds } = req.body;
+    if (characterIds.some((id: string) => !accessibleCharacter(user, id))) {
+      return sendError(res, 400, "characterIds must list existing characters");
+    }
+
+    const comic = db.prepare("SELECT id, title, description, owner_id, series_id FROM comics WHERE id = ?").get(req.params.id);
+    const seriesId = comic.series_id || createSeries(comic.owner_id, comic.title, comic.description || "", [comic.id]);
+    const series = db.prepare("SELECT title FROM series WHERE id = ?").get(seriesId);
+    const latest = db.prepare("SELECT id FROM comics WHERE series_id = ? ORDER BY chapter_number DESC LIMIT 1").get(seriesId);
+    const settings = getComicSettings(latest.id) ?? undefined;
+    const verdict = moderate("prompt", { prompt }, { userId: user.id, audience: settings?.audience, comicId: comic.id });
+    if (verdict.action !== "allow") return sendRejection(res, "prompt", verdict);
+    // The new chapter belongs to the series owner, also when an admin continues it.
+    res.status(202).json(enqueueComicJob(comic.owner_id ?? user.id, {
+      prompt: prompt || series.title,
+      language: originalLanguage(latest.id),
+      characterIds,
+      settings,
+      seriesId,
+    }));
+  });
+
+  const regeneration = z.object({
+    description: requiredText.optional(),
+    count: z.int().min(1).max(MAX_ALTERNATIVES).default(1),
+  });
+
+  app.post("/api/comics/:id/panels/:panelId/regenerate", generationLimit, validate({ body: regeneration }), (req, res) => {
+    const panel = db.prepare("SELECT id FROM panels WHERE id = ? AND comic_id = ?").get(req.params.panelId, req.params.id);
+    if (!panel) return sendError(res, 404, "Panel not found");
+
+    // Without a description the current image's one is reused, e.g. for more alternatives of the same scene.
+    const { description = currentDescription(panel.id), count } = req.body;
+    if (!description) return sendError(res, 400, "description is required");
+    const user = currentUser(req);
+    if (req.body.description) {
+      const verdict = moderate("prompt", { description }, { userId: user.id, audience: getComicSettings(req.params.id)?.audience, comicId: req.params.id });
+      if (verdict.action !== "allow") return sendRejection(res, "description", verdict);
+    }
+    res.status(202).json(enqueuePanelJob(user.id, req.params.id, panel.id, description, { activate: count === 1 }, count));
+  });
+
+  app.post("/api/comics/:id/retry-failed", generationLimit, (req, res) => {
+    const job = retryFailedPanels(currentUser(req).id, req.params.id);
+    if (!job) return sendError(res, 409, "No panel failed");
+    res.status(202).json(job);
+  });
+}
@@ -0,0 +1,173 @@
+import type { Express } from "express";
+import { z } from "zod";
+import { db } from "./db";
+import { sendError } from "./errors";
+import { validate } from "./validation";
+import { thumbnailUrl } from "./assets";
+import { currentUser, isAdmin } from "./auth";
+import { readingProgress } from "./reading";
+import { getPanelCharacterIds } from "./characters";
+import { getPanelBalloons } from "./balloons";
+import { getPageTemplates } from "./pages";
+import { getComicSettings } from "./styles";
+import { getSeries, setComicSeries } from "./series";
+import {
+  COMIC_SORTS, COMICS_PAGE_SIZE, ComicSort, DEFAULT_COMIC_SORT, MAX_COMICS_PAGE_SIZE, MAX_TAG_LENGTH, MAX_TAGS, normalizeTags,
+} from "../src/library";
+import type { Comic, ComicPage, Panel, TagCount } from "../src/types";
+
+// Keyset pagination: each sort orders by a key plus the id as tie-breaker, and
+// the cursor holds both values of the last comic returned.
+const SORTS: Record<ComicSort, { key: string; order: string; after: string }> = {
+  newest: { key: "c.created_at", order: "DESC", after: "<" },
+  oldest: { key: "c.created_at", order: "ASC", after: ">" },
+  title: { key: "lower(c.title)", order: "ASC", after: ">" },
+};
+
+const encodeCursor = (key: unknown, id: string) => Buffer.from(JSON.stringify([key, id])).toString("base64url");
+
+function decodeCursor(cursor: string): [unknown, string] | null {
+  try {
+    const value = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    return Array.isArray(value) && value.length === 2 && typeof value[1] === "string" ? [value[0], value[1]] : null;
+  } catch {
+    return null;
+  }
+}
+
+// Every word must appear, as a whole word or the start of one. Quotes keep
+// FTS5 operators typed by the user from being interpreted.
+export function searchExpression(query: string) {
+  const words = query.split(/\s+/).map(word => word.replace(/"/g, "")).filter(Boolean);
+  return words.length ? words.map(word => `"${word}"*`).join(" ") : null;
+}
+
+export function getComicTags(comicId: string): string[] {
+  return db.prepare("SELECT tag FROM comic_tags WHERE comic_id = ? ORDER BY tag ASC").all(comicId).map((row: { tag: string }) => row.tag);
+}
+
+export const setComicTags = db.transaction((comicId: string, tags: string[]) => {
+  db.prepare("DELETE FROM comic_tags WHERE comic_id = ?").run(comicId);
+  const insert = db.prepare("INSERT INTO comic_tags (comic_id, tag) VALUES (?, ?)");
+  normalizeTags(tags).forEach(tag => insert.run(comicId, tag));
+});
+
+export const listPanels = (comicId: string): Panel[] => db.prepare("SELECT * FROM panels WHERE comic_id = ? ORDER BY order_index ASC").all(comicId)
+  .map((panel: { id: string }) => ({ ...panel, character_ids: getPanelCharacterIds(panel.id), balloons: getPanelBalloons(panel.id) }));
+
+// The comic with everything the viewer shows, and where `readerId` stopped reading it.
+export function getComic(comicId: string, readerId: string): Comic | null {
+  const comic = db.prepare("SELECT * FROM comics WHERE id = ?").get(comicId);
+  if (!comic) return null;
+  return {
+    ...comic,
+    panels: listPanels(comicId),
+    page_templates: getPageTemplates(comicId),
+    settings: getComicSettings(comicId),
+    tags: getComicTags(comicId),
+    series: comic.series_id ? getSeries(comic.series_id) : null,
+    reading_progress: readingProgress(readerId, comicId),
+  };
+}
+
+// Panels and everything else that belongs to the comic go with it through
+// the foreign keys; the rest of its series closes the gap.
+export const deleteComic = db.transaction((comicId: string) => {
+  setComicSeries(comicId, null);
+  db.prepare("DELETE FROM comics WHERE id = ?").run(comicId);
+});
+
+interface ComicListQuery {
+  owner: string;
+  // Whose reading progress to include.
+  reader?: string;
+  q?: string;
+  tag?: string;
+  sort?: ComicSort;
+  cursor?: string;
+  limit?: number;
+}
+
+export function listComics({ owner, reader, q, tag, sort = DEFAULT_COMIC_SORT, cursor, limit = COMICS_PAGE_SIZE }: ComicListQuery): ComicPage | string {
+  const { key, order, after } = SORTS[sort];
+  const conditions = ["(@owner = 'all' OR c.owner_id = @owner)"];
+  const params: Record<string, unknown> = { owner, limit: limit + 1 };
+
+  const match = q ? searchExpression(q) : null;
+  if (match) {
+    conditions.push("c.id IN (SELECT comic_id FROM comic_search WHERE comic_search MATCH @match)");
+    params.match = match;
+  }
+  if (tag) {
+    conditions.push("c.id IN (SELECT comic_id FROM comic_tags WHERE tag = @tag)");
+    params.tag = tag;
+  }
+  if (cursor) {
+    const position = decodeCursor(cursor);
+    if (!position) return "Invalid cursor";
+    conditions.push(`(${key}, c.id) ${after} (@cursorKey, @cursorId)`);
+    [params.cursorKey, params.cursorId] = position;
+  }
+
+  const rows = db.prepare(`
+    SELECT c.*, ${key} AS sort_key, u.username AS owner_name, s.title AS series_title, (
+      SELECT image_url FROM panels p
+      WHERE p.comic_id = c.id AND p.image_url IS NOT NULL
+      ORDER BY p.order_index ASC LIMIT 1
+    ) AS cover_image
+    FROM comics c LEFT JOIN users u ON u.id = c.owner_id LEFT JOIN series s ON s.id = c.series_id
+    WHERE ${conditions.join(" AND ")}
+    ORDER BY ${key} ${order}, c.id ${order}
+    LIMIT @limit
+  `).all(params);
+
+  const page = rows.slice(0, limit);
+  const last = page[page.length - 1];
+  return {
+    comics: page.map(({ cover_image, sort_key, ...comic }: { id: string; cover_image: string | null; sort_key: unknown }): Comic => ({
+      ...(comic as Comic),
+      cover_url: thumbnailUrl(cover_image),
+      tags: getComicTags(comic.id),
+      ...(reader && { reading_progress: readingProgress(reader, comic.id) }),
+    })),
+    next_cursor: rows.length > limit ? encodeCursor(last.sort_key, last.id) : null,
+  };
+}
+
+const comicListQuery = z.object({
+  q: z.string().optional(),
+  tag: z.string().optional(),
+  sort: z.enum(COMIC_SORTS).default(DEFAULT_COMIC_SORT),
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(MAX_COMICS_PAGE_SIZE).default(COMICS_PAGE_SIZE),
+  owner: z.string().optional(),
+});
+
+export function registerLibraryRoutes(app: Express) {
+  // Everyone gets their own library; admins can ask for another user's (`owner=<id>`) or all of them (`owner=all`).
+  app.get("/api/comics", validate({ query: comicListQuery }), (req, res) => {
+    const user = currentUser(req);
+    const { owner, ...query } = req.query as unknown as z.infer<typeof comicListQuery>;
+    const page = listComics({ ...query, owner: isAdmin(user) && owner ? owner : user.id, reader: user.id });
+    if (typeof page === "string") return sendError(res, 400, page);
+    res.json(page);
+  });
+
+  // Tags used in the user's own library, most used first.
+  app.get("/api/tags", (req, res) => {
+    const tags: TagCount[] = db.prepare(`
+      SELECT t.tag, COUNT(*) AS count FROM comic_tags t JOIN comics c ON c.id = t.comic_id
+      WHERE c.owner_id = ? GROUP BY t.tag COLLATE NOCASE ORDER BY count DESC, t.tag ASC
+    `).all(currentUser(req).id);
+    res.json(tags);
+  });
+
+  const tagList = z.object({ tags: z.array(z.string().trim().max(MAX_TAG_LENGTH)) });
+
+  app.put("/api/comics/:id/tags", validate({ body: tagList }), (req, res) => {
+    const { tags } = req.body;
+    if (normalizeTags(tags).length > MAX_TAGS) return sendError(res, 400, `A comic can have at most ${MAX_TAGS} tags`);
+    setComicTags(req.params.id, tags);
+    res.json({ tags: getComicTags(req.params.id) });
+  });
+}
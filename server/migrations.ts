@@ -0,0 +1,661 @@
+import type Database from "better-sqlite3";
+
+type Connection = Database.Database;
+
+interface Migration {
+  version: number;
+  name: string;
+  up: (db: Connection) => void;
+}
+
+// CREATE TABLE IF NOT EXISTS leaves tables from older databases as they were,
+// so columns added before migrations existed are created here when missing.
+function addColumn(db: Connection, table: string, column: string, definition: string) {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all().map((c: { name: string }) => c.name);
+  if (!columns.includes(column)) db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+}
+
+// Full-text index of the library: one row per comic with its title, description
+// and all the text of its panels (captions and balloons), kept current by triggers.
+const reindexPanelText = (comicId: string) =>
+  `UPDATE comic_search SET panels = (SELECT group_concat(text, ' ') FROM comic_panel_text WHERE comic_id = ${comicId}) WHERE comic_id = ${comicId};`;
+
+function createSearchTriggers(db: Connection) {
+  db.exec(`
+    CREATE VIEW IF NOT EXISTS comic_panel_text AS
+      SELECT comic_id, caption AS text FROM panels
+      UNION ALL
+      SELECT p.comic_id, b.text FROM panel_balloons b JOIN panels p ON p.id = b.panel_id;
+
+    CREATE TRIGGER IF NOT EXISTS comic_search_insert AFTER INSERT ON comics BEGIN
+      INSERT INTO comic_search (comic_id, title, description, panels) VALUES (NEW.id, NEW.title, NEW.description, '');
+    END;
+    CREATE TRIGGER IF NOT EXISTS comic_search_update AFTER UPDATE OF title, description ON comics BEGIN
+      UPDATE comic_search SET title = NEW.title, description = NEW.description WHERE comic_id = NEW.id;
+    END;
+    CREATE TRIGGER IF NOT EXISTS comic_search_delete AFTER DELETE ON comics BEGIN
+      DELETE FROM comic_search WHERE comic_id = OLD.id;
+    END;
+
+    CREATE TRIGGER IF NOT EXISTS panel_search_insert AFTER INSERT ON panels BEGIN
+      ${reindexPanelText("NEW.comic_id")}
+    END;
+    CREATE TRIGGER IF NOT EXISTS panel_search_update AFTER UPDATE OF caption ON panels BEGIN
+      ${reindexPanelText("NEW.comic_id")}
+    END;
+    CREATE TRIGGER IF NOT EXISTS panel_search_delete AFTER DELETE ON panels BEGIN
+      ${reindexPanelText("OLD.comic_id")}
+    END;
+
+    CREATE TRIGGER IF NOT EXISTS balloon_search_insert AFTER INSERT ON panel_balloons BEGIN
+      ${reindexPanelText("(SELECT comic_id FROM panels WHERE id = NEW.panel_id)")}
+    END;
+    CREATE TRIGGER IF NOT EXISTS balloon_search_update AFTER UPDATE OF text ON panel_balloons BEGIN
+      ${reindexPanelText("(SELECT comic_id FROM panels WHERE id = NEW.panel_id)")}
+    END;
+    CREATE TRIGGER IF NOT EXISTS balloon_search_delete AFTER DELETE ON panel_balloons BEGIN
+      ${reindexPanelText("(SELECT comic_id FROM panels WHERE id = OLD.panel_id)")}
+    END;
+  `);
+}
+
+function dropSearchTriggers(db: Connection) {
+  const triggers = db.prepare("SELECT name FROM sqlite_master WHERE type = 'trigger' AND name LIKE '%_search_%'").all();
+  triggers.forEach((trigger: { name: string }) => db.exec(`DROP TRIGGER ${trigger.name}`));
+  db.exec("DROP VIEW IF EXISTS comic_panel_text");
+}
+
+// The schema as it was before versioned migrations. Databases from that time
+// already have some or all of it, so every statement is safe to repeat.
+function initialSchema(db: Connection) {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS comics (
+      id TEXT PRIMARY KEY,
+      title TEXT NOT NULL,
+      description TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE TABLE IF NOT EXISTS panels (
+      id TEXT PRIMARY KEY,
+      comic_id TEXT NOT NULL,
+      image_url TEXT,
+      caption TEXT,
+      order_index INTEGER,
+      FOREIGN KEY (comic_id) REFERENCES comics(id)
+    );
+
+    CREATE TABLE IF NOT EXISTS jobs (
+      id TEXT PRIMARY KEY,
+      type TEXT NOT NULL,
+      comic_id TEXT,
+      status TEXT NOT NULL,
+      input TEXT NOT NULL,
+      error TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE TABLE IF NOT EXISTS job_steps (
+      id TEXT PRIMARY KEY,
+      job_id TEXT NOT NULL,
+      kind TEXT NOT NULL,
+      position INTEGER NOT NULL,
+      panel_id TEXT,
+      description TEXT,
+      status TEXT NOT NULL,
+      attempts INTEGER DEFAULT 0,
+      error TEXT,
+      FOREIGN KEY (job_id) REFERENCES jobs(id)
+    );
+
+    CREATE TABLE IF NOT EXISTS assets (
+      hash TEXT PRIMARY KEY,
+      mime_type TEXT NOT NULL,
+      size INTEGER NOT NULL,
+      width INTEGER,
+      height INTEGER,
+      thumbnail_hash TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE TABLE IF NOT EXISTS comic_translations (
+      comic_id TEXT NOT NULL,
+      language TEXT NOT NULL,
+      title TEXT,
+      description TEXT,
+      title_is_manual INTEGER NOT NULL DEFAULT 0,
+      description_is_manual INTEGER NOT NULL DEFAULT 0,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      PRIMARY KEY (comic_id, language),
+      FOREIGN KEY (comic_id) REFERENCES comics(id)
+    );
+
+    CREATE TABLE IF NOT EXISTS panel_translations (
+      panel_id TEXT NOT NULL,
+      language TEXT NOT NULL,
+      caption TEXT,
+      is_manual INTEGER NOT NULL DEFAULT 0,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      PRIMARY KEY (panel_id, language),
+      FOREIGN KEY (panel_id) REFERENCES panels(id)
+    );
+
+    CREATE TABLE IF NOT EXISTS characters (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      description TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE TABLE IF NOT EXISTS character_photos (
+      id TEXT PRIMARY KEY,
+      character_id TEXT NOT NULL,
+      image_url TEXT NOT NULL,
+      order_index INTEGER NOT NULL,
+      FOREIGN KEY (character_id) REFERENCES characters(id)
+    );
+
+    CREATE TABLE IF NOT EXISTS panel_characters (
+      panel_id TEXT NOT NULL,
+      character_id TEXT NOT NULL,
+      PRIMARY KEY (panel_id, character_id),
+      FOREIGN KEY (panel_id) REFERENCES panels(id),
+      FOREIGN KEY (character_id) REFERENCES characters(id)
+    );
+
+    CREATE TABLE IF NOT EXISTS panel_balloons (
+      id TEXT PRIMARY KEY,
+      panel_id TEXT NOT NULL,
+      order_index INTEGER NOT NULL,
+      type TEXT NOT NULL,
+      speaker TEXT,
+      text TEXT NOT NULL,
+      x REAL NOT NULL,
+      y REAL NOT NULL,
+      width REAL NOT NULL,
+      height REAL NOT NULL,
+      tail_x REAL,
+      tail_y REAL,
+      FOREIGN KEY (panel_id) REFERENCES panels(id)
+    );
+
+    CREATE TABLE IF NOT EXISTS balloon_translations (
+      balloon_id TEXT NOT NULL,
+      language TEXT NOT NULL,
+      text TEXT,
+      is_manual INTEGER NOT NULL DEFAULT 0,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      PRIMARY KEY (balloon_id, language),
+      FOREIGN KEY (balloon_id) REFERENCES panel_balloons(id)
+    );
+
+    CREATE TABLE IF NOT EXISTS comic_pages (
+      comic_id TEXT NOT NULL,
+      page_index INTEGER NOT NULL,
+      template TEXT NOT NULL,
+      PRIMARY KEY (comic_id, page_index),
+      FOREIGN KEY (comic_id) REFERENCES comics(id)
+    );
+
+    CREATE TABLE IF NOT EXISTS style_presets (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      prompt TEXT NOT NULL,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE TABLE IF NOT EXISTS comic_settings (
+      comic_id TEXT PRIMARY KEY,
+      panel_count INTEGER,
+      genre TEXT,
+      tone TEXT,
+      audience TEXT,
+      style_id TEXT NOT NULL,
+      style_name TEXT NOT NULL,
+      style_prompt TEXT NOT NULL,
+      FOREIGN KEY (comic_id) REFERENCES comics(id)
+    );
+
+    CREATE TABLE IF NOT EXISTS panel_variants (
+      id TEXT PRIMARY KEY,
+      panel_id TEXT NOT NULL,
+      image_url TEXT NOT NULL,
+      description TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (panel_id) REFERENCES panels(id)
+    );
+
+    CREATE TABLE IF NOT EXISTS panel_edits (
+      id TEXT PRIMARY KEY,
+      comic_id TEXT NOT NULL,
+      panel_id TEXT NOT NULL,
+      position INTEGER NOT NULL,
+      caption_before TEXT,
+      image_before TEXT,
+      caption_after TEXT,
+      image_after TEXT,
+      undone INTEGER NOT NULL DEFAULT 0,
+      FOREIGN KEY (comic_id) REFERENCES comics(id),
+      FOREIGN KEY (panel_id) REFERENCES panels(id)
+    );
+
+    CREATE TABLE IF NOT EXISTS users (
+      id TEXT PRIMARY KEY,
+      username TEXT NOT NULL UNIQUE COLLATE NOCASE,
+      password_hash TEXT NOT NULL,
+      role TEXT NOT NULL DEFAULT 'user',
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE TABLE IF NOT EXISTS share_links (
+      token TEXT PRIMARY KEY,
+      comic_id TEXT NOT NULL,
+      created_by TEXT,
+      expires_at DATETIME,
+      revoked_at DATETIME,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (comic_id) REFERENCES comics(id),
+      FOREIGN KEY (created_by) REFERENCES users(id)
+    );
+
+    CREATE TABLE IF NOT EXISTS comic_tags (
+      comic_id TEXT NOT NULL,
+      tag TEXT NOT NULL COLLATE NOCASE,
+      PRIMARY KEY (comic_id, tag),
+      FOREIGN KEY (comic_id) REFERENCES comics(id)
+    );
+
+    CREATE TABLE IF NOT EXISTS series (
+      id TEXT PRIMARY KEY,
+      title TEXT NOT NULL,
+      description TEXT,
+      owner_id TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (owner_id) REFERENCES users(id)
+    );
+
+    CREATE TABLE IF NOT EXISTS comic_continuity (
+      comic_id TEXT PRIMARY KEY,
+      summary TEXT NOT NULL,
+      open_threads TEXT NOT NULL DEFAULT '[]',
+      FOREIGN KEY (comic_id) REFERENCES comics(id)
+    );
+
+    CREATE TABLE IF NOT EXISTS sessions (
+      token_hash TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL,
+      expires_at DATETIME NOT NULL,
+      FOREIGN KEY (user_id) REFERENCES users(id)
+    );
+  `);
+
+  // Rows from before accounts have no owner until the first account claims them.
+  for (const table of ["comics", "characters", "style_presets", "jobs"]) {
+    addColumn(db, table, "owner_id", "TEXT REFERENCES users(id)");
+  }
+
+  // Chapters of a series are numbered from 1 in reading order.
+  addColumn(db, "comics", "series_id", "TEXT REFERENCES series(id)");
+  addColumn(db, "comics", "chapter_number", "INTEGER");
+
+  db.exec(`
+    CREATE VIRTUAL TABLE IF NOT EXISTS comic_search USING fts5(
+      comic_id UNINDEXED, title, description, panels,
+      tokenize = 'unicode61 remove_diacritics 2'
+    );
+  `);
+  createSearchTriggers(db);
+  // Comics from before the index existed.
+  db.exec(`
+    INSERT INTO comic_search (comic_id, title, description, panels)
+      SELECT c.id, c.title, c.description, (SELECT group_concat(text, ' ') FROM comic_panel_text t WHERE t.comic_id = c.id)
+      FROM comics c WHERE c.id NOT IN (SELECT comic_id FROM comic_search);
+  `);
+}
+
+// SQLite cannot change the constraints of an existing table, so each one is
+// recreated with its new definition and its rows copied over.
+function rebuildTable(db: Connection, table: string, definition: string) {
+  db.exec(`CREATE TABLE ${table}_new (${definition})`);
+  const columnsOf = (name: string) => db.prepare(`PRAGMA table_info(${name})`).all().map((c: { name: string }) => c.name);
+  const kept = columnsOf(table);
+  const columns = columnsOf(`${table}_new`).filter((column: string) => kept.includes(column)).join(", ");
+  db.exec(`INSERT INTO ${table}_new (${columns}) SELECT ${columns} FROM ${table}`);
+  db.exec(`DROP TABLE ${table}`);
+  db.exec(`ALTER TABLE ${table}_new RENAME TO ${table}`);
+}
+
+// Removes rows whose parent was deleted before foreign keys were enforced,
+// as the cascade would have. Repeated because removing a panel orphans its balloons.
+function deleteOrphans(db: Connection) {
+  for (;;) {
+    const orphans = db.pragma("foreign_key_check").filter((orphan: { table: string; fkid: number }) =>
+      db.pragma(`foreign_key_list(${orphan.table})`).some((key: { id: number; on_delete: string }) => key.id === orphan.fkid && key.on_delete === "CASCADE"));
+    if (!orphans.length) return;
+    orphans.forEach((orphan: { table: string; rowid: number }) => db.prepare(`DELETE FROM ${orphan.table} WHERE rowid = ?`).run(orphan.rowid));
+  }
+}
+
+// Everything that only exists as part of a comic, panel, balloon, character,
+// job or user goes with it; links that outlive their target are cleared instead.
+const CASCADING_TABLES: Record<string, string> = {
+  comics: `
+    id TEXT PRIMARY KEY,
+    title TEXT NOT NULL,
+    description TEXT,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    owner_id TEXT REFERENCES users(id),
+    series_id TEXT REFERENCES series(id) ON DELETE SET NULL,
+    chapter_number INTEGER`,
+  panels: `
+    id TEXT PRIMARY KEY,
+    comic_id TEXT NOT NULL REFERENCES comics(id) ON DELETE CASCADE,
+    image_url TEXT,
+    caption TEXT,
+    order_index INTEGER`,
+  jobs: `
+    id TEXT PRIMARY KEY,
+    type TEXT NOT NULL,
+    comic_id TEXT REFERENCES comics(id) ON DELETE SET NULL,
+    status TEXT NOT NULL,
+    input TEXT NOT NULL,
+    error TEXT,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    owner_id TEXT REFERENCES users(id)`,
+  job_steps: `
+    id TEXT PRIMARY KEY,
+    job_id TEXT NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+    kind TEXT NOT NULL,
+    position INTEGER NOT NULL,
+    panel_id TEXT,
+    description TEXT,
+    status TEXT NOT NULL,
+    attempts INTEGER DEFAULT 0,
+    error TEXT`,
+  comic_translations: `
+    comic_id TEXT NOT NULL REFERENCES comics(id) ON DELETE CASCADE,
+    language TEXT NOT NULL,
+    title TEXT,
+    description TEXT,
+    title_is_manual INTEGER NOT NULL DEFAULT 0,
+    description_is_manual INTEGER NOT NULL DEFAULT 0,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (comic_id, language)`,
+  panel_translations: `
+    panel_id TEXT NOT NULL REFERENCES panels(id) ON DELETE CASCADE,
+    language TEXT NOT NULL,
+    caption TEXT,
+    is_manual INTEGER NOT NULL DEFAULT 0,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (panel_id, language)`,
+  character_photos: `
+    id TEXT PRIMARY KEY,
+    character_id TEXT NOT NULL REFERENCES characters(id) ON DELETE CASCADE,
+    image_url TEXT NOT NULL,
+    order_index INTEGER NOT NULL`,
+  panel_characters: `
+    panel_id TEXT NOT NULL REFERENCES panels(id) ON DELETE CASCADE,
+    character_id TEXT NOT NULL REFERENCES characters(id) ON DELETE CASCADE,
+    PRIMARY KEY (panel_id, character_id)`,
+  panel_balloons: `
+    id TEXT PRIMARY KEY,
+    panel_id TEXT NOT NULL REFERENCES panels(id) ON DELETE CASCADE,
+    order_index INTEGER NOT NULL,
+    type TEXT NOT NULL,
+    speaker TEXT,
+    text TEXT NOT NULL,
+    x REAL NOT NULL,
+    y REAL NOT NULL,
+    width REAL NOT NULL,
+    height REAL NOT NULL,
+    tail_x REAL,
+    tail_y REAL`,
+  balloon_translations: `
+    balloon_id TEXT NOT NULL REFERENCES panel_balloons(id) ON DELETE CASCADE,
+    language TEXT NOT NULL,
+    text TEXT,
+    is_manual INTEGER NOT NULL DEFAULT 0,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (balloon_id, language)`,
+  comic_pages: `
+    comic_id TEXT NOT NULL REFERENCES comics(id) ON DELETE CASCADE,
+    page_index INTEGER NOT NULL,
+    template TEXT NOT NULL,
+    PRIMARY KEY (comic_id, page_index)`,
+  comic_settings: `
+    comic_id TEXT PRIMARY KEY REFERENCES comics(id) ON DELETE CASCADE,
+    panel_count INTEGER,
+    genre TEXT,
+    tone TEXT,
+    audience TEXT,
+    style_id TEXT NOT NULL,
+    style_name TEXT NOT NULL,
+    style_prompt TEXT NOT NULL`,
+  panel_variants: `
+    id TEXT PRIMARY KEY,
+    panel_id TEXT NOT NULL REFERENCES panels(id) ON DELETE CASCADE,
+    image_url TEXT NOT NULL,
+    description TEXT,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP`,
+  panel_edits: `
+    id TEXT PRIMARY KEY,
+    comic_id TEXT NOT NULL REFERENCES comics(id) ON DELETE CASCADE,
+    panel_id TEXT NOT NULL REFERENCES panels(id) ON DELETE CASCADE,
+    position INTEGER NOT NULL,
+    caption_before TEXT,
+    image_before TEXT,
+    caption_after TEXT,
+    image_after TEXT,
+    undone INTEGER NOT NULL DEFAULT 0`,
+  share_links: `
+    token TEXT PRIMARY KEY,
+    comic_id TEXT NOT NULL REFERENCES comics(id) ON DELETE CASCADE,
+    created_by TEXT REFERENCES users(id) ON DELETE SET NULL,
+    expires_at DATETIME,
+    revoked_at DATETIME,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP`,
+  comic_tags: `
+    comic_id TEXT NOT NULL REFERENCES comics(id) ON DELETE CASCADE,
+    tag TEXT NOT NULL COLLATE NOCASE,
+    PRIMARY KEY (comic_id, tag)`,
+  comic_continuity: `
+    comic_id TEXT PRIMARY KEY REFERENCES comics(id) ON DELETE CASCADE,
+    summary TEXT NOT NULL,
+    open_threads TEXT NOT NULL DEFAULT '[]'`,
+  sessions: `
+    token_hash TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    expires_at DATETIME NOT NULL`,
+};
+
+function cascadingDeletes(db: Connection) {
+  // Rebuilt tables lose their triggers, and the view over them would block the renames.
+  dropSearchTriggers(db);
+  db.exec(`
+    UPDATE jobs SET comic_id = NULL WHERE comic_id NOT IN (SELECT id FROM comics);
+    UPDATE comics SET series_id = NULL, chapter_number = NULL WHERE series_id NOT IN (SELECT id FROM series);
+    UPDATE share_links SET created_by = NULL WHERE created_by NOT IN (SELECT id FROM users);
+  `);
+  for (const [table, definition] of Object.entries(CASCADING_TABLES)) rebuildTable(db, table, definition);
+  deleteOrphans(db);
+  createSearchTriggers(db);
+}
+
+// Every moderation decision, kept for admins to review. `text_key` is the
+// normalized text, so an admin's override applies whenever it comes up again.
+function moderationLog(db: Connection) {
+  db.exec(`
+    CREATE TABLE moderation_decisions (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id TEXT REFERENCES users(id) ON DELETE SET NULL,
+      job_id TEXT REFERENCES jobs(id) ON DELETE SET NULL,
+      comic_id TEXT REFERENCES comics(id) ON DELETE SET NULL,
+      source TEXT NOT NULL,
+      field TEXT NOT NULL,
+      text TEXT NOT NULL,
+      text_key TEXT NOT NULL,
+      audience TEXT,
+      level TEXT NOT NULL,
+      action TEXT NOT NULL,
+      rule_id TEXT,
+      category TEXT,
+      reason TEXT,
+      override_action TEXT,
+      overridden_by TEXT REFERENCES users(id) ON DELETE SET NULL,
+      overridden_at DATETIME,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+    CREATE INDEX moderation_decisions_text_key ON moderation_decisions (text_key);
+    CREATE INDEX moderation_decisions_job ON moderation_decisions (job_id);
+  `);
+}
+
+// One row per AI provider call, with its estimated cost at the prices of the
+// time. Rows outlive the users, comics and jobs they were made for.
+function usageLedger(db: Connection) {
+  db.exec(`
+    CREATE TABLE ai_usage (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id TEXT REFERENCES users(id) ON DELETE SET NULL,
+      comic_id TEXT REFERENCES comics(id) ON DELETE SET NULL,
+      job_id TEXT REFERENCES jobs(id) ON DELETE SET NULL,
+      operation TEXT NOT NULL,
+      provider TEXT NOT NULL,
+      model TEXT NOT NULL,
+      input_chars INTEGER NOT NULL,
+      input_images INTEGER NOT NULL,
+      output_chars INTEGER NOT NULL,
+      output_images INTEGER NOT NULL,
+      latency_ms INTEGER NOT NULL,
+      success INTEGER NOT NULL,
+      error TEXT,
+      cost_usd REAL NOT NULL,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+    CREATE INDEX ai_usage_created ON ai_usage (created_at);
+    CREATE INDEX ai_usage_user ON ai_usage (user_id, created_at);
+    CREATE INDEX ai_usage_comic ON ai_usage (comic_id);
+    CREATE INDEX ai_usage_job ON ai_usage (job_id);
+
+    -- scope is 'global', 'user' (the default for every account) or a user id.
+    CREATE TABLE usage_quotas (
+      scope TEXT NOT NULL,
+      period TEXT NOT NULL,
+      limit_usd REAL NOT NULL,
+      PRIMARY KEY (scope, period)
+    );
+  `);
+}
+
+// Each panel says whether its image is being generated or failed, instead of
+// leaving that to whichever job touched it last; panels waiting on a job are
+// marked from its steps. Identical AI requests are answered from ai_cache.
+function generationResilience(db: Connection) {
+  const latestStep = (column: string) => `(SELECT ${column} FROM job_steps s WHERE s.panel_id = panels.id ORDER BY s.rowid DESC LIMIT 1)`;
+  db.exec(`
+    ALTER TABLE panels ADD COLUMN image_status TEXT NOT NULL DEFAULT 'idle';
+    ALTER TABLE panels ADD COLUMN image_error TEXT;
+    UPDATE panels SET image_status = 'failed', image_error = ${latestStep("error")}
+      WHERE image_url IS NULL AND ${latestStep("status")} = 'failed';
+    UPDATE panels SET image_status = 'pending'
+      WHERE image_url IS NULL AND ${latestStep("status")} IN ('pending', 'running');
+
+    ALTER TABLE ai_usage ADD COLUMN cached INTEGER NOT NULL DEFAULT 0;
+
+    -- key is the SHA-256 of the request; images are kept as asset URLs.
+    CREATE TABLE ai_cache (
+      key TEXT PRIMARY KEY,
+      operation TEXT NOT NULL,
+      model TEXT NOT NULL,
+      response TEXT NOT NULL,
+      hits INTEGER NOT NULL DEFAULT 0,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+    CREATE INDEX ai_cache_created ON ai_cache (created_at);
+  `);
+}
+
+// Where each reader stopped in each comic. The position is kept next to the
+// panel so progress survives the panel being deleted.
+function readingProgress(db: Connection) {
+  db.exec(`
+    CREATE TABLE reading_progress (
+      user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      comic_id TEXT NOT NULL REFERENCES comics(id) ON DELETE CASCADE,
+      panel_id TEXT REFERENCES panels(id) ON DELETE SET NULL,
+      position INTEGER NOT NULL,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      PRIMARY KEY (user_id, comic_id)
+    );
+    CREATE INDEX reading_progress_comic ON reading_progress (comic_id);
+  `);
+}
+
+// Panels keep the description their image was generated from, as the basis of
+// their alt text, and the alt text written for them. Panels without an image
+// take the description their latest job asked for.
+function panelDescriptions(db: Connection) {
+  db.exec(`
+    ALTER TABLE panels ADD COLUMN visual_description TEXT;
+    ALTER TABLE panels ADD COLUMN alt_text TEXT;
+
+    UPDATE panels SET visual_description = CASE
+      WHEN image_url IS NULL THEN (
+        SELECT s.description FROM job_steps s WHERE s.panel_id = panels.id AND s.description IS NOT NULL ORDER BY s.rowid DESC LIMIT 1
+      )
+      ELSE (
+        SELECT v.description FROM panel_variants v WHERE v.panel_id = panels.id AND v.image_url = panels.image_url AND v.description IS NOT NULL
+        ORDER BY v.created_at DESC, v.rowid DESC LIMIT 1
+      )
+    END;
+  `);
+}
+
+// Applied in order, each exactly once; never edit one that has shipped, add a new one.
+export const MIGRATIONS: Migration[] = [
+  { version: 1, name: "initial schema", up: initialSchema },
+  { version: 2, name: "cascading deletes", up: cascadingDeletes },
+  { version: 3, name: "moderation log", up: moderationLog },
+  { version: 4, name: "usage ledger", up: usageLedger },
+  { version: 5, name: "generation resilience", up: generationResilience },
+  { version: 6, name: "reading progress", up: readingProgress },
+  { version: 7, name: "panel descriptions", up: panelDescriptions },
+];
+
+// Brings the database up to the latest version. Pending migrations run together
+// in one transaction with foreign keys off, as table rebuilds require, and are
+// only committed if every reference still points at an existing row.
+export function migrate(db: Connection) {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+  `);
+  const applied = new Set<number>(db.prepare("SELECT version FROM schema_migrations").all().map((row: { version: number }) => row.version));
+  const latest = MIGRATIONS[MIGRATIONS.length - 1].version;
+  if ([...applied].some(version => version > latest)) {
+    throw new Error("The database was migrated by a newer version of the app");
+  }
+  const pending = MIGRATIONS.filter(migration => !applied.has(migration.version));
+  if (!pending.length) return;
+
+  db.pragma("foreign_keys = OFF");
+  try {
+    db.transaction(() => {
+      for (const migration of pending) {
+        migration.up(db);
+        db.prepare("INSERT INTO schema_migrations (version, name) VALUES (?, ?)").run(migration.version, migration.name);
+      }
+      const broken = db.pragma("foreign_key_check");
+      if (broken.length) throw new Error(`Migration left ${broken.length} rows pointing at missing rows`);
+    })();
+  } finally {
+    db.pragma("foreign_keys = ON");
+  }
+  // On stderr, so that the output of command-line tools stays theirs.
+  pending.forEach(migration => console.error(`Applied migration ${migration.version}: ${migration.name}`));
+}
@@ -0,0 +1,267 @@
+import fs from "fs";
+import type { Express, Response } from "express";
+import { z } from "zod";
+import { db } from "./db";
+import { sendError } from "./errors";
+import { validate } from "./validation";
+import { currentUser, requireAdmin } from "./auth";
+import type { Audience } from "../src/generation";
+import type { ModerationAction, ModerationDecision, ModerationVerdict } from "../src/types";
+
+// Local rules checked against prompts before anything is generated and against
+// generated stories before they are saved. A rule applies from its `level` of
+// strictness up; each audience is checked at its own level.
+// MODERATION_RULES may point at a JSON file with `rules` replacing the built-in
+// ones and/or `levels` changing the strictness per audience.
+
+const STRICTNESS = ["relaxed", "standard", "strict"] as const;
+type Strictness = typeof STRICTNESS[number];
+
+const ruleSchema = z.object({
+  id: z.string(),
+  category: z.string(),
+  action: z.enum(["rephrase", "block"]),
+  level: z.enum(STRICTNESS).default("relaxed"),
+  // Whole words or phrases, matched ignoring case and accents.
+  terms: z.array(z.string()).default([]),
+  // Regular expressions, tested case-insensitively against the text with accents removed.
+  patterns: z.array(z.string()).default([]),
+  reason: z.string(),
+});
+type ModerationRule = z.infer<typeof ruleSchema>;
+
+const levelsSchema = z.object({
+  kids: z.enum(STRICTNESS),
+  teens: z.enum(STRICTNESS),
+  adults: z.enum(STRICTNESS),
+  // Comics created without an audience.
+  default: z.enum(STRICTNESS),
+});
+
+const configSchema = z.object({
+  rules: z.array(ruleSchema).optional(),
+  levels: levelsSchema.partial().default({}),
+});
+
+const DEFAULT_LEVELS: z.infer<typeof levelsSchema> = { kids: "strict", teens: "standard", adults: "relaxed", default: "standard" };
+
+const DEFAULT_RULES: ModerationRule[] = [
+  {
+    id: "personal-data",
+    category: "personal-data",
+    action: "rephrase",
+    level: "relaxed",
+    terms: [],
+    patterns: [
+      "[\\w.+-]+@[\\w-]+\\.[\\w.]+",
+      "\\b\\d{3}\\.?\\d{3}\\.?\\d{3}-?\\d{2}\\b",
+      "(\\+?\\d{1,3}[ .-]?)?\\(?\\d{2,3}\\)?[ .-]?\\d{4,5}[ .-]?\\d{4}\\b",
+    ],
+    reason: "Contains an e-mail address, phone number or document number",
+  },
+  {
+    id: "self-harm",
+    category: "self-harm",
+    action: "block",
+    level: "standard",
+    terms: ["suicidio", "suicidar", "se matar", "automutilacao", "suicide", "kill myself", "self-harm"],
+    patterns: [],
+    reason: "Mentions suicide or self-harm",
+  },
+  {
+    id: "sexual",
+    category: "sexual",
+    action: "block",
+    level: "standard",
+    terms: ["sexo", "sexual", "nudez", "pelado", "pelada", "porno", "pornografia", "sex", "nude", "naked", "porn"],
+    patterns: [],
+    reason: "Sexual content",
+  },
+  {
+    id: "graphic-violence",
+    category: "violence",
+    action: "rephrase",
+    level: "strict",
+    terms: ["sangue", "sangrento", "gore", "tortura", "torturar", "decapitar", "assassinato", "blood", "bloody", "torture", "decapitate", "murder"],
+    patterns: [],
+    reason: "Graphic violence",
+  },
+  {
+    id: "drugs",
+    category: "drugs",
+    action: "rephrase",
+    level: "strict",
+    terms: ["droga", "drogas", "cocaina", "maconha", "heroina", "crack", "drug", "drugs", "cocaine", "heroin", "weed"],
+    patterns: [],
+    reason: "Drugs",
+  },
+  {
+    id: "profanity",
+    category: "profanity",
+    action: "rephrase",
+    level: "strict",
+    terms: ["merda", "porra", "caralho", "puta", "shit", "fuck", "bitch"],
+    patterns: [],
+    reason: "Profanity",
+  },
+];
+
+function loadConfig() {
+  const file = process.env.MODERATION_RULES;
+  if (!file) return { rules: DEFAULT_RULES, levels: DEFAULT_LEVELS };
+  const result = configSchema.safeParse(JSON.parse(fs.readFileSync(file, "utf8")));
+  if (!result.success) throw new Error(`${file}: ${result.error.issues.map(issue => `${issue.path.join(".")}: ${issue.message}`).join("; ")}`);
+  return { rules: result.data.rules ?? DEFAULT_RULES, levels: { ...DEFAULT_LEVELS, ...result.data.levels } };
+}
+
+// Lower case without accents, so "Sangue" and "sangué" match the same rules and overrides.
+export const normalizeText = (text: string) =>
+  text.normalize("NFKD").replace(/[\u0300-\u036f]/g, "").toLowerCase().replace(/\s+/g, " ").trim();
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Terms must stand as whole words: "crack" does not catch "crackers".
+const compileRule = (rule: ModerationRule) => ({
+  ...rule,
+  matchers: [
+    ...rule.terms.map(term => new RegExp(`(^|[^\\p{L}\\p{N}])${escapeRegExp(normalizeText(term))}($|[^\\p{L}\\p{N}])`, "u")),
+    ...rule.patterns.map(pattern => new RegExp(pattern, "iu")),
+  ],
+});
+
+const config = loadConfig();
+const rules = config.rules.map(compileRule);
+
+const levelFor = (audience: Audience | null | undefined): Strictness => config.levels[audience ?? "default"];
+
+const appliesAt = (rule: ModerationRule, level: Strictness) => STRICTNESS.indexOf(rule.level) <= STRICTNESS.indexOf(level);
+
+export interface ModerationContext {
+  userId: string | null;
+  audience?: Audience | null;
+  jobId?: string | null;
+  comicId?: string | null;
+}
+
+interface Finding {
+  field: string;
+  text: string;
+  action: Exclude<ModerationAction, "allow">;
+  ruleId: string | null;
+  category: string | null;
+  reason: string | null;
+}
+
+function overrideFor(textKey: string): "allow" | "block" | null {
+  const row = db.prepare(
+    "SELECT override_action FROM moderation_decisions WHERE text_key = ? AND override_action IS NOT NULL LIMIT 1"
+  ).get(textKey);
+  return row?.override_action ?? null;
+}
+
+function check(field: string, text: string, level: Strictness): Finding | null {
+  const key = normalizeText(text);
+  const override = overrideFor(key);
+  if (override === "allow") return null;
+  if (override === "block") return { field, text, action: "block", ruleId: null, category: "override", reason: "Blocked by an administrator" };
+  const rule = rules.find(rule => appliesAt(rule, level) && rule.matchers.some(matcher => matcher.test(key)));
+  return rule ? { field, text, action: rule.action, ruleId: rule.id, category: rule.category, reason: rule.reason } : null;
+}
+
+const insertDecision = db.prepare(`
+  INSERT INTO moderation_decisions (user_id, job_id, comic_id, source, field, text, text_key, audience, level, action, rule_id, category, reason)
+  VALUES (@userId, @jobId, @comicId, @source, @field, @text, @textKey, @audience, @level, @action, @ruleId, @category, @reason)
+`);
+
+// Checks every field and logs one decision: the most serious finding, or that
+// all of them passed. Empty fields are ignored.
+export function moderate(source: "prompt" | "output", fields: Record<string, string | null | undefined>, context: ModerationContext): ModerationVerdict {
+  const level = levelFor(context.audience);
+  const entries = Object.entries(fields).filter((entry): entry is [string, string] => !!entry[1]?.trim());
+  const findings = entries.map(([field, text]) => check(field, text, level)).filter((finding): finding is Finding => !!finding);
+  const finding = findings.find(f => f.action === "block") ?? findings[0];
+
+  const text = finding?.text ?? entries.map(([, value]) => value).join("\n");
+  const { lastInsertRowid } = insertDecision.run({
+    userId: context.userId,
+    jobId: context.jobId ?? null,
+    comicId: context.comicId ?? null,
+    source,
+    field: finding?.field ?? (entries.length === 1 ? entries[0][0] : "story"),
+    text,
+    textKey: normalizeText(text),
+    audience: context.audience ?? null,
+    level,
+    action: finding?.action ?? "allow",
+    ruleId: finding?.ruleId ?? null,
+    category: finding?.category ?? null,
+    reason: finding?.reason ?? null,
+  });
+  return { decision_id: Number(lastInsertRowid), action: finding?.action ?? "allow", category: finding?.category ?? null, reason: finding?.reason ?? null };
+}
+
+// Answers a rejected prompt with 422 and the verdict, so the client can say why.
+export function sendRejection(res: Response, field: string, verdict: ModerationVerdict) {
+  const message = verdict.action === "block" ? "This text is not allowed" : "Please rephrase this text";
+  return sendError(res, 422, `${message}: ${verdict.reason}`, [{ path: `body.${field}`, message: verdict.reason ?? message }], { moderation: verdict });
+}
+
+// Why the latest story of the job was rejected, if it was.
+export function jobRejection(jobId: string): ModerationVerdict | null {
+  const row = db.prepare(
+    "SELECT id, action, category, reason FROM moderation_decisions WHERE job_id = ? AND source = 'output' ORDER BY id DESC LIMIT 1"
+  ).get(jobId);
+  if (!row || row.action === "allow") return null;
+  return { decision_id: row.id, action: row.action, category: row.category, reason: row.reason };
+}
+
+const decisionQuery = `
+  SELECT d.id, d.user_id, u.username, d.job_id, d.comic_id, d.source, d.field, d.text, d.audience, d.level, d.action,
+    d.rule_id, d.category, d.reason, d.override_action, o.username AS overridden_by_name, d.overridden_at, d.created_at
+  FROM moderation_decisions d
+  LEFT JOIN users u ON u.id = d.user_id
+  LEFT JOIN users o ON o.id = d.overridden_by
+`;
+
+export function getDecision(id: number): ModerationDecision | null {
+  return db.prepare(`${decisionQuery} WHERE d.id = ?`).get(id) || null;
+}
+
+const DECISION_FILTERS = ["flagged", "overridden", "all"] as const;
+
+export function registerModerationRoutes(app: Express) {
+  // Newest first. `flagged` lists what the rules did not let through; pass the
+  // last id seen as `before` for older entries.
+  const decisionListQuery = z.object({
+    filter: z.enum(DECISION_FILTERS).default("flagged"),
+    before: z.coerce.number().int().positive().optional(),
+    limit: z.coerce.number().int().min(1).max(200).default(50),
+  });
+
+  app.get("/api/moderation/decisions", requireAdmin, validate({ query: decisionListQuery }), (req, res) => {
+    const { filter, before, limit } = req.query as unknown as z.infer<typeof decisionListQuery>;
+    const conditions = [
+      filter === "flagged" ? "d.action != 'allow'" : filter === "overridden" ? "d.override_action IS NOT NULL" : "1",
+      before ? "d.id < @before" : "1",
+    ];
+    res.json(db.prepare(`${decisionQuery} WHERE ${conditions.join(" AND ")} ORDER BY d.id DESC LIMIT @limit`).all({ before, limit }));
+  });
+
+  // `allow` lets the same text through from now on, `block` refuses it, and null
+  // hands it back to the rules. Earlier decisions are not revisited.
+  app.put("/api/moderation/decisions/:id/override", requireAdmin, validate({ body: z.object({ action: z.enum(["allow", "block"]).nullable() }) }), (req, res) => {
+    const decision = getDecision(Number(req.params.id));
+    if (!decision) return sendError(res, 404, "Decision not found");
+    const { action } = req.body;
+    // Only one decision holds the override for a given text: the latest word on it.
+    db.transaction(() => {
+      db.prepare("UPDATE moderation_decisions SET override_action = NULL, overridden_by = NULL, overridden_at = NULL WHERE text_key = (SELECT text_key FROM moderation_decisions WHERE id = ?)")
+        .run(decision.id);
+      if (action) {
+        db.prepare("UPDATE moderation_decisions SET override_action = ?, overridden_by = ?, overridden_at = CURRENT_TIMESTAMP WHERE id = ?")
+          .run(action, currentUser(req).id, decision.id);
+      }
+    })();
+    res.json(getDecision(decision.id));
+  });
+}
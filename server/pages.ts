@@ -0,0 +1,48 @@
+import type { Express } from "express";
+import { z } from "zod";
+import { db } from "./db";
+import { sendError } from "./errors";
+import { validate } from "./validation";
+import { isPageTemplate, PAGE_TEMPLATE_IDS, paginate, panelSlot, PageTemplateId } from "../src/layouts";
+import type { AspectRatio } from "../src/services/ai";
+
+export function getPageTemplates(comicId: string): PageTemplateId[] {
+  return db.prepare("SELECT template FROM comic_pages WHERE comic_id = ? ORDER BY page_index ASC").all(comicId)
+    .map((row: { template: string }) => row.template)
+    .filter(isPageTemplate);
+}
+
+export const setPageTemplates = db.transaction((comicId: string, templates: PageTemplateId[]) => {
+  db.prepare("DELETE FROM comic_pages WHERE comic_id = ?").run(comicId);
+  const insert = db.prepare("INSERT INTO comic_pages (comic_id, page_index, template) VALUES (?, ?, ?)");
+  templates.forEach((template, index) => insert.run(comicId, index, template));
+});
+
+// The aspect ratio of the slot the panel currently occupies, for image generation.
+export function panelAspectRatio(panelId: string): AspectRatio {
+  const panel = db.prepare("SELECT comic_id, order_index FROM panels WHERE id = ?").get(panelId);
+  if (!panel) return "1:1";
+  const { count } = db.prepare("SELECT COUNT(*) AS count FROM panels WHERE comic_id = ?").get(panel.comic_id);
+  return panelSlot(getPageTemplates(panel.comic_id), count, panel.order_index)?.aspectRatio ?? "1:1";
+}
+
+export function registerPageRoutes(app: Express) {
+  // Switching a template reflows the panels after it: each page takes as many as it has slots.
+  app.put("/api/comics/:id/pages/:pageIndex", validate({ body: z.object({ template: z.enum(PAGE_TEMPLATE_IDS) }) }), (req, res) => {
+    const comic = db.prepare("SELECT id FROM comics WHERE id = ?").get(req.params.id);
+    if (!comic) return sendError(res, 404, "Comic not found");
+
+    const { template } = req.body;
+
+    const panelIds = db.prepare("SELECT id FROM panels WHERE comic_id = ? ORDER BY order_index ASC").all(comic.id);
+    const pages = paginate(getPageTemplates(comic.id), panelIds).map(page => page.template);
+    const pageIndex = Number(req.params.pageIndex);
+    if (pageIndex >= Math.max(pages.length, 1)) {
+      return sendError(res, 404, "Page not found");
+    }
+
+    pages[pageIndex] = template;
+    setPageTemplates(comic.id, paginate(pages, panelIds).map(page => page.template));
+    res.json({ page_templates: getPageTemplates(comic.id) });
+  });
+}
@@ -0,0 +1,36 @@
+import type { Express } from "express";
+import { z } from "zod";
+import { db } from "./db";
+import { sendError } from "./errors";
+import { validate } from "./validation";
+import { currentUser } from "./auth";
+import type { ReadingProgress } from "../src/types";
+
+// Where the user stopped reading the comic, or null if they never opened it in
+// the reader. A deleted panel leaves the position it had, kept within the comic.
+export function readingProgress(userId: string, comicId: string): ReadingProgress | null {
+  const row = db.prepare(`
+    SELECT r.updated_at, (SELECT COUNT(*) FROM panels WHERE comic_id = r.comic_id) AS panel_count,
+      CASE WHEN p.id IS NULL THEN r.position
+        ELSE (SELECT COUNT(*) FROM panels q WHERE q.comic_id = r.comic_id AND q.order_index < p.order_index) END AS panel_index
+    FROM reading_progress r LEFT JOIN panels p ON p.id = r.panel_id
+    WHERE r.user_id = ? AND r.comic_id = ?
+  `).get(userId, comicId);
+  if (!row || !row.panel_count) return null;
+  return { panel_index: Math.min(row.panel_index, row.panel_count - 1), panel_count: row.panel_count, updated_at: row.updated_at };
+}
+
+export function registerReadingRoutes(app: Express) {
+  app.put("/api/comics/:id/progress", validate({ body: z.object({ panel_id: z.string() }) }), (req, res) => {
+    const panel = db.prepare("SELECT id, order_index FROM panels WHERE id = ? AND comic_id = ?").get(req.body.panel_id, req.params.id);
+    if (!panel) return sendError(res, 404, "Panel not found");
+
+    const userId = currentUser(req).id;
+    const { position } = db.prepare("SELECT COUNT(*) AS position FROM panels WHERE comic_id = ? AND order_index < ?").get(req.params.id, panel.order_index);
+    db.prepare(`
+      INSERT INTO reading_progress (user_id, comic_id, panel_id, position) VALUES (?, ?, ?, ?)
+      ON CONFLICT (user_id, comic_id) DO UPDATE SET panel_id = excluded.panel_id, position = excluded.position, updated_at = CURRENT_TIMESTAMP
+    `).run(userId, req.params.id, panel.id, position);
+    res.json(readingProgress(userId, req.params.id));
+  });
+}
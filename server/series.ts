@@ -0,0 +1,219 @@
+import type { Express } from "express";
+import { v4 as uuidv4 } from "uuid";
+import { z } from "zod";
+import { db } from "./db";
+import { sendError } from "./errors";
+import { idList, requiredText, validate } from "./validation";
+import { thumbnailUrl } from "./assets";
+import { accessibleComic, canAccess, currentUser } from "./auth";
+import type { StoryCharacter, StoryContinuity } from "../src/services/ai";
+import type { Character, Series, SeriesChapter, User } from "../src/types";
+
+// Longest summary built from a chapter's own text when the story step left none.
+const FALLBACK_SUMMARY_LENGTH = 600;
+
+export function getContinuity(comicId: string): { summary: string; open_threads: string[] } | null {
+  const row = db.prepare("SELECT summary, open_threads FROM comic_continuity WHERE comic_id = ?").get(comicId);
+  return row ? { summary: row.summary, open_threads: JSON.parse(row.open_threads) } : null;
+}
+
+export function saveContinuity(comicId: string, summary: string, openThreads: string[]) {
+  db.prepare("INSERT OR REPLACE INTO comic_continuity (comic_id, summary, open_threads) VALUES (?, ?, ?)")
+    .run(comicId, summary, JSON.stringify(openThreads));
+}
+
+// Comics made before continuity notes, or imported ones, are summed up by their description and text.
+function fallbackSummary(comicId: string) {
+  const comic = db.prepare("SELECT description FROM comics WHERE id = ?").get(comicId);
+  const texts = db.prepare(`
+    SELECT text FROM (
+      SELECT p.order_index AS panel, b.order_index AS position, b.text FROM panel_balloons b JOIN panels p ON p.id = b.panel_id WHERE p.comic_id = @id
+      UNION ALL
+      SELECT order_index, 1e9, caption FROM panels WHERE comic_id = @id
+    ) WHERE trim(text) != '' ORDER BY panel, position
+  `).all({ id: comicId }).map((row: { text: string }) => row.text);
+  const summary = [comic?.description, ...texts].filter(Boolean).join(" ").replace(/\s+/g, " ").trim();
+  return summary.length > FALLBACK_SUMMARY_LENGTH ? `${summary.slice(0, FALLBACK_SUMMARY_LENGTH - 1)}…` : summary;
+}
+
+export function getSeries(id: string): Series | null {
+  const series = db.prepare("SELECT id, title, description, owner_id, created_at FROM series WHERE id = ?").get(id);
+  if (!series) return null;
+  const chapters = db.prepare(`
+    SELECT c.id, c.title, c.chapter_number, (
+      SELECT image_url FROM panels p
+      WHERE p.comic_id = c.id AND p.image_url IS NOT NULL
+      ORDER BY p.order_index ASC LIMIT 1
+    ) AS cover_image
+    FROM comics c WHERE c.series_id = ? ORDER BY c.chapter_number ASC
+  `).all(id);
+  return {
+    ...series,
+    chapters: chapters.map(({ cover_image, ...chapter }: { id: string; cover_image: string | null }): SeriesChapter => {
+      const continuity = getContinuity(chapter.id);
+      return {
+        ...(chapter as SeriesChapter),
+        cover_url: thumbnailUrl(cover_image),
+        summary: continuity?.summary ?? null,
+        open_threads: continuity?.open_threads ?? [],
+      };
+    }),
+  };
+}
+
+export function accessibleSeries(user: User, id: string) {
+  const series = db.prepare("SELECT id, owner_id FROM series WHERE id = ?").get(id);
+  return series && canAccess(user, series.owner_id) ? series : null;
+}
+
+// Everything the next chapter of a series has to stay consistent with: what
+// each chapter told, what is still open, and who has appeared so far.
+export function seriesContinuity(seriesId: string): { continuity: StoryContinuity; characterIds: string[]; speakers: StoryCharacter[] } {
+  const chapters = db.prepare("SELECT id, title, chapter_number FROM comics WHERE series_id = ? ORDER BY chapter_number ASC").all(seriesId);
+  const notes = chapters.map((chapter: { id: string }) => getContinuity(chapter.id));
+  const characterIds = db.prepare(`
+    SELECT DISTINCT pc.character_id FROM panel_characters pc
+    JOIN panels p ON p.id = pc.panel_id JOIN comics c ON c.id = p.comic_id
+    WHERE c.series_id = ?
+  `).all(seriesId).map((row: { character_id: string }) => row.character_id);
+  // Speakers who are not in the character library are still part of the cast.
+  const speakers = db.prepare(`
+    SELECT DISTINCT trim(b.speaker) AS name FROM panel_balloons b
+    JOIN panels p ON p.id = b.panel_id JOIN comics c ON c.id = p.comic_id
+    WHERE c.series_id = ? AND b.speaker IS NOT NULL AND trim(b.speaker) != ''
+  `).all(seriesId).map((row: { name: string }) => ({ name: row.name, description: "" }));
+
+  return {
+    continuity: {
+      chapters: chapters.map((chapter: { id: string; title: string; chapter_number: number }, index: number) => ({
+        number: chapter.chapter_number,
+        title: chapter.title,
+        summary: notes[index]?.summary || fallbackSummary(chapter.id),
+      })),
+      openThreads: notes[notes.length - 1]?.open_threads ?? [],
+    },
+    characterIds,
+    speakers,
+  };
+}
+
+// Drops the speakers already covered by a library character of the cast.
+export function storyCast(cast: Character[], speakers: StoryCharacter[]): StoryCharacter[] {
+  const names = new Set(cast.map(character => character.name.trim().toLowerCase()));
+  return [
+    ...cast.map(({ name, description }) => ({ name, description })),
+    ...speakers.filter(speaker => !names.has(speaker.name.toLowerCase())),
+  ];
+}
+
+// Chapters are kept numbered 1..n in their current order.
+function renumberChapters(seriesId: string) {
+  const ids = db.prepare("SELECT id FROM comics WHERE series_id = ? ORDER BY chapter_number ASC").all(seriesId).map((row: { id: string }) => row.id);
+  const update = db.prepare("UPDATE comics SET chapter_number = ? WHERE id = ?");
+  ids.forEach((id: string, index: number) => update.run(index + 1, id));
+}
+
+// Moves a comic to the end of a series, or out of its series when `seriesId` is null.
+export const setComicSeries = db.transaction((comicId: string, seriesId: string | null) => {
+  const comic = db.prepare("SELECT series_id FROM comics WHERE id = ?").get(comicId);
+  if (!comic || comic.series_id === seriesId) return;
+  if (seriesId) {
+    const { last } = db.prepare("SELECT MAX(chapter_number) AS last FROM comics WHERE series_id = ?").get(seriesId);
+    db.prepare("UPDATE comics SET series_id = ?, chapter_number = ? WHERE id = ?").run(seriesId, (last ?? 0) + 1, comicId);
+  } else {
+    db.prepare("UPDATE comics SET series_id = NULL, chapter_number = NULL WHERE id = ?").run(comicId);
+  }
+  if (comic.series_id) renumberChapters(comic.series_id);
+});
+
+export const createSeries = db.transaction((ownerId: string | null, title: string, description: string, comicIds: string[]) => {
+  const id = uuidv4();
+  db.prepare("INSERT INTO series (id, title, description, owner_id) VALUES (?, ?, ?, ?)").run(id, title, description, ownerId);
+  comicIds.forEach(comicId => setComicSeries(comicId, id));
+  return id;
+});
+
+const seriesFields = z.object({
+  title: requiredText,
+  description: z.string().nullable(),
+  comicIds: idList,
+});
+
+export function registerSeriesRoutes(app: Express) {
+  app.get("/api/series", (req, res) => {
+    const series = db.prepare(`
+      SELECT s.id, s.title, s.description, s.owner_id, s.created_at, COUNT(c.id) AS chapter_count
+      FROM series s LEFT JOIN comics c ON c.series_id = s.id
+      WHERE s.owner_id = ? GROUP BY s.id ORDER BY s.title COLLATE NOCASE ASC
+    `).all(currentUser(req).id);
+    res.json(series);
+  });
+
+  // Groups existing comics, in the given order, as the chapters of a new series.
+  app.post("/api/series", validate({
+    body: seriesFields.extend({ description: z.string().default(""), comicIds: idList.default([]) }),
+  }), (req, res) => {
+    const user = currentUser(req);
+    const { title, description, comicIds } = req.body;
+    if (comicIds.some((id: string) => !accessibleComic(user, id))) {
+      return sendError(res, 400, "comicIds must list existing comics");
+    }
+    res.status(201).json(getSeries(createSeries(user.id, title, description, [...new Set<string>(comicIds)])));
+  });
+
+  app.use("/api/series/:id", (req, res, next) => {
+    if (!accessibleSeries(currentUser(req), req.params.id)) return sendError(res, 404, "Series not found");
+    next();
+  });
+
+  app.get("/api/series/:id", (req, res) => {
+    res.json(getSeries(req.params.id));
+  });
+
+  // `comicIds` reorders the chapters and must list each of them exactly once.
+  app.patch("/api/series/:id", validate({ body: seriesFields.partial() }), (req, res) => {
+    const series = getSeries(req.params.id)!;
+    const { title = series.title, description = series.description, comicIds } = req.body as Partial<z.infer<typeof seriesFields>>;
+    if (comicIds !== undefined) {
+      const existing = series.chapters.map(chapter => chapter.id);
+      const sameSet = comicIds.length === existing.length
+        && new Set(comicIds).size === comicIds.length && comicIds.every(id => existing.includes(id));
+      if (!sameSet) return sendError(res, 400, "comicIds must list every chapter of the series exactly once");
+    }
+
+    db.transaction(() => {
+      db.prepare("UPDATE series SET title = ?, description = ? WHERE id = ?").run(title, description, series.id);
+      const update = db.prepare("UPDATE comics SET chapter_number = ? WHERE id = ?");
+      comicIds?.forEach((id, index) => update.run(index + 1, id));
+    })();
+    res.json(getSeries(series.id));
+  });
+
+  // The chapters stay in the library as standalone comics.
+  app.delete("/api/series/:id", (req, res) => {
+    db.transaction(() => {
+      db.prepare("UPDATE comics SET series_id = NULL, chapter_number = NULL WHERE series_id = ?").run(req.params.id);
+      db.prepare("DELETE FROM series WHERE id = ?").run(req.params.id);
+    })();
+    res.json({ success: true });
+  });
+
+  app.put("/api/comics/:id/series", validate({ body: z.object({ seriesId: z.string().nullable() }) }), (req, res) => {
+    const { seriesId } = req.body;
+    if (seriesId !== null && !accessibleSeries(currentUser(req), seriesId)) {
+      return sendError(res, 400, "seriesId must be an existing series or null");
+    }
+    setComicSeries(req.params.id, seriesId);
+    const { series_id } = db.prepare("SELECT series_id FROM comics WHERE id = ?").get(req.params.id);
+    res.json(series_id ? getSeries(series_id) : null);
+  });
+
+  // The notes the next chapter is generated from; editing them steers the continuation.
+  const continuityNotes = z.object({ summary: z.string().trim(), open_threads: z.array(z.string().trim()) });
+
+  app.put("/api/comics/:id/continuity", validate({ body: continuityNotes }), (req, res) => {
+    const { summary, open_threads } = req.body as z.infer<typeof continuityNotes>;
+    saveContinuity(req.params.id, summary, open_threads.filter(Boolean));
+    res.json(getContinuity(req.params.id));
+  });
+}
@@ -0,0 +1,120 @@
+import type { Express, Request } from "express";
+import crypto from "crypto";
+import { z } from "zod";
+import { db } from "./db";
+import { sendError } from "./errors";
+import { validate } from "./validation";
+import { assetUrl, hashFromUrl, sendAsset } from "./assets";
+import { currentUser } from "./auth";
+import { getPanelBalloons } from "./balloons";
+import { getPageTemplates } from "./pages";
+import type { ShareLink, SharedComic } from "../src/types";
+
+const MAX_EXPIRY_DAYS = 365;
+const TOKEN_PATTERN = /^[A-Za-z0-9_-]{32}$/;
+
+const now = () => new Date().toISOString();
+
+function listShareLinks(comicId: string): ShareLink[] {
+  return db.prepare("SELECT token, created_at, expires_at FROM share_links WHERE comic_id = ? AND revoked_at IS NULL ORDER BY created_at DESC").all(comicId);
+}
+
+// The comic behind a working link: unknown, revoked and expired tokens all give null.
+function sharedComicId(token: string): string | null {
+  if (!TOKEN_PATTERN.test(token)) return null;
+  const link = db.prepare("SELECT comic_id FROM share_links WHERE token = ? AND revoked_at IS NULL AND (expires_at IS NULL OR expires_at > ?)").get(token, now());
+  return link?.comic_id ?? null;
+}
+
+const sharedImageUrl = (token: string, url: string | null) => {
+  const hash = hashFromUrl(url);
+  return hash ? `/api/shared/${token}/images/${hash}` : null;
+};
+
+function getSharedComic(token: string): SharedComic | null {
+  const comicId = sharedComicId(token);
+  const comic = comicId && db.prepare("SELECT title, description FROM comics WHERE id = ?").get(comicId);
+  if (!comic) return null;
+  const panels = db.prepare("SELECT id, image_url, caption, order_index, visual_description, alt_text FROM panels WHERE comic_id = ? ORDER BY order_index ASC").all(comicId);
+  return {
+    title: comic.title,
+    description: comic.description || "",
+    panels: panels.map((panel: { id: string; image_url: string | null }) => ({
+      ...panel,
+      image_url: sharedImageUrl(token, panel.image_url),
+      balloons: getPanelBalloons(panel.id),
+    })),
+    page_templates: getPageTemplates(comicId),
+  };
+}
+
+const escapeHtml = (value: string) => value.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+
+// Adds the title and Open Graph tags of a shared comic to the app's index.html,
+// so chat tools that preview links without running scripts still see them.
+export function withShareMetadata(html: string, req: Request, token: string) {
+  const comic = getSharedComic(token);
+  const tags = ['<meta name="robots" content="noindex" />'];
+  if (comic) {
+    const origin = `${req.protocol}://${req.get("host")}`;
+    const cover = comic.panels.find(panel => panel.image_url)?.image_url;
+    tags.push(
+      `<meta property="og:type" content="article" />`,
+      `<meta property="og:title" content="${escapeHtml(comic.title)}" />`,
+      `<meta property="og:description" content="${escapeHtml(comic.description)}" />`,
+      `<meta property="og:url" content="${escapeHtml(`${origin}${req.originalUrl}`)}" />`,
+      `<meta name="description" content="${escapeHtml(comic.description)}" />`,
+    );
+    if (cover) {
+      tags.push(
+        `<meta property="og:image" content="${escapeHtml(`${origin}${cover}`)}" />`,
+        `<meta name="twitter:card" content="summary_large_image" />`,
+      );
+    }
+    html = html.replace(/<title>[^<]*<\/title>/, `<title>${escapeHtml(comic.title)}</title>`);
+  }
+  return html.replace("</head>", `  ${tags.join("\n    ")}\n  </head>`);
+}
+
+// The read-only API behind share links. Registered before the session check,
+// since the people a comic is shared with have no account.
+export function registerPublicShareRoutes(app: Express) {
+  app.get("/api/shared/:token", (req, res) => {
+    const comic = getSharedComic(req.params.token);
+    if (!comic) return sendError(res, 404, "This link does not exist or has expired");
+    res.json(comic);
+  });
+
+  // Only images of the shared comic's panels are reachable through its link.
+  app.get("/api/shared/:token/images/:hash", (req, res) => {
+    const comicId = sharedComicId(req.params.token);
+    const used = comicId && db.prepare("SELECT 1 FROM panels WHERE comic_id = ? AND image_url = ?").get(comicId, assetUrl(req.params.hash));
+    if (!used) return sendError(res, 404, "Asset not found");
+    sendAsset(req.params.hash, req, res);
+  });
+}
+
+export function registerShareRoutes(app: Express) {
+  app.get("/api/comics/:id/shares", (req, res) => {
+    res.json(listShareLinks(req.params.id));
+  });
+
+  // `expiresInDays` is optional; links without it work until revoked.
+  const shareOptions = z.object({ expiresInDays: z.int().min(1).max(MAX_EXPIRY_DAYS).nullable().default(null) });
+
+  app.post("/api/comics/:id/shares", validate({ body: shareOptions }), (req, res) => {
+    const { expiresInDays } = req.body;
+    const token = crypto.randomBytes(24).toString("base64url");
+    const expiresAt = expiresInDays === null ? null : new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000).toISOString();
+    db.prepare("INSERT INTO share_links (token, comic_id, created_by, expires_at) VALUES (?, ?, ?, ?)")
+      .run(token, req.params.id, currentUser(req).id, expiresAt);
+    res.status(201).json(listShareLinks(req.params.id).find(link => link.token === token));
+  });
+
+  app.delete("/api/comics/:id/shares/:token", (req, res) => {
+    const result = db.prepare("UPDATE share_links SET revoked_at = ? WHERE token = ? AND comic_id = ? AND revoked_at IS NULL")
+      .run(now(), req.params.token, req.params.id);
+    if (result.changes === 0) return sendError(res, 404, "Share link not found");
+    res.json({ success: true });
+  });
+}
@@ -0,0 +1,92 @@
+import type { Express } from "express";
+import { v4 as uuidv4 } from "uuid";
+import { z } from "zod";
+import { db } from "./db";
+import { sendError } from "./errors";
+import { requiredText, validate } from "./validation";
+import { currentUser, isAdmin } from "./auth";
+import {
+  AUDIENCES, BUILT_IN_STYLES, DEFAULT_STYLE_ID, findBuiltInStyle, GENRES,
+  MAX_PANEL_COUNT, MIN_PANEL_COUNT, StylePreset, TONES,
+} from "../src/generation";
+import type { ComicSettings, User } from "../src/types";
+
+// Custom presets belong to the user who saved them.
+export function listCustomStyles(ownerId: string): StylePreset[] {
+  return db.prepare("SELECT id, name, prompt FROM style_presets WHERE owner_id = ? ORDER BY name COLLATE NOCASE ASC").all(ownerId);
+}
+
+export function findStyle(user: User, id: string): StylePreset | null {
+  return findBuiltInStyle(id)
+    || db.prepare("SELECT id, name, prompt FROM style_presets WHERE id = ? AND (owner_id = ? OR ?)").get(id, user.id, isAdmin(user) ? 1 : 0)
+    || null;
+}
+
+export function getComicSettings(comicId: string): ComicSettings | null {
+  return db.prepare("SELECT panel_count, genre, tone, audience, style_id, style_name, style_prompt FROM comic_settings WHERE comic_id = ?").get(comicId) || null;
+}
+
+export function saveComicSettings(comicId: string, settings: ComicSettings) {
+  db.prepare(`
+    INSERT OR REPLACE INTO comic_settings (comic_id, panel_count, genre, tone, audience, style_id, style_name, style_prompt)
+    VALUES (@comic_id, @panel_count, @genre, @tone, @audience, @style_id, @style_name, @style_prompt)
+  `).run({ ...settings, comic_id: comicId });
+}
+
+// The art direction for a panel's images; comics from before presets get the default look.
+export function panelStyle(panelId: string) {
+  const panel = db.prepare("SELECT comic_id FROM panels WHERE id = ?").get(panelId);
+  return (panel && getComicSettings(panel.comic_id)?.style_prompt) || findBuiltInStyle(DEFAULT_STYLE_ID)!.prompt;
+}
+
+// The generation options of a new comic, as fields of the request that creates it.
+export const comicSettingsInput = z.object({
+  panelCount: z.int().min(MIN_PANEL_COUNT).max(MAX_PANEL_COUNT).nullable().default(null),
+  genre: z.enum(GENRES).nullable().default(null),
+  tone: z.enum(TONES).nullable().default(null),
+  audience: z.enum(AUDIENCES).nullable().default(null),
+  styleId: z.string().default(DEFAULT_STYLE_ID),
+});
+
+// Resolves the style preset of validated options, so the job keeps working if
+// the preset is deleted while it waits.
+export function parseComicSettings(user: User, input: z.infer<typeof comicSettingsInput>): ComicSettings | string {
+  const style = findStyle(user, input.styleId);
+  if (!style) return "Unknown style preset";
+
+  return {
+    panel_count: input.panelCount,
+    genre: input.genre,
+    tone: input.tone,
+    audience: input.audience,
+    style_id: style.id,
+    style_name: style.name,
+    style_prompt: style.prompt,
+  };
+}
+
+export function registerStyleRoutes(app: Express) {
+  app.get("/api/styles", (req, res) => {
+    res.json([...BUILT_IN_STYLES, ...listCustomStyles(currentUser(req).id)]);
+  });
+
+  app.post("/api/styles", validate({ body: z.object({ name: requiredText, prompt: requiredText }) }), (req, res) => {
+    const { name, prompt } = req.body;
+    const user = currentUser(req);
+    const taken = [...BUILT_IN_STYLES, ...listCustomStyles(user.id)].some(style => style.name.toLowerCase() === name.toLowerCase());
+    if (taken) return sendError(res, 409, "A style with this name already exists");
+
+    const id = uuidv4();
+    db.prepare("INSERT INTO style_presets (id, name, prompt, owner_id) VALUES (?, ?, ?, ?)").run(id, name, prompt, user.id);
+    res.status(201).json(findStyle(user, id));
+  });
+
+  // Comics keep their own copy of the style, so deleting a preset changes nothing already made.
+  app.delete("/api/styles/:id", (req, res) => {
+    if (findBuiltInStyle(req.params.id)) return sendError(res, 400, "Built-in styles cannot be deleted");
+    const user = currentUser(req);
+    const result = db.prepare("DELETE FROM style_presets WHERE id = ? AND (owner_id = ? OR ?)").run(req.params.id, user.id, isAdmin(user) ? 1 : 0);
+    if (result.changes === 0) return sendError(res, 404, "Style not found");
+    res.json({ success: true });
+  });
+}
@@ -0,0 +1,197 @@
+import type { Express } from "express";
+import { z } from "zod";
+import { db } from "./db";
+import { asyncRoute, sendError } from "./errors";
+import { languageCode, validate } from "./validation";
+import { currentUser } from "./auth";
+import { generationLimit, QuotaExceededError } from "./usage";
+import { translateTexts } from "../src/services/geminiService";
+import { findLanguage } from "../src/languages";
+import type { ComicTranslation } from "../src/types";
+
+export function getTranslation(comicId: string, language: string): ComicTranslation | null {
+  const row = db.prepare("SELECT * FROM comic_translations WHERE comic_id = ? AND language = ?").get(comicId, language);
+  if (!row) return null;
+
+  const panels = db.prepare(`
+    SELECT pt.panel_id, pt.caption, pt.is_manual FROM panel_translations pt
+    JOIN panels p ON p.id = pt.panel_id
+    WHERE p.comic_id = ? AND pt.language = ?
+    ORDER BY p.order_index ASC
+  `).all(comicId, language);
+
+  const balloons = db.prepare(`
+    SELECT bt.balloon_id, bt.text, bt.is_manual FROM balloon_translations bt
+    JOIN panel_balloons b ON b.id = bt.balloon_id
+    JOIN panels p ON p.id = b.panel_id
+    WHERE p.comic_id = ? AND bt.language = ?
+    ORDER BY p.order_index ASC, b.order_index ASC
+  `).all(comicId, language);
+
+  return {
+    ...row,
+    title_is_manual: !!row.title_is_manual,
+    description_is_manual: !!row.description_is_manual,
+    panels: panels.map((panel: { is_manual: number }) => ({ ...panel, is_manual: !!panel.is_manual })),
+    balloons: balloons.map((balloon: { is_manual: number }) => ({ ...balloon, is_manual: !!balloon.is_manual })),
+  };
+}
+
+// Manual corrections are protected twice: they are left out of the batch sent
+// to the provider, and the upserts below refuse to overwrite them.
+const upsertComicTranslation = db.prepare(`
+  INSERT INTO comic_translations (comic_id, language, title, description) VALUES (?, ?, ?, ?)
+  ON CONFLICT (comic_id, language) DO UPDATE SET
+    title = CASE WHEN title_is_manual THEN title ELSE excluded.title END,
+    description = CASE WHEN description_is_manual THEN description ELSE excluded.description END,
+    updated_at = CURRENT_TIMESTAMP
+`);
+
+const upsertPanelTranslation = db.prepare(`
+  INSERT INTO panel_translations (panel_id, language, caption) VALUES (?, ?, ?)
+  ON CONFLICT (panel_id, language) DO UPDATE SET caption = excluded.caption, updated_at = CURRENT_TIMESTAMP
+  WHERE is_manual = 0
+`);
+
+const upsertBalloonTranslation = db.prepare(`
+  INSERT INTO balloon_translations (balloon_id, language, text) VALUES (?, ?, ?)
+  ON CONFLICT (balloon_id, language) DO UPDATE SET text = excluded.text, updated_at = CURRENT_TIMESTAMP
+  WHERE is_manual = 0
+`);
+
+// Translates the title, description, every caption and every balloon of a comic in a single provider request.
+export async function translateComic(comicId: string, language: string, userId: string | null) {
+  const target = findLanguage(language);
+  if (!target) throw new Error(`Unsupported language "${language}"`);
+
+  const comic = db.prepare("SELECT * FROM comics WHERE id = ?").get(comicId);
+  const panels = db.prepare("SELECT id, caption FROM panels WHERE comic_id = ? ORDER BY order_index ASC").all(comicId);
+  const balloons = db.prepare(`
+    SELECT b.id, b.text FROM panel_balloons b JOIN panels p ON p.id = b.panel_id
+    WHERE p.comic_id = ? ORDER BY p.order_index ASC, b.order_index ASC
+  `).all(comicId);
+  const existing = getTranslation(comicId, language);
+  const manualPanels = new Set(existing?.panels.filter(p => p.is_manual).map(p => p.panel_id));
+  const manualBalloons = new Set(existing?.balloons.filter(b => b.is_manual).map(b => b.balloon_id));
+
+  const entries: { key: string; text: string }[] = [];
+  if (!existing?.title_is_manual) entries.push({ key: "title", text: comic.title || "" });
+  if (!existing?.description_is_manual) entries.push({ key: "description", text: comic.description || "" });
+  for (const panel of panels) {
+    if (!manualPanels.has(panel.id)) entries.push({ key: panel.id, text: panel.caption || "" });
+  }
+  for (const balloon of balloons) {
+    if (!manualBalloons.has(balloon.id)) entries.push({ key: `balloon:${balloon.id}`, text: balloon.text });
+  }
+
+  // Empty strings are not worth a round trip; they stay empty in every language.
+  const toTranslate = entries.filter(entry => entry.text.trim());
+  const translated = await translateTexts(toTranslate.map(entry => entry.text), `${target.name} (${target.code})`, { userId, comicId });
+  const result = new Map(entries.map(entry => [entry.key, entry.text]));
+  toTranslate.forEach((entry, index) => result.set(entry.key, translated[index]));
+
+  db.transaction(() => {
+    upsertComicTranslation.run(comicId, language, result.get("title") ?? null, result.get("description") ?? null);
+    for (const panel of panels) {
+      if (result.has(panel.id)) upsertPanelTranslation.run(panel.id, language, result.get(panel.id));
+    }
+    for (const balloon of balloons) {
+      const key = `balloon:${balloon.id}`;
+      if (result.has(key)) upsertBalloonTranslation.run(balloon.id, language, result.get(key));
+    }
+  })();
+
+  return getTranslation(comicId, language)!;
+}
+
+export function registerTranslationRoutes(app: Express) {
+  app.get("/api/comics/:id/translations", (req, res) => {
+    const rows = db.prepare("SELECT language, updated_at FROM comic_translations WHERE comic_id = ? ORDER BY language").all(req.params.id);
+    res.json(rows);
+  });
+
+  app.get("/api/comics/:id/translations/:language", (req, res) => {
+    const translation = getTranslation(req.params.id, req.params.language);
+    if (!translation) return sendError(res, 404, "Translation not found");
+    res.json(translation);
+  });
+
+  // Creates the edition or refreshes it; manual corrections are kept.
+  app.post("/api/comics/:id/translations", generationLimit, validate({ body: z.object({ language: languageCode }) }), asyncRoute(async (req, res) => {
+    const { language } = req.body;
+    if (!db.prepare("SELECT id FROM comics WHERE id = ?").get(req.params.id)) {
+      return sendError(res, 404, "Comic not found");
+    }
+
+    try {
+      res.json(await translateComic(req.params.id, language, currentUser(req).id));
+    } catch (error) {
+      if (error instanceof QuotaExceededError) return sendError(res, 429, error.message, undefined, { code: "quota_exceeded", quota: error.quota });
+      console.error("Translation failed:", error);
+      sendError(res, 502, "Translation failed");
+    }
+  }));
+
+  const editionFields = z.object({ title: z.string(), description: z.string() }).partial();
+
+  app.patch("/api/comics/:id/translations/:language", validate({ body: editionFields }), (req, res) => {
+    const { id, language } = req.params;
+    if (!getTranslation(id, language)) return sendError(res, 404, "Translation not found");
+
+    const { title, description } = req.body;
+    db.transaction(() => {
+      if (title !== undefined) {
+        db.prepare("UPDATE comic_translations SET title = ?, title_is_manual = 1, updated_at = CURRENT_TIMESTAMP WHERE comic_id = ? AND language = ?")
+          .run(title, id, language);
+      }
+      if (description !== undefined) {
+        db.prepare("UPDATE comic_translations SET description = ?, description_is_manual = 1, updated_at = CURRENT_TIMESTAMP WHERE comic_id = ? AND language = ?")
+          .run(description, id, language);
+      }
+    })();
+    res.json(getTranslation(id, language));
+  });
+
+  app.patch("/api/comics/:id/translations/:language/panels/:panelId", validate({ body: z.object({ caption: z.string() }) }), (req, res) => {
+    const { id, language, panelId } = req.params;
+    if (!getTranslation(id, language)) return sendError(res, 404, "Translation not found");
+    if (!db.prepare("SELECT id FROM panels WHERE id = ? AND comic_id = ?").get(panelId, id)) {
+      return sendError(res, 404, "Panel not found");
+    }
+
+    const { caption } = req.body;
+    db.prepare(`
+      INSERT INTO panel_translations (panel_id, language, caption, is_manual) VALUES (?, ?, ?, 1)
+      ON CONFLICT (panel_id, language) DO UPDATE SET caption = excluded.caption, is_manual = 1, updated_at = CURRENT_TIMESTAMP
+    `).run(panelId, language, caption);
+    res.json(getTranslation(id, language));
+  });
+
+  app.patch("/api/comics/:id/translations/:language/balloons/:balloonId", validate({ body: z.object({ text: z.string() }) }), (req, res) => {
+    const { id, language, balloonId } = req.params;
+    if (!getTranslation(id, language)) return sendError(res, 404, "Translation not found");
+    const balloon = db.prepare("SELECT b.id FROM panel_balloons b JOIN panels p ON p.id = b.panel_id WHERE b.id = ? AND p.comic_id = ?").get(balloonId, id);
+    if (!balloon) return sendError(res, 404, "Balloon not found");
+
+    const { text } = req.body;
+    db.prepare(`
+      INSERT INTO balloon_translations (balloon_id, language, text, is_manual) VALUES (?, ?, ?, 1)
+      ON CONFLICT (balloon_id, language) DO UPDATE SET text = excluded.text, is_manual = 1, updated_at = CURRENT_TIMESTAMP
+    `).run(balloonId, language, text);
+    res.json(getTranslation(id, language));
+  });
+
+  app.delete("/api/comics/:id/translations/:language", (req, res) => {
+    const { id, language } = req.params;
+    db.transaction(() => {
+      db.prepare(`
+        DELETE FROM balloon_translations WHERE language = ? AND balloon_id IN (
+          SELECT b.id FROM panel_balloons b JOIN panels p ON p.id = b.panel_id WHERE p.comic_id = ?
+        )
+      `).run(language, id);
+      db.prepare("DELETE FROM panel_translations WHERE language = ? AND panel_id IN (SELECT id FROM panels WHERE comic_id = ?)").run(language, id);
+      db.prepare("DELETE FROM comic_translations WHERE comic_id = ? AND language = ?").run(id, language);
+    })();
+    res.json({ success: true });
+  });
+}
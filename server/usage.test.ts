@@ -0,0 +1,58 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import type { Request, Response } from "express";
+import { db } from "./db";
+import { assertWithinQuota, generationLimit, QuotaExceededError } from "./usage";
+
+const USER = { id: "user", username: "ana", role: "user" as const };
+
+const spend = (userId: string | null, cost: number) =>
+  db.prepare(`
+    INSERT INTO ai_usage (user_id, operation, provider, model, input_chars, input_images, output_chars, output_images, latency_ms, success, cost_usd)
+    VALUES (?, 'story', 'mock', 'mock', 0, 0, 0, 0, 0, 1, ?)
+  `).run(userId, cost);
+
+const setQuota = (scope: string, period: string, limit: number) =>
+  db.prepare("INSERT OR REPLACE INTO usage_quotas (scope, period, limit_usd) VALUES (?, ?, ?)").run(scope, period, limit);
+
+// Runs the middleware and returns what it answered, or null when it let the request through.
+function limitResponse() {
+  let answer: { status: number; body: any } | null = null;
+  const res = {
+    status: (status: number) => ({ json: (body: any) => { answer = { status, body }; } }),
+    set: () => res,
+  } as unknown as Response;
+  generationLimit({ user: USER } as unknown as Request, res, () => {});
+  return answer;
+}
+
+beforeEach(() => {
+  db.exec("DELETE FROM ai_usage; DELETE FROM usage_quotas; DELETE FROM users;");
+  db.prepare("INSERT INTO users (id, username, password_hash, role) VALUES (?, ?, '', ?)").run(USER.id, USER.username, USER.role);
+});
+
+describe("quotas", () => {
+  it("names the exceeded quota in English", () => {
+    setQuota("user", "day", 1);
+    spend(USER.id, 2);
+
+    expect(() => assertWithinQuota(USER.id)).toThrow(QuotaExceededError);
+    expect(() => assertWithinQuota(USER.id)).toThrow("The daily account AI usage quota has been reached");
+  });
+
+  it("refuses generation with the same message and the quota_exceeded code", () => {
+    setQuota("global", "month", 1);
+    spend(null, 2);
+
+    expect(limitResponse()).toMatchObject({
+      status: 429,
+      body: { error: "The monthly instance AI usage quota has been reached", code: "quota_exceeded", quota: { scope: "global", period: "month" } },
+    });
+  });
+
+  it("lets generation through below the quotas", () => {
+    setQuota("user", "day", 5);
+    spend(USER.id, 1);
+
+    expect(limitResponse()).toBeNull();
+  });
+});
@@ -0,0 +1,236 @@
+import type { Express, RequestHandler } from "express";
+import { z } from "zod";
+import { db } from "./db";
+import { sendError } from "./errors";
+import { validate } from "./validation";
+import { currentUser, findUser, isAdmin, requireAdmin } from "./auth";
+import { setUsageHooks } from "../src/services/geminiService";
+import type { UsageRecord } from "../src/services/geminiService";
+import type { QuotaPeriod, UsageQuota, UsageQuotaStatus, UsageSummary } from "../src/types";
+
+// Estimated USD prices: per million tokens of text in and out, and per
+// generated image. Providers do not report tokens, so text is counted as one
+// token per CHARS_PER_TOKEN characters. Models are priced by name, also under
+// the mock provider, so quotas can be tried out offline. AI_PRICES may hold a
+// JSON object of the same shape to add models or correct prices.
+interface ModelPrice {
+  input: number;
+  output: number;
+  image: number;
+}
+
+const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  "gemini-3-flash-preview": { input: 0.5, output: 3, image: 0 },
+  "gemini-2.5-flash": { input: 0.3, output: 2.5, image: 0 },
+  "gemini-2.5-flash-image": { input: 0.3, output: 2.5, image: 0.039 },
+};
+const UNKNOWN_MODEL_PRICE: ModelPrice = { input: 0.5, output: 3, image: 0.039 };
+
+const CHARS_PER_TOKEN = 4;
+const TOKENS_PER_INPUT_IMAGE = 258;
+
+// Read on first use, once .env has been loaded.
+let prices: Record<string, ModelPrice> | null = null;
+
+export function estimateCost(record: Pick<UsageRecord, "model" | "inputChars" | "inputImages" | "outputChars" | "outputImages">) {
+  prices ??= { ...DEFAULT_PRICES, ...JSON.parse(process.env.AI_PRICES || "{}") };
+  const price = prices[record.model] ?? UNKNOWN_MODEL_PRICE;
+  const inputTokens = record.inputChars / CHARS_PER_TOKEN + record.inputImages * TOKENS_PER_INPUT_IMAGE;
+  const outputTokens = record.outputChars / CHARS_PER_TOKEN;
+  return (inputTokens * price.input + outputTokens * price.output) / 1_000_000 + record.outputImages * price.image;
+}
+
+const insertUsage = db.prepare(`
+  INSERT INTO ai_usage (user_id, comic_id, job_id, operation, provider, model, input_chars, input_images,
+    output_chars, output_images, latency_ms, success, error, cached, cost_usd)
+  VALUES (@userId, @comicId, @jobId, @operation, @provider, @model, @inputChars, @inputImages,
+    @outputChars, @outputImages, @latencyMs, @success, @error, @cached, @cost)
+`);
+
+export function recordUsage(record: UsageRecord) {
+  const { context, ...call } = record;
+  insertUsage.run({
+    ...call,
+    userId: context.userId,
+    comicId: context.comicId ?? null,
+    jobId: context.jobId ?? null,
+    success: record.error ? 0 : 1,
+    // Answers from the cache cost nothing; they are kept to show what the cache saves.
+    cached: record.cached ? 1 : 0,
+    cost: record.cached ? 0 : estimateCost(record),
+  });
+}
+
+// The story is written before its comic exists; its cost is charged to the comic once it does.
+export function attributeJobUsage(jobId: string, comicId: string) {
+  db.prepare("UPDATE ai_usage SET comic_id = ? WHERE job_id = ? AND comic_id IS NULL").run(comicId, jobId);
+}
+
+const QUOTA_PERIODS: QuotaPeriod[] = ["day", "month"];
+const PERIOD_STARTS: Record<QuotaPeriod, string> = { day: "start of day", month: "start of month" };
+
+function spentSince(period: QuotaPeriod, userId?: string) {
+  const row = userId
+    ? db.prepare("SELECT COALESCE(SUM(cost_usd), 0) AS spent FROM ai_usage WHERE created_at >= datetime('now', ?) AND user_id = ?").get(PERIOD_STARTS[period], userId)
+    : db.prepare("SELECT COALESCE(SUM(cost_usd), 0) AS spent FROM ai_usage WHERE created_at >= datetime('now', ?)").get(PERIOD_STARTS[period]);
+  return row.spent as number;
+}
+
+const quotaLimit = (scope: string, period: QuotaPeriod): number | null =>
+  db.prepare("SELECT limit_usd FROM usage_quotas WHERE scope = ? AND period = ?").get(scope, period)?.limit_usd ?? null;
+
+// The limits that apply to a user, with what has been spent against them.
+// A user's own limit takes the place of the one every account gets.
+export function quotaStatus(userId: string | null): UsageQuotaStatus[] {
+  const statuses: UsageQuotaStatus[] = [];
+  for (const period of QUOTA_PERIODS) {
+    const userLimit = userId ? quotaLimit(userId, period) ?? quotaLimit("user", period) : null;
+    if (userId && userLimit !== null) statuses.push({ scope: "user", period, limit_usd: userLimit, spent_usd: spentSince(period, userId) });
+    const globalLimit = quotaLimit("global", period);
+    if (globalLimit !== null) statuses.push({ scope: "global", period, limit_usd: globalLimit, spent_usd: spentSince(period) });
+  }
+  return statuses;
+}
+
+// Clients show their own translation, chosen by the `quota_exceeded` code and the quota.
+const quotaMessage = (quota: UsageQuotaStatus) =>
+  `The ${quota.period === "day" ? "daily" : "monthly"} ${quota.scope === "global" ? "instance" : "account"} AI usage quota has been reached`;
+
+export class QuotaExceededError extends Error {
+  constructor(readonly quota: UsageQuotaStatus) {
+    super(quotaMessage(quota));
+  }
+}
+
+export function assertWithinQuota(userId: string | null) {
+  const exceeded = quotaStatus(userId).find(quota => quota.spent_usd >= quota.limit_usd);
+  if (exceeded) throw new QuotaExceededError(exceeded);
+}
+
+// Called once at startup: every provider call is checked against the quotas and recorded.
+export function trackUsage() {
+  setUsageHooks({
+    before: (operation, context) => assertWithinQuota(context.userId),
+    after: recordUsage,
+  });
+}
+
+// Generation requests a user may start per minute; GENERATION_RATE_LIMIT overrides it.
+const rateLimit = () => Number(process.env.GENERATION_RATE_LIMIT) || 10;
+const RATE_WINDOW_MS = 60_000;
+const recentRequests = new Map<string, number[]>();
+
+// Guards the routes that start generation: refuses users over their quota or
+// over the rate limit, so double clicks and retry storms never reach the provider.
+export const generationLimit: RequestHandler = (req, res, next) => {
+  const user = currentUser(req);
+  const exceeded = quotaStatus(user.id).find(quota => quota.spent_usd >= quota.limit_usd);
+  if (exceeded) {
+    return sendError(res, 429, quotaMessage(exceeded), undefined, { code: "quota_exceeded", quota: exceeded });
+  }
+
+  const now = Date.now();
+  const recent = (recentRequests.get(user.id) || []).filter(time => now - time < RATE_WINDOW_MS);
+  if (recent.length >= rateLimit()) {
+    res.set("Retry-After", String(Math.ceil((recent[0] + RATE_WINDOW_MS - now) / 1000)));
+    return sendError(res, 429, "Too many generation requests, try again in a minute");
+  }
+  recent.push(now);
+  recentRequests.set(user.id, recent);
+  next();
+};
+
+const sinceDays = (days: number) => `-${days - 1} days`;
+
+// Spending over the last `days` days: of one user, or of everyone when userId is null.
+export function usageSummary(userId: string | null, days: number): Omit<UsageSummary, "quotas"> {
+  const params = { userId, since: sinceDays(days) };
+  const inWindow = `u.created_at >= datetime('now', 'start of day', @since)${userId ? " AND u.user_id = @userId" : ""}`;
+
+  const daily = new Map<string, { cost_usd: number; calls: number; failures: number }>(
+    db.prepare(`
+      SELECT date(u.created_at) AS day, SUM(u.cost_usd) AS cost_usd, COUNT(*) AS calls, SUM(u.success = 0) AS failures
+      FROM ai_usage u WHERE ${inWindow} GROUP BY day
+    `).all(params).map((row: { day: string; cost_usd: number; calls: number; failures: number }) => [row.day, row])
+  );
+  const today = new Date();
+  const dayTotals = Array.from({ length: days }, (_, index) => {
+    const date = new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), today.getUTCDate() - (days - 1 - index)));
+    const day = date.toISOString().slice(0, 10);
+    return { day, cost_usd: 0, calls: 0, failures: 0, ...daily.get(day) };
+  });
+
+  const operations = db.prepare(`
+    SELECT u.operation, COUNT(*) AS calls, SUM(u.success = 0) AS failures, SUM(u.cached) AS cached, SUM(u.cost_usd) AS cost_usd,
+      CAST(AVG(u.latency_ms) AS INTEGER) AS avg_latency_ms
+    FROM ai_usage u WHERE ${inWindow} GROUP BY u.operation ORDER BY cost_usd DESC
+  `).all(params);
+
+  // Comics are ranked by everything they ever cost, not just within the window.
+  const topComics = db.prepare(`
+    SELECT c.id AS comic_id, c.title, SUM(u.cost_usd) AS cost_usd, COUNT(*) AS calls
+    FROM ai_usage u JOIN comics c ON c.id = u.comic_id
+    ${userId ? "WHERE c.owner_id = @userId" : ""}
+    GROUP BY c.id ORDER BY cost_usd DESC LIMIT 10
+  `).all(params);
+
+  const topUsers = userId ? [] : db.prepare(`
+    SELECT u.user_id, users.username, SUM(u.cost_usd) AS cost_usd, COUNT(*) AS calls
+    FROM ai_usage u LEFT JOIN users ON users.id = u.user_id
+    WHERE ${inWindow} GROUP BY u.user_id ORDER BY cost_usd DESC LIMIT 10
+  `).all(params);
+
+  return {
+    days: dayTotals,
+    operations,
+    top_comics: topComics,
+    top_users: topUsers,
+    today_usd: userId ? spentSince("day", userId) : spentSince("day"),
+    month_usd: userId ? spentSince("month", userId) : spentSince("month"),
+  };
+}
+
+const listQuotas = (): UsageQuota[] =>
+  db.prepare(`
+    SELECT q.scope, q.period, q.limit_usd, users.username
+    FROM usage_quotas q LEFT JOIN users ON users.id = q.scope
+    ORDER BY q.scope = 'global' DESC, q.scope = 'user' DESC, users.username, q.period
+  `).all();
+
+export function registerUsageRoutes(app: Express) {
+  // `scope=all` covers every account and is for admins only.
+  const summaryQuery = z.object({
+    scope: z.enum(["me", "all"]).default("me"),
+    days: z.coerce.number().int().min(1).max(366).default(30),
+  });
+
+  app.get("/api/usage", validate({ query: summaryQuery }), (req, res) => {
+    const user = currentUser(req);
+    const { scope, days } = req.query as unknown as z.infer<typeof summaryQuery>;
+    if (scope === "all" && !isAdmin(user)) return sendError(res, 403, "Admins only");
+    res.json({ ...usageSummary(scope === "all" ? null : user.id, days), quotas: quotaStatus(user.id) });
+  });
+
+  app.get("/api/usage/quotas", requireAdmin, (req, res) => {
+    res.json(listQuotas());
+  });
+
+  // `scope` is "global", "user" (every account) or a user id; a null limit removes the quota.
+  const quotaInput = z.object({
+    scope: z.string(),
+    period: z.enum(QUOTA_PERIODS),
+    limit_usd: z.number().min(0).nullable(),
+  });
+
+  app.put("/api/usage/quotas", requireAdmin, validate({ body: quotaInput }), (req, res) => {
+    const { scope, period, limit_usd } = req.body;
+    if (scope !== "global" && scope !== "user" && !findUser(scope)) return sendError(res, 400, "scope must be global, user or a user id");
+    if (limit_usd === null) {
+      db.prepare("DELETE FROM usage_quotas WHERE scope = ? AND period = ?").run(scope, period);
+    } else {
+      db.prepare("INSERT INTO usage_quotas (scope, period, limit_usd) VALUES (?, ?, ?) ON CONFLICT (scope, period) DO UPDATE SET limit_usd = excluded.limit_usd")
+        .run(scope, period, limit_usd);
+    }
+    res.json(listQuotas());
+  });
+}
@@ -0,0 +1,62 @@
+import type { Express, RequestHandler } from "express";
+import { z } from "zod";
+import { sendError } from "./errors";
+import { findLanguage } from "../src/languages";
+import type { ApiErrorDetail } from "../src/types";
+
+// Missing fields read better as "title: is required" than as a type mismatch with undefined.
+z.config({
+  customError: issue => issue.code === "invalid_type" && issue.input === undefined ? "is required" : undefined,
+});
+
+export const requiredText = z.string().trim().min(1, "is required");
+
+export const idList = z.array(z.string());
+
+export const languageCode = z.string().refine(code => !!findLanguage(code), "is not a supported language");
+
+const detailsOf = (part: string, error: z.ZodError): ApiErrorDetail[] =>
+  error.issues.map(issue => ({ path: [part, ...issue.path.map(String)].join("."), message: issue.message }));
+
+// Checks the request body and/or query string, replacing them with the parsed
+// values (strings trimmed, defaults filled in, unknown fields dropped), or
+// answers 400 with every problem found.
+export function validate(schemas: { body?: z.ZodType; query?: z.ZodType }): RequestHandler {
+  return (req, res, next) => {
+    const details: ApiErrorDetail[] = [];
+    for (const part of ["body", "query"] as const) {
+      const schema = schemas[part];
+      if (!schema) continue;
+      const result = schema.safeParse(req[part] ?? {});
+      if (result.success) req[part] = result.data as never;
+      else details.push(...detailsOf(part, result.error));
+    }
+    if (!details.length) return next();
+    sendError(res, 400, `${details[0].path}: ${details[0].message}`, details);
+  };
+}
+
+// Ids are uuids, built-in style names, share tokens and the like.
+const ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+const PARAM_PATTERNS: Record<string, RegExp> = {
+  id: ID_PATTERN,
+  panelId: ID_PATTERN,
+  balloonId: ID_PATTERN,
+  variantId: ID_PATTERN,
+  photoId: ID_PATTERN,
+  token: ID_PATTERN,
+  hash: /^[a-f0-9]{64}$/,
+  language: /^[A-Za-z]{2,3}(-[A-Za-z0-9]{2,8})*$/,
+  pageIndex: /^\d{1,4}$/,
+};
+
+// Route parameters are checked once, by name, for every route that has them.
+export function validateParams(app: Express) {
+  for (const [name, pattern] of Object.entries(PARAM_PATTERNS)) {
+    app.param(name, (req, res, next, value) => {
+      if (pattern.test(String(value))) return next();
+      sendError(res, 400, `${name} is not valid`, [{ path: `params.${name}`, message: "is not valid" }]);
+    });
+  }
+}
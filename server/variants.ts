@@ -0,0 +1,103 @@
+import type { Express } from "express";
+import { v4 as uuidv4 } from "uuid";
+import { z } from "zod";
+import { db } from "./db";
+import { sendError } from "./errors";
+import { validate } from "./validation";
+import { deleteUnusedAssets, thumbnailUrl } from "./assets";
+import { changePanel, getHistoryState } from "./history";
+import type { PanelVariant } from "../src/types";
+
+export function listVariants(panelId: string): PanelVariant[] {
+  return db.prepare("SELECT id, image_url, description, created_at FROM panel_variants WHERE panel_id = ? ORDER BY created_at DESC, rowid DESC").all(panelId)
+    .map((variant: PanelVariant) => ({ ...variant, thumbnail_url: thumbnailUrl(variant.image_url) }));
+}
+
+export const countVariants = (panelId: string): number =>
+  db.prepare("SELECT COUNT(*) AS count FROM panel_variants WHERE panel_id = ?").get(panelId).count;
+
+// Keeps an image among the panel's variants; an image it already has is not added twice.
+export function addVariant(panelId: string, imageUrl: string, description: string | null) {
+  const existing = db.prepare("SELECT id FROM panel_variants WHERE panel_id = ? AND image_url = ?").get(panelId, imageUrl);
+  if (existing) return existing.id as string;
+  const id = uuidv4();
+  db.prepare("INSERT INTO panel_variants (id, panel_id, image_url, description) VALUES (?, ?, ?, ?)").run(id, panelId, imageUrl, description);
+  return id;
+}
+
+// The description behind the panel's current image, or else its latest one, for regenerating without retyping it.
+export function currentDescription(panelId: string): string | null {
+  const row = db.prepare(`
+    SELECT v.description FROM panel_variants v JOIN panels p ON p.id = v.panel_id
+    WHERE v.panel_id = ? AND v.description IS NOT NULL
+    ORDER BY v.image_url = p.image_url DESC, v.created_at DESC, v.rowid DESC LIMIT 1
+  `).get(panelId);
+  return row?.description ?? null;
+}
+
+// Drops all but the `keep` newest inactive variants of every panel. The undo
+// history goes too, since its snapshots would keep the pruned images alive.
+// Returns the images the comic stopped pointing to, with the count of variants.
+const pruneVariants = db.transaction((comicId: string, keep: number) => {
+  const panels = db.prepare("SELECT id, image_url FROM panels WHERE comic_id = ?").all(comicId);
+  const remove = db.prepare("DELETE FROM panel_variants WHERE id = ?");
+  const images: (string | null)[] = [];
+  let deleted = 0;
+  for (const panel of panels) {
+    listVariants(panel.id)
+      .filter(variant => variant.image_url !== panel.image_url)
+      .slice(keep)
+      .forEach(variant => {
+        remove.run(variant.id);
+        images.push(variant.image_url);
+        deleted++;
+      });
+  }
+  for (const edit of db.prepare("SELECT image_before, image_after FROM panel_edits WHERE comic_id = ?").all(comicId)) {
+    images.push(edit.image_before, edit.image_after);
+  }
+  db.prepare("DELETE FROM panel_edits WHERE comic_id = ?").run(comicId);
+  return { deleted, images };
+});
+
+export function registerVariantRoutes(app: Express) {
+  const findPanel = (comicId: string, panelId: string) =>
+    db.prepare("SELECT id, image_url FROM panels WHERE id = ? AND comic_id = ?").get(panelId, comicId);
+  const findVariant = (panelId: string, variantId: string) =>
+    db.prepare("SELECT * FROM panel_variants WHERE id = ? AND panel_id = ?").get(variantId, panelId);
+
+  app.get("/api/comics/:id/panels/:panelId/variants", (req, res) => {
+    const panel = findPanel(req.params.id, req.params.panelId);
+    if (!panel) return sendError(res, 404, "Panel not found");
+    res.json(listVariants(panel.id));
+  });
+
+  // Switching variants is an image change like any other, so it can be undone.
+  app.post("/api/comics/:id/panels/:panelId/variants/:variantId/activate", (req, res) => {
+    const panel = findPanel(req.params.id, req.params.panelId);
+    const variant = panel && findVariant(panel.id, req.params.variantId);
+    if (!variant) return sendError(res, 404, "Variant not found");
+
+    changePanel(panel.id, { image_url: variant.image_url });
+    res.json({ image_url: variant.image_url, ...getHistoryState(req.params.id) });
+  });
+
+  app.delete("/api/comics/:id/panels/:panelId/variants/:variantId", (req, res) => {
+    const panel = findPanel(req.params.id, req.params.panelId);
+    const variant = panel && findVariant(panel.id, req.params.variantId);
+    if (!variant) return sendError(res, 404, "Variant not found");
+    if (variant.image_url === panel.image_url) return sendError(res, 409, "The active variant cannot be deleted");
+
+    db.prepare("DELETE FROM panel_variants WHERE id = ?").run(variant.id);
+    res.json({ success: true });
+  });
+
+  app.post("/api/comics/:id/variants/prune", validate({ body: z.object({ keep: z.int().min(0).default(0) }) }), (req, res) => {
+    if (!db.prepare("SELECT id FROM comics WHERE id = ?").get(req.params.id)) return sendError(res, 404, "Comic not found");
+    const { keep } = req.body;
+
+    // Only images freed by this comic are deleted; other libraries' assets are not this route's to collect.
+    const { deleted, images } = pruneVariants(req.params.id, keep);
+    res.json({ deleted_variants: deleted, deleted_assets: deleteUnusedAssets(images) });
+  });
+}
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { 
   Plus, 
   Book, 
@@ -10,239 +10,751 @@ import {
   ChevronRight, 
   ChevronLeft,
   Download,
-  Camera,
-  Layout
+  Users,
+  Layout,
+  Pencil,
+  RefreshCw,
+  Check,
+  Upload,
+  Archive,
+  MessageCircle,
+  Cloud,
+  Square,
+  LogOut,
+  Shield,
+  Flag,
+  Share2,
+  Search,
+  X,
+  BookPlus,
+  Library,
+  BarChart3,
+  AlertTriangle,
+  BookOpen
 } from 'lucide-react';
 import { motion, AnimatePresence } from 'motion/react';
-import { generateComicStory, generatePanelImage, translateText } from './services/geminiService';
-
-interface Panel {
-  id?: string;
-  image_url: string;
-  caption: string;
-  order_index: number;
-}
-
-interface Comic {
-  id: string;
-  title: string;
-  description: string;
-  panels?: Panel[];
-}
-
-const LANGUAGES = [
-  { code: 'pt-BR', name: 'Português (Brasil)' },
-  { code: 'en', name: 'English' },
-  { code: 'es', name: 'Español' },
-  { code: 'fr', name: 'Français' },
-  { code: 'ja', name: '日本語' }
-];
+import { fetchLatestJob, isJobFinished, retryFailedPanels, subscribeToJob, waitForJob } from './services/jobService';
+import ComicEditor from './components/ComicEditor';
+import CharacterLibrary from './components/CharacterLibrary';
+import CharacterPicker from './components/CharacterPicker';
+import GenerationSettingsForm from './components/GenerationSettingsForm';
+import BalloonLayer from './components/BalloonLayer';
+import UserAdmin from './components/UserAdmin';
+import ModerationLog from './components/ModerationLog';
+import UsageDashboard from './components/UsageDashboard';
+import ShareDialog from './components/ShareDialog';
+import ContinueStoryDialog from './components/ContinueStoryDialog';
+import SeriesDialog from './components/SeriesDialog';
+import ComicReader, { readingPercent, resumeIndex } from './components/ComicReader';
+import { fetchCharacters } from './services/characterService';
+import { fetchStyles } from './services/styleService';
+import { fetchComicPage, fetchTags } from './services/libraryService';
+import { moderationMessage, refusalMessage, responseError } from './services/moderationService';
+import { DEFAULT_GENERATION_SETTINGS, GenerationSettings, StylePreset } from './generation';
+import { addBalloon, correctBalloonTranslation, deleteBalloon, updateBalloon } from './services/balloonService';
+import { Balloon, BalloonType, Character, Comic, ComicTranslation, GenerationJob, Panel, ReadingProgress, Series, TagCount, UserSummary } from './types';
+import { LANGUAGES } from './languages';
+import { PAGE_ASPECT, PAGE_TEMPLATE_IDS, PageTemplateId, paginate } from './layouts';
+import { COMIC_SORTS, ComicSort, DEFAULT_COMIC_SORT, isComicSort } from './library';
+import { useI18n } from './i18n';
+import { useAuth } from './auth';
+import { useDialog } from './dialog';
+import { panelAltText } from './accessibility';
 
 export default function App() {
+  const { locale: language, setLocale, t } = useI18n();
+  const { user, signOut } = useAuth();
   const [comics, setComics] = useState<Comic[]>([]);
   const [currentComic, setCurrentComic] = useState<Comic | null>(null);
   const [isCreating, setIsCreating] = useState(false);
+  const createDialog = useDialog(() => setIsCreating(false));
+  const [isLanguageMenuOpen, setIsLanguageMenuOpen] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [prompt, setPrompt] = useState('');
-  const [userImage, setUserImage] = useState<string | null>(null);
-  const [language, setLanguage] = useState('pt-BR');
+  // Why the prompt or its story was turned down, by the moderation rules or a
+  // usage limit; the form stays open to reword it or try again later.
+  const [promptRejection, setPromptRejection] = useState<string | null>(null);
+  const [characters, setCharacters] = useState<Character[]>([]);
+  const [selectedCharacterIds, setSelectedCharacterIds] = useState<string[]>([]);
+  const [isManagingCharacters, setIsManagingCharacters] = useState(false);
+  const [generationSettings, setGenerationSettings] = useState<GenerationSettings>(DEFAULT_GENERATION_SETTINGS);
+  const [styles, setStyles] = useState<StylePreset[]>([]);
   const [view, setView] = useState<'home' | 'editor' | 'viewer'>('home');
   const [isTranslating, setIsTranslating] = useState(false);
-  const [layout, setLayout] = useState<'grid' | 'stack'>('grid');
-  const [generationProgress, setGenerationProgress] = useState<{current: number, total: number} | null>(null);
+  const [layout, setLayout] = useState<'pages' | 'stack'>('pages');
+  const [generationJob, setGenerationJob] = useState<GenerationJob | null>(null);
+  const [comicJob, setComicJob] = useState<GenerationJob | null>(null);
+  const [editionLanguage, setEditionLanguage] = useState<string | null>(null);
+  const [edition, setEdition] = useState<ComicTranslation | null>(null);
+  const [isCorrectingTranslation, setIsCorrectingTranslation] = useState(false);
+  const [isEditingBalloons, setIsEditingBalloons] = useState(false);
+  const [exportFormat, setExportFormat] = useState<'pdf' | 'cbz' | 'epub' | 'bundle'>('pdf');
+  const [isImporting, setIsImporting] = useState(false);
+  const [pageSize, setPageSize] = useState<'a4' | 'a5' | 'letter'>('a4');
+  // Admins can browse another user's library or all of them; null is the user's own.
+  const [libraryOwner, setLibraryOwner] = useState<'all' | UserSummary | null>(null);
+  const [isManagingUsers, setIsManagingUsers] = useState(false);
+  const [isModerating, setIsModerating] = useState(false);
+  const [isViewingUsage, setIsViewingUsage] = useState(false);
+  const [isSharing, setIsSharing] = useState(false);
+  const [isReading, setIsReading] = useState(false);
+  const [isContinuing, setIsContinuing] = useState(false);
+  const [isManagingSeries, setIsManagingSeries] = useState(false);
+  const [exportScope, setExportScope] = useState<'comic' | 'series'>('comic');
+  const [searchInput, setSearchInput] = useState('');
+  const [searchQuery, setSearchQuery] = useState('');
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const [sort, setSort] = useState<ComicSort>(DEFAULT_COMIC_SORT);
+  const [tags, setTags] = useState<TagCount[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const comicsRequestRef = useRef(0);
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+  const comicJobProgressRef = useRef(-1);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setSearchQuery(searchInput.trim()), 300);
+    return () => clearTimeout(timeout);
+  }, [searchInput]);
 
   useEffect(() => {
     fetchComics();
+  }, [libraryOwner, searchQuery, tagFilter, sort]);
+
+  useEffect(() => {
+    refreshTags();
   }, []);
 
-  const fetchComics = async () => {
-    const res = await fetch('/api/comics');
+  // Load the next page when the end of the grid scrolls into view.
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !nextCursor || isLoadingMore) return;
+    const observer = new IntersectionObserver(entries => {
+      if (entries[0].isIntersecting) loadMoreComics();
+    }, { rootMargin: '400px' });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [nextCursor, isLoadingMore, view]);
+
+  useEffect(() => {
+    fetchCharacters().then(setCharacters).catch(error => console.error("Erro ao carregar personagens:", error));
+    fetchStyles().then(setStyles).catch(error => console.error("Erro ao carregar estilos:", error));
+  }, []);
+
+  useEffect(() => {
+    setComicJob(null);
+    setEditionLanguage(null);
+    setEdition(null);
+    setIsCorrectingTranslation(false);
+    if (!currentComic) return;
+    let cancelled = false;
+    fetchLatestJob(currentComic.id).then(job => {
+      if (!cancelled) setComicJob(job);
+    });
+    return () => { cancelled = true; };
+  }, [currentComic?.id]);
+
+  const isComicJobActive = !!comicJob && !isJobFinished(comicJob);
+
+  // Follow a running job of the open comic and reload it as panels get their images.
+  useEffect(() => {
+    if (!comicJob || !isComicJobActive) return;
+    comicJobProgressRef.current = comicJob.progress.current;
+    return subscribeToJob(comicJob.id, (job) => {
+      setComicJob(job);
+      if (job.comic_id && (job.progress.current !== comicJobProgressRef.current || isJobFinished(job))) {
+        comicJobProgressRef.current = job.progress.current;
+        reloadComic(job.comic_id);
+      }
+    });
+  }, [comicJob?.id, isComicJobActive]);
+
+  // Without a cursor the list starts over; responses to superseded requests are dropped.
+  const fetchComics = async (cursor: string | null = null) => {
+    const requestId = cursor ? comicsRequestRef.current : ++comicsRequestRef.current;
+    try {
+      const page = await fetchComicPage({
+        owner: libraryOwner === 'all' ? 'all' : libraryOwner?.id,
+        q: searchQuery,
+        tag: tagFilter,
+        sort,
+        cursor
+      });
+      if (requestId !== comicsRequestRef.current) return;
+      setComics(prev => cursor ? [...prev, ...page.comics] : page.comics);
+      setNextCursor(page.next_cursor);
+    } catch (error) {
+      console.error("Erro ao carregar HQs:", error);
+    }
+  };
+
+  const loadMoreComics = async () => {
+    if (!nextCursor) return;
+    setIsLoadingMore(true);
+    try {
+      await fetchComics(nextCursor);
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
+
+  const refreshTags = () => {
+    fetchTags().then(setTags).catch(error => console.error("Erro ao carregar tags:", error));
+  };
+
+  const openComic = async (id: string) => {
+    const res = await fetch(`/api/comics/${id}`);
     const data = await res.json();
-    setComics(data);
+    setCurrentComic(data);
+    setView('viewer');
+  };
+
+  const openReader = async (id: string) => {
+    await openComic(id);
+    setIsReading(true);
+  };
+
+  const handleReadingProgress = (comicId: string, progress: ReadingProgress) => {
+    setComics(prev => prev.map(c => c.id === comicId ? { ...c, reading_progress: progress } : c));
+    setCurrentComic(prev => prev?.id === comicId ? { ...prev, reading_progress: progress } : prev);
+  };
+
+  const readLabel = (progress?: ReadingProgress | null) => {
+    if (!progress) return t('reader.read');
+    return progress.panel_index < progress.panel_count - 1
+      ? t('reader.continue', { percent: readingPercent(progress) })
+      : t('reader.readAgain');
+  };
+
+  const reloadComic = async (id: string) => {
+    const res = await fetch(`/api/comics/${id}`);
+    if (!res.ok) return;
+    const data = await res.json();
+    setCurrentComic(prev => prev?.id === id ? data : prev);
   };
 
   const handleCreateComic = async () => {
     if (!prompt) return;
     setIsLoading(true);
-    setGenerationProgress({ current: 0, total: 0 });
+    setPromptRejection(null);
+    let keepOpen = false;
     try {
-      const story = await generateComicStory(prompt, language);
-      if (!story.panels || story.panels.length === 0) throw new Error("Falha ao gerar história");
-      
-      setGenerationProgress({ current: 0, total: story.panels.length });
-
-      const res = await fetch('/api/comics', {
+      const res = await fetch('/api/jobs', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ title: story.title, description: prompt })
+        body: JSON.stringify({ prompt, language, characterIds: selectedCharacterIds, ...generationSettings })
       });
-      const newComic = await res.json();
-      
-      const panels: Panel[] = [];
-      for (let i = 0; i < story.panels.length; i++) {
-        setGenerationProgress(prev => prev ? { ...prev, current: i + 1 } : null);
-        const panelData = story.panels[i];
-        const imageUrl = await generatePanelImage(panelData.visualDescription, userImage || undefined);
-        
-        if (imageUrl) {
-          const panelRes = await fetch(`/api/comics/${newComic.id}/panels`, {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({
-              image_url: imageUrl,
-              caption: panelData.caption,
-              order_index: i
-            })
-          });
-          const panel = await panelRes.json();
-          panels.push(panel);
-        }
+      if (!res.ok) throw await responseError(res);
+      const job: GenerationJob = await res.json();
+      setGenerationJob(job);
+
+      const finished = await waitForJob(job.id, setGenerationJob);
+      if (!finished.comic_id && finished.moderation) {
+        setPromptRejection(moderationMessage(t, finished.moderation, 'output'));
+        keepOpen = true;
+        return;
       }
+      if (!finished.comic_id) throw new Error(finished.error || "Story generation failed");
 
-      const fullComic = { ...newComic, panels };
-      setComics(prev => [fullComic, ...prev]);
-      setCurrentComic(fullComic);
-      setView('viewer');
+      await fetchComics();
+      refreshTags();
+      await openComic(finished.comic_id);
       setPrompt('');
-      setUserImage(null);
+      setSelectedCharacterIds([]);
+      if (finished.status === 'failed') {
+        alert(t('create.partialFailure'));
+      }
     } catch (error) {
-      console.error("Erro ao criar HQ:", error);
-      alert("Ocorreu um erro ao gerar sua HQ. Tente novamente.");
+      const refusal = refusalMessage(t, error, language);
+      if (refusal) {
+        setPromptRejection(refusal);
+        keepOpen = true;
+      } else {
+        console.error("Erro ao criar HQ:", error);
+        alert(t('create.error'));
+      }
     } finally {
       setIsLoading(false);
-      setIsCreating(false);
-      setGenerationProgress(null);
+      if (!keepOpen) setIsCreating(false);
+      setGenerationJob(null);
+    }
+  };
+
+  // Accepts a Minha HQ bundle (single comic or full backup) or a CBZ archive.
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setIsImporting(true);
+    try {
+      const res = await fetch(`/api/import?filename=${encodeURIComponent(file.name)}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/octet-stream' },
+        body: file
+      });
+      if (!res.ok) throw new Error((await res.json()).error);
+      const { comics: imported } = await res.json();
+      await fetchComics();
+      refreshTags();
+      if (imported.length === 1) await openComic(imported[0].id);
+    } catch (error) {
+      console.error("Erro ao importar:", error);
+      alert(t('home.importError'));
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleRetryFailedPanels = async () => {
+    if (!currentComic) return;
+    try {
+      setComicJob(await retryFailedPanels(currentComic.id));
+      await reloadComic(currentComic.id);
+    } catch (error) {
+      console.error("Erro ao tentar novamente:", error);
+      const refusal = refusalMessage(t, error, language);
+      if (refusal) alert(refusal);
     }
   };
 
   const handleDeleteComic = async (id: string, e: React.MouseEvent) => {
     e.stopPropagation();
-    if (!confirm("Tem certeza que deseja excluir esta HQ?")) return;
+    if (!confirm(t('home.deleteConfirm'))) return;
     
     try {
       // Note: We need a delete route in server.ts, I'll add it later or just filter locally for now
       // For now, let's assume we'll add the route
       await fetch(`/api/comics/${id}`, { method: 'DELETE' });
       setComics(comics.filter(c => c.id !== id));
+      refreshTags();
       if (currentComic?.id === id) setView('home');
     } catch (error) {
       console.error("Erro ao excluir:", error);
     }
   };
 
-  const handleDownloadPDF = async () => {
-    const element = document.getElementById('comic-content');
-    if (!element) return;
-    
-    const html2canvas = (await import('html2canvas')).default;
-    const jsPDF = (await import('jspdf')).default;
-    
-    const canvas = await html2canvas(element, { 
-      scale: 2,
-      useCORS: true,
-      logging: false,
-      backgroundColor: '#f5f5f4' // Match stone-100
+  const handleSelectEdition = async (code: string | null) => {
+    setEditionLanguage(code);
+    setEdition(null);
+    setIsCorrectingTranslation(false);
+    if (!code || !currentComic) return;
+
+    const res = await fetch(`/api/comics/${currentComic.id}/translations/${code}`);
+    if (res.ok) setEdition(await res.json());
+  };
+
+  const handleTranslateComic = async () => {
+    if (!currentComic || !editionLanguage) return;
+    setIsTranslating(true);
+    try {
+      const res = await fetch(`/api/comics/${currentComic.id}/translations`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ language: editionLanguage })
+      });
+      if (!res.ok) throw await responseError(res);
+      setEdition(await res.json());
+    } catch (error) {
+      console.error("Erro ao traduzir:", error);
+      alert(refusalMessage(t, error, language) ?? t('viewer.translateError'));
+    } finally {
+      setIsTranslating(false);
+    }
+  };
+
+  const saveTranslationCorrection = async (path: string, body: object) => {
+    if (!currentComic || !editionLanguage) return;
+    const res = await fetch(`/api/comics/${currentComic.id}/translations/${editionLanguage}${path}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
     });
-    const imgData = canvas.toDataURL('image/png');
-    const pdf = new jsPDF('p', 'mm', 'a4');
-    const imgProps = pdf.getImageProperties(imgData);
-    const pdfWidth = pdf.internal.pageSize.getWidth();
-    const pdfHeight = (imgProps.height * pdfWidth) / imgProps.width;
-    
-    pdf.addImage(imgData, 'PNG', 0, 0, pdfWidth, pdfHeight);
-    pdf.save(`${currentComic?.title || 'minha-hq'}.pdf`);
+    if (res.ok) setEdition(await res.json());
   };
 
-  const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        setUserImage(reader.result as string);
-      };
-      reader.readAsDataURL(file);
+  const captionFor = (panel: Panel) =>
+    edition?.panels.find(p => p.panel_id === panel.id)?.caption ?? panel.caption;
+
+  const balloonTextFor = (balloon: Balloon) =>
+    edition?.balloons.find(b => b.balloon_id === balloon.id)?.text ?? balloon.text;
+
+  const updatePanelBalloons = (panelId: string, update: (balloons: Balloon[]) => Balloon[]) =>
+    setCurrentComic(prev => prev && {
+      ...prev,
+      panels: prev.panels?.map(p => p.id === panelId ? { ...p, balloons: update(p.balloons || []) } : p)
+    });
+
+  // Moves show immediately; the balloon snaps back if the server rejects them.
+  const handleBalloonChange = async (panelId: string, balloon: Balloon, changes: Partial<Balloon>) => {
+    if (!currentComic) return;
+    updatePanelBalloons(panelId, balloons => balloons.map(b => b.id === balloon.id ? { ...b, ...changes } : b));
+    try {
+      const saved = await updateBalloon(currentComic.id, panelId, balloon.id, changes);
+      updatePanelBalloons(panelId, balloons => balloons.map(b => b.id === saved.id ? saved : b));
+    } catch (error) {
+      console.error("Erro ao salvar balão:", error);
+      updatePanelBalloons(panelId, balloons => balloons.map(b => b.id === balloon.id ? balloon : b));
     }
   };
 
-  const translateUI = async (targetLang: string) => {
-    // In a real app, we'd use i18next, but here we can use Gemini for dynamic translation if needed
-    // For now, we just update the state to trigger any language-specific logic
-    setLanguage(targetLang);
+  // In a translated edition the text edit becomes a manual correction of that edition.
+  const handleBalloonTextChange = async (panelId: string, balloon: Balloon, text: string) => {
+    if (!currentComic) return;
+    if (!edition) return handleBalloonChange(panelId, balloon, { text });
+    try {
+      setEdition(await correctBalloonTranslation(currentComic.id, edition.language, balloon.id, text));
+    } catch (error) {
+      console.error("Erro ao salvar balão:", error);
+    }
   };
 
+  const handleAddBalloon = async (panelId: string, type: BalloonType) => {
+    if (!currentComic) return;
+    try {
+      const balloon = await addBalloon(currentComic.id, panelId, type);
+      updatePanelBalloons(panelId, balloons => [...balloons, balloon]);
+    } catch (error) {
+      console.error("Erro ao criar balão:", error);
+    }
+  };
+
+  const handleDeleteBalloon = async (panelId: string, balloon: Balloon) => {
+    if (!currentComic) return;
+    try {
+      await deleteBalloon(currentComic.id, panelId, balloon.id);
+      updatePanelBalloons(panelId, balloons => balloons.filter(b => b.id !== balloon.id));
+    } catch (error) {
+      console.error("Erro ao excluir balão:", error);
+    }
+  };
+
+  const handlePageTemplateChange = async (pageIndex: number, template: PageTemplateId) => {
+    if (!currentComic) return;
+    try {
+      const res = await fetch(`/api/comics/${currentComic.id}/pages/${pageIndex}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ template })
+      });
+      if (!res.ok) throw new Error((await res.json()).error);
+      const { page_templates } = await res.json();
+      setCurrentComic(prev => prev && { ...prev, page_templates });
+    } catch (error) {
+      console.error("Erro ao mudar o layout da página:", error);
+    }
+  };
+
+  // Exports are rendered on the server, in the edition currently shown. A
+  // series is exported as one volume, each chapter in that edition when it has one.
+  const exportUrl = () => {
+    const base = exportScope === 'series' && currentComic?.series
+      ? `/api/series/${currentComic.series.id}`
+      : `/api/comics/${currentComic?.id}`;
+    if (exportFormat === 'bundle') return `${base}/bundle`;
+    const params = new URLSearchParams({ format: exportFormat, pageSize });
+    if (edition) params.set('language', edition.language);
+    return `${base}/export?${params}`;
+  };
+
+  const handleSeriesChanged = (series: Series | null) => {
+    setCurrentComic(prev => prev && {
+      ...prev,
+      series,
+      series_id: series?.id ?? null,
+      chapter_number: series?.chapters.find(chapter => chapter.id === prev.id)?.chapter_number ?? null
+    });
+    if (!series) setExportScope('comic');
+    fetchComics();
+  };
+
+  const handleChapterCreated = async (comicId: string) => {
+    setIsContinuing(false);
+    await fetchComics();
+    await openComic(comicId);
+  };
+
+  const handleComicEdited = (comic: Comic) => {
+    setCurrentComic(comic);
+    setComics(prev => prev.map(c => c.id === comic.id ? { ...c, title: comic.title, description: comic.description, tags: comic.tags } : c));
+    if (comic.tags !== currentComic?.tags) refreshTags();
+  };
+
+  const isFiltering = !!searchQuery || !!tagFilter;
+
   const renderHome = () => (
     <div className="max-w-6xl mx-auto p-6">
       <header className="flex justify-between items-center mb-12">
-        <h1 className="comic-title text-5xl">Minha HQ</h1>
+        <h1 className="comic-title text-5xl">{t('app.name')}</h1>
         <div className="flex gap-4 items-center">
-          <div className="relative group">
-            <button className="flex items-center gap-2 bg-white px-4 py-2 comic-border font-bold">
+          {/* Opens on click, so it works from the keyboard; Escape or leaving it closes it. */}
+          <div
+            className="relative"
+            onKeyDown={(e) => e.key === 'Escape' && setIsLanguageMenuOpen(false)}
+            onBlur={(e) => !e.currentTarget.contains(e.relatedTarget) && setIsLanguageMenuOpen(false)}
+          >
+            <button
+              onClick={() => setIsLanguageMenuOpen(!isLanguageMenuOpen)}
+              aria-expanded={isLanguageMenuOpen}
+              aria-controls="language-menu"
+              className="flex items-center gap-2 bg-white px-4 py-2 comic-border font-bold"
+              title={t('language.select')}
+            >
               <Languages size={20} />
               {LANGUAGES.find(l => l.code === language)?.name}
             </button>
-            <div className="absolute right-0 mt-2 w-48 bg-white comic-border hidden group-hover:block z-50">
-              {LANGUAGES.map(lang => (
-                <button 
-                  key={lang.code}
-                  onClick={() => translateUI(lang.code)}
-                  className="w-full text-left px-4 py-2 hover:bg-yellow-400 font-bold border-b border-black last:border-0"
-                >
-                  {lang.name}
-                </button>
-              ))}
-            </div>
+            {isLanguageMenuOpen && (
+              <ul id="language-menu" aria-label={t('language.select')} className="absolute right-0 mt-2 w-48 bg-white comic-border z-50">
+                {LANGUAGES.map(lang => (
+                  <li key={lang.code} className="border-b border-black last:border-0">
+                    <button
+                      onClick={() => {
+                        setLocale(lang.code);
+                        setIsLanguageMenuOpen(false);
+                      }}
+                      aria-current={lang.code === language}
+                      lang={lang.code}
+                      className={`w-full text-left px-4 py-2 hover:bg-yellow-400 font-bold ${lang.code === language ? 'bg-yellow-100' : ''}`}
+                    >
+                      {lang.name}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
           </div>
+          <button
+            onClick={() => setIsManagingCharacters(true)}
+            className="bg-white px-4 py-3 comic-border font-bold flex items-center gap-2 hover:bg-stone-50"
+          >
+            <Users size={20} />
+            {t('characters.title')}
+          </button>
+          <a
+            href="/api/backup"
+            download
+            className="bg-white px-4 py-3 comic-border font-bold flex items-center gap-2 hover:bg-stone-50"
+            title={t('home.backup')}
+          >
+            <Archive size={20} />
+          </a>
+          <label
+            className={`bg-white px-4 py-3 comic-border font-bold flex items-center gap-2 hover:bg-stone-50 ${isImporting ? 'opacity-50 cursor-wait' : 'cursor-pointer'}`}
+            title={t('home.importHint')}
+          >
+            {isImporting ? <Loader2 className="animate-spin" size={20} /> : <Upload size={20} />}
+            {isImporting ? t('home.importing') : t('home.import')}
+            <input type="file" accept=".zip,.cbz" className="hidden" onChange={handleImport} disabled={isImporting} />
+          </label>
           <button 
             onClick={() => setIsCreating(true)}
             className="bg-yellow-400 px-6 py-3 comic-border font-bold flex items-center gap-2 hover:bg-yellow-300 transition-colors"
           >
             <Plus size={24} />
-            CRIAR NOVA HQ
+            {t('home.createComic')}
+          </button>
+          <button
+            onClick={() => setIsViewingUsage(true)}
+            className="bg-white px-4 py-3 comic-border font-bold flex items-center gap-2 hover:bg-stone-50"
+            title={t('usage.title')}
+          >
+            <BarChart3 size={20} />
+          </button>
+          {user.role === 'admin' && (
+            <button
+              onClick={() => setIsManagingUsers(true)}
+              className="bg-white px-4 py-3 comic-border font-bold flex items-center gap-2 hover:bg-stone-50"
+              title={t('users.title')}
+            >
+              <Shield size={20} />
+            </button>
+          )}
+          {user.role === 'admin' && (
+            <button
+              onClick={() => setIsModerating(true)}
+              className="bg-white px-4 py-3 comic-border font-bold flex items-center gap-2 hover:bg-stone-50"
+              title={t('moderation.title')}
+            >
+              <Flag size={20} />
+            </button>
+          )}
+          <button
+            onClick={signOut}
+            className="bg-white px-4 py-3 comic-border font-bold flex items-center gap-2 hover:bg-stone-50"
+            title={t('auth.logout')}
+          >
+            <LogOut size={20} />
+            {user.username}
           </button>
         </div>
       </header>
 
+      {libraryOwner && (
+        <div className="flex justify-between items-center bg-yellow-100 comic-border px-4 py-3 mb-8 font-bold">
+          <span>{libraryOwner === 'all' ? t('users.viewingAll') : t('users.viewingLibrary', { name: libraryOwner.username })}</span>
+          <button onClick={() => setLibraryOwner(null)} className="underline">{t('users.backToMine')}</button>
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-4 mb-4">
+        <div className="flex-1 min-w-64 flex items-center gap-2 bg-white comic-border px-3">
+          <Search size={20} className="text-stone-500" aria-hidden="true" />
+          <input
+            type="search"
+            value={searchInput}
+            onChange={(e) => setSearchInput(e.target.value)}
+            placeholder={t('library.searchPlaceholder')}
+            aria-label={t('library.searchPlaceholder')}
+            className="flex-1 py-3 focus:outline-none"
+          />
+        </div>
+        <select
+          value={sort}
+          onChange={(e) => isComicSort(e.target.value) && setSort(e.target.value)}
+          aria-label={t('library.sort')}
+          className="bg-white comic-border px-3 py-3 font-bold"
+        >
+          {COMIC_SORTS.map(option => (
+            <option key={option} value={option}>{t(`library.sorts.${option}`)}</option>
+          ))}
+        </select>
+      </div>
+
+      {(tags.length > 0 || tagFilter) && (
+        <div className="flex flex-wrap gap-2 mb-8">
+          {tagFilter && !tags.some(tag => tag.tag.toLowerCase() === tagFilter.toLowerCase()) && (
+            <button onClick={() => setTagFilter(null)} className="px-3 py-1 border-2 border-black font-bold text-sm bg-yellow-400 flex items-center gap-1">
+              {tagFilter} <X size={14} />
+            </button>
+          )}
+          {tags.map(({ tag, count }) => {
+            const active = tagFilter?.toLowerCase() === tag.toLowerCase();
+            return (
+              <button
+                key={tag}
+                onClick={() => setTagFilter(active ? null : tag)}
+                aria-pressed={active}
+                className={`px-3 py-1 border-2 border-black font-bold text-sm flex items-center gap-1 ${active ? 'bg-yellow-400' : 'bg-white hover:bg-stone-50'}`}
+              >
+                {tag} <span className="text-stone-600 font-normal">{count}</span>
+                {active && <X size={14} />}
+              </button>
+            );
+          })}
+        </div>
+      )}
+
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
         {comics.map(comic => (
-          <motion.div 
+          <motion.article 
             key={comic.id}
+            aria-label={comic.title}
             whileHover={{ scale: 1.02 }}
-            onClick={async () => {
-              const res = await fetch(`/api/comics/${comic.id}`);
-              const data = await res.json();
-              setCurrentComic(data);
-              setView('viewer');
-            }}
+            onClick={() => openComic(comic.id)}
             className="comic-panel cursor-pointer group"
           >
             <div className="aspect-[3/4] bg-stone-200 mb-4 overflow-hidden relative">
-              <div className="absolute inset-0 flex items-center justify-center text-stone-400">
-                <Book size={64} />
-              </div>
-              {/* Placeholder for first panel image if available */}
+              {comic.cover_url ? (
+                <img src={comic.cover_url} alt="" loading="lazy" className="w-full h-full object-cover" />
+              ) : (
+                <div className="absolute inset-0 flex items-center justify-center text-stone-400">
+                  <Book size={64} />
+                </div>
+              )}
+              {comic.reading_progress && (
+                <div
+                  role="progressbar"
+                  aria-label={t('reader.progress', { percent: readingPercent(comic.reading_progress) })}
+                  aria-valuemin={0}
+                  aria-valuemax={100}
+                  aria-valuenow={readingPercent(comic.reading_progress)}
+                  className="absolute bottom-0 inset-x-0 h-2 bg-black/30"
+                >
+                  <div className="h-full bg-yellow-400" style={{ width: `${readingPercent(comic.reading_progress)}%` }} />
+                </div>
+              )}
             </div>
-            <h3 className="font-comic text-2xl mb-2">{comic.title}</h3>
+            <h3 className="font-comic text-2xl mb-2">
+              {/* The whole card is clickable; this button is its way in from the keyboard. */}
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  openComic(comic.id);
+                }}
+                className="text-left hover:underline"
+              >
+                {comic.title}
+              </button>
+            </h3>
+            {libraryOwner === 'all' && comic.owner_name && (
+              <p className="text-xs font-bold uppercase text-stone-600 mb-1">{comic.owner_name}</p>
+            )}
+            {comic.series_title && (
+              <p className="text-xs font-bold uppercase text-stone-600 mb-1 flex items-center gap-1">
+                <Library size={12} /> {t('series.cardLabel', { series: comic.series_title, number: comic.chapter_number ?? 1 })}
+              </p>
+            )}
+            {comic.tags && comic.tags.length > 0 && (
+              <div className="flex flex-wrap gap-1 mb-2">
+                {comic.tags.map(tag => (
+                  <button
+                    key={tag}
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      setTagFilter(tag);
+                    }}
+                    className="px-2 text-xs font-bold border border-black bg-yellow-100 hover:bg-yellow-300"
+                  >
+                    {tag}
+                  </button>
+                ))}
+              </div>
+            )}
             <div className="flex justify-between items-center">
               <p className="text-sm text-stone-600 line-clamp-1 flex-1">{comic.description}</p>
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  openReader(comic.id);
+                }}
+                className="px-2 py-1 border-2 border-black font-bold text-xs flex items-center gap-1 bg-yellow-400 hover:bg-yellow-300"
+              >
+                <BookOpen size={14} />
+                {readLabel(comic.reading_progress)}
+              </button>
               <button 
                 onClick={(e) => handleDeleteComic(comic.id, e)}
-                className="text-stone-400 hover:text-red-500 p-1"
+                className="text-stone-600 hover:text-red-600 p-1"
+                aria-label={t('home.deleteComic')}
+                title={t('home.deleteComic')}
               >
                 <Trash2 size={16} />
               </button>
             </div>
-          </motion.div>
+          </motion.article>
         ))}
         
         {comics.length === 0 && !isLoading && (
           <div className="col-span-full text-center py-20 bg-white comic-border">
             <Book size={80} className="mx-auto mb-4 text-stone-300" />
-            <h2 className="font-comic text-3xl mb-2">Nenhuma HQ ainda</h2>
-            <p className="text-stone-500">Comece sua jornada criando sua primeira história!</p>
+            <h2 className="font-comic text-3xl mb-2">{isFiltering ? t('library.noResults') : t('home.emptyTitle')}</h2>
+            <p className="text-stone-600">{isFiltering ? t('library.noResultsHint') : t('home.emptySubtitle')}</p>
           </div>
         )}
       </div>
 
+      {nextCursor && (
+        <div ref={loadMoreRef} className="flex justify-center py-8">
+          <button
+            onClick={loadMoreComics}
+            disabled={isLoadingMore}
+            className="bg-white px-6 py-3 comic-border font-bold flex items-center gap-2 hover:bg-stone-50 disabled:opacity-50"
+          >
+            {isLoadingMore && <Loader2 className="animate-spin" size={20} />}
+            {isLoadingMore ? t('library.loadingMore') : t('library.loadMore')}
+          </button>
+        </div>
+      )}
+
       <AnimatePresence>
         {isCreating && (
           <motion.div 
@@ -254,46 +766,55 @@ export default function App() {
             <motion.div 
               initial={{ scale: 0.9, y: 20 }}
               animate={{ scale: 1, y: 0 }}
-              className="bg-white comic-border w-full max-w-2xl p-8"
+              {...createDialog.props}
+              className="bg-white comic-border w-full max-w-2xl p-8 max-h-[90vh] overflow-y-auto"
             >
               <div className="flex justify-between items-center mb-6">
-                <h2 className="font-comic text-3xl">Nova Aventura</h2>
-                <button onClick={() => setIsCreating(false)} className="text-stone-500 hover:text-black">
+                <h2 id={createDialog.titleId} className="font-comic text-3xl">{t('create.title')}</h2>
+                <button onClick={() => setIsCreating(false)} className="text-stone-600 hover:text-black" title={t('create.close')}>
                   <Trash2 size={24} />
                 </button>
               </div>
 
               <div className="space-y-6">
                 <div>
-                  <label className="block font-bold mb-2 uppercase text-sm tracking-widest">Sobre o que é sua história?</label>
+                  <label htmlFor="create-prompt" className="block font-bold mb-2 uppercase text-sm tracking-widest">{t('create.promptLabel')}</label>
                   <textarea 
+                    id="create-prompt"
                     value={prompt}
-                    onChange={(e) => setPrompt(e.target.value)}
-                    placeholder="Ex: Um herói que descobre poderes ao comer pão de queijo..."
+                    onChange={(e) => {
+                      setPrompt(e.target.value);
+                      setPromptRejection(null);
+                    }}
+                    placeholder={t('create.promptPlaceholder')}
                     className="w-full p-4 comic-border h-32 focus:outline-none focus:ring-2 focus:ring-yellow-400"
                   />
+                  {promptRejection && (
+                    <p role="alert" className="mt-2 p-3 border-2 border-red-500 bg-red-50 text-sm font-bold">{promptRejection}</p>
+                  )}
                 </div>
 
                 <div>
-                  <label className="block font-bold mb-2 uppercase text-sm tracking-widest">Quer usar sua foto como personagem?</label>
-                  <div className="flex gap-4 items-center">
-                    <label className="flex-1 flex flex-col items-center justify-center border-2 border-dashed border-black p-6 cursor-pointer hover:bg-stone-50 transition-colors">
-                      <input type="file" accept="image/*" onChange={handleImageUpload} className="hidden" />
-                      {userImage ? (
-                        <img src={userImage} alt="Preview" className="w-20 h-20 object-cover rounded-full border-2 border-black" />
-                      ) : (
-                        <>
-                          <Camera size={32} className="mb-2" />
-                          <span className="text-sm font-bold">Upload de Foto</span>
-                        </>
-                      )}
-                    </label>
-                    {userImage && (
-                      <button onClick={() => setUserImage(null)} className="text-red-500 font-bold">Remover</button>
-                    )}
+                  <div className="flex justify-between items-center mb-2">
+                    <label className="block font-bold uppercase text-sm tracking-widest">{t('create.charactersLabel')}</label>
+                    <button onClick={() => setIsManagingCharacters(true)} className="text-sm font-bold underline flex items-center gap-1">
+                      <Users size={14} /> {t('characters.manage')}
+                    </button>
                   </div>
+                  {characters.length > 0 ? (
+                    <CharacterPicker characters={characters} selectedIds={selectedCharacterIds} onChange={setSelectedCharacterIds} />
+                  ) : (
+                    <p className="text-sm text-stone-600">{t('create.noCharacters')}</p>
+                  )}
                 </div>
 
+                <GenerationSettingsForm
+                  value={generationSettings}
+                  onChange={setGenerationSettings}
+                  styles={styles}
+                  onStylesChange={setStyles}
+                />
+
                 <button 
                   onClick={handleCreateComic}
                   disabled={isLoading || !prompt}
@@ -303,13 +824,18 @@ export default function App() {
                     <>
                       <div className="flex items-center gap-3">
                         <Loader2 className="animate-spin" />
-                        {generationProgress?.total === 0 ? 'CRIANDO ROTEIRO...' : `GERANDO PAINEL ${generationProgress?.current}/${generationProgress?.total}`}
+                        {!generationJob?.progress.total
+                          ? t('create.writingScript')
+                          : t('create.generatingPanel', {
+                              current: Math.min(generationJob.progress.current + 1, generationJob.progress.total),
+                              total: generationJob.progress.total
+                            })}
                       </div>
-                      {generationProgress && generationProgress.total > 0 && (
+                      {generationJob && generationJob.progress.total > 0 && (
                         <div className="w-full max-w-xs h-2 bg-black/10 rounded-full mt-2 overflow-hidden">
                           <div 
                             className="h-full bg-black transition-all duration-500" 
-                            style={{ width: `${(generationProgress.current / generationProgress.total) * 100}%` }}
+                            style={{ width: `${(generationJob.progress.current / generationJob.progress.total) * 100}%` }}
                           />
                         </div>
                       )}
@@ -317,7 +843,7 @@ export default function App() {
                   ) : (
                     <div className="flex items-center gap-3">
                       <Send />
-                      CRIAR HQ AGORA!
+                      {t('create.submit')}
                     </div>
                   )}
                 </button>
@@ -329,60 +855,403 @@ export default function App() {
     </div>
   );
 
+  // In page mode the panel fills its template slot; in the list it keeps the image's own proportions.
+  const renderViewerPanel = (panel: Panel, idx: number, inPage: boolean) => (
+    <motion.figure
+      key={panel.id || idx}
+      aria-label={t('panel.position', { number: idx + 1, total: currentComic?.panels?.length ?? 0 })}
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: idx * 0.1 }}
+      className={inPage ? 'h-full flex flex-col gap-1' : 'comic-panel'}
+    >
+      <div className={`relative bg-stone-100 overflow-hidden border-2 border-black flex items-center justify-center ${inPage ? 'flex-1 min-h-0' : 'mb-4'} ${!inPage && !panel.image_url ? 'aspect-square' : ''}`}>
+        {panel.image_url ? (
+          <img src={panel.image_url} alt={panelAltText(panel) ?? t('panel.label', { number: idx + 1 })} className={inPage ? 'w-full h-full object-cover' : 'w-full h-auto block'} />
+        ) : panel.image_status === 'failed' ? (
+          <div className="flex flex-col items-center gap-2 p-4 text-center text-red-700" title={panel.image_error ?? undefined}>
+            <AlertTriangle size={48} />
+            <span className="font-bold text-sm">{t('viewer.imageFailed')}</span>
+          </div>
+        ) : panel.image_status === 'pending' ? (
+          <div className="flex flex-col items-center gap-2 text-stone-600">
+            <Loader2 size={48} className="animate-spin" />
+            <span className="font-bold text-sm">{t('viewer.imagePending')}</span>
+          </div>
+        ) : (
+          <ImageIcon size={64} className="text-stone-300" />
+        )}
+        {panel.id && (
+          <BalloonLayer
+            balloons={panel.balloons || []}
+            textFor={balloonTextFor}
+            editing={isEditingBalloons}
+            onChange={(balloon, changes) => handleBalloonChange(panel.id!, balloon, changes)}
+            onTextChange={(balloon, text) => handleBalloonTextChange(panel.id!, balloon, text)}
+            onDelete={(balloon) => handleDeleteBalloon(panel.id!, balloon)}
+          />
+        )}
+        {isEditingBalloons && panel.id && (
+          <div className="absolute bottom-1 left-1 flex gap-1">
+            {([['speech', MessageCircle], ['thought', Cloud], ['narration', Square]] as const).map(([type, Icon]) => (
+              <button
+                key={type}
+                onClick={() => handleAddBalloon(panel.id!, type)}
+                aria-label={t(`balloons.add.${type}`)}
+                title={t(`balloons.add.${type}`)}
+                className="p-1 border-2 border-black bg-white hover:bg-stone-50"
+              >
+                <Icon size={12} />
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+      {(captionFor(panel) || (edition && isCorrectingTranslation)) && (
+        <div className={`bg-yellow-100 border-2 border-black relative ${inPage ? 'px-2 py-1 text-sm' : 'p-4'}`}>
+          {!inPage && (
+            <div className="absolute -top-3 left-4 bg-white px-2 border-2 border-black text-xs font-bold uppercase">
+              {t('panel.label', { number: idx + 1 })}
+            </div>
+          )}
+          {edition && isCorrectingTranslation ? (
+            <textarea
+              key={`${panel.id}-${edition.language}`}
+              defaultValue={captionFor(panel)}
+              onBlur={(e) => e.target.value !== captionFor(panel) && saveTranslationCorrection(`/panels/${panel.id}`, { caption: e.target.value })}
+              className="w-full bg-transparent font-medium leading-tight border-2 border-dashed border-stone-400 p-1 focus:outline-none focus:border-black"
+            />
+          ) : (
+            <p className="font-medium leading-tight">{captionFor(panel)}</p>
+          )}
+        </div>
+      )}
+    </motion.figure>
+  );
+
+  // Series title, the chapter being read, and the way to the ones around it.
+  const renderChapterNav = (series: Series) => {
+    const index = series.chapters.findIndex(chapter => chapter.id === currentComic?.id);
+    const previous = series.chapters[index - 1];
+    const next = series.chapters[index + 1];
+    return (
+      <nav aria-label={t('series.navigation')} className="bg-white comic-border p-3 mb-8 flex items-center gap-2">
+        <button
+          onClick={() => previous && openComic(previous.id)}
+          disabled={!previous}
+          aria-label={t('series.previousChapter')}
+          title={previous?.title}
+          className="p-2 border-2 border-black hover:bg-stone-50 disabled:opacity-30"
+        >
+          <ChevronLeft size={16} />
+        </button>
+        <div className="flex-1 text-center min-w-0">
+          <p className="text-xs font-bold uppercase text-stone-600 truncate">{series.title}</p>
+          <select
+            value={currentComic?.id}
+            onChange={(e) => openComic(e.target.value)}
+            aria-label={t('series.chapter')}
+            className="font-bold bg-white max-w-full"
+          >
+            {series.chapters.map(chapter => (
+              <option key={chapter.id} value={chapter.id}>
+                {t('series.chapterLabel', { number: chapter.chapter_number, title: chapter.title })}
+              </option>
+            ))}
+          </select>
+        </div>
+        <button
+          onClick={() => next && openComic(next.id)}
+          disabled={!next}
+          aria-label={t('series.nextChapter')}
+          title={next?.title}
+          className="p-2 border-2 border-black hover:bg-stone-50 disabled:opacity-30"
+        >
+          <ChevronRight size={16} />
+        </button>
+      </nav>
+    );
+  };
+
   const renderViewer = () => {
     if (!currentComic) return null;
+    const failedPanelCount = currentComic.panels.filter(panel => panel.image_status === 'failed').length;
     return (
       <div className="max-w-4xl mx-auto p-6">
         <button 
           onClick={() => setView('home')}
           className="mb-8 flex items-center gap-2 font-bold hover:underline"
         >
-          <ChevronLeft /> VOLTAR PARA MINHA BIBLIOTECA
+          <ChevronLeft /> {t('viewer.back')}
         </button>
 
-        <div id="comic-content" className="bg-white p-8 comic-border mb-12">
-          <h1 className="comic-title text-6xl mb-4 text-center">{currentComic.title}</h1>
-          <p className="text-center text-stone-500 italic mb-12">"{currentComic.description}"</p>
-
-          <div className={layout === 'grid' ? "grid grid-cols-1 md:grid-cols-2 gap-8" : "flex flex-col gap-12 max-w-2xl mx-auto"}>
-            {currentComic.panels?.map((panel, idx) => (
-              <motion.div 
-                key={panel.id || idx}
-                initial={{ opacity: 0, y: 20 }}
-                animate={{ opacity: 1, y: 0 }}
-                transition={{ delay: idx * 0.1 }}
-                className="comic-panel"
+        {currentComic.series && renderChapterNav(currentComic.series)}
+
+        {isComicJobActive && (
+          <div className="bg-yellow-100 p-4 comic-border mb-8 flex items-center gap-3 font-bold">
+            <Loader2 className="animate-spin" />
+            {comicJob.progress.total === 0
+              ? t('create.writingScript')
+              : t('viewer.generatingPanels', { current: comicJob.progress.current, total: comicJob.progress.total })}
+          </div>
+        )}
+
+        {!isComicJobActive && failedPanelCount > 0 && (
+          <div className="bg-red-100 p-4 comic-border mb-8 flex flex-col md:flex-row justify-between items-center gap-4">
+            <p className="font-bold">
+              {t('viewer.failedPanels', { count: failedPanelCount })}
+            </p>
+            <button 
+              onClick={handleRetryFailedPanels}
+              className="bg-white px-4 py-2 border-2 border-black font-bold flex items-center gap-2 hover:bg-stone-50"
+            >
+              <RefreshCw size={16} />
+              {t('viewer.retry')}
+            </button>
+          </div>
+        )}
+
+        <div className="flex flex-wrap items-center gap-2 mb-4">
+          <Languages size={20} />
+          {[{ code: null as string | null, name: t('viewer.originalEdition') }, ...LANGUAGES].map(lang => (
+            <button
+              key={lang.code ?? 'original'}
+              onClick={() => handleSelectEdition(lang.code)}
+              className={`px-3 py-1 border-2 border-black font-bold text-sm ${editionLanguage === lang.code ? 'bg-yellow-400' : 'bg-white hover:bg-stone-50'}`}
+            >
+              {lang.name}
+            </button>
+          ))}
+          <button
+            onClick={() => setIsEditingBalloons(!isEditingBalloons)}
+            aria-pressed={isEditingBalloons}
+            className={`ml-auto px-3 py-1 border-2 border-black font-bold text-sm flex items-center gap-1 ${isEditingBalloons ? 'bg-yellow-400' : 'bg-white hover:bg-stone-50'}`}
+          >
+            {isEditingBalloons ? <Check size={14} /> : <MessageCircle size={14} />}
+            {isEditingBalloons ? t('viewer.doneEditingBalloons') : t('viewer.editBalloons')}
+          </button>
+          {edition && (
+            <>
+              <button
+                onClick={handleTranslateComic}
+                disabled={isTranslating}
+                className="px-3 py-1 border-2 border-black font-bold text-sm flex items-center gap-1 bg-white hover:bg-stone-50 disabled:opacity-50"
               >
-                <div className="aspect-square bg-stone-100 mb-4 overflow-hidden border-2 border-black">
-                  <img src={panel.image_url} alt={`Panel ${idx + 1}`} className="w-full h-full object-cover" />
-                </div>
-                <div className="bg-yellow-100 p-4 border-2 border-black relative">
-                  <div className="absolute -top-3 left-4 bg-white px-2 border-2 border-black text-xs font-bold uppercase">
-                    Painel {idx + 1}
+                {isTranslating ? <Loader2 size={14} className="animate-spin" /> : <RefreshCw size={14} />}
+                {t('viewer.retranslate')}
+              </button>
+              <button
+                onClick={() => setIsCorrectingTranslation(!isCorrectingTranslation)}
+                className="px-3 py-1 border-2 border-black font-bold text-sm flex items-center gap-1 bg-white hover:bg-stone-50"
+              >
+                {isCorrectingTranslation ? <Check size={14} /> : <Pencil size={14} />}
+                {isCorrectingTranslation ? t('viewer.doneCorrecting') : t('viewer.correctTranslation')}
+              </button>
+            </>
+          )}
+        </div>
+
+        {editionLanguage && !edition && (
+          <div className="bg-white p-4 comic-border mb-8 flex flex-col md:flex-row justify-between items-center gap-4">
+            <p className="font-bold">
+              {t('viewer.noEdition', { language: LANGUAGES.find(l => l.code === editionLanguage)?.name ?? editionLanguage })}
+            </p>
+            <button
+              onClick={handleTranslateComic}
+              disabled={isTranslating}
+              className="bg-yellow-400 px-4 py-2 border-2 border-black font-bold flex items-center gap-2 hover:bg-yellow-300 disabled:opacity-50"
+            >
+              {isTranslating ? <Loader2 size={16} className="animate-spin" /> : <Languages size={16} />}
+              {isTranslating ? t('viewer.translating') : t('viewer.translate')}
+            </button>
+          </div>
+        )}
+
+        <div id="comic-content" className="bg-white p-8 comic-border mb-12">
+          {edition && isCorrectingTranslation ? (
+            <div className="mb-12 space-y-2">
+              <input
+                key={`title-${edition.language}`}
+                defaultValue={edition.title}
+                onBlur={(e) => e.target.value !== edition.title && saveTranslationCorrection('', { title: e.target.value })}
+                className="comic-title text-5xl w-full text-center p-2 border-2 border-dashed border-stone-300 focus:outline-none focus:border-black"
+              />
+              <textarea
+                key={`description-${edition.language}`}
+                defaultValue={edition.description}
+                onBlur={(e) => e.target.value !== edition.description && saveTranslationCorrection('', { description: e.target.value })}
+                className="w-full text-center text-stone-600 italic p-2 border-2 border-dashed border-stone-300 focus:outline-none focus:border-black"
+              />
+            </div>
+          ) : (
+            <>
+              <h1 className="comic-title text-6xl mb-4 text-center">{edition?.title || currentComic.title}</h1>
+              <p className="text-center text-stone-600 italic mb-12">"{edition?.description ?? currentComic.description}"</p>
+            </>
+          )}
+
+          {isEditingBalloons && (
+            <p className="text-sm text-stone-600 text-center mb-4">{t('balloons.hint')}</p>
+          )}
+
+          {layout === 'pages' ? (
+            <div className="flex flex-col gap-12">
+              {paginate(currentComic.page_templates || [], currentComic.panels || []).map((page, pageIndex) => (
+                <div key={pageIndex} className="max-w-2xl w-full mx-auto">
+                  <div className="flex items-center justify-between mb-2">
+                    <span className="text-xs font-bold uppercase">{t('viewer.page', { number: pageIndex + 1 })}</span>
+                    <select
+                      value={page.template}
+                      onChange={(e) => handlePageTemplateChange(pageIndex, e.target.value as PageTemplateId)}
+                      aria-label={t('viewer.pageTemplate')}
+                      className="px-2 py-1 text-sm font-bold bg-white border-2 border-black"
+                    >
+                      {PAGE_TEMPLATE_IDS.map(id => (
+                        <option key={id} value={id}>{t(`layouts.${id}`)}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="relative w-full bg-white comic-border" style={{ aspectRatio: PAGE_ASPECT }}>
+                    {page.panels.map((panel, index) => {
+                      const slot = page.slots[index];
+                      return (
+                        <div
+                          key={panel.id || index}
+                          className="absolute p-1.5"
+                          style={{ left: `${slot.x * 100}%`, top: `${slot.y * 100}%`, width: `${slot.width * 100}%`, height: `${slot.height * 100}%` }}
+                        >
+                          {renderViewerPanel(panel, currentComic.panels!.indexOf(panel), true)}
+                        </div>
+                      );
+                    })}
                   </div>
-                  <p className="font-medium leading-tight">{panel.caption}</p>
                 </div>
-              </motion.div>
-            ))}
-          </div>
+              ))}
+            </div>
+          ) : (
+            <div className="flex flex-col gap-12 max-w-2xl mx-auto">
+              {currentComic.panels?.map((panel, idx) => renderViewerPanel(panel, idx, false))}
+            </div>
+          )}
         </div>
 
-        <div className="flex justify-center gap-4 mb-20">
-          <button 
-            onClick={handleDownloadPDF}
-            className="bg-black text-white px-8 py-4 comic-border font-bold flex items-center gap-2 hover:bg-stone-800"
+        <div className="flex flex-wrap justify-center gap-4 mb-20">
+          <button
+            onClick={() => setIsReading(true)}
+            disabled={!currentComic.panels?.length}
+            className="bg-white px-8 py-4 comic-border font-bold flex items-center gap-2 hover:bg-stone-50 disabled:opacity-50"
           >
-            <Download size={20} />
-            BAIXAR HQ (PDF)
+            <BookOpen size={20} />
+            {readLabel(currentComic.reading_progress)}
           </button>
+          <div className="flex comic-border bg-white">
+            {currentComic.series && (
+              <select
+                value={exportScope}
+                onChange={(e) => setExportScope(e.target.value as typeof exportScope)}
+                aria-label={t('series.exportScope')}
+                className="px-3 font-bold bg-white border-r-2 border-black"
+              >
+                <option value="comic">{t('series.exportChapter')}</option>
+                <option value="series">{t('series.exportVolume')}</option>
+              </select>
+            )}
+            <select
+              value={exportFormat}
+              onChange={(e) => setExportFormat(e.target.value as typeof exportFormat)}
+              aria-label={t('viewer.exportFormat')}
+              className="px-3 font-bold bg-white border-r-2 border-black"
+            >
+              <option value="pdf">PDF</option>
+              <option value="cbz">CBZ</option>
+              <option value="epub">EPUB</option>
+              <option value="bundle">{t('viewer.formatBundle')}</option>
+            </select>
+            {exportFormat === 'pdf' && (
+              <select
+                value={pageSize}
+                onChange={(e) => setPageSize(e.target.value as typeof pageSize)}
+                aria-label={t('viewer.pageSize')}
+                className="px-3 font-bold bg-white border-r-2 border-black"
+              >
+                <option value="a4">A4</option>
+                <option value="a5">A5</option>
+                <option value="letter">{t('viewer.pageSizeLetter')}</option>
+              </select>
+            )}
+            <a
+              href={exportUrl()}
+              download
+              className="bg-black text-white px-8 py-4 font-bold flex items-center gap-2 hover:bg-stone-800"
+            >
+              <Download size={20} />
+              {t('viewer.download')}
+            </a>
+          </div>
           <button 
-            onClick={() => setLayout(layout === 'grid' ? 'stack' : 'grid')}
+            onClick={() => setLayout(layout === 'pages' ? 'stack' : 'pages')}
             className="bg-white px-8 py-4 comic-border font-bold flex items-center gap-2 hover:bg-stone-50"
           >
             <Layout size={20} />
-            {layout === 'grid' ? 'MUDAR PARA LISTA' : 'MUDAR PARA GRADE'}
+            {layout === 'pages' ? t('viewer.switchToList') : t('viewer.switchToPages')}
+          </button>
+          <button 
+            onClick={() => setView('editor')}
+            className="bg-white px-8 py-4 comic-border font-bold flex items-center gap-2 hover:bg-stone-50"
+          >
+            <Pencil size={20} />
+            {t('viewer.edit')}
+          </button>
+          <button
+            onClick={() => setIsSharing(true)}
+            className="bg-white px-8 py-4 comic-border font-bold flex items-center gap-2 hover:bg-stone-50"
+          >
+            <Share2 size={20} />
+            {t('viewer.share')}
+          </button>
+          <button
+            onClick={() => setIsContinuing(true)}
+            disabled={isComicJobActive}
+            className="bg-yellow-400 px-8 py-4 comic-border font-bold flex items-center gap-2 hover:bg-yellow-300 disabled:opacity-50"
+          >
+            <BookPlus size={20} />
+            {t('series.continue')}
+          </button>
+          <button
+            onClick={() => setIsManagingSeries(true)}
+            className="bg-white px-8 py-4 comic-border font-bold flex items-center gap-2 hover:bg-stone-50"
+          >
+            <Library size={20} />
+            {t('series.title')}
           </button>
         </div>
+
+        {isReading && (
+          <ComicReader
+            comic={currentComic}
+            title={edition?.title || currentComic.title}
+            captionFor={captionFor}
+            balloonTextFor={balloonTextFor}
+            startIndex={resumeIndex(currentComic.reading_progress)}
+            onProgress={(progress) => handleReadingProgress(currentComic.id, progress)}
+            onClose={() => setIsReading(false)}
+          />
+        )}
+
+        <AnimatePresence>
+          {isSharing && <ShareDialog comic={currentComic} onClose={() => setIsSharing(false)} />}
+          {isContinuing && (
+            <ContinueStoryDialog comic={currentComic} onCreated={handleChapterCreated} onClose={() => setIsContinuing(false)} />
+          )}
+          {isManagingSeries && (
+            <SeriesDialog
+              key={currentComic.series?.id ?? 'none'}
+              comic={currentComic}
+              onChange={handleSeriesChanged}
+              onClose={() => setIsManagingSeries(false)}
+            />
+          )}
+        </AnimatePresence>
       </div>
     );
   };
@@ -400,14 +1269,54 @@ export default function App() {
             {renderViewer()}
           </motion.div>
         )}
+        {view === 'editor' && currentComic && (
+          <motion.div key="editor" initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }}>
+            <ComicEditor comic={currentComic} characters={characters} onChange={handleComicEdited} onClose={() => setView('viewer')} />
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      <AnimatePresence>
+        {isManagingCharacters && (
+          <CharacterLibrary
+            characters={characters}
+            onChange={(next) => {
+              setCharacters(next);
+              setSelectedCharacterIds(prev => prev.filter(id => next.some(c => c.id === id)));
+            }}
+            onClose={() => setIsManagingCharacters(false)}
+          />
+        )}
+      </AnimatePresence>
+
+      <AnimatePresence>
+        {isManagingUsers && (
+          <UserAdmin
+            currentUser={user}
+            onOpenLibrary={(owner) => {
+              setLibraryOwner(owner === 'all' || owner.id !== user.id ? owner : null);
+              setIsManagingUsers(false);
+              setView('home');
+            }}
+            onClose={() => setIsManagingUsers(false)}
+          />
+        )}
+      </AnimatePresence>
+
+      <AnimatePresence>
+        {isModerating && <ModerationLog onClose={() => setIsModerating(false)} />}
+      </AnimatePresence>
+
+      <AnimatePresence>
+        {isViewingUsage && <UsageDashboard isAdmin={user.role === 'admin'} onClose={() => setIsViewingUsage(false)} />}
       </AnimatePresence>
       
       {/* Footer for App Store vibes */}
       <footer className="bg-black text-white py-12 px-6 mt-auto">
         <div className="max-w-6xl mx-auto flex flex-col md:flex-row justify-between items-center gap-8">
           <div>
-            <h2 className="font-comic text-3xl mb-2">Minha HQ</h2>
-            <p className="text-stone-400">A revolução das histórias em quadrinhos com IA.</p>
+            <h2 className="font-comic text-3xl mb-2">{t('app.name')}</h2>
+            <p className="text-stone-400">{t('footer.tagline')}</p>
           </div>
           <div className="flex gap-4">
             <div className="bg-stone-800 p-4 rounded-xl flex items-center gap-3 cursor-pointer hover:bg-stone-700">
@@ -415,7 +1324,7 @@ export default function App() {
                 <ImageIcon size={24} />
               </div>
               <div>
-                <p className="text-[10px] uppercase font-bold text-stone-500">Disponível na</p>
+                <p className="text-[10px] uppercase font-bold text-stone-600">{t('footer.availableOnAppStore')}</p>
                 <p className="font-bold">App Store</p>
               </div>
             </div>
@@ -424,7 +1333,7 @@ export default function App() {
                 <ChevronRight size={24} />
               </div>
               <div>
-                <p className="text-[10px] uppercase font-bold text-stone-500">Disponível no</p>
+                <p className="text-[10px] uppercase font-bold text-stone-600">{t('footer.availableOnGooglePlay')}</p>
                 <p className="font-bold">Google Play</p>
               </div>
             </div>
@@ -0,0 +1,10 @@
+import { Panel } from './types';
+
+// Alt text shared by the viewer, the reader, shared links and the EPUB export.
+
+export const MAX_ALT_TEXT_LENGTH = 1000;
+
+// What the panel image shows: the alt text written for it, or else the
+// description it was generated from. Null when neither is known.
+export const panelAltText = (panel: Pick<Panel, 'alt_text' | 'visual_description'>) =>
+  panel.alt_text?.trim() || panel.visual_description?.trim() || null;
@@ -0,0 +1,49 @@
+import React, { createContext, useContext, useEffect, useMemo, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import AuthScreen from './components/AuthScreen';
+import { fetchCurrentUser, logout } from './services/authService';
+import { User } from './types';
+
+interface AuthContextValue {
+  user: User;
+  signOut: () => Promise<void>;
+}
+
+const AuthContext = createContext<AuthContextValue | null>(null);
+
+// Renders its children only for a signed-in user, and the sign-in screen otherwise.
+// Children are remounted on every sign-in, so no state leaks between accounts.
+export function AuthProvider({ children }: { children: React.ReactNode }) {
+  const [user, setUser] = useState<User | null | undefined>(undefined);
+
+  useEffect(() => {
+    fetchCurrentUser().then(setUser).catch(error => {
+      console.error("Erro ao carregar sessão:", error);
+      setUser(null);
+    });
+  }, []);
+
+  const value = useMemo<AuthContextValue | null>(() => user ? {
+    user,
+    signOut: async () => {
+      await logout();
+      setUser(null);
+    }
+  } : null, [user]);
+
+  if (user === undefined) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="animate-spin" size={40} />
+      </div>
+    );
+  }
+  if (!value) return <AuthScreen onSignedIn={setUser} />;
+  return <AuthContext.Provider value={value}><React.Fragment key={value.user.id}>{children}</React.Fragment></AuthContext.Provider>;
+}
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (!context) throw new Error('useAuth must be used inside <AuthProvider>');
+  return context;
+}
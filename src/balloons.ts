@@ -0,0 +1,82 @@
+import { Balloon, BalloonType } from './types';
+
+// Balloon geometry shared by the viewer and the exporters, so a balloon looks
+// the same on screen, in the PDF and in the CBZ/EPUB pages.
+
+export const BALLOON_TYPES: BalloonType[] = ['speech', 'thought', 'narration'];
+
+export type BalloonShape = Pick<Balloon, 'type' | 'x' | 'y' | 'width' | 'height' | 'tail_x' | 'tail_y'>;
+export type BalloonLayout = Omit<BalloonShape, 'type'>;
+
+export const MIN_BALLOON_SIZE = 0.08;
+
+export const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+// Where generated text goes before anyone moves it: narration boxes stacked
+// at the top, dialogue below them alternating left and right.
+export function defaultBalloonLayout(types: BalloonType[]): BalloonLayout[] {
+  let top = 0.04;
+  let side = 0;
+  return types.map(type => {
+    if (type === 'narration') {
+      const layout = { x: 0.04, y: Math.min(top, 0.82), width: 0.6, height: 0.14, tail_x: null, tail_y: null };
+      top += 0.17;
+      return layout;
+    }
+    const left = side++ % 2 === 0;
+    const x = left ? 0.04 : 0.51;
+    const y = Math.min(top, 0.76);
+    top += 0.23;
+    return {
+      x,
+      y,
+      width: 0.45,
+      height: 0.2,
+      tail_x: left ? x + 0.3 : x + 0.15,
+      tail_y: Math.min(y + 0.34, 0.97),
+    };
+  });
+}
+
+export interface BalloonTail {
+  // Speech balloons: a triangle from inside the balloon to the speaker.
+  triangle?: [number, number][];
+  // Thought balloons: shrinking circles leading to the thinker.
+  bubbles?: { x: number; y: number; r: number }[];
+}
+
+// Tail geometry in pixels for an image of the given size. Triangles start at
+// the balloon centre; drawing the balloon body afterwards hides their base.
+export function balloonTail(balloon: BalloonShape, width: number, height: number): BalloonTail | null {
+  if (balloon.type === 'narration' || balloon.tail_x == null || balloon.tail_y == null) return null;
+
+  const rx = (balloon.width * width) / 2;
+  const ry = (balloon.height * height) / 2;
+  const cx = balloon.x * width + rx;
+  const cy = balloon.y * height + ry;
+  const tx = balloon.tail_x * width;
+  const ty = balloon.tail_y * height;
+  const dx = tx - cx;
+  const dy = ty - cy;
+  const length = Math.hypot(dx, dy);
+  if (length === 0) return null;
+
+  if (balloon.type === 'speech') {
+    const half = Math.min(rx, ry) * 0.35;
+    const px = (-dy / length) * half;
+    const py = (dx / length) * half;
+    return { triangle: [[cx + px, cy + py], [cx - px, cy - py], [tx, ty]] };
+  }
+
+  // Distance from the centre to the ellipse edge in the direction of the tail.
+  const angle = Math.atan2(dy, dx);
+  const edge = (rx * ry) / Math.hypot(ry * Math.cos(angle), rx * Math.sin(angle));
+  if (edge >= length) return null;
+  const base = Math.min(rx, ry);
+  return {
+    bubbles: [0.3, 0.6, 0.9].map((t, index) => {
+      const distance = edge + (length - edge) * t;
+      return { x: cx + (dx / length) * distance, y: cy + (dy / length) * distance, r: base * (0.22 - index * 0.06) };
+    }),
+  };
+}
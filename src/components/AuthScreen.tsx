@@ -0,0 +1,87 @@
+import React, { useState } from 'react';
+import { Loader2, LogIn, UserPlus } from 'lucide-react';
+import { login, register } from '../services/authService';
+import { User } from '../types';
+import { useI18n } from '../i18n';
+
+interface AuthScreenProps {
+  onSignedIn: (user: User) => void;
+}
+
+const MIN_PASSWORD_LENGTH = 8;
+
+// Sign-in and registration form shown instead of the app when there is no session.
+export default function AuthScreen({ onSignedIn }: AuthScreenProps) {
+  const { t } = useI18n();
+  const [mode, setMode] = useState<'login' | 'register'>('login');
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      onSignedIn(mode === 'login' ? await login(username, password) : await register(username, password));
+    } catch (err) {
+      console.error("Erro de autenticação:", err);
+      setError(t(mode === 'login' ? 'auth.loginError' : 'auth.registerError'));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const switchMode = () => {
+    setMode(mode === 'login' ? 'register' : 'login');
+    setError(null);
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-6">
+      <form onSubmit={handleSubmit} className="bg-white comic-border w-full max-w-md p-8 space-y-5">
+        <h1 className="comic-title text-5xl text-center">{t('app.name')}</h1>
+        <h2 className="font-comic text-2xl text-center">{t(mode === 'login' ? 'auth.loginTitle' : 'auth.registerTitle')}</h2>
+
+        <label className="block font-bold uppercase text-sm tracking-widest">
+          {t('auth.username')}
+          <input
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+            autoComplete="username"
+            autoFocus
+            required
+            className="mt-1 w-full p-3 comic-border font-bold normal-case tracking-normal focus:outline-none focus:ring-2 focus:ring-yellow-400"
+          />
+        </label>
+        <label className="block font-bold uppercase text-sm tracking-widest">
+          {t('auth.password')}
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            autoComplete={mode === 'login' ? 'current-password' : 'new-password'}
+            minLength={mode === 'register' ? MIN_PASSWORD_LENGTH : undefined}
+            required
+            className="mt-1 w-full p-3 comic-border font-bold normal-case tracking-normal focus:outline-none focus:ring-2 focus:ring-yellow-400"
+          />
+        </label>
+        {mode === 'register' && <p className="text-sm text-stone-600">{t('auth.registerHint', { count: MIN_PASSWORD_LENGTH })}</p>}
+        {error && <p role="alert" className="text-sm font-bold text-red-600">{error}</p>}
+
+        <button
+          type="submit"
+          disabled={isSubmitting}
+          className="w-full bg-yellow-400 py-3 comic-border font-bold flex items-center justify-center gap-2 hover:bg-yellow-300 disabled:opacity-50"
+        >
+          {isSubmitting ? <Loader2 className="animate-spin" size={20} /> : mode === 'login' ? <LogIn size={20} /> : <UserPlus size={20} />}
+          {t(mode === 'login' ? 'auth.login' : 'auth.register')}
+        </button>
+        <button type="button" onClick={switchMode} className="w-full text-sm font-bold underline">
+          {t(mode === 'login' ? 'auth.switchToRegister' : 'auth.switchToLogin')}
+        </button>
+      </form>
+    </div>
+  );
+}
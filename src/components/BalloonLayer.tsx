@@ -0,0 +1,225 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Trash2 } from 'lucide-react';
+import { Balloon } from '../types';
+import { balloonTail, clamp01, MIN_BALLOON_SIZE } from '../balloons';
+import { useI18n } from '../i18n';
+
+type BalloonChanges = Partial<Omit<Balloon, 'id' | 'order_index'>>;
+
+interface BalloonLayerProps {
+  balloons: Balloon[];
+  textFor: (balloon: Balloon) => string;
+  editing?: boolean;
+  onChange?: (balloon: Balloon, changes: BalloonChanges) => void;
+  onTextChange?: (balloon: Balloon, text: string) => void;
+  onDelete?: (balloon: Balloon) => void;
+}
+
+type DragMode = 'move' | 'resize' | 'tail';
+
+// How far one arrow key press moves or resizes a balloon, as a fraction of the panel.
+const KEY_STEP = 0.02;
+const ARROWS: Record<string, [number, number]> = { ArrowLeft: [-1, 0], ArrowRight: [1, 0], ArrowUp: [0, -1], ArrowDown: [0, 1] };
+
+// Balloons drawn over a panel image, in the same geometry the exporters use.
+// In editing mode they can be dragged, resized, re-aimed and retyped, or
+// moved and resized with the arrow keys. Outside it, screen readers get the
+// text as a list in reading order, with who says or thinks each line.
+export default function BalloonLayer({ balloons, textFor, editing = false, onChange, onTextChange, onDelete }: BalloonLayerProps) {
+  const { t } = useI18n();
+  const layerRef = useRef<HTMLDivElement>(null);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+  const [draft, setDraft] = useState<{ id: string; changes: BalloonChanges } | null>(null);
+  const [editingTextId, setEditingTextId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const layer = layerRef.current;
+    if (!layer) return;
+    const observer = new ResizeObserver(([entry]) =>
+      setSize({ width: entry.contentRect.width, height: entry.contentRect.height }));
+    observer.observe(layer);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    if (!editing) setEditingTextId(null);
+  }, [editing]);
+
+  // Changes are kept as a local draft while dragging and saved once on release.
+  const startDrag = (e: React.PointerEvent, balloon: Balloon, mode: DragMode) => {
+    if (!editing || !layerRef.current || e.button !== 0) return;
+    e.preventDefault();
+    e.stopPropagation();
+    const rect = layerRef.current.getBoundingClientRect();
+    let changes: BalloonChanges = {};
+
+    const onMove = (event: PointerEvent) => {
+      const dx = (event.clientX - e.clientX) / rect.width;
+      const dy = (event.clientY - e.clientY) / rect.height;
+      if (mode === 'move') {
+        changes = {
+          x: Math.min(clamp01(balloon.x + dx), 1 - balloon.width),
+          y: Math.min(clamp01(balloon.y + dy), 1 - balloon.height),
+        };
+      } else if (mode === 'resize') {
+        changes = {
+          width: Math.min(Math.max(MIN_BALLOON_SIZE, balloon.width + dx), 1 - balloon.x),
+          height: Math.min(Math.max(MIN_BALLOON_SIZE, balloon.height + dy), 1 - balloon.y),
+        };
+      } else {
+        changes = {
+          tail_x: clamp01((event.clientX - rect.left) / rect.width),
+          tail_y: clamp01((event.clientY - rect.top) / rect.height),
+        };
+      }
+      setDraft({ id: balloon.id, changes });
+    };
+    const onUp = () => {
+      window.removeEventListener('pointermove', onMove);
+      window.removeEventListener('pointerup', onUp);
+      setDraft(null);
+      if (Object.keys(changes).length) onChange?.(balloon, changes);
+    };
+    window.addEventListener('pointermove', onMove);
+    window.addEventListener('pointerup', onUp);
+  };
+
+  const describe = (balloon: Balloon, text: string) => {
+    if (balloon.type === 'narration') return t('balloons.spoken.narration', { text });
+    return balloon.speaker
+      ? t(`balloons.spoken.${balloon.type}`, { speaker: balloon.speaker, text })
+      : t(`balloons.spoken.${balloon.type}Unattributed`, { text });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent, balloon: Balloon) => {
+    if (!editing || e.target !== e.currentTarget) return;
+    if (e.key === 'Enter' || e.key === 'F2') {
+      e.preventDefault();
+      setEditingTextId(balloon.id);
+    } else if (e.key === 'Delete') {
+      e.preventDefault();
+      onDelete?.(balloon);
+    } else if (ARROWS[e.key]) {
+      e.preventDefault();
+      const [dx, dy] = ARROWS[e.key].map(direction => direction * KEY_STEP);
+      onChange?.(balloon, e.shiftKey
+        ? {
+          width: Math.min(Math.max(MIN_BALLOON_SIZE, balloon.width + dx), 1 - balloon.x),
+          height: Math.min(Math.max(MIN_BALLOON_SIZE, balloon.height + dy), 1 - balloon.y),
+        }
+        : {
+          x: Math.min(clamp01(balloon.x + dx), 1 - balloon.width),
+          y: Math.min(clamp01(balloon.y + dy), 1 - balloon.height),
+        });
+    }
+  };
+
+  const shown = balloons.map(balloon => draft?.id === balloon.id ? { ...balloon, ...draft.changes } : balloon);
+  const strokeWidth = Math.max(2, size.width / 250);
+
+  return (
+    <>
+    <div ref={layerRef} aria-hidden={!editing || undefined} className={`absolute inset-0 @container ${editing ? '' : 'pointer-events-none'}`}>
+      {size.width > 0 && (
+        <svg className="absolute inset-0 w-full h-full" viewBox={`0 0 ${size.width} ${size.height}`} aria-hidden="true">
+          {shown.map(balloon => {
+            const tail = balloonTail(balloon, size.width, size.height);
+            const fill = balloon.type === 'narration' ? '#fef08a' : '#ffffff';
+            const x = balloon.x * size.width;
+            const y = balloon.y * size.height;
+            const w = balloon.width * size.width;
+            const h = balloon.height * size.height;
+            return (
+              <g key={balloon.id} fill={fill} stroke="#000000" strokeWidth={strokeWidth}>
+                {tail?.triangle && <polygon points={tail.triangle.map(point => point.join(',')).join(' ')} />}
+                {tail?.bubbles?.map((bubble, index) => <circle key={index} cx={bubble.x} cy={bubble.y} r={bubble.r} />)}
+                {balloon.type === 'narration'
+                  ? <rect x={x} y={y} width={w} height={h} />
+                  : <ellipse cx={x + w / 2} cy={y + h / 2} rx={w / 2} ry={h / 2} />}
+              </g>
+            );
+          })}
+        </svg>
+      )}
+
+      {shown.map(balloon => {
+        const narration = balloon.type === 'narration';
+        const inset = narration ? 0.9 : 0.72;
+        const text = textFor(balloon);
+        return (
+          <React.Fragment key={balloon.id}>
+            <div
+              onPointerDown={(e) => editingTextId !== balloon.id && startDrag(e, balloon, 'move')}
+              onDoubleClick={() => editing && setEditingTextId(balloon.id)}
+              onKeyDown={(e) => handleKeyDown(e, balloon)}
+              tabIndex={editing ? 0 : undefined}
+              role={editing ? 'group' : undefined}
+              aria-label={editing ? describe(balloon, text) : undefined}
+              title={balloon.speaker ?? undefined}
+              className={`absolute flex items-center justify-center ${editing ? 'cursor-move outline-2 outline-dashed outline-blue-500/60' : ''}`}
+              style={{
+                left: `${balloon.x * 100}%`,
+                top: `${balloon.y * 100}%`,
+                width: `${balloon.width * 100}%`,
+                height: `${balloon.height * 100}%`,
+                borderRadius: narration ? 0 : '50%',
+              }}
+            >
+              {editingTextId === balloon.id ? (
+                <textarea
+                  autoFocus
+                  defaultValue={text}
+                  onBlur={(e) => {
+                    setEditingTextId(null);
+                    if (e.target.value !== text) onTextChange?.(balloon, e.target.value);
+                  }}
+                  className={`bg-transparent resize-none text-[4.5cqw] leading-tight focus:outline-none ${narration ? 'text-left' : 'text-center font-bold'}`}
+                  style={{ width: `${inset * 100}%`, height: `${inset * 100}%` }}
+                />
+              ) : (
+                <p
+                  className={`overflow-hidden text-[4.5cqw] leading-tight select-none flex items-center ${narration ? 'text-left' : 'text-center justify-center font-bold'}`}
+                  style={{ width: `${inset * 100}%`, height: `${inset * 100}%` }}
+                >
+                  {text}
+                </p>
+              )}
+
+              {editing && (
+                <>
+                  <button
+                    type="button"
+                    onPointerDown={(e) => e.stopPropagation()}
+                    onClick={() => onDelete?.(balloon)}
+                    aria-label={t('balloons.delete')}
+                    className="absolute -top-2 -right-2 bg-white border-2 border-black p-0.5 hover:bg-red-100"
+                  >
+                    <Trash2 size={12} />
+                  </button>
+                  <span
+                    onPointerDown={(e) => startDrag(e, balloon, 'resize')}
+                    className="absolute -bottom-1.5 -right-1.5 w-3 h-3 bg-blue-500 border-2 border-white cursor-nwse-resize"
+                  />
+                </>
+              )}
+            </div>
+
+            {editing && !narration && balloon.tail_x != null && balloon.tail_y != null && (
+              <span
+                onPointerDown={(e) => startDrag(e, balloon, 'tail')}
+                className="absolute w-3 h-3 -ml-1.5 -mt-1.5 rounded-full bg-blue-500 border-2 border-white cursor-crosshair"
+                style={{ left: `${balloon.tail_x * 100}%`, top: `${balloon.tail_y * 100}%` }}
+              />
+            )}
+          </React.Fragment>
+        );
+      })}
+    </div>
+    {!editing && balloons.length > 0 && (
+      <ul className="sr-only">
+        {balloons.map(balloon => textFor(balloon).trim() && <li key={balloon.id}>{describe(balloon, textFor(balloon))}</li>)}
+      </ul>
+    )}
+    </>
+  );
+}
@@ -0,0 +1,124 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Camera, Loader2, SwitchCamera, X } from 'lucide-react';
+import { captureFrame, faceGuide, PhotoCrop } from '../photos';
+import { MessageKey, useI18n } from '../i18n';
+import { useDialog } from '../dialog';
+
+interface CameraCaptureProps {
+  onCapture: (image: string, crop: PhotoCrop) => void;
+  onClose: () => void;
+}
+
+type FacingMode = 'user' | 'environment';
+
+// Live webcam preview with a guide for framing the face. The front camera is
+// shown mirrored, like a mirror, but the photo is taken the right way round.
+export default function CameraCapture({ onCapture, onClose }: CameraCaptureProps) {
+  const { t } = useI18n();
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [facingMode, setFacingMode] = useState<FacingMode>('user');
+  const [frame, setFrame] = useState<{ width: number; height: number } | null>(null);
+  const [error, setError] = useState<MessageKey | null>(null);
+
+  useEffect(() => {
+    if (!navigator.mediaDevices?.getUserMedia) {
+      setError('camera.unavailable');
+      return;
+    }
+    let stream: MediaStream | null = null;
+    let cancelled = false;
+    setFrame(null);
+    navigator.mediaDevices.getUserMedia({ video: { facingMode, width: { ideal: 1920 }, height: { ideal: 1080 } }, audio: false })
+      .then(media => {
+        if (cancelled) return media.getTracks().forEach(track => track.stop());
+        stream = media;
+        if (videoRef.current) videoRef.current.srcObject = media;
+      })
+      .catch(err => {
+        console.error("Erro ao abrir a câmera:", err);
+        setError(err?.name === 'NotAllowedError' ? 'camera.denied' : 'camera.unavailable');
+      });
+    return () => {
+      cancelled = true;
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, [facingMode]);
+
+  const handleCapture = () => {
+    const video = videoRef.current;
+    if (!video || !frame) return;
+    onCapture(captureFrame(video), faceGuide(frame.width, frame.height));
+  };
+
+  const guide = frame && faceGuide(frame.width, frame.height);
+
+  const dialog = useDialog(onClose);
+
+  return (
+    <div className="fixed inset-0 bg-black/90 flex items-center justify-center p-4 z-[60]">
+      <div {...dialog.props} className="bg-white comic-border w-full max-w-2xl p-6 space-y-4">
+        <div className="flex justify-between items-center">
+          <h2 id={dialog.titleId} className="font-comic text-3xl">{t('camera.title')}</h2>
+          <button onClick={onClose} className="text-stone-600 hover:text-black" title={t('photo.cancel')}>
+            <X size={24} />
+          </button>
+        </div>
+
+        {error ? (
+          <p className="p-6 text-center border-2 border-dashed border-stone-300 text-stone-600">{t(error)}</p>
+        ) : (
+          <div
+            className="relative bg-black border-2 border-black overflow-hidden mx-auto"
+            style={frame
+              ? { aspectRatio: `${frame.width} / ${frame.height}`, maxWidth: `calc(60vh * ${frame.width} / ${frame.height})` }
+              : { aspectRatio: '4 / 3' }}
+          >
+            <video
+              ref={videoRef}
+              autoPlay
+              playsInline
+              muted
+              onLoadedMetadata={(e) => setFrame({ width: e.currentTarget.videoWidth, height: e.currentTarget.videoHeight })}
+              className={`w-full h-full object-contain ${facingMode === 'user' ? '-scale-x-100' : ''}`}
+            />
+            {guide ? (
+              <div
+                className="absolute border-4 border-dashed border-yellow-400 rounded-[50%] shadow-[0_0_0_9999px_rgba(0,0,0,0.35)] pointer-events-none"
+                style={{
+                  left: `${guide.x * 100}%`,
+                  top: `${guide.y * 100}%`,
+                  width: `${guide.width * 100}%`,
+                  height: `${guide.height * 100}%`,
+                }}
+              />
+            ) : (
+              <div className="absolute inset-0 flex items-center justify-center text-white">
+                <Loader2 className="animate-spin" size={32} />
+              </div>
+            )}
+          </div>
+        )}
+
+        {!error && <p className="text-sm text-stone-600 text-center">{t('camera.hint')}</p>}
+
+        <div className="flex gap-3">
+          <button
+            onClick={() => setFacingMode(mode => mode === 'user' ? 'environment' : 'user')}
+            disabled={!!error}
+            className="px-4 py-3 border-2 border-black font-bold flex items-center gap-2 hover:bg-stone-50 disabled:opacity-50"
+            title={t('camera.switch')}
+          >
+            <SwitchCamera size={18} />
+          </button>
+          <button
+            onClick={handleCapture}
+            disabled={!frame}
+            className="flex-1 bg-yellow-400 py-3 comic-border font-bold flex items-center justify-center gap-2 hover:bg-yellow-300 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Camera size={18} /> {t('camera.capture')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
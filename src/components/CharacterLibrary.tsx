@@ -0,0 +1,200 @@
+import React, { useState } from 'react';
+import { Loader2, Plus, Trash2, User, X } from 'lucide-react';
+import PhotoInput from './PhotoInput';
+import { motion } from 'motion/react';
+import {
+  addCharacterPhoto,
+  createCharacter,
+  deleteCharacter,
+  deleteCharacterPhoto,
+  updateCharacter
+} from '../services/characterService';
+import { Character } from '../types';
+import { useI18n } from '../i18n';
+import { useDialog } from '../dialog';
+
+interface CharacterLibraryProps {
+  characters: Character[];
+  onChange: (characters: Character[]) => void;
+  onClose: () => void;
+}
+
+interface CharacterCardProps {
+  character: Character;
+  onUpdate: (character: Character) => void;
+  onDelete: (character: Character) => void;
+}
+
+function CharacterCard({ character, onUpdate, onDelete }: CharacterCardProps) {
+  const { t } = useI18n();
+  const [name, setName] = useState(character.name);
+  const [description, setDescription] = useState(character.description);
+  const [isUploading, setIsUploading] = useState(false);
+
+  const save = async () => {
+    if (name === character.name && description === character.description) return;
+    try {
+      onUpdate(await updateCharacter(character.id, { name, description }));
+    } catch (error) {
+      console.error("Erro ao salvar personagem:", error);
+      alert(t('characters.saveError'));
+      setName(character.name);
+    }
+  };
+
+  const handleAddPhotos = async (images: string[]) => {
+    setIsUploading(true);
+    try {
+      let updated = character;
+      for (const image of images) updated = await addCharacterPhoto(character.id, image);
+      onUpdate(updated);
+    } catch (error) {
+      console.error("Erro ao enviar foto:", error);
+      alert(t('characters.saveError'));
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  return (
+    <div className="comic-panel space-y-3">
+      <div className="flex gap-2 items-start">
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onBlur={save}
+          aria-label={t('characters.namePlaceholder')}
+          className="flex-1 font-comic text-2xl p-1 border-2 border-dashed border-stone-300 focus:outline-none focus:border-black"
+        />
+        <button onClick={() => onDelete(character)} className="text-stone-500 hover:text-red-600 p-1" title={t('characters.delete')}>
+          <Trash2 size={18} />
+        </button>
+      </div>
+      <textarea
+        value={description}
+        onChange={(e) => setDescription(e.target.value)}
+        onBlur={save}
+        placeholder={t('characters.descriptionPlaceholder')}
+        className="w-full p-2 border-2 border-black h-16 text-sm focus:outline-none focus:ring-2 focus:ring-yellow-400"
+      />
+      <div className="flex flex-wrap gap-2 items-center">
+        {character.photos.map(photo => (
+          <div key={photo.id} className="relative">
+            <img src={photo.thumbnail_url || photo.image_url} alt={character.name} className="w-16 h-16 object-cover border-2 border-black" />
+            <button
+              onClick={async () => onUpdate(await deleteCharacterPhoto(character.id, photo.id))}
+              className="absolute -top-2 -right-2 bg-white border-2 border-black rounded-full p-0.5 hover:bg-red-100"
+              title={t('characters.deletePhoto')}
+            >
+              <X size={12} />
+            </button>
+          </div>
+        ))}
+        <PhotoInput onAdd={handleAddPhotos} busy={isUploading} compact />
+        <span className="text-xs text-stone-600">{t('characters.photoCount', { count: character.photos.length })}</span>
+      </div>
+    </div>
+  );
+}
+
+// Modal for managing the reusable cast. Characters live outside any comic and
+// can be picked when creating a new one.
+export default function CharacterLibrary({ characters, onChange, onClose }: CharacterLibraryProps) {
+  const { t } = useI18n();
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [photos, setPhotos] = useState<string[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleCreate = async () => {
+    setIsSaving(true);
+    try {
+      const character = await createCharacter(name, description, photos);
+      onChange([...characters, character].sort((a, b) => a.name.localeCompare(b.name)));
+      setName('');
+      setDescription('');
+      setPhotos([]);
+    } catch (error) {
+      console.error("Erro ao criar personagem:", error);
+      alert(t('characters.saveError'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (character: Character) => {
+    if (!confirm(t('characters.deleteConfirm', { name: character.name }))) return;
+    await deleteCharacter(character.id);
+    onChange(characters.filter(c => c.id !== character.id));
+  };
+
+  const handleUpdate = (character: Character) =>
+    onChange(characters.map(c => c.id === character.id ? character : c));
+
+  const dialog = useDialog(onClose);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 bg-black/80 flex items-center justify-center p-4 z-50 backdrop-blur-sm"
+    >
+      <motion.div
+        initial={{ scale: 0.9, y: 20 }}
+        animate={{ scale: 1, y: 0 }}
+        {...dialog.props}
+        className="bg-white comic-border w-full max-w-3xl p-8 max-h-[90vh] overflow-y-auto"
+      >
+        <div className="flex justify-between items-center mb-6">
+          <h2 id={dialog.titleId} className="font-comic text-3xl">{t('characters.title')}</h2>
+          <button onClick={onClose} className="text-stone-600 hover:text-black" title={t('characters.close')}>
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="bg-yellow-50 border-2 border-black p-4 mb-6 space-y-3">
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder={t('characters.namePlaceholder')}
+            className="w-full p-2 border-2 border-black font-bold focus:outline-none focus:ring-2 focus:ring-yellow-400"
+          />
+          <textarea
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            placeholder={t('characters.descriptionPlaceholder')}
+            className="w-full p-2 border-2 border-black h-16 text-sm focus:outline-none focus:ring-2 focus:ring-yellow-400"
+          />
+          <div className="flex flex-wrap gap-2 items-center">
+            {photos.map((photo, index) => (
+              <img key={index} src={photo} alt="" className="w-16 h-16 object-cover border-2 border-black" />
+            ))}
+            <PhotoInput onAdd={images => setPhotos(prev => [...prev, ...images])} />
+          </div>
+          <button
+            onClick={handleCreate}
+            disabled={isSaving || !name.trim()}
+            className="w-full bg-yellow-400 py-2 comic-border font-bold flex items-center justify-center gap-2 hover:bg-yellow-300 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isSaving ? <Loader2 className="animate-spin" size={18} /> : <Plus size={18} />}
+            {t('characters.add')}
+          </button>
+        </div>
+
+        {characters.length === 0 ? (
+          <div className="text-center py-10 text-stone-600">
+            <User size={48} className="mx-auto mb-2 text-stone-300" />
+            {t('characters.empty')}
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {characters.map(character => (
+              <CharacterCard key={character.id} character={character} onUpdate={handleUpdate} onDelete={handleDelete} />
+            ))}
+          </div>
+        )}
+      </motion.div>
+    </motion.div>
+  );
+}
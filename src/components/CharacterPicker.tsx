@@ -0,0 +1,47 @@
+import React from 'react';
+import { Check, User } from 'lucide-react';
+import { Character } from '../types';
+
+interface CharacterPickerProps {
+  characters: Character[];
+  selectedIds: string[];
+  onChange: (ids: string[]) => void;
+  compact?: boolean;
+}
+
+// Toggle chips for choosing which library characters take part in a comic or panel.
+export default function CharacterPicker({ characters, selectedIds, onChange, compact = false }: CharacterPickerProps) {
+  const toggle = (id: string) =>
+    onChange(selectedIds.includes(id) ? selectedIds.filter(s => s !== id) : [...selectedIds, id]);
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {characters.map(character => {
+        const selected = selectedIds.includes(character.id);
+        const photo = character.photos[0];
+        return (
+          <button
+            key={character.id}
+            type="button"
+            onClick={() => toggle(character.id)}
+            aria-pressed={selected}
+            title={character.description || character.name}
+            className={`flex items-center gap-2 border-2 border-black font-bold ${compact ? 'px-2 py-0.5 text-xs' : 'pl-1 pr-3 py-1 text-sm'} ${selected ? 'bg-yellow-400' : 'bg-white hover:bg-stone-50'}`}
+          >
+            {!compact && (
+              photo ? (
+                <img src={photo.thumbnail_url || photo.image_url} alt="" className="w-8 h-8 object-cover rounded-full border-2 border-black" />
+              ) : (
+                <span className="w-8 h-8 rounded-full border-2 border-black flex items-center justify-center bg-stone-100">
+                  <User size={16} />
+                </span>
+              )
+            )}
+            {character.name}
+            {selected && <Check size={compact ? 12 : 16} />}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,502 @@
+import React, { useEffect, useState, useRef } from 'react';
+import {
+  AlertTriangle,
+  ChevronLeft,
+  Eraser,
+  GripVertical,
+  Image as ImageIcon,
+  Loader2,
+  Plus,
+  Redo2,
+  RefreshCw,
+  Trash2,
+  Undo2,
+  X
+} from 'lucide-react';
+import { Reorder, useDragControls } from 'motion/react';
+import { waitForJob } from '../services/jobService';
+import { setPanelCharacters } from '../services/characterService';
+import {
+  activateVariant, deleteVariant, fetchHistory, fetchVariants, pruneVariants, stepHistory,
+} from '../services/variantService';
+import { setComicTags } from '../services/libraryService';
+import { refusalMessage, responseError } from '../services/moderationService';
+import { Character, Comic, GenerationJob, HistoryState, Panel, PanelVariant } from '../types';
+import { MAX_ALT_TEXT_LENGTH, panelAltText } from '../accessibility';
+import { useI18n } from '../i18n';
+import CharacterPicker from './CharacterPicker';
+import TagEditor from './TagEditor';
+
+interface ComicEditorProps {
+  comic: Comic;
+  characters: Character[];
+  onChange: (comic: Comic) => void;
+  onClose: () => void;
+}
+
+interface PanelCardProps {
+  comicId: string;
+  panel: Panel;
+  index: number;
+  characters: Character[];
+  onCharactersChange: (panel: Panel, characterIds: string[]) => void;
+  onCaptionSave: (panel: Panel, caption: string) => Promise<boolean>;
+  onAltTextSave: (panel: Panel, altText: string) => Promise<boolean>;
+  onRegenerate: (panel: Panel, description: string, count: number) => Promise<void>;
+  onVariantActivate: (panel: Panel, variant: PanelVariant) => Promise<void>;
+  onDelete: (panel: Panel) => void;
+  onInsertBefore: (index: number) => void;
+  onDragEnd: () => void;
+}
+
+const MAX_ALTERNATIVES = 4;
+
+function PanelCard({ comicId, panel, index, characters, onCharactersChange, onCaptionSave, onAltTextSave, onRegenerate, onVariantActivate, onDelete, onInsertBefore, onDragEnd }: PanelCardProps) {
+  const { t } = useI18n();
+  const dragControls = useDragControls();
+  const [caption, setCaption] = useState(panel.caption);
+  const [altText, setAltText] = useState(panel.alt_text ?? '');
+  const [description, setDescription] = useState('');
+  const [count, setCount] = useState(1);
+  const [variants, setVariants] = useState<PanelVariant[]>([]);
+  const [isRegenerating, setIsRegenerating] = useState(false);
+
+  // Undo and redo change the caption from outside the card.
+  useEffect(() => setCaption(panel.caption), [panel.caption]);
+  // A new image clears the alt text written for the old one.
+  useEffect(() => setAltText(panel.alt_text ?? ''), [panel.alt_text]);
+
+  // The scene field starts with the description behind the current image.
+  const loadVariants = async () => {
+    const next = await fetchVariants(comicId, panel.id!);
+    setVariants(next);
+    const active = next.find(variant => variant.image_url === panel.image_url);
+    setDescription(current => current || active?.description || '');
+  };
+
+  useEffect(() => {
+    loadVariants().catch(error => console.error("Erro ao carregar variantes:", error));
+  }, [panel.image_url]);
+
+  const handleCaptionBlur = async () => {
+    if (caption === panel.caption) return;
+    if (!await onCaptionSave(panel, caption)) setCaption(panel.caption);
+  };
+
+  const handleAltTextBlur = async () => {
+    if (altText.trim() === (panel.alt_text ?? '')) return;
+    if (!await onAltTextSave(panel, altText)) setAltText(panel.alt_text ?? '');
+  };
+
+  const handleRegenerate = async () => {
+    setIsRegenerating(true);
+    try {
+      await onRegenerate(panel, description, count);
+      await loadVariants();
+    } finally {
+      setIsRegenerating(false);
+    }
+  };
+
+  const handleDeleteVariant = async (variant: PanelVariant) => {
+    await deleteVariant(comicId, panel.id!, variant.id);
+    setVariants(variants.filter(v => v.id !== variant.id));
+  };
+
+  return (
+    <Reorder.Item
+      value={panel}
+      dragListener={false}
+      dragControls={dragControls}
+      onDragEnd={onDragEnd}
+      className="list-none"
+    >
+      <button
+        onClick={() => onInsertBefore(index)}
+        className="w-full mb-4 py-1 border-2 border-dashed border-stone-400 text-stone-600 font-bold text-sm flex items-center justify-center gap-2 hover:border-black hover:text-black"
+      >
+        <Plus size={16} /> {t('editor.insertHere')}
+      </button>
+      <div className="comic-panel flex gap-4 mb-4">
+        <button
+          onPointerDown={(e) => dragControls.start(e)}
+          className="cursor-grab active:cursor-grabbing text-stone-500 hover:text-black touch-none"
+          title={t('editor.dragToReorder')}
+        >
+          <GripVertical />
+        </button>
+
+        <div className="w-40 h-40 shrink-0 bg-stone-100 border-2 border-black overflow-hidden flex items-center justify-center relative">
+          {panel.image_url ? (
+            <img src={panel.image_url} alt={panelAltText(panel) ?? t('panel.label', { number: index + 1 })} className="w-full h-full object-cover" />
+          ) : panel.image_status === 'failed' ? (
+            <span role="img" aria-label={t('viewer.imageFailed')} title={panel.image_error ?? undefined} className="text-red-600">
+              <AlertTriangle size={40} />
+            </span>
+          ) : (
+            <ImageIcon size={40} className="text-stone-300" />
+          )}
+          {isRegenerating && (
+            <div className="absolute inset-0 bg-white/70 flex items-center justify-center">
+              <Loader2 className="animate-spin" />
+            </div>
+          )}
+        </div>
+
+        <div className="flex-1 space-y-3">
+          <div className="flex justify-between items-center">
+            <span className="bg-white px-2 border-2 border-black text-xs font-bold uppercase">{t('panel.label', { number: index + 1 })}</span>
+            <button onClick={() => onDelete(panel)} className="text-stone-500 hover:text-red-600 p-1" title={t('editor.deletePanel')}>
+              <Trash2 size={18} />
+            </button>
+          </div>
+          <textarea
+            value={caption}
+            onChange={(e) => setCaption(e.target.value)}
+            onBlur={handleCaptionBlur}
+            placeholder={t('editor.captionPlaceholder')}
+            className="w-full p-2 border-2 border-black h-16 bg-yellow-100 font-medium focus:outline-none focus:ring-2 focus:ring-yellow-400"
+          />
+          {panel.image_url && (
+            <div>
+              <label htmlFor={`alt-text-${panel.id}`} className="block text-xs font-bold uppercase text-stone-600 mb-1">{t('editor.altText')}</label>
+              <textarea
+                id={`alt-text-${panel.id}`}
+                value={altText}
+                onChange={(e) => setAltText(e.target.value)}
+                onBlur={handleAltTextBlur}
+                placeholder={panel.visual_description ?? t('editor.altTextPlaceholder')}
+                maxLength={MAX_ALT_TEXT_LENGTH}
+                aria-describedby={`alt-text-hint-${panel.id}`}
+                className="w-full p-2 border-2 border-black h-16 text-sm focus:outline-none focus:ring-2 focus:ring-yellow-400"
+              />
+              <p id={`alt-text-hint-${panel.id}`} className="text-xs text-stone-600">{t('editor.altTextHint')}</p>
+            </div>
+          )}
+          {characters.length > 0 && (
+            <div>
+              <span className="block text-xs font-bold uppercase text-stone-600 mb-1">{t('editor.characters')}</span>
+              <CharacterPicker
+                characters={characters}
+                selectedIds={panel.character_ids || []}
+                onChange={(ids) => onCharactersChange(panel, ids)}
+                compact
+              />
+            </div>
+          )}
+          {variants.length > 1 && (
+            <div>
+              <span className="block text-xs font-bold uppercase text-stone-600 mb-1">{t('editor.variants')}</span>
+              <div className="flex gap-2 overflow-x-auto pb-1">
+                {variants.map(variant => {
+                  const active = variant.image_url === panel.image_url;
+                  return (
+                    <div key={variant.id} className="relative shrink-0">
+                      <button
+                        onClick={() => !active && onVariantActivate(panel, variant)}
+                        aria-pressed={active}
+                        title={variant.description ?? undefined}
+                        className={`block w-14 h-14 border-2 overflow-hidden ${active ? 'border-black ring-2 ring-yellow-400' : 'border-stone-300 hover:border-black'}`}
+                      >
+                        <img src={variant.thumbnail_url || variant.image_url} alt="" className="w-full h-full object-cover" />
+                      </button>
+                      {!active && (
+                        <button
+                          onClick={() => handleDeleteVariant(variant)}
+                          aria-label={t('editor.deleteVariant')}
+                          title={t('editor.deleteVariant')}
+                          className="absolute -top-1.5 -right-1.5 bg-white border-2 border-black hover:bg-red-100"
+                        >
+                          <X size={10} />
+                        </button>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+          <div className="flex gap-2">
+            <input
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder={t('editor.scenePlaceholder')}
+              className="flex-1 p-2 border-2 border-black text-sm focus:outline-none focus:ring-2 focus:ring-yellow-400"
+            />
+            <select
+              value={count}
+              onChange={(e) => setCount(Number(e.target.value))}
+              aria-label={t('editor.alternatives')}
+              title={t('editor.alternatives')}
+              className="border-2 border-black font-bold text-sm bg-white focus:outline-none focus:ring-2 focus:ring-yellow-400"
+            >
+              {Array.from({ length: MAX_ALTERNATIVES }, (_, i) => i + 1).map(n => <option key={n} value={n}>{n}</option>)}
+            </select>
+            <button
+              onClick={handleRegenerate}
+              disabled={isRegenerating || !description}
+              className="bg-yellow-400 px-3 border-2 border-black font-bold text-sm flex items-center gap-1 hover:bg-yellow-300 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <RefreshCw size={14} /> {count > 1 ? t('editor.generateAlternatives', { count }) : t('editor.regenerate')}
+            </button>
+          </div>
+        </div>
+      </div>
+    </Reorder.Item>
+  );
+}
+
+export default function ComicEditor({ comic, characters, onChange, onClose }: ComicEditorProps) {
+  const { t, locale } = useI18n();
+  const [title, setTitle] = useState(comic.title);
+  const [description, setDescription] = useState(comic.description);
+  const [tags, setTags] = useState<string[]>(comic.tags || []);
+  const [panels, setPanels] = useState<Panel[]>(comic.panels || []);
+  const [history, setHistory] = useState<HistoryState>({ can_undo: false, can_redo: false });
+  const panelsRef = useRef(panels);
+
+  const updatePanels = (next: Panel[]) => {
+    panelsRef.current = next;
+    setPanels(next);
+    onChange({ ...comic, title, description, panels: next });
+  };
+
+  const reloadPanels = async () => {
+    const res = await fetch(`/api/comics/${comic.id}`);
+    const data: Comic = await res.json();
+    updatePanels(data.panels || []);
+  };
+
+  const refreshHistory = async () => setHistory(await fetchHistory(comic.id));
+
+  useEffect(() => {
+    refreshHistory().catch(error => console.error("Erro ao carregar histórico:", error));
+  }, [comic.id]);
+
+  const handleHistoryStep = async (direction: 'undo' | 'redo') => {
+    try {
+      const { can_undo, can_redo } = await stepHistory(comic.id, direction);
+      setHistory({ can_undo, can_redo });
+      await reloadPanels();
+    } catch (error) {
+      console.error("Erro ao desfazer/refazer:", error);
+    }
+  };
+
+  // Ctrl+Z / Ctrl+Shift+Z, except while typing, where the browser's own undo applies.
+  const historyStepRef = useRef(handleHistoryStep);
+  historyStepRef.current = handleHistoryStep;
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z') return;
+      const target = e.target as HTMLElement;
+      if (target.closest('input, textarea, select, [contenteditable="true"]')) return;
+      e.preventDefault();
+      historyStepRef.current(e.shiftKey ? 'redo' : 'undo');
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+
+  const handlePrune = async () => {
+    if (!confirm(t('editor.pruneConfirm'))) return;
+    const { deleted_variants } = await pruneVariants(comic.id);
+    await refreshHistory();
+    await reloadPanels();
+    alert(t('editor.pruned', { count: deleted_variants }));
+  };
+
+  const handleComicSave = async () => {
+    if (title === comic.title && description === comic.description) return;
+    const res = await fetch(`/api/comics/${comic.id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ title, description })
+    });
+    // An empty title is refused; put back the saved title and description.
+    if (!res.ok) {
+      setTitle(comic.title);
+      setDescription(comic.description);
+      return;
+    }
+    const updated = await res.json();
+    onChange({ ...comic, ...updated, panels: panelsRef.current });
+  };
+
+  const handleTagsChange = async (next: string[]) => {
+    setTags(next);
+    try {
+      const { tags: saved } = await setComicTags(comic.id, next);
+      setTags(saved);
+      onChange({ ...comic, title, description, tags: saved, panels: panelsRef.current });
+    } catch (error) {
+      console.error("Erro ao salvar tags:", error);
+      setTags(tags);
+    }
+  };
+
+  const showPanelError = async (res: Response) => {
+    const error = await responseError(res);
+    console.error("Erro ao salvar painel:", error);
+    alert(refusalMessage(t, error, locale) ?? t('editor.panelSaveError'));
+  };
+
+  const patchPanel = async (panel: Panel, changes: Partial<Panel>) => {
+    const res = await fetch(`/api/comics/${comic.id}/panels/${panel.id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(changes)
+    });
+    // A refused edit leaves the panel as saved; the card puts back its text.
+    if (!res.ok) {
+      await showPanelError(res);
+      return false;
+    }
+    const updated: Panel = await res.json();
+    updatePanels(panelsRef.current.map(p => p.id === updated.id ? updated : p));
+    await refreshHistory();
+    return true;
+  };
+
+  // The panel's characters are the ones whose photos guide the next regeneration.
+  const handleCharactersChange = async (panel: Panel, characterIds: string[]) => {
+    const { character_ids } = await setPanelCharacters(comic.id, panel.id!, characterIds);
+    updatePanels(panelsRef.current.map(p => p.id === panel.id ? { ...p, character_ids } : p));
+  };
+
+  // More than one image only adds alternatives; the current image stays until one is picked.
+  const handleRegenerate = async (panel: Panel, sceneDescription: string, count: number) => {
+    try {
+      const res = await fetch(`/api/comics/${comic.id}/panels/${panel.id}/regenerate`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ description: sceneDescription, count })
+      });
+      if (!res.ok) throw await responseError(res);
+      const job: GenerationJob = await res.json();
+      const finished = await waitForJob(job.id);
+      if (finished.status === 'failed') throw new Error(finished.error || "Image generation failed");
+      await reloadPanels();
+      await refreshHistory();
+    } catch (error) {
+      console.error("Erro ao regerar painel:", error);
+      alert(refusalMessage(t, error, locale) ?? t('editor.regenerateError'));
+    }
+  };
+
+  const handleVariantActivate = async (panel: Panel, variant: PanelVariant) => {
+    const { image_url, can_undo, can_redo } = await activateVariant(comic.id, panel.id!, variant.id);
+    setHistory({ can_undo, can_redo });
+    updatePanels(panelsRef.current.map(p => p.id === panel.id ? { ...p, image_url } : p));
+  };
+
+  const handleDeletePanel = async (panel: Panel) => {
+    if (!confirm(t('editor.deletePanelConfirm'))) return;
+    const res = await fetch(`/api/comics/${comic.id}/panels/${panel.id}`, { method: 'DELETE' });
+    if (!res.ok) return showPanelError(res);
+    await reloadPanels();
+    await refreshHistory();
+  };
+
+  const handleInsertPanel = async (index: number) => {
+    const res = await fetch(`/api/comics/${comic.id}/panels`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ caption: '', order_index: index })
+    });
+    if (!res.ok) return showPanelError(res);
+    await reloadPanels();
+  };
+
+  const handleReorderEnd = async () => {
+    const res = await fetch(`/api/comics/${comic.id}/panels/order`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ panelIds: panelsRef.current.map(p => p.id) })
+    });
+    if (!res.ok) {
+      await reloadPanels();
+      return;
+    }
+    updatePanels(await res.json());
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto p-6">
+      <button
+        onClick={onClose}
+        className="mb-8 flex items-center gap-2 font-bold hover:underline"
+      >
+        <ChevronLeft /> {t('editor.back')}
+      </button>
+
+      <div className="bg-white p-8 comic-border mb-12 space-y-4">
+        <input
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          onBlur={handleComicSave}
+          className="comic-title text-5xl w-full text-center p-2 border-2 border-dashed border-stone-300 focus:outline-none focus:border-black"
+        />
+        <textarea
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          onBlur={handleComicSave}
+          className="w-full text-center text-stone-600 italic p-2 border-2 border-dashed border-stone-300 focus:outline-none focus:border-black"
+        />
+        <TagEditor tags={tags} onChange={handleTagsChange} />
+      </div>
+
+      <div className="flex justify-end gap-2 mb-6">
+        <button
+          onClick={() => handleHistoryStep('undo')}
+          disabled={!history.can_undo}
+          title={`${t('editor.undo')} (Ctrl+Z)`}
+          className="bg-white px-3 py-2 border-2 border-black font-bold text-sm flex items-center gap-1 hover:bg-stone-50 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Undo2 size={16} /> {t('editor.undo')}
+        </button>
+        <button
+          onClick={() => handleHistoryStep('redo')}
+          disabled={!history.can_redo}
+          title={`${t('editor.redo')} (Ctrl+Shift+Z)`}
+          className="bg-white px-3 py-2 border-2 border-black font-bold text-sm flex items-center gap-1 hover:bg-stone-50 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Redo2 size={16} /> {t('editor.redo')}
+        </button>
+        <button
+          onClick={handlePrune}
+          className="bg-white px-3 py-2 border-2 border-black font-bold text-sm flex items-center gap-1 hover:bg-red-100"
+        >
+          <Eraser size={16} /> {t('editor.pruneVariants')}
+        </button>
+      </div>
+
+      <Reorder.Group axis="y" values={panels} onReorder={(next) => { panelsRef.current = next; setPanels(next); }} className="mb-4">
+        {panels.map((panel, idx) => (
+          <PanelCard
+            key={panel.id}
+            comicId={comic.id}
+            panel={panel}
+            index={idx}
+            characters={characters}
+            onCharactersChange={handleCharactersChange}
+            onCaptionSave={(p, caption) => patchPanel(p, { caption })}
+            onAltTextSave={(p, altText) => patchPanel(p, { alt_text: altText })}
+            onRegenerate={handleRegenerate}
+            onVariantActivate={handleVariantActivate}
+            onDelete={handleDeletePanel}
+            onInsertBefore={handleInsertPanel}
+            onDragEnd={handleReorderEnd}
+          />
+        ))}
+      </Reorder.Group>
+
+      <button
+        onClick={() => handleInsertPanel(panels.length)}
+        className="w-full mb-20 py-4 bg-yellow-400 comic-border font-bold flex items-center justify-center gap-2 hover:bg-yellow-300"
+      >
+        <Plus size={20} /> {t('editor.addAtEnd')}
+      </button>
+    </div>
+  );
+}
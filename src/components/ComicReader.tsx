@@ -0,0 +1,415 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  AlertTriangle, BookOpen, ChevronLeft, ChevronRight, Image as ImageIcon, Loader2, Maximize, Minimize, Pause, Play, Square, X, ZoomIn,
+} from 'lucide-react';
+import BalloonLayer from './BalloonLayer';
+import { saveReadingProgress } from '../services/libraryService';
+import { LayoutSlot, PAGE_ASPECT, paginate } from '../layouts';
+import { panelAltText } from '../accessibility';
+import { Balloon, Comic, Panel, ReadingProgress } from '../types';
+import { useI18n } from '../i18n';
+
+type ReaderMode = 'panel' | 'page';
+
+// How the reader last read, kept for the next comic.
+interface ReaderSettings {
+  mode: ReaderMode;
+  // In page mode, zoom into each panel in turn instead of showing the whole page.
+  guided: boolean;
+  // Seconds per step while auto-playing.
+  interval: number;
+}
+
+const SETTINGS_KEY = 'minha-hq.reader';
+const DEFAULT_SETTINGS: ReaderSettings = { mode: 'panel', guided: false, interval: 5 };
+const INTERVALS = [3, 5, 8, 12];
+
+// Pointer travel, in pixels, that turns a tap into a swipe.
+const SWIPE_DISTANCE = 50;
+const TAP_DISTANCE = 10;
+
+function loadSettings(): ReaderSettings {
+  try {
+    return { ...DEFAULT_SETTINGS, ...JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}') };
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+}
+
+export const readingPercent = (progress: ReadingProgress) =>
+  Math.round((progress.panel_index + 1) / progress.panel_count * 100);
+
+// Finished comics start over; the others open at the last panel read.
+export const resumeIndex = (progress?: ReadingProgress | null) =>
+  progress && progress.panel_index < progress.panel_count - 1 ? progress.panel_index : 0;
+
+// Takes a callback ref, so it follows elements that mount later.
+function useElementSize() {
+  const [element, setElement] = useState<HTMLElement | null>(null);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+  useEffect(() => {
+    if (!element) return;
+    const observer = new ResizeObserver(([entry]) =>
+      setSize({ width: entry.contentRect.width, height: entry.contentRect.height }));
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [element]);
+  return [setElement, size] as const;
+}
+
+interface ComicReaderProps {
+  comic: Comic;
+  title: string;
+  captionFor: (panel: Panel) => string;
+  balloonTextFor: (balloon: Balloon) => string;
+  // The panel to open at, counted from 0.
+  startIndex: number;
+  onProgress: (progress: ReadingProgress) => void;
+  onClose: () => void;
+}
+
+// Full-screen reading, one panel or one page at a time. Arrow keys, swipes and
+// taps on the edges turn; a tap in the middle shows or hides the controls.
+// The last panel read is saved, so the library can offer to continue.
+export default function ComicReader({ comic, title, captionFor, balloonTextFor, startIndex, onProgress, onClose }: ComicReaderProps) {
+  const { t } = useI18n();
+  const panels = comic.panels || [];
+  const pages = paginate(comic.page_templates || [], panels);
+
+  const [settings, setSettings] = useState(loadSettings);
+  const [index, setIndex] = useState(() => Math.min(Math.max(startIndex, 0), Math.max(panels.length - 1, 0)));
+  const [showControls, setShowControls] = useState(true);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [isFullscreen, setIsFullscreen] = useState(false);
+  const [imageAspects, setImageAspects] = useState<Record<string, number>>({});
+
+  const rootRef = useRef<HTMLDivElement>(null);
+  const [stageRef, stage] = useElementSize();
+  const [panelAreaRef, panelArea] = useElementSize();
+
+  const updateSettings = (changes: Partial<ReaderSettings>) => {
+    const next = { ...settings, ...changes };
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(next));
+    setSettings(next);
+  };
+
+  // The first panel of every page, so each page knows where it starts.
+  const pageStarts = pages.reduce<number[]>((starts, page, pageIndex) =>
+    [...starts, pageIndex === 0 ? 0 : starts[pageIndex - 1] + pages[pageIndex - 1].panels.length], []);
+  const pageIndex = Math.max(pageStarts.filter(start => start <= index).length - 1, 0);
+  const page = pages[pageIndex];
+
+  // Whole pages are turned at once; otherwise every panel is a step.
+  const byPage = settings.mode === 'page' && !settings.guided;
+  const steps = byPage ? pageStarts : panels.map((_, i) => i);
+  const step = byPage ? pageIndex : index;
+  const lastRead = byPage ? (pageStarts[pageIndex + 1] ?? panels.length) - 1 : index;
+
+  const goTo = (nextStep: number) => {
+    if (nextStep >= 0 && nextStep < steps.length) setIndex(steps[nextStep]);
+  };
+
+  const navigateRef = useRef({ step, goTo, onClose, last: steps.length - 1 });
+  navigateRef.current = { step, goTo, onClose, last: steps.length - 1 };
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      // Form fields and buttons keep the keys they use themselves.
+      const target = e.target as HTMLElement;
+      if (target.closest('input, textarea, select') && e.key !== 'Escape') return;
+      if (target.closest('button') && (e.key === ' ' || e.key === 'Enter')) return;
+      const { step, goTo, onClose, last } = navigateRef.current;
+      const action: Record<string, () => void> = {
+        ArrowRight: () => goTo(step + 1),
+        ArrowDown: () => goTo(step + 1),
+        PageDown: () => goTo(step + 1),
+        ' ': () => goTo(step + 1),
+        ArrowLeft: () => goTo(step - 1),
+        ArrowUp: () => goTo(step - 1),
+        PageUp: () => goTo(step - 1),
+        Home: () => goTo(0),
+        End: () => goTo(last),
+        Escape: () => document.fullscreenElement || onClose(),
+      };
+      if (!action[e.key]) return;
+      e.preventDefault();
+      action[e.key]();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+
+  useEffect(() => {
+    const onChange = () => setIsFullscreen(document.fullscreenElement === rootRef.current);
+    document.addEventListener('fullscreenchange', onChange);
+    return () => {
+      document.removeEventListener('fullscreenchange', onChange);
+      if (document.fullscreenElement) document.exitFullscreen().catch(() => {});
+    };
+  }, []);
+
+  const toggleFullscreen = () => {
+    if (document.fullscreenElement) {
+      document.exitFullscreen().catch(() => {});
+    } else {
+      rootRef.current?.requestFullscreen().catch(error => console.error("Erro ao entrar em tela cheia:", error));
+    }
+  };
+
+  // Auto-play stops on the last step; turning by hand restarts the countdown.
+  useEffect(() => {
+    if (!isPlaying) return;
+    if (step >= steps.length - 1) {
+      setIsPlaying(false);
+      return;
+    }
+    const timer = setTimeout(() => goTo(step + 1), settings.interval * 1000);
+    return () => clearTimeout(timer);
+  }, [isPlaying, step, steps.length, settings.interval]);
+
+  const lastReadId = panels[lastRead]?.id;
+  useEffect(() => {
+    if (!comic.id || !lastReadId) return;
+    saveReadingProgress(comic.id, lastReadId)
+      .then(onProgress)
+      .catch(error => console.error("Erro ao salvar o progresso de leitura:", error));
+  }, [comic.id, lastReadId]);
+
+  const pointerStart = useRef<{ x: number; y: number } | null>(null);
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    const start = pointerStart.current;
+    pointerStart.current = null;
+    if (!start) return;
+    const dx = e.clientX - start.x;
+    const dy = e.clientY - start.y;
+    if (Math.abs(dx) >= SWIPE_DISTANCE && Math.abs(dx) > Math.abs(dy)) {
+      goTo(dx < 0 ? step + 1 : step - 1);
+    } else if (Math.abs(dx) < TAP_DISTANCE && Math.abs(dy) < TAP_DISTANCE) {
+      const rect = e.currentTarget.getBoundingClientRect();
+      const at = (e.clientX - rect.left) / rect.width;
+      if (at < 1 / 3) goTo(step - 1);
+      else if (at > 2 / 3) goTo(step + 1);
+      else setShowControls(!showControls);
+    }
+  };
+
+  const renderArt = (panel: Panel, number: number, fill: boolean) => (
+    <>
+      {panel.image_url ? (
+        <img
+          src={panel.image_url}
+          alt={panelAltText(panel) ?? t('panel.label', { number })}
+          draggable={false}
+          onLoad={(e) => {
+            const { naturalWidth, naturalHeight } = e.currentTarget;
+            if (naturalHeight) setImageAspects(prev => ({ ...prev, [panel.image_url!]: naturalWidth / naturalHeight }));
+          }}
+          className={`w-full h-full ${fill ? 'object-cover' : 'object-contain'}`}
+        />
+      ) : panel.image_status === 'failed' ? (
+        <div className="flex flex-col items-center gap-2 p-4 text-center text-red-700">
+          <AlertTriangle size={48} />
+          <span className="font-bold text-sm">{t('viewer.imageFailed')}</span>
+        </div>
+      ) : panel.image_status === 'pending' ? (
+        <div className="flex flex-col items-center gap-2 text-stone-600">
+          <Loader2 size={48} className="animate-spin" />
+          <span className="font-bold text-sm">{t('viewer.imagePending')}</span>
+        </div>
+      ) : (
+        <ImageIcon size={64} className="text-stone-300" />
+      )}
+      <BalloonLayer balloons={panel.balloons || []} textFor={balloonTextFor} />
+    </>
+  );
+
+  // The panel as large as the screen allows, keeping the shape of its image so
+  // the balloons stay where they were placed.
+  const renderPanelMode = () => {
+    const panel = panels[index];
+    const aspect = (panel.image_url && imageAspects[panel.image_url]) || 1;
+    const width = Math.min(panelArea.width, panelArea.height * aspect);
+    const caption = captionFor(panel);
+    return (
+      <figure aria-label={t('panel.position', { number: index + 1, total: panels.length })} className="h-full flex flex-col items-center gap-4 p-4">
+        <div ref={panelAreaRef} className="flex-1 min-h-0 w-full flex items-center justify-center">
+          <div
+            className="relative bg-stone-100 overflow-hidden border-2 border-black flex items-center justify-center"
+            style={{ width, height: width / aspect }}
+          >
+            {renderArt(panel, index + 1, false)}
+          </div>
+        </div>
+        {caption && (
+          <div className="bg-yellow-100 border-2 border-black p-4 max-w-2xl w-full">
+            <p className="font-medium leading-tight">{caption}</p>
+          </div>
+        )}
+      </figure>
+    );
+  };
+
+  // The page is laid out at the size that fits the screen, then moved and
+  // scaled so the current panel fills it when zooming is on.
+  const renderPageMode = () => {
+    if (!stage.width || !stage.height) return null;
+    const pageWidth = Math.min(stage.width, stage.height * PAGE_ASPECT);
+    const pageHeight = pageWidth / PAGE_ASPECT;
+    const slot: LayoutSlot | undefined = settings.guided ? page.slots[index - pageStarts[pageIndex]] : undefined;
+    const scale = slot ? Math.min(stage.width / (slot.width * pageWidth), stage.height / (slot.height * pageHeight)) * 0.95 : 1;
+    const [centerX, centerY] = slot ? [slot.x + slot.width / 2, slot.y + slot.height / 2] : [0.5, 0.5];
+    const x = stage.width / 2 - scale * centerX * pageWidth;
+    const y = stage.height / 2 - scale * centerY * pageHeight;
+    return (
+      <div
+        className="absolute top-0 left-0 bg-white border-2 border-black origin-top-left transition-transform duration-500"
+        style={{ width: pageWidth, height: pageHeight, transform: `translate(${x}px, ${y}px) scale(${scale})` }}
+      >
+        {page.panels.map((panel, slotIndex) => {
+          const pageSlot = page.slots[slotIndex];
+          const caption = captionFor(panel);
+          return (
+            <figure
+              key={panel.id || slotIndex}
+              aria-label={t('panel.position', { number: pageStarts[pageIndex] + slotIndex + 1, total: panels.length })}
+              className="absolute p-1.5 flex flex-col gap-1"
+              style={{ left: `${pageSlot.x * 100}%`, top: `${pageSlot.y * 100}%`, width: `${pageSlot.width * 100}%`, height: `${pageSlot.height * 100}%` }}
+            >
+              <div className="relative flex-1 min-h-0 bg-stone-100 overflow-hidden border-2 border-black flex items-center justify-center">
+                {renderArt(panel, pageStarts[pageIndex] + slotIndex + 1, true)}
+              </div>
+              {caption && (
+                <div className="bg-yellow-100 border-2 border-black px-2 py-1 text-sm">
+                  <p className="font-medium leading-tight">{caption}</p>
+                </div>
+              )}
+            </figure>
+          );
+        })}
+      </div>
+    );
+  };
+
+  const controlButton = 'p-2 border-2 border-white/40 hover:bg-white/20 disabled:opacity-30';
+  const toggleButton = (active: boolean) => `${controlButton} ${active ? 'bg-yellow-400 text-black border-yellow-400 hover:bg-yellow-300' : ''}`;
+
+  return (
+    <div ref={rootRef} role="dialog" aria-modal="true" aria-label={title} className="fixed inset-0 z-50 bg-stone-900 text-white flex flex-col">
+      {/* Announces each move, since the controls showing the position may be hidden. */}
+      <p aria-live="polite" className="sr-only">
+        {panels.length > 0 && t('panel.position', { number: index + 1, total: panels.length })}
+      </p>
+      {showControls && (
+        <div className="flex flex-wrap items-center gap-2 p-2 bg-black/80">
+          <button onClick={onClose} aria-label={t('reader.close')} title={t('reader.close')} className={controlButton}>
+            <X size={20} />
+          </button>
+          <h2 className="font-comic text-xl truncate flex-1 min-w-0">{title}</h2>
+          {panels.length > 0 && (
+            <span className="text-sm font-bold">
+              {byPage
+                ? t('reader.pagePosition', { current: pageIndex + 1, total: pages.length })
+                : t('reader.panelPosition', { current: index + 1, total: panels.length })}
+            </span>
+          )}
+          <button
+            onClick={() => updateSettings({ mode: 'panel' })}
+            aria-pressed={settings.mode === 'panel'}
+            aria-label={t('reader.panelMode')}
+            title={t('reader.panelMode')}
+            className={toggleButton(settings.mode === 'panel')}
+          >
+            <Square size={20} />
+          </button>
+          <button
+            onClick={() => updateSettings({ mode: 'page' })}
+            aria-pressed={settings.mode === 'page'}
+            aria-label={t('reader.pageMode')}
+            title={t('reader.pageMode')}
+            className={toggleButton(settings.mode === 'page')}
+          >
+            <BookOpen size={20} />
+          </button>
+          {settings.mode === 'page' && (
+            <button
+              onClick={() => updateSettings({ guided: !settings.guided })}
+              aria-pressed={settings.guided}
+              aria-label={t('reader.guidedZoom')}
+              title={t('reader.guidedZoom')}
+              className={toggleButton(settings.guided)}
+            >
+              <ZoomIn size={20} />
+            </button>
+          )}
+          <button
+            onClick={() => setIsPlaying(!isPlaying)}
+            disabled={step >= steps.length - 1 && !isPlaying}
+            aria-label={isPlaying ? t('reader.pause') : t('reader.play')}
+            title={isPlaying ? t('reader.pause') : t('reader.play')}
+            className={toggleButton(isPlaying)}
+          >
+            {isPlaying ? <Pause size={20} /> : <Play size={20} />}
+          </button>
+          <select
+            value={settings.interval}
+            onChange={(e) => updateSettings({ interval: Number(e.target.value) })}
+            aria-label={t('reader.interval')}
+            title={t('reader.interval')}
+            className="p-2 bg-black text-white font-bold border-2 border-white/40"
+          >
+            {INTERVALS.map(seconds => (
+              <option key={seconds} value={seconds}>{t('reader.seconds', { seconds })}</option>
+            ))}
+          </select>
+          {document.fullscreenEnabled && (
+            <button
+              onClick={toggleFullscreen}
+              aria-label={isFullscreen ? t('reader.exitFullscreen') : t('reader.fullscreen')}
+              title={isFullscreen ? t('reader.exitFullscreen') : t('reader.fullscreen')}
+              className={controlButton}
+            >
+              {isFullscreen ? <Minimize size={20} /> : <Maximize size={20} />}
+            </button>
+          )}
+        </div>
+      )}
+
+      <div
+        ref={stageRef}
+        onPointerDown={(e) => { pointerStart.current = { x: e.clientX, y: e.clientY }; }}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={() => { pointerStart.current = null; }}
+        className="relative flex-1 min-h-0 overflow-hidden select-none touch-pinch-zoom"
+      >
+        {panels.length === 0 ? (
+          <p className="h-full flex items-center justify-center font-bold">{t('reader.empty')}</p>
+        ) : settings.mode === 'panel' ? renderPanelMode() : renderPageMode()}
+      </div>
+
+      {showControls && panels.length > 0 && (
+        <div className="flex items-center justify-center gap-4 p-2 bg-black/80">
+          <button onClick={() => goTo(step - 1)} disabled={step === 0} aria-label={t('reader.previous')} title={t('reader.previous')} className={controlButton}>
+            <ChevronLeft size={20} />
+          </button>
+          <p className="text-xs text-white/70 text-center">{t('reader.hint')}</p>
+          <button onClick={() => goTo(step + 1)} disabled={step >= steps.length - 1} aria-label={t('reader.next')} title={t('reader.next')} className={controlButton}>
+            <ChevronRight size={20} />
+          </button>
+        </div>
+      )}
+
+      {panels.length > 0 && (
+        <div
+          role="progressbar"
+          aria-label={t('reader.progress', { percent: Math.round((lastRead + 1) / panels.length * 100) })}
+          aria-valuemin={0}
+          aria-valuemax={panels.length}
+          aria-valuenow={lastRead + 1}
+          className="h-1.5 bg-white/20"
+        >
+          <div className="h-full bg-yellow-400 transition-all" style={{ width: `${(lastRead + 1) / panels.length * 100}%` }} />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,108 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { BookPlus, Loader2, X } from 'lucide-react';
+import { motion } from 'motion/react';
+import { continueStory } from '../services/seriesService';
+import { moderationMessage, refusalMessage } from '../services/moderationService';
+import { subscribeToJob } from '../services/jobService';
+import { Comic } from '../types';
+import { useI18n } from '../i18n';
+import { useDialog } from '../dialog';
+
+interface ContinueStoryDialogProps {
+  comic: Comic;
+  // Called as soon as the new chapter exists; its panels keep generating in the viewer.
+  onCreated: (comicId: string) => void;
+  onClose: () => void;
+}
+
+// Asks for an optional direction and queues the next chapter, written from the
+// summaries and open plot points of the chapters so far.
+export default function ContinueStoryDialog({ comic, onCreated, onClose }: ContinueStoryDialogProps) {
+  const { t, locale } = useI18n();
+  const [prompt, setPrompt] = useState('');
+  const [isWriting, setIsWriting] = useState(false);
+  const unsubscribeRef = useRef<(() => void) | null>(null);
+
+  useEffect(() => () => unsubscribeRef.current?.(), []);
+
+  const chapters = comic.series?.chapters || [];
+  const latest = chapters[chapters.length - 1];
+  const openThreads = latest?.open_threads || [];
+
+  const handleContinue = async () => {
+    setIsWriting(true);
+    try {
+      const job = await continueStory(comic.id, prompt);
+      unsubscribeRef.current = subscribeToJob(job.id, (update) => {
+        if (update.comic_id) {
+          unsubscribeRef.current?.();
+          onCreated(update.comic_id);
+        } else if (update.status === 'failed') {
+          setIsWriting(false);
+          alert(update.moderation ? moderationMessage(t, update.moderation, 'output') : t('series.continueError'));
+        }
+      });
+    } catch (error) {
+      console.error("Erro ao continuar a história:", error);
+      setIsWriting(false);
+      alert(refusalMessage(t, error, locale) ?? t('series.continueError'));
+    }
+  };
+
+  const dialog = useDialog(() => {
+    if (!isWriting) onClose();
+  });
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 bg-black/80 flex items-center justify-center p-4 z-50 backdrop-blur-sm"
+    >
+      <motion.div
+        initial={{ scale: 0.9, y: 20 }}
+        animate={{ scale: 1, y: 0 }}
+        {...dialog.props}
+        className="bg-white comic-border w-full max-w-xl p-8 max-h-[90vh] overflow-y-auto"
+      >
+        <div className="flex justify-between items-center mb-2">
+          <h2 id={dialog.titleId} className="font-comic text-3xl">{t('series.continueTitle')}</h2>
+          <button onClick={onClose} disabled={isWriting} className="text-stone-600 hover:text-black disabled:opacity-50" title={t('series.close')}>
+            <X size={24} />
+          </button>
+        </div>
+        <p className="text-sm text-stone-600 mb-6">
+          {t('series.continueHint', { chapter: (latest?.chapter_number ?? 1) + 1 })}
+        </p>
+
+        {openThreads.length > 0 && (
+          <div className="bg-yellow-100 border-2 border-black p-3 mb-4">
+            <p className="text-xs font-bold uppercase mb-1">{t('series.openThreads')}</p>
+            <ul className="list-disc pl-5 text-sm">
+              {openThreads.map((thread, index) => <li key={index}>{thread}</li>)}
+            </ul>
+          </div>
+        )}
+
+        <textarea
+          value={prompt}
+          onChange={(e) => setPrompt(e.target.value)}
+          placeholder={t('series.continuePlaceholder')}
+          aria-label={t('series.continuePlaceholder')}
+          disabled={isWriting}
+          className="w-full h-28 p-3 border-2 border-black focus:outline-none focus:ring-2 focus:ring-yellow-400 mb-4"
+        />
+
+        <button
+          onClick={handleContinue}
+          disabled={isWriting}
+          className="w-full bg-yellow-400 py-3 comic-border font-bold flex items-center justify-center gap-2 hover:bg-yellow-300 disabled:opacity-50"
+        >
+          {isWriting ? <Loader2 className="animate-spin" size={20} /> : <BookPlus size={20} />}
+          {isWriting ? t('create.writingScript') : t('series.continue')}
+        </button>
+      </motion.div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,162 @@
+import React, { useState } from 'react';
+import { Loader2, Plus, X } from 'lucide-react';
+import {
+  AUDIENCES, GENRES, GenerationSettings, MAX_PANEL_COUNT, MIN_PANEL_COUNT, StylePreset, TONES,
+} from '../generation';
+import { createStyle, deleteStyle } from '../services/styleService';
+import { MessageKey, useI18n } from '../i18n';
+
+interface GenerationSettingsFormProps {
+  value: GenerationSettings;
+  onChange: (value: GenerationSettings) => void;
+  styles: StylePreset[];
+  onStylesChange: (styles: StylePreset[]) => void;
+}
+
+const selectClass = 'w-full p-2 border-2 border-black font-bold bg-white text-sm focus:outline-none focus:ring-2 focus:ring-yellow-400';
+
+// Panel count, genre, tone, audience and art style for a new comic, plus a
+// small form for saving custom style presets.
+export default function GenerationSettingsForm({ value, onChange, styles, onStylesChange }: GenerationSettingsFormProps) {
+  const { t } = useI18n();
+  const [isAddingStyle, setIsAddingStyle] = useState(false);
+  const [styleName, setStyleName] = useState('');
+  const [stylePrompt, setStylePrompt] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const set = <K extends keyof GenerationSettings>(key: K, next: GenerationSettings[K]) => onChange({ ...value, [key]: next });
+  const styleLabel = (style: StylePreset) => style.builtIn ? t(`styles.${style.id}` as MessageKey) : style.name;
+
+  const handleCreateStyle = async () => {
+    setIsSaving(true);
+    try {
+      const style = await createStyle(styleName, stylePrompt);
+      onStylesChange([...styles, style]);
+      set('styleId', style.id);
+      setStyleName('');
+      setStylePrompt('');
+      setIsAddingStyle(false);
+    } catch (error) {
+      console.error("Erro ao criar estilo:", error);
+      alert(t('styles.saveError'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDeleteStyle = async (style: StylePreset) => {
+    await deleteStyle(style.id);
+    onStylesChange(styles.filter(s => s.id !== style.id));
+    if (value.styleId === style.id) set('styleId', styles[0].id);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        <label className="text-xs font-bold uppercase tracking-widest">
+          {t('create.panelCount')}
+          <input
+            type="number"
+            min={MIN_PANEL_COUNT}
+            max={MAX_PANEL_COUNT}
+            value={value.panelCount ?? ''}
+            placeholder={t('create.panelCountAuto')}
+            onChange={(e) => {
+              const count = parseInt(e.target.value, 10);
+              set('panelCount', Number.isNaN(count) ? null : Math.min(MAX_PANEL_COUNT, Math.max(MIN_PANEL_COUNT, count)));
+            }}
+            className={`${selectClass} mt-1`}
+          />
+        </label>
+        <label className="text-xs font-bold uppercase tracking-widest">
+          {t('create.genre')}
+          <select value={value.genre ?? ''} onChange={(e) => set('genre', (e.target.value || null) as GenerationSettings['genre'])} className={`${selectClass} mt-1`}>
+            <option value="">{t('create.any')}</option>
+            {GENRES.map(genre => <option key={genre} value={genre}>{t(`genres.${genre}`)}</option>)}
+          </select>
+        </label>
+        <label className="text-xs font-bold uppercase tracking-widest">
+          {t('create.tone')}
+          <select value={value.tone ?? ''} onChange={(e) => set('tone', (e.target.value || null) as GenerationSettings['tone'])} className={`${selectClass} mt-1`}>
+            <option value="">{t('create.any')}</option>
+            {TONES.map(tone => <option key={tone} value={tone}>{t(`tones.${tone}`)}</option>)}
+          </select>
+        </label>
+        <label className="text-xs font-bold uppercase tracking-widest">
+          {t('create.audience')}
+          <select value={value.audience ?? ''} onChange={(e) => set('audience', (e.target.value || null) as GenerationSettings['audience'])} className={`${selectClass} mt-1`}>
+            <option value="">{t('create.any')}</option>
+            {AUDIENCES.map(audience => <option key={audience} value={audience}>{t(`audiences.${audience}`)}</option>)}
+          </select>
+        </label>
+      </div>
+
+      <div>
+        <label className="block font-bold mb-2 uppercase text-sm tracking-widest">{t('create.style')}</label>
+        <div className="flex flex-wrap gap-2">
+          {styles.map(style => {
+            const selected = value.styleId === style.id;
+            return (
+              <span key={style.id} className={`flex items-center border-2 border-black font-bold text-sm ${selected ? 'bg-yellow-400' : 'bg-white'}`}>
+                <button
+                  type="button"
+                  onClick={() => set('styleId', style.id)}
+                  aria-pressed={selected}
+                  title={style.prompt}
+                  className={`px-3 py-1 ${selected ? '' : 'hover:bg-stone-50'}`}
+                >
+                  {styleLabel(style)}
+                </button>
+                {!style.builtIn && (
+                  <button
+                    type="button"
+                    onClick={() => handleDeleteStyle(style)}
+                    aria-label={t('styles.delete')}
+                    title={t('styles.delete')}
+                    className="pr-2 text-stone-600 hover:text-black"
+                  >
+                    <X size={14} />
+                  </button>
+                )}
+              </span>
+            );
+          })}
+          <button
+            type="button"
+            onClick={() => setIsAddingStyle(!isAddingStyle)}
+            aria-expanded={isAddingStyle}
+            className="px-3 py-1 border-2 border-dashed border-black font-bold text-sm flex items-center gap-1 hover:bg-stone-50"
+          >
+            <Plus size={14} /> {t('styles.new')}
+          </button>
+        </div>
+
+        {isAddingStyle && (
+          <div className="mt-3 p-3 border-2 border-black bg-stone-50 space-y-2">
+            <input
+              value={styleName}
+              onChange={(e) => setStyleName(e.target.value)}
+              placeholder={t('styles.namePlaceholder')}
+              className="w-full p-2 border-2 border-black font-bold focus:outline-none focus:ring-2 focus:ring-yellow-400"
+            />
+            <textarea
+              value={stylePrompt}
+              onChange={(e) => setStylePrompt(e.target.value)}
+              placeholder={t('styles.promptPlaceholder')}
+              className="w-full p-2 border-2 border-black h-16 text-sm focus:outline-none focus:ring-2 focus:ring-yellow-400"
+            />
+            <button
+              type="button"
+              onClick={handleCreateStyle}
+              disabled={isSaving || !styleName.trim() || !stylePrompt.trim()}
+              className="bg-yellow-400 px-4 py-2 border-2 border-black font-bold text-sm flex items-center gap-2 hover:bg-yellow-300 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isSaving && <Loader2 size={14} className="animate-spin" />}
+              {t('styles.save')}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,155 @@
+import React, { useEffect, useState } from 'react';
+import { Ban, Check, Loader2, RotateCcw, X } from 'lucide-react';
+import { motion } from 'motion/react';
+import { DecisionFilter, fetchModerationDecisions, overrideDecision } from '../services/moderationService';
+import { ModerationAction, ModerationDecision } from '../types';
+import { MessageKey, useI18n } from '../i18n';
+import { useDialog } from '../dialog';
+
+interface ModerationLogProps {
+  onClose: () => void;
+}
+
+const FILTERS: DecisionFilter[] = ['flagged', 'overridden', 'all'];
+const PAGE_SIZE = 50;
+
+const ACTION_STYLES: Record<ModerationAction, string> = {
+  allow: 'bg-green-100',
+  rephrase: 'bg-yellow-100',
+  block: 'bg-red-100',
+};
+
+// Admin-only review of moderation decisions. Overriding one decides every
+// later check of the same text.
+export default function ModerationLog({ onClose }: ModerationLogProps) {
+  const { t, locale } = useI18n();
+  const [filter, setFilter] = useState<DecisionFilter>('flagged');
+  const [decisions, setDecisions] = useState<ModerationDecision[] | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+
+  useEffect(() => {
+    setDecisions(null);
+    fetchModerationDecisions(filter).then(page => {
+      setDecisions(page);
+      setHasMore(page.length === PAGE_SIZE);
+    }).catch(error => {
+      console.error("Erro ao carregar moderação:", error);
+      setDecisions([]);
+    });
+  }, [filter]);
+
+  const handleLoadMore = async () => {
+    if (!decisions?.length) return;
+    const page = await fetchModerationDecisions(filter, decisions[decisions.length - 1].id);
+    setDecisions([...decisions, ...page]);
+    setHasMore(page.length === PAGE_SIZE);
+  };
+
+  const handleOverride = async (decision: ModerationDecision, action: 'allow' | 'block' | null) => {
+    try {
+      const updated = await overrideDecision(decision.id, action);
+      // Any other entry for the same text lost its override on the server.
+      setDecisions(prev => prev && prev.map(d =>
+        d.id === updated.id ? updated : d.text === updated.text ? { ...d, override_action: null, overridden_by_name: null, overridden_at: null } : d));
+    } catch (error) {
+      console.error("Erro ao salvar decisão:", error);
+      alert(t('moderation.overrideError'));
+    }
+  };
+
+  const overrideButton = (decision: ModerationDecision, action: 'allow' | 'block' | null) => {
+    const Icon = action === 'allow' ? Check : action === 'block' ? Ban : RotateCcw;
+    const label = action === 'allow' ? t('moderation.overrideAllow') : action === 'block' ? t('moderation.overrideBlock') : t('moderation.overrideClear');
+    return (
+      <button
+        onClick={() => handleOverride(decision, action)}
+        className="px-2 py-1 border-2 border-black text-xs font-bold flex items-center gap-1 hover:bg-stone-50"
+      >
+        <Icon size={12} /> {label}
+      </button>
+    );
+  };
+
+  const dialog = useDialog(onClose);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 bg-black/80 flex items-center justify-center p-4 z-50 backdrop-blur-sm"
+    >
+      <motion.div
+        initial={{ scale: 0.9, y: 20 }}
+        animate={{ scale: 1, y: 0 }}
+        {...dialog.props}
+        className="bg-white comic-border w-full max-w-3xl p-8 max-h-[90vh] overflow-y-auto"
+      >
+        <div className="flex justify-between items-center mb-6">
+          <h2 id={dialog.titleId} className="font-comic text-3xl">{t('moderation.title')}</h2>
+          <button onClick={onClose} className="text-stone-600 hover:text-black" title={t('moderation.close')}>
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="flex gap-2 mb-4">
+          {FILTERS.map(value => (
+            <button
+              key={value}
+              onClick={() => setFilter(value)}
+              className={`px-3 py-1 border-2 border-black text-sm font-bold ${filter === value ? 'bg-yellow-400' : 'bg-white hover:bg-stone-50'}`}
+            >
+              {t(`moderation.filters.${value}`)}
+            </button>
+          ))}
+        </div>
+
+        {!decisions ? (
+          <Loader2 className="animate-spin mx-auto" />
+        ) : decisions.length === 0 ? (
+          <p className="text-center py-10 text-stone-600">{t('moderation.empty')}</p>
+        ) : (
+          <ul className="space-y-2">
+            {decisions.map(decision => (
+              <li key={decision.id} className="border-2 border-black p-3 space-y-2">
+                <div className="flex flex-wrap items-center gap-2 text-xs">
+                  <span className={`px-2 py-0.5 border border-black font-bold uppercase ${ACTION_STYLES[decision.action]}`}>
+                    {t(`moderation.actions.${decision.action}`)}
+                  </span>
+                  <span className="font-bold">{decision.username ?? t('moderation.deletedUser')}</span>
+                  <span className="text-stone-600">
+                    {t(`moderation.sources.${decision.source}` as MessageKey)} · {decision.field} · {decision.level}
+                  </span>
+                  <span className="ml-auto text-stone-600">{new Date(`${decision.created_at.replace(' ', 'T')}Z`).toLocaleString(locale)}</span>
+                </div>
+                <p className="text-sm whitespace-pre-wrap break-words line-clamp-4">{decision.text}</p>
+                {decision.reason && <p className="text-xs text-stone-600">{decision.reason}{decision.rule_id && ` (${decision.rule_id})`}</p>}
+                <div className="flex flex-wrap items-center gap-2">
+                  {decision.override_action && (
+                    <span className="text-xs font-bold">
+                      {t('moderation.overridden', {
+                        action: t(`moderation.actions.${decision.override_action}`),
+                        name: decision.overridden_by_name ?? t('moderation.deletedUser'),
+                      })}
+                    </span>
+                  )}
+                  <div className="flex gap-2 ml-auto">
+                    {decision.override_action !== 'allow' && overrideButton(decision, 'allow')}
+                    {decision.override_action !== 'block' && overrideButton(decision, 'block')}
+                    {decision.override_action && overrideButton(decision, null)}
+                  </div>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {hasMore && (
+          <button onClick={handleLoadMore} className="w-full mt-4 py-2 border-2 border-black font-bold hover:bg-stone-50">
+            {t('moderation.loadMore')}
+          </button>
+        )}
+      </motion.div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,175 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Check, Loader2, Maximize, RotateCw, X } from 'lucide-react';
+import {
+  DEFAULT_PHOTO_SIZE,
+  FULL_CROP,
+  loadImage,
+  MIN_CROP_SIZE,
+  outputSize,
+  PHOTO_SIZES,
+  PhotoCrop,
+  preparePhoto,
+  Rotation,
+  rotateCrop
+} from '../photos';
+import { clamp01 } from '../balloons';
+import { useI18n } from '../i18n';
+import { useDialog } from '../dialog';
+
+interface PhotoEditorProps {
+  source: string;
+  initialCrop?: PhotoCrop;
+  position: number;
+  total: number;
+  onDone: (image: string) => void;
+  onSkip: () => void;
+}
+
+const PREVIEW_SIZE = 800;
+
+// Crops, rotates and downscales one photo before it becomes a reference image.
+export default function PhotoEditor({ source, initialCrop = FULL_CROP, position, total, onDone, onSkip }: PhotoEditorProps) {
+  const { t } = useI18n();
+  const frameRef = useRef<HTMLDivElement>(null);
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+  const [failed, setFailed] = useState(false);
+  const [rotation, setRotation] = useState<Rotation>(0);
+  const [crop, setCrop] = useState(initialCrop);
+  const [maxSize, setMaxSize] = useState(DEFAULT_PHOTO_SIZE);
+  const [preview, setPreview] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadImage(source).then(setImage).catch(error => {
+      console.error("Erro ao abrir foto:", error);
+      setFailed(true);
+    });
+  }, [source]);
+
+  // The rotated photo, small enough to redraw quickly; the crop box is laid over it.
+  useEffect(() => {
+    if (image) setPreview(preparePhoto(image, rotation, FULL_CROP, PREVIEW_SIZE));
+  }, [image, rotation]);
+
+  const handleRotate = () => {
+    setRotation(r => ((r + 90) % 360) as Rotation);
+    setCrop(rotateCrop);
+  };
+
+  const startDrag = (e: React.PointerEvent, mode: 'move' | 'resize') => {
+    if (!frameRef.current || e.button !== 0) return;
+    e.preventDefault();
+    e.stopPropagation();
+    const rect = frameRef.current.getBoundingClientRect();
+    const start = crop;
+
+    const onMove = (event: PointerEvent) => {
+      const dx = (event.clientX - e.clientX) / rect.width;
+      const dy = (event.clientY - e.clientY) / rect.height;
+      setCrop(mode === 'move'
+        ? {
+            ...start,
+            x: Math.min(clamp01(start.x + dx), 1 - start.width),
+            y: Math.min(clamp01(start.y + dy), 1 - start.height),
+          }
+        : {
+            ...start,
+            width: Math.min(Math.max(MIN_CROP_SIZE, start.width + dx), 1 - start.x),
+            height: Math.min(Math.max(MIN_CROP_SIZE, start.height + dy), 1 - start.y),
+          });
+    };
+    const onUp = () => {
+      window.removeEventListener('pointermove', onMove);
+      window.removeEventListener('pointerup', onUp);
+    };
+    window.addEventListener('pointermove', onMove);
+    window.addEventListener('pointerup', onUp);
+  };
+
+  const size = image && outputSize(image, rotation, crop, maxSize);
+
+  const dialog = useDialog(onSkip);
+
+  return (
+    <div className="fixed inset-0 bg-black/90 flex items-center justify-center p-4 z-[60]">
+      <div {...dialog.props} className="bg-white comic-border w-full max-w-2xl p-6 space-y-4 max-h-[95vh] overflow-y-auto">
+        <div className="flex justify-between items-center">
+          <h2 id={dialog.titleId} className="font-comic text-3xl">{t('photo.editTitle')}</h2>
+          {total > 1 && <span className="text-sm font-bold text-stone-600">{t('photo.progress', { current: position, total })}</span>}
+        </div>
+
+        {failed ? (
+          <p className="p-6 text-center border-2 border-dashed border-stone-300 text-stone-600">{t('photo.loadError')}</p>
+        ) : !preview ? (
+          <div className="h-64 flex items-center justify-center"><Loader2 className="animate-spin" size={32} /></div>
+        ) : (
+          <div className="flex justify-center bg-stone-900 p-2">
+            <div ref={frameRef} className="relative select-none touch-none">
+              <img src={preview} alt="" className="block max-h-[55vh] max-w-full" draggable={false} />
+              <div
+                onPointerDown={(e) => startDrag(e, 'move')}
+                className="absolute border-2 border-dashed border-yellow-400 cursor-move shadow-[0_0_0_9999px_rgba(0,0,0,0.5)]"
+                style={{
+                  left: `${crop.x * 100}%`,
+                  top: `${crop.y * 100}%`,
+                  width: `${crop.width * 100}%`,
+                  height: `${crop.height * 100}%`,
+                }}
+              >
+                <div
+                  onPointerDown={(e) => startDrag(e, 'resize')}
+                  className="absolute -right-2 -bottom-2 w-4 h-4 bg-yellow-400 border-2 border-black cursor-nwse-resize"
+                />
+              </div>
+            </div>
+          </div>
+        )}
+
+        {!failed && <p className="text-xs text-stone-600 text-center">{t('photo.cropHint')}</p>}
+
+        <div className="flex flex-wrap gap-2 items-center">
+          <button
+            onClick={handleRotate}
+            disabled={!image}
+            className="px-3 py-2 border-2 border-black text-sm font-bold flex items-center gap-2 hover:bg-stone-50 disabled:opacity-50"
+          >
+            <RotateCw size={16} /> {t('photo.rotate')}
+          </button>
+          <button
+            onClick={() => setCrop(FULL_CROP)}
+            disabled={!image}
+            className="px-3 py-2 border-2 border-black text-sm font-bold flex items-center gap-2 hover:bg-stone-50 disabled:opacity-50"
+          >
+            <Maximize size={16} /> {t('photo.resetCrop')}
+          </button>
+          <label className="flex items-center gap-2 text-sm font-bold ml-auto">
+            {t('photo.size')}
+            <select
+              value={maxSize}
+              onChange={(e) => setMaxSize(Number(e.target.value))}
+              className="p-1 border-2 border-black bg-white"
+            >
+              {PHOTO_SIZES.map(value => <option key={value} value={value}>{value} px</option>)}
+            </select>
+          </label>
+        </div>
+        {size && <p className="text-xs text-stone-600 text-right">{t('photo.outputSize', size)}</p>}
+
+        <div className="flex gap-3">
+          <button
+            onClick={onSkip}
+            className="px-4 py-3 border-2 border-black font-bold flex items-center gap-2 hover:bg-stone-50"
+          >
+            <X size={18} /> {t('photo.skip')}
+          </button>
+          <button
+            onClick={() => image && onDone(preparePhoto(image, rotation, crop, maxSize))}
+            disabled={!image}
+            className="flex-1 bg-yellow-400 py-3 comic-border font-bold flex items-center justify-center gap-2 hover:bg-yellow-300 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Check size={18} /> {t('photo.use')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,91 @@
+import React, { useState } from 'react';
+import { createPortal } from 'react-dom';
+import { Camera, ImagePlus, Loader2 } from 'lucide-react';
+import CameraCapture from './CameraCapture';
+import PhotoEditor from './PhotoEditor';
+import { PhotoCrop } from '../photos';
+import { useI18n } from '../i18n';
+
+interface PhotoInputProps {
+  onAdd: (images: string[]) => void;
+  busy?: boolean;
+  compact?: boolean;
+}
+
+interface PendingPhoto {
+  source: string;
+  crop?: PhotoCrop;
+}
+
+// Upload and camera buttons for reference photos. Every photo, picked or
+// captured, goes through the editor; the prepared ones are handed over together.
+export default function PhotoInput({ onAdd, busy = false, compact = false }: PhotoInputProps) {
+  const { t } = useI18n();
+  const [pending, setPending] = useState<PendingPhoto[]>([]);
+  const [prepared, setPrepared] = useState<string[]>([]);
+  const [total, setTotal] = useState(0);
+  const [isCameraOpen, setIsCameraOpen] = useState(false);
+
+  const enqueue = (photos: PendingPhoto[]) => {
+    if (!photos.length) return;
+    setPending(photos);
+    setPrepared([]);
+    setTotal(photos.length);
+  };
+
+  const handleFiles = (e: React.ChangeEvent<HTMLInputElement>) => {
+    enqueue(Array.from(e.target.files || []).map(file => ({ source: URL.createObjectURL(file) })));
+    e.target.value = '';
+  };
+
+  const next = (image?: string) => {
+    const [current, ...rest] = pending;
+    if (current.source.startsWith('blob:')) URL.revokeObjectURL(current.source);
+    const done = image ? [...prepared, image] : prepared;
+    setPending(rest);
+    setPrepared(done);
+    if (!rest.length && done.length) onAdd(done);
+  };
+
+  const buttonClass = compact
+    ? 'w-16 h-16 border-2 border-dashed border-black flex items-center justify-center cursor-pointer hover:bg-stone-50'
+    : 'flex items-center gap-2 px-3 py-2 border-2 border-dashed border-black text-sm font-bold cursor-pointer hover:bg-white';
+
+  return (
+    <>
+      <label className={buttonClass} title={t('characters.addPhotos')}>
+        {busy ? <Loader2 className="animate-spin" size={compact ? 20 : 16} /> : <ImagePlus size={compact ? 20 : 16} />}
+        {!compact && t('characters.addPhotos')}
+        <input type="file" accept="image/*" multiple onChange={handleFiles} className="hidden" disabled={busy} />
+      </label>
+      <button type="button" onClick={() => setIsCameraOpen(true)} disabled={busy} className={buttonClass} title={t('photo.takePhoto')}>
+        <Camera size={compact ? 20 : 16} />
+        {!compact && t('photo.takePhoto')}
+      </button>
+
+      {/* Portalled out of the surrounding modal, whose transform would otherwise pin them inside it. */}
+      {isCameraOpen && createPortal(
+        <CameraCapture
+          onClose={() => setIsCameraOpen(false)}
+          onCapture={(source, crop) => {
+            setIsCameraOpen(false);
+            enqueue([{ source, crop }]);
+          }}
+        />,
+        document.body
+      )}
+      {pending.length > 0 && createPortal(
+        <PhotoEditor
+          key={pending[0].source}
+          source={pending[0].source}
+          initialCrop={pending[0].crop}
+          position={total - pending.length + 1}
+          total={total}
+          onDone={next}
+          onSkip={() => next()}
+        />,
+        document.body
+      )}
+    </>
+  );
+}
@@ -0,0 +1,251 @@
+import React, { useEffect, useState } from 'react';
+import { ArrowDown, ArrowUp, Loader2, Trash2, X } from 'lucide-react';
+import { motion } from 'motion/react';
+import {
+  createSeries, deleteSeries, fetchSeriesList, saveContinuity, setComicSeries, updateSeries,
+} from '../services/seriesService';
+import { Comic, Series, SeriesChapter, SeriesSummary } from '../types';
+import { useI18n } from '../i18n';
+import { useDialog } from '../dialog';
+
+interface SeriesDialogProps {
+  comic: Comic;
+  // The comic's series after a change, or null once it no longer has one.
+  onChange: (series: Series | null) => void;
+  onClose: () => void;
+}
+
+interface ChapterNotesProps {
+  chapter: SeriesChapter;
+  onSaved: (chapter: SeriesChapter) => void;
+}
+
+// The summary and open plot points the next chapter is written from, one thread per line.
+function ChapterNotes({ chapter, onSaved }: ChapterNotesProps) {
+  const { t } = useI18n();
+  const [summary, setSummary] = useState(chapter.summary ?? '');
+  const [threads, setThreads] = useState(chapter.open_threads.join('\n'));
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const saved = await saveContinuity(chapter.id, summary, threads.split('\n'));
+      onSaved({ ...chapter, ...saved });
+    } catch (error) {
+      console.error("Erro ao salvar notas:", error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="mt-2 space-y-2">
+      <textarea
+        value={summary}
+        onChange={(e) => setSummary(e.target.value)}
+        placeholder={t('series.summaryPlaceholder')}
+        aria-label={t('series.summary')}
+        className="w-full h-20 p-2 border-2 border-black text-sm"
+      />
+      <textarea
+        value={threads}
+        onChange={(e) => setThreads(e.target.value)}
+        placeholder={t('series.openThreadsPlaceholder')}
+        aria-label={t('series.openThreads')}
+        className="w-full h-16 p-2 border-2 border-black text-sm"
+      />
+      <button
+        onClick={handleSave}
+        disabled={isSaving}
+        className="px-3 py-1 border-2 border-black font-bold text-sm bg-yellow-400 hover:bg-yellow-300 disabled:opacity-50"
+      >
+        {t('series.saveNotes')}
+      </button>
+    </div>
+  );
+}
+
+// Adds a standalone comic to a series, or manages the series it is part of:
+// title, chapter order, chapter notes, and leaving or deleting the series.
+export default function SeriesDialog({ comic, onChange, onClose }: SeriesDialogProps) {
+  const { t } = useI18n();
+  const series = comic.series;
+  const [title, setTitle] = useState(series?.title ?? comic.title);
+  const [seriesList, setSeriesList] = useState<SeriesSummary[] | null>(null);
+  const [target, setTarget] = useState('new');
+  const [notesFor, setNotesFor] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (series) return;
+    fetchSeriesList().then(setSeriesList).catch(error => {
+      console.error("Erro ao carregar séries:", error);
+      setSeriesList([]);
+    });
+  }, [series?.id]);
+
+  const run = async (action: () => Promise<Series | null>) => {
+    setIsSaving(true);
+    try {
+      onChange(await action());
+    } catch (error) {
+      console.error("Erro ao alterar série:", error);
+      alert(t('series.error'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAdd = () => run(() => target === 'new'
+    ? createSeries(title.trim() || comic.title, [comic.id])
+    : setComicSeries(comic.id, target));
+
+  const handleRename = () => {
+    if (!series || !title.trim() || title === series.title) return;
+    run(() => updateSeries(series.id, { title: title.trim() }));
+  };
+
+  const handleMove = (index: number, offset: number) => {
+    if (!series) return;
+    const ids = series.chapters.map(chapter => chapter.id);
+    [ids[index], ids[index + offset]] = [ids[index + offset], ids[index]];
+    run(() => updateSeries(series.id, { comicIds: ids }));
+  };
+
+  const handleDelete = () => {
+    if (!series || !confirm(t('series.deleteConfirm'))) return;
+    run(async () => {
+      await deleteSeries(series.id);
+      return null;
+    });
+  };
+
+  const handleNotesSaved = (chapter: SeriesChapter) => {
+    if (!series) return;
+    onChange({ ...series, chapters: series.chapters.map(c => c.id === chapter.id ? chapter : c) });
+    setNotesFor(null);
+  };
+
+  const dialog = useDialog(onClose);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 bg-black/80 flex items-center justify-center p-4 z-50 backdrop-blur-sm"
+    >
+      <motion.div
+        initial={{ scale: 0.9, y: 20 }}
+        animate={{ scale: 1, y: 0 }}
+        {...dialog.props}
+        className="bg-white comic-border w-full max-w-2xl p-8 max-h-[90vh] overflow-y-auto"
+      >
+        <div className="flex justify-between items-center mb-6">
+          <h2 id={dialog.titleId} className="font-comic text-3xl">{t('series.title')}</h2>
+          <button onClick={onClose} className="text-stone-600 hover:text-black" title={t('series.close')}>
+            <X size={24} />
+          </button>
+        </div>
+
+        {!series ? (
+          <div className="space-y-4">
+            <p className="text-sm text-stone-600">{t('series.addHint')}</p>
+            {!seriesList ? (
+              <Loader2 className="animate-spin mx-auto" />
+            ) : (
+              <select
+                value={target}
+                onChange={(e) => setTarget(e.target.value)}
+                aria-label={t('series.addTo')}
+                className="w-full p-2 border-2 border-black font-bold bg-white"
+              >
+                <option value="new">{t('series.newSeries')}</option>
+                {seriesList.map(s => (
+                  <option key={s.id} value={s.id}>{s.title} ({t('series.chapterCount', { count: s.chapter_count })})</option>
+                ))}
+              </select>
+            )}
+            {target === 'new' && (
+              <input
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+                placeholder={t('series.name')}
+                aria-label={t('series.name')}
+                className="w-full p-2 border-2 border-black"
+              />
+            )}
+            <button
+              onClick={handleAdd}
+              disabled={isSaving || !seriesList}
+              className="w-full bg-yellow-400 py-2 comic-border font-bold hover:bg-yellow-300 disabled:opacity-50"
+            >
+              {t('series.add')}
+            </button>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <input
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              onBlur={handleRename}
+              aria-label={t('series.name')}
+              className="font-comic text-2xl w-full p-2 border-2 border-dashed border-stone-300 focus:outline-none focus:border-black"
+            />
+            <ol className="space-y-2">
+              {series.chapters.map((chapter, index) => (
+                <li key={chapter.id} className={`border-2 border-black p-3 ${chapter.id === comic.id ? 'bg-yellow-100' : ''}`}>
+                  <div className="flex items-center gap-2">
+                    <span className="font-bold w-8">{chapter.chapter_number}.</span>
+                    <span className="flex-1 font-bold truncate">{chapter.title}</span>
+                    <button
+                      onClick={() => setNotesFor(notesFor === chapter.id ? null : chapter.id)}
+                      aria-expanded={notesFor === chapter.id}
+                      className="px-2 py-1 border-2 border-black text-xs font-bold hover:bg-stone-50"
+                    >
+                      {t('series.notes')}
+                    </button>
+                    <button
+                      onClick={() => handleMove(index, -1)}
+                      disabled={isSaving || index === 0}
+                      aria-label={t('series.moveUp')}
+                      className="p-1 border-2 border-black hover:bg-stone-50 disabled:opacity-30"
+                    >
+                      <ArrowUp size={14} />
+                    </button>
+                    <button
+                      onClick={() => handleMove(index, 1)}
+                      disabled={isSaving || index === series.chapters.length - 1}
+                      aria-label={t('series.moveDown')}
+                      className="p-1 border-2 border-black hover:bg-stone-50 disabled:opacity-30"
+                    >
+                      <ArrowDown size={14} />
+                    </button>
+                  </div>
+                  {notesFor === chapter.id && <ChapterNotes chapter={chapter} onSaved={handleNotesSaved} />}
+                </li>
+              ))}
+            </ol>
+            <div className="flex flex-wrap gap-2 justify-between">
+              <button
+                onClick={() => run(() => setComicSeries(comic.id, null))}
+                disabled={isSaving}
+                className="px-3 py-2 border-2 border-black font-bold text-sm hover:bg-stone-50 disabled:opacity-50"
+              >
+                {t('series.leave')}
+              </button>
+              <button
+                onClick={handleDelete}
+                disabled={isSaving}
+                className="px-3 py-2 border-2 border-black font-bold text-sm flex items-center gap-1 hover:bg-red-100 disabled:opacity-50"
+              >
+                <Trash2 size={14} /> {t('series.delete')}
+              </button>
+            </div>
+          </div>
+        )}
+      </motion.div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,146 @@
+import React, { useEffect, useState } from 'react';
+import { Check, Copy, Link, Loader2, X } from 'lucide-react';
+import { motion } from 'motion/react';
+import { createShareLink, fetchShareLinks, revokeShareLink, shareUrl } from '../services/shareService';
+import { Comic, ShareLink } from '../types';
+import { useI18n } from '../i18n';
+import { useDialog } from '../dialog';
+
+interface ShareDialogProps {
+  comic: Comic;
+  onClose: () => void;
+}
+
+const EXPIRY_OPTIONS = [null, 1, 7, 30] as const;
+
+// Creates, copies and revokes the read-only links of a comic.
+export default function ShareDialog({ comic, onClose }: ShareDialogProps) {
+  const { t, locale } = useI18n();
+  const [links, setLinks] = useState<ShareLink[] | null>(null);
+  const [expiresInDays, setExpiresInDays] = useState<number | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+  const [copiedToken, setCopiedToken] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchShareLinks(comic.id).then(setLinks).catch(error => {
+      console.error("Erro ao carregar links:", error);
+      setLinks([]);
+    });
+  }, [comic.id]);
+
+  const handleCreate = async () => {
+    setIsCreating(true);
+    try {
+      const link = await createShareLink(comic.id, expiresInDays);
+      setLinks(prev => [link, ...(prev || [])]);
+      await handleCopy(link);
+    } catch (error) {
+      console.error("Erro ao criar link:", error);
+      alert(t('share.error'));
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleCopy = async (link: ShareLink) => {
+    try {
+      await navigator.clipboard.writeText(shareUrl(link.token));
+      setCopiedToken(link.token);
+    } catch (error) {
+      console.error("Erro ao copiar link:", error);
+    }
+  };
+
+  const handleRevoke = async (link: ShareLink) => {
+    if (!confirm(t('share.revokeConfirm'))) return;
+    await revokeShareLink(comic.id, link.token);
+    setLinks(prev => prev && prev.filter(l => l.token !== link.token));
+  };
+
+  const expiryLabel = (link: ShareLink) => {
+    if (!link.expires_at) return t('share.neverExpires');
+    const date = new Date(link.expires_at);
+    return date < new Date()
+      ? t('share.expired')
+      : t('share.expiresOn', { date: date.toLocaleDateString(locale) });
+  };
+
+  const dialog = useDialog(onClose);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 bg-black/80 flex items-center justify-center p-4 z-50 backdrop-blur-sm"
+    >
+      <motion.div
+        initial={{ scale: 0.9, y: 20 }}
+        animate={{ scale: 1, y: 0 }}
+        {...dialog.props}
+        className="bg-white comic-border w-full max-w-xl p-8 max-h-[90vh] overflow-y-auto"
+      >
+        <div className="flex justify-between items-center mb-2">
+          <h2 id={dialog.titleId} className="font-comic text-3xl">{t('share.title')}</h2>
+          <button onClick={onClose} className="text-stone-600 hover:text-black" title={t('share.close')}>
+            <X size={24} />
+          </button>
+        </div>
+        <p className="text-sm text-stone-600 mb-6">{t('share.hint')}</p>
+
+        <div className="flex gap-2 mb-6">
+          <select
+            value={expiresInDays ?? ''}
+            onChange={(e) => setExpiresInDays(e.target.value ? Number(e.target.value) : null)}
+            aria-label={t('share.expiry')}
+            className="flex-1 p-2 border-2 border-black font-bold bg-white text-sm"
+          >
+            {EXPIRY_OPTIONS.map(days => (
+              <option key={days ?? 'never'} value={days ?? ''}>
+                {days === null ? t('share.neverExpires') : t('share.expiresIn', { count: days })}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={handleCreate}
+            disabled={isCreating}
+            className="bg-yellow-400 px-4 py-2 comic-border font-bold flex items-center gap-2 hover:bg-yellow-300 disabled:opacity-50"
+          >
+            {isCreating ? <Loader2 size={16} className="animate-spin" /> : <Link size={16} />}
+            {t('share.create')}
+          </button>
+        </div>
+
+        {!links ? (
+          <Loader2 className="animate-spin mx-auto" />
+        ) : links.length === 0 ? (
+          <p className="text-center text-stone-600">{t('share.empty')}</p>
+        ) : (
+          <ul className="space-y-2">
+            {links.map(link => (
+              <li key={link.token} className="border-2 border-black p-3 flex items-center gap-2">
+                <div className="flex-1 min-w-0">
+                  <p className="font-mono text-xs truncate">{shareUrl(link.token)}</p>
+                  <p className="text-xs text-stone-600">{expiryLabel(link)}</p>
+                </div>
+                <button
+                  onClick={() => handleCopy(link)}
+                  className="px-2 py-1 border-2 border-black font-bold text-sm flex items-center gap-1 hover:bg-stone-50"
+                >
+                  {copiedToken === link.token ? <Check size={14} /> : <Copy size={14} />}
+                  {copiedToken === link.token ? t('share.copied') : t('share.copy')}
+                </button>
+                <button
+                  onClick={() => handleRevoke(link)}
+                  className="px-2 py-1 border-2 border-black font-bold text-sm hover:bg-red-100"
+                >
+                  {t('share.revoke')}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </motion.div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,97 @@
+import React, { useEffect, useState } from 'react';
+import { Image as ImageIcon, Loader2 } from 'lucide-react';
+import BalloonLayer from './BalloonLayer';
+import { fetchSharedComic } from '../services/shareService';
+import { PAGE_ASPECT, paginate } from '../layouts';
+import { panelAltText } from '../accessibility';
+import { Panel, SharedComic } from '../types';
+import { useI18n } from '../i18n';
+
+interface SharedReaderProps {
+  token: string;
+}
+
+// The page behind a share link: the comic's pages and nothing else, for
+// readers without an account.
+export default function SharedReader({ token }: SharedReaderProps) {
+  const { t } = useI18n();
+  const [comic, setComic] = useState<SharedComic | null | undefined>(undefined);
+
+  useEffect(() => {
+    fetchSharedComic(token).then(setComic).catch(() => setComic(null));
+  }, [token]);
+
+  useEffect(() => {
+    if (comic) document.title = comic.title;
+  }, [comic]);
+
+  if (comic === undefined) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="animate-spin" size={40} />
+      </div>
+    );
+  }
+
+  if (!comic) {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-6">
+        <div className="bg-white comic-border p-8 text-center max-w-md">
+          <h1 className="comic-title text-4xl mb-4">{t('app.name')}</h1>
+          <p className="font-bold">{t('shared.unavailable')}</p>
+        </div>
+      </div>
+    );
+  }
+
+  const renderPanel = (panel: Panel, number: number) => (
+    <figure aria-label={t('panel.position', { number, total: comic.panels.length })} className="h-full flex flex-col gap-1">
+      <div className="relative flex-1 min-h-0 bg-stone-100 overflow-hidden border-2 border-black flex items-center justify-center">
+        {panel.image_url ? (
+          <img src={panel.image_url} alt={panelAltText(panel) ?? t('panel.label', { number })} className="w-full h-full object-cover" />
+        ) : (
+          <ImageIcon size={64} className="text-stone-300" />
+        )}
+        <BalloonLayer balloons={panel.balloons || []} textFor={balloon => balloon.text} />
+      </div>
+      {panel.caption && (
+        <div className="bg-yellow-100 border-2 border-black px-2 py-1 text-sm">
+          <p className="font-medium leading-tight">{panel.caption}</p>
+        </div>
+      )}
+    </figure>
+  );
+
+  return (
+    <div className="min-h-screen bg-stone-100">
+      <div className="max-w-4xl mx-auto p-6">
+        <div className="bg-white p-8 comic-border mb-12">
+          <h1 className="comic-title text-6xl mb-4 text-center">{comic.title}</h1>
+          {comic.description && <p className="text-center text-stone-600 italic mb-12">"{comic.description}"</p>}
+          <div className="flex flex-col gap-12">
+            {paginate(comic.page_templates, comic.panels).map((page, pageIndex) => (
+              <div key={pageIndex} className="max-w-2xl w-full mx-auto">
+                <span className="block text-xs font-bold uppercase mb-2">{t('viewer.page', { number: pageIndex + 1 })}</span>
+                <div className="relative w-full bg-white comic-border" style={{ aspectRatio: PAGE_ASPECT }}>
+                  {page.panels.map((panel, index) => {
+                    const slot = page.slots[index];
+                    return (
+                      <div
+                        key={panel.id || index}
+                        className="absolute p-1.5"
+                        style={{ left: `${slot.x * 100}%`, top: `${slot.y * 100}%`, width: `${slot.width * 100}%`, height: `${slot.height * 100}%` }}
+                      >
+                        {renderPanel(panel, comic.panels.indexOf(panel) + 1)}
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+        <p className="text-center text-sm text-stone-600 mb-12">{t('shared.madeWith', { app: t('app.name') })}</p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+import React, { useState } from 'react';
+import { Tag, X } from 'lucide-react';
+import { MAX_TAG_LENGTH, MAX_TAGS, normalizeTags } from '../library';
+import { useI18n } from '../i18n';
+
+interface TagEditorProps {
+  tags: string[];
+  onChange: (tags: string[]) => void;
+}
+
+// Tag chips with an input that adds a tag on Enter or comma.
+export default function TagEditor({ tags, onChange }: TagEditorProps) {
+  const { t } = useI18n();
+  const [draft, setDraft] = useState('');
+
+  const add = () => {
+    const next = normalizeTags([...tags, draft]);
+    setDraft('');
+    if (next.length !== tags.length) onChange(next);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Tag size={16} className="text-stone-600" />
+      {tags.map(tag => (
+        <span key={tag} className="flex items-center gap-1 bg-yellow-100 border-2 border-black px-2 text-sm font-bold">
+          {tag}
+          <button
+            onClick={() => onChange(tags.filter(t => t !== tag))}
+            aria-label={t('tags.remove', { tag })}
+            className="text-stone-600 hover:text-black"
+          >
+            <X size={12} />
+          </button>
+        </span>
+      ))}
+      {tags.length < MAX_TAGS && (
+        <input
+          value={draft}
+          maxLength={MAX_TAG_LENGTH}
+          onChange={(e) => setDraft(e.target.value.replace(',', ''))}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' || e.key === ',') {
+              e.preventDefault();
+              add();
+            } else if (e.key === 'Backspace' && !draft && tags.length) {
+              onChange(tags.slice(0, -1));
+            }
+          }}
+          onBlur={() => draft.trim() && add()}
+          placeholder={t('tags.placeholder')}
+          aria-label={t('tags.placeholder')}
+          className="flex-1 min-w-32 p-1 border-b-2 border-dashed border-stone-300 text-sm focus:outline-none focus:border-black"
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,304 @@
+import React, { useEffect, useState } from 'react';
+import { Loader2, Trash2, X } from 'lucide-react';
+import { motion } from 'motion/react';
+import { fetchQuotas, fetchUsage, formatUsd, saveQuota } from '../services/usageService';
+import { fetchUsers } from '../services/authService';
+import { QuotaPeriod, UsageQuota, UsageQuotaStatus, UsageSummary, UserSummary } from '../types';
+import { useI18n } from '../i18n';
+import { useDialog } from '../dialog';
+
+interface UsageDashboardProps {
+  isAdmin: boolean;
+  onClose: () => void;
+}
+
+const RANGES = [7, 30, 90];
+const PERIODS: QuotaPeriod[] = ['day', 'month'];
+
+// Estimated spending on AI calls. Admins can also see everyone's and set the quotas.
+export default function UsageDashboard({ isAdmin, onClose }: UsageDashboardProps) {
+  const { t, locale } = useI18n();
+  const [scope, setScope] = useState<'me' | 'all'>('me');
+  const [days, setDays] = useState(30);
+  const [summary, setSummary] = useState<UsageSummary | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    setSummary(null);
+    setFailed(false);
+    fetchUsage(scope, days).then(setSummary).catch(error => {
+      console.error("Erro ao carregar uso:", error);
+      setFailed(true);
+    });
+  }, [scope, days]);
+
+  const usd = (value: number) => formatUsd(value, locale);
+  const maxDailyCost = Math.max(...(summary?.days.map(day => day.cost_usd) ?? [0]), 0);
+  const rangeTotal = summary?.days.reduce((sum, day) => sum + day.cost_usd, 0) ?? 0;
+
+  const dialog = useDialog(onClose);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 bg-black/80 flex items-center justify-center p-4 z-50 backdrop-blur-sm"
+    >
+      <motion.div
+        initial={{ scale: 0.9, y: 20 }}
+        animate={{ scale: 1, y: 0 }}
+        {...dialog.props}
+        className="bg-white comic-border w-full max-w-3xl p-8 max-h-[90vh] overflow-y-auto"
+      >
+        <div className="flex justify-between items-center mb-6">
+          <h2 id={dialog.titleId} className="font-comic text-3xl">{t('usage.title')}</h2>
+          <button onClick={onClose} className="text-stone-600 hover:text-black" title={t('usage.close')}>
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="flex flex-wrap gap-2 mb-6">
+          {isAdmin && (['me', 'all'] as const).map(value => (
+            <button
+              key={value}
+              onClick={() => setScope(value)}
+              className={`px-3 py-1 border-2 border-black text-sm font-bold ${scope === value ? 'bg-yellow-400' : 'bg-white hover:bg-stone-50'}`}
+            >
+              {t(`usage.scopes.${value}`)}
+            </button>
+          ))}
+          <select
+            value={days}
+            onChange={e => setDays(Number(e.target.value))}
+            className="ml-auto px-2 py-1 border-2 border-black text-sm font-bold bg-white"
+            aria-label={t('usage.range')}
+          >
+            {RANGES.map(range => <option key={range} value={range}>{t('usage.lastDays', { count: range })}</option>)}
+          </select>
+        </div>
+
+        {failed ? (
+          <p className="text-center py-10 text-stone-600">{t('usage.loadError')}</p>
+        ) : !summary ? (
+          <Loader2 className="animate-spin mx-auto" />
+        ) : (
+          <div className="space-y-8">
+            <div className="grid grid-cols-3 gap-3">
+              {[
+                [t('usage.today'), summary.today_usd],
+                [t('usage.thisMonth'), summary.month_usd],
+                [t('usage.lastDays', { count: days }), rangeTotal],
+              ].map(([label, value]) => (
+                <div key={label} className="border-2 border-black p-3">
+                  <p className="text-xs font-bold uppercase text-stone-600">{label}</p>
+                  <p className="font-comic text-2xl">{usd(value as number)}</p>
+                </div>
+              ))}
+            </div>
+
+            {summary.quotas.length > 0 && (
+              <section className="space-y-2">
+                <h3 className="font-bold">{t('usage.quotas')}</h3>
+                {summary.quotas.map(quota => <QuotaBar key={`${quota.scope}-${quota.period}`} quota={quota} />)}
+              </section>
+            )}
+
+            <section>
+              <h3 className="font-bold mb-2">{t('usage.daily')}</h3>
+              <div className="flex items-end gap-px h-40 border-b-2 border-black">
+                {summary.days.map(day => (
+                  <div
+                    key={day.day}
+                    className={`flex-1 min-h-px ${day.failures > 0 ? 'bg-red-400' : 'bg-yellow-400'} hover:bg-black`}
+                    style={{ height: maxDailyCost > 0 ? `${(day.cost_usd / maxDailyCost) * 100}%` : 0 }}
+                    title={t('usage.dayDetail', {
+                      date: new Date(`${day.day}T00:00:00Z`).toLocaleDateString(locale, { timeZone: 'UTC' }),
+                      cost: usd(day.cost_usd),
+                      calls: day.calls,
+                      failures: day.failures,
+                    })}
+                  />
+                ))}
+              </div>
+            </section>
+
+            <section>
+              <h3 className="font-bold mb-2">{t('usage.byOperation')}</h3>
+              {summary.operations.length === 0 ? (
+                <p className="text-sm text-stone-600">{t('usage.empty')}</p>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-xs uppercase text-stone-600">
+                      <th className="py-1">{t('usage.operation')}</th>
+                      <th className="py-1 text-right">{t('usage.calls')}</th>
+                      <th className="py-1 text-right">{t('usage.failures')}</th>
+                      <th className="py-1 text-right">{t('usage.cached')}</th>
+                      <th className="py-1 text-right">{t('usage.latency')}</th>
+                      <th className="py-1 text-right">{t('usage.cost')}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {summary.operations.map(operation => (
+                      <tr key={operation.operation} className="border-t border-stone-200">
+                        <td className="py-1 font-bold">{t(`usage.operations.${operation.operation}`)}</td>
+                        <td className="py-1 text-right">{operation.calls}</td>
+                        <td className="py-1 text-right">{operation.failures}</td>
+                        <td className="py-1 text-right">{operation.cached}</td>
+                        <td className="py-1 text-right">{(operation.avg_latency_ms / 1000).toFixed(1)} s</td>
+                        <td className="py-1 text-right">{usd(operation.cost_usd)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </section>
+
+            <section>
+              <h3 className="font-bold mb-2">{t('usage.topComics')}</h3>
+              {summary.top_comics.length === 0 ? (
+                <p className="text-sm text-stone-600">{t('usage.empty')}</p>
+              ) : (
+                <ol className="text-sm space-y-1">
+                  {summary.top_comics.map(comic => (
+                    <li key={comic.comic_id} className="flex gap-2">
+                      <span className="truncate">{comic.title}</span>
+                      <span className="ml-auto text-stone-600">{t('usage.callCount', { count: comic.calls })}</span>
+                      <span className="font-bold w-20 text-right">{usd(comic.cost_usd)}</span>
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </section>
+
+            {scope === 'all' && (
+              <section>
+                <h3 className="font-bold mb-2">{t('usage.topUsers')}</h3>
+                {summary.top_users.length === 0 ? (
+                  <p className="text-sm text-stone-600">{t('usage.empty')}</p>
+                ) : (
+                  <ol className="text-sm space-y-1">
+                    {summary.top_users.map(user => (
+                      <li key={user.user_id ?? ''} className="flex gap-2">
+                        <span className="truncate">{user.username ?? t('usage.deletedUser')}</span>
+                        <span className="ml-auto text-stone-600">{t('usage.callCount', { count: user.calls })}</span>
+                        <span className="font-bold w-20 text-right">{usd(user.cost_usd)}</span>
+                      </li>
+                    ))}
+                  </ol>
+                )}
+              </section>
+            )}
+
+            {isAdmin && <QuotaEditor />}
+          </div>
+        )}
+      </motion.div>
+    </motion.div>
+  );
+}
+
+function QuotaBar({ quota }: { quota: UsageQuotaStatus }) {
+  const { t, locale } = useI18n();
+  const share = quota.limit_usd > 0 ? Math.min(quota.spent_usd / quota.limit_usd, 1) : 1;
+  return (
+    <div>
+      <div className="flex justify-between text-xs font-bold mb-1">
+        <span>{t(`usage.quotaLabels.${quota.scope}.${quota.period}`)}</span>
+        <span>{formatUsd(quota.spent_usd, locale)} / {formatUsd(quota.limit_usd, locale)}</span>
+      </div>
+      <div className="h-3 border-2 border-black bg-white">
+        <div className={`h-full ${share >= 1 ? 'bg-red-500' : share >= 0.8 ? 'bg-orange-400' : 'bg-green-500'}`} style={{ width: `${share * 100}%` }} />
+      </div>
+    </div>
+  );
+}
+
+// Admin-only: the limits in USD for the whole server, for every account, or for one user.
+function QuotaEditor() {
+  const { t, locale } = useI18n();
+  const [quotas, setQuotas] = useState<UsageQuota[] | null>(null);
+  const [users, setUsers] = useState<UserSummary[]>([]);
+  const [scope, setScope] = useState('user');
+  const [period, setPeriod] = useState<QuotaPeriod>('day');
+  const [limit, setLimit] = useState('');
+
+  useEffect(() => {
+    fetchQuotas().then(setQuotas).catch(error => {
+      console.error("Erro ao carregar cotas:", error);
+      setQuotas([]);
+    });
+    fetchUsers().then(setUsers).catch(error => console.error("Erro ao carregar usuários:", error));
+  }, []);
+
+  const scopeLabel = (quota: UsageQuota) =>
+    quota.scope === 'global' ? t('usage.quotaScopes.global') : quota.scope === 'user' ? t('usage.quotaScopes.user') : quota.username ?? quota.scope;
+
+  const handleSave = async (scope: string, period: QuotaPeriod, limitUsd: number | null) => {
+    try {
+      setQuotas(await saveQuota(scope, period, limitUsd));
+      setLimit('');
+    } catch (error) {
+      console.error("Erro ao salvar cota:", error);
+      alert(t('usage.quotaError'));
+    }
+  };
+
+  const parsedLimit = Number(limit.replace(',', '.'));
+  const canSave = limit.trim() !== '' && Number.isFinite(parsedLimit) && parsedLimit >= 0;
+
+  return (
+    <section className="border-t-2 border-black pt-6">
+      <h3 className="font-bold mb-1">{t('usage.quotaEditor')}</h3>
+      <p className="text-xs text-stone-600 mb-3">{t('usage.quotaHint')}</p>
+      {!quotas ? (
+        <Loader2 className="animate-spin mx-auto" />
+      ) : (
+        <ul className="text-sm space-y-1 mb-4">
+          {quotas.map(quota => (
+            <li key={`${quota.scope}-${quota.period}`} className="flex items-center gap-2">
+              <span className="font-bold">{scopeLabel(quota)}</span>
+              <span className="text-stone-600">{t(`usage.periods.${quota.period}`)}</span>
+              <span className="ml-auto">{formatUsd(quota.limit_usd, locale)}</span>
+              <button
+                onClick={() => handleSave(quota.scope, quota.period, null)}
+                className="text-stone-600 hover:text-red-600"
+                title={t('usage.removeQuota')}
+              >
+                <Trash2 size={14} />
+              </button>
+            </li>
+          ))}
+          {quotas.length === 0 && <li className="text-stone-600">{t('usage.noQuotas')}</li>}
+        </ul>
+      )}
+      <div className="flex flex-wrap gap-2">
+        <select value={scope} onChange={e => setScope(e.target.value)} className="px-2 py-1 border-2 border-black text-sm bg-white" aria-label={t('usage.quotaScope')}>
+          <option value="global">{t('usage.quotaScopes.global')}</option>
+          <option value="user">{t('usage.quotaScopes.user')}</option>
+          {users.map(user => <option key={user.id} value={user.id}>{user.username}</option>)}
+        </select>
+        <select value={period} onChange={e => setPeriod(e.target.value as QuotaPeriod)} className="px-2 py-1 border-2 border-black text-sm bg-white" aria-label={t('usage.quotaPeriod')}>
+          {PERIODS.map(value => <option key={value} value={value}>{t(`usage.periods.${value}`)}</option>)}
+        </select>
+        <input
+          type="text"
+          inputMode="decimal"
+          value={limit}
+          onChange={e => setLimit(e.target.value)}
+          placeholder={t('usage.limitPlaceholder')}
+          aria-label={t('usage.limitPlaceholder')}
+          className="w-28 px-2 py-1 border-2 border-black text-sm"
+        />
+        <button
+          onClick={() => handleSave(scope, period, parsedLimit)}
+          disabled={!canSave}
+          className="px-3 py-1 border-2 border-black text-sm font-bold bg-yellow-400 hover:bg-yellow-300 disabled:opacity-50"
+        >
+          {t('usage.saveQuota')}
+        </button>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,99 @@
+import React, { useEffect, useState } from 'react';
+import { BookOpen, Loader2, X } from 'lucide-react';
+import { motion } from 'motion/react';
+import { fetchUsers, setUserRole } from '../services/authService';
+import { User, UserRole, UserSummary } from '../types';
+import { useI18n } from '../i18n';
+import { useDialog } from '../dialog';
+
+interface UserAdminProps {
+  currentUser: User;
+  onOpenLibrary: (owner: 'all' | UserSummary) => void;
+  onClose: () => void;
+}
+
+// Admin-only list of accounts: open anyone's library or change their role.
+export default function UserAdmin({ currentUser, onOpenLibrary, onClose }: UserAdminProps) {
+  const { t } = useI18n();
+  const [users, setUsers] = useState<UserSummary[] | null>(null);
+
+  useEffect(() => {
+    fetchUsers().then(setUsers).catch(error => {
+      console.error("Erro ao carregar usuários:", error);
+      setUsers([]);
+    });
+  }, []);
+
+  const handleRoleChange = async (user: UserSummary, role: UserRole) => {
+    try {
+      const updated = await setUserRole(user.id, role);
+      setUsers(prev => prev && prev.map(u => u.id === updated.id ? { ...u, role: updated.role } : u));
+    } catch (error) {
+      console.error("Erro ao alterar papel:", error);
+      alert(t('users.roleError'));
+    }
+  };
+
+  const dialog = useDialog(onClose);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 bg-black/80 flex items-center justify-center p-4 z-50 backdrop-blur-sm"
+    >
+      <motion.div
+        initial={{ scale: 0.9, y: 20 }}
+        animate={{ scale: 1, y: 0 }}
+        {...dialog.props}
+        className="bg-white comic-border w-full max-w-2xl p-8 max-h-[90vh] overflow-y-auto"
+      >
+        <div className="flex justify-between items-center mb-6">
+          <h2 id={dialog.titleId} className="font-comic text-3xl">{t('users.title')}</h2>
+          <button onClick={onClose} className="text-stone-600 hover:text-black" title={t('users.close')}>
+            <X size={24} />
+          </button>
+        </div>
+
+        <button
+          onClick={() => onOpenLibrary('all')}
+          className="w-full mb-4 bg-yellow-400 py-2 comic-border font-bold flex items-center justify-center gap-2 hover:bg-yellow-300"
+        >
+          <BookOpen size={18} /> {t('users.allLibraries')}
+        </button>
+
+        {!users ? (
+          <Loader2 className="animate-spin mx-auto" />
+        ) : (
+          <ul className="space-y-2">
+            {users.map(user => (
+              <li key={user.id} className="flex items-center gap-3 border-2 border-black p-3">
+                <div className="flex-1">
+                  <p className="font-bold">{user.username}</p>
+                  <p className="text-sm text-stone-600">{t('users.comicCount', { count: user.comic_count })}</p>
+                </div>
+                <select
+                  value={user.role}
+                  onChange={(e) => handleRoleChange(user, e.target.value as UserRole)}
+                  disabled={user.id === currentUser.id}
+                  aria-label={t('users.role')}
+                  className="p-2 border-2 border-black font-bold bg-white text-sm disabled:opacity-50"
+                >
+                  <option value="user">{t('users.roles.user')}</option>
+                  <option value="admin">{t('users.roles.admin')}</option>
+                </select>
+                <button
+                  onClick={() => onOpenLibrary(user)}
+                  className="px-3 py-2 border-2 border-black font-bold text-sm flex items-center gap-1 hover:bg-stone-50"
+                >
+                  <BookOpen size={14} /> {t('users.openLibrary')}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </motion.div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,50 @@
+import { useEffect, useId, useRef, useState } from 'react';
+
+const FOCUSABLE = 'a[href], button:not([disabled]), input:not([disabled]), select:not([disabled]), textarea:not([disabled]), [tabindex]:not([tabindex="-1"])';
+
+// Makes an element behave as a modal dialog for keyboard and screen-reader
+// users: focus moves into it when it opens, Tab cycles within it, Escape
+// closes it, and focus returns to where it was once it closes. Spread `props`
+// on the dialog box and put `titleId` on its heading.
+export function useDialog(onClose: () => void) {
+  const [element, setElement] = useState<HTMLElement | null>(null);
+  const titleId = useId();
+  const onCloseRef = useRef(onClose);
+  onCloseRef.current = onClose;
+
+  useEffect(() => {
+    if (!element) return;
+    const previous = document.activeElement instanceof HTMLElement ? document.activeElement : null;
+    const focusable = () => [...element.querySelectorAll<HTMLElement>(FOCUSABLE)].filter(item => item.getClientRects().length > 0);
+    (focusable()[0] ?? element).focus();
+
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        e.stopPropagation();
+        onCloseRef.current();
+        return;
+      }
+      if (e.key !== 'Tab') return;
+      const items = focusable();
+      if (!items.length) return e.preventDefault();
+      const [first, last] = [items[0], items[items.length - 1]];
+      if (e.shiftKey && document.activeElement === first) {
+        e.preventDefault();
+        last.focus();
+      } else if (!e.shiftKey && document.activeElement === last) {
+        e.preventDefault();
+        first.focus();
+      }
+    };
+    element.addEventListener('keydown', onKeyDown);
+    return () => {
+      element.removeEventListener('keydown', onKeyDown);
+      if (previous?.isConnected) previous.focus();
+    };
+  }, [element]);
+
+  return {
+    titleId,
+    props: { ref: setElement, role: 'dialog', 'aria-modal': true, 'aria-labelledby': titleId, tabIndex: -1 } as const,
+  };
+}
@@ -0,0 +1,58 @@
+// Options offered when creating a comic. Ids are stored and sent to the AI
+// provider; the UI shows them through the `genres.*`, `tones.*`,
+// `audiences.*` and `styles.*` messages.
+
+export const GENRES = ['adventure', 'comedy', 'drama', 'fantasy', 'horror', 'mystery', 'romance', 'science-fiction', 'slice-of-life', 'superhero'] as const;
+export type Genre = typeof GENRES[number];
+
+export const TONES = ['lighthearted', 'heartfelt', 'epic', 'dark', 'absurd'] as const;
+export type Tone = typeof TONES[number];
+
+export const AUDIENCES = ['kids', 'teens', 'adults'] as const;
+export type Audience = typeof AUDIENCES[number];
+
+export const MIN_PANEL_COUNT = 1;
+export const MAX_PANEL_COUNT = 24;
+
+export interface StylePreset {
+  id: string;
+  name: string;
+  // Appended to every image request of a comic that uses the preset.
+  prompt: string;
+  builtIn?: boolean;
+}
+
+// Built-in presets; their names come from the `styles.<id>` messages.
+export const BUILT_IN_STYLES: StylePreset[] = [
+  { id: 'classic', name: 'Classic', prompt: 'Use cores vibrantes e traços fortes.', builtIn: true },
+  { id: 'manga', name: 'Manga', prompt: 'Estilo mangá japonês em preto e branco, retículas, linhas de velocidade e olhos expressivos.', builtIn: true },
+  { id: 'noir', name: 'Noir', prompt: 'Estilo noir em preto e branco, alto contraste, sombras duras e iluminação dramática.', builtIn: true },
+  { id: 'watercolor', name: 'Watercolor', prompt: 'Ilustração em aquarela com cores suaves, bordas difusas e textura de papel.', builtIn: true },
+  { id: 'franco-belgian', name: 'Franco-Belgian', prompt: 'Estilo franco-belga "ligne claire": contornos limpos e uniformes, cores chapadas e cenários detalhados.', builtIn: true },
+  { id: 'pop-art', name: 'Pop Art', prompt: 'Estilo pop art com pontos Ben-Day, cores primárias saturadas e contornos grossos.', builtIn: true },
+];
+
+export const DEFAULT_STYLE_ID = 'classic';
+
+// What the creation form sends along with the prompt; null leaves the choice to the model.
+export interface GenerationSettings {
+  panelCount: number | null;
+  genre: Genre | null;
+  tone: Tone | null;
+  audience: Audience | null;
+  styleId: string;
+}
+
+export const DEFAULT_GENERATION_SETTINGS: GenerationSettings = {
+  panelCount: null,
+  genre: null,
+  tone: null,
+  audience: null,
+  styleId: DEFAULT_STYLE_ID,
+};
+
+export const findBuiltInStyle = (id: string) => BUILT_IN_STYLES.find(style => style.id === id) || null;
+
+export const isGenre = (value: unknown): value is Genre => GENRES.includes(value as Genre);
+export const isTone = (value: unknown): value is Tone => TONES.includes(value as Tone);
+export const isAudience = (value: unknown): value is Audience => AUDIENCES.includes(value as Audience);
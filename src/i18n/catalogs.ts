@@ -0,0 +1,31 @@
+import ptBR, { MessageKey } from './locales/pt-BR';
+import en from './locales/en';
+import es from './locales/es';
+import fr from './locales/fr';
+import ja from './locales/ja';
+import { Catalog, Message, MessageParams } from './types';
+
+export type { MessageKey };
+
+export const DEFAULT_LOCALE = 'pt-BR';
+
+export const sourceCatalog: Record<MessageKey, Message> = ptBR;
+
+// One catalog per entry of LANGUAGES.
+export const catalogs: Record<string, Catalog> = {
+  'pt-BR': ptBR,
+  en,
+  es,
+  fr,
+  ja
+};
+
+export const PLACEHOLDER_PATTERN = /\{(\w+)\}/g;
+
+export function formatMessage(locale: string, key: MessageKey, params: MessageParams = {}) {
+  const message = catalogs[locale]?.[key] ?? sourceCatalog[key] ?? key;
+  const template = typeof message === 'string'
+    ? message
+    : message[new Intl.PluralRules(locale).select(Number(params.count ?? 0))] ?? message.other;
+  return template.replace(PLACEHOLDER_PATTERN, (match, name) => name in params ? String(params[name]) : match);
+}
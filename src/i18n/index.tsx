@@ -0,0 +1,60 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { LANGUAGES } from '../languages';
+import { catalogs, DEFAULT_LOCALE, formatMessage, MessageKey } from './catalogs';
+import { MessageParams } from './types';
+
+export type { MessageKey };
+
+const STORAGE_KEY = 'minha-hq.locale';
+
+// A saved choice wins; otherwise the first browser language we support, matching
+// on the base language too so that "pt-PT" picks pt-BR and "en-US" picks en.
+export function detectLocale(): string {
+  const saved = localStorage.getItem(STORAGE_KEY);
+  if (saved && catalogs[saved]) return saved;
+
+  const preferred = navigator.languages?.length ? navigator.languages : [navigator.language];
+  for (const candidate of preferred) {
+    const exact = LANGUAGES.find(l => l.code.toLowerCase() === candidate.toLowerCase());
+    if (exact) return exact.code;
+    const base = LANGUAGES.find(l => l.code.split('-')[0] === candidate.split('-')[0].toLowerCase());
+    if (base) return base.code;
+  }
+  return DEFAULT_LOCALE;
+}
+
+interface I18nContextValue {
+  locale: string;
+  setLocale: (locale: string) => void;
+  t: (key: MessageKey, params?: MessageParams) => string;
+}
+
+const I18nContext = createContext<I18nContextValue | null>(null);
+
+export function I18nProvider({ children }: { children: React.ReactNode }) {
+  const [locale, setLocaleState] = useState(detectLocale);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const setLocale = useCallback((next: string) => {
+    if (!catalogs[next]) return;
+    localStorage.setItem(STORAGE_KEY, next);
+    setLocaleState(next);
+  }, []);
+
+  const value = useMemo<I18nContextValue>(() => ({
+    locale,
+    setLocale,
+    t: (key, params) => formatMessage(locale, key, params)
+  }), [locale, setLocale]);
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+}
+
+export function useI18n() {
+  const context = useContext(I18nContext);
+  if (!context) throw new Error('useI18n must be used inside <I18nProvider>');
+  return context;
+}
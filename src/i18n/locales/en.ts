@@ -0,0 +1,390 @@
+import { Catalog } from '../types';
+
+const en: Catalog = {
+  'app.name': 'Minha HQ',
+  'language.select': 'Interface language',
+
+  'home.createComic': 'CREATE NEW COMIC',
+  'home.emptyTitle': 'No comics yet',
+  'home.emptySubtitle': 'Start your journey by creating your first story!',
+  'home.deleteComic': 'Delete comic',
+  'home.deleteConfirm': 'Are you sure you want to delete this comic?',
+  'home.backup': 'Download library backup',
+  'home.import': 'IMPORT',
+  'home.importing': 'IMPORTING...',
+  'home.importHint': 'Import a Minha HQ backup or a CBZ file',
+  'home.importError': 'This file could not be imported.',
+  'characters.title': 'Characters',
+  'characters.manage': 'Manage characters',
+  'characters.close': 'Close',
+  'characters.namePlaceholder': 'Character name',
+  'characters.descriptionPlaceholder': 'Looks, personality, clothes...',
+  'characters.add': 'CREATE CHARACTER',
+  'characters.addPhotos': 'Add photos',
+  'characters.deletePhoto': 'Remove photo',
+  'characters.delete': 'Delete character',
+  'characters.deleteConfirm': 'Delete {name}? Panels already generated will not change.',
+  'characters.empty': 'No characters yet. Create one to reuse it across comics.',
+  'characters.saveError': 'The character could not be saved. Check that no other character has the same name.',
+  'characters.photoCount': {
+    one: '{count} photo',
+    other: '{count} photos'
+  },
+
+  'auth.loginTitle': 'Sign in to your account',
+  'auth.registerTitle': 'Create your account',
+  'auth.username': 'Username',
+  'auth.password': 'Password',
+  'auth.registerHint': 'Usernames use 3 to 32 letters, digits, dots, dashes or underscores; passwords need at least {count} characters.',
+  'auth.loginError': 'Wrong username or password.',
+  'auth.registerError': 'The account could not be created. The username may already be taken.',
+  'auth.login': 'SIGN IN',
+  'auth.register': 'CREATE ACCOUNT',
+  'auth.switchToRegister': "Don't have an account? Create one",
+  'auth.switchToLogin': 'Already have an account? Sign in',
+  'auth.logout': 'Sign out',
+  'users.title': 'Users',
+  'users.close': 'Close',
+  'users.allLibraries': 'VIEW ALL LIBRARIES',
+  'users.comicCount': {
+    one: '{count} comic',
+    other: '{count} comics'
+  },
+  'users.role': 'Role',
+  'users.roles.user': 'User',
+  'users.roles.admin': 'Admin',
+  'users.openLibrary': 'Library',
+  'users.roleError': "This user's role could not be changed.",
+  'users.viewingAll': "You are viewing every user's comics.",
+  'users.viewingLibrary': "You are viewing {name}'s library.",
+  'users.backToMine': 'Back to my library',
+
+  'share.title': 'Share comic',
+  'share.close': 'Close',
+  'share.hint': 'Anyone with the link can read this comic without an account, but cannot edit it.',
+  'share.expiry': 'Link expiry',
+  'share.neverExpires': 'Never expires',
+  'share.expiresIn': {
+    one: 'Expires in {count} day',
+    other: 'Expires in {count} days'
+  },
+  'share.expiresOn': 'Expires on {date}',
+  'share.expired': 'Expired',
+  'share.create': 'CREATE LINK',
+  'share.empty': 'No active links.',
+  'share.copy': 'Copy',
+  'share.copied': 'Copied',
+  'share.revoke': 'Revoke',
+  'share.revokeConfirm': 'Revoke this link? People who have it will no longer be able to read the comic.',
+  'share.error': 'The link could not be created.',
+  'shared.unavailable': 'This link does not exist, was revoked or has expired.',
+  'shared.madeWith': 'Made with {app}',
+
+  'library.searchPlaceholder': 'Search titles, descriptions and dialogue...',
+  'library.sort': 'Sort',
+  'library.sorts.newest': 'Newest first',
+  'library.sorts.oldest': 'Oldest first',
+  'library.sorts.title': 'Title (A–Z)',
+  'library.noResults': 'No comics found',
+  'library.noResultsHint': 'Try another search or clear the tag filter.',
+  'library.loadMore': 'Load more',
+  'library.loadingMore': 'Loading...',
+  'tags.placeholder': 'Add a tag...',
+  'tags.remove': 'Remove tag {tag}',
+  'series.title': 'Series',
+  'series.close': 'Close',
+  'series.navigation': 'Series chapters',
+  'series.previousChapter': 'Previous chapter',
+  'series.nextChapter': 'Next chapter',
+  'series.chapter': 'Chapter',
+  'series.chapterLabel': 'Chapter {number}: {title}',
+  'series.cardLabel': '{series} · Ch. {number}',
+  'series.exportScope': 'What to download',
+  'series.exportChapter': 'This chapter',
+  'series.exportVolume': 'Whole series',
+  'series.continue': 'Continue the story',
+  'series.continueTitle': 'Next chapter',
+  'series.continueHint': 'Chapter {chapter} will be written from the summaries of the earlier chapters, with the same characters.',
+  'series.continuePlaceholder': 'What happens next? (optional)',
+  'series.continueError': 'Could not continue the story. Please try again.',
+  'series.openThreads': 'Open plot points',
+  'series.openThreadsPlaceholder': 'One open plot point per line',
+  'series.summary': 'Summary',
+  'series.summaryPlaceholder': 'What happened in this chapter',
+  'series.notes': 'Notes',
+  'series.saveNotes': 'Save notes',
+  'series.moveUp': 'Move up',
+  'series.moveDown': 'Move down',
+  'series.leave': 'Remove this comic from the series',
+  'series.delete': 'Delete series',
+  'series.deleteConfirm': 'Delete the series? Its chapters stay in the library as standalone comics.',
+  'series.error': 'Could not change the series.',
+  'series.addHint': 'Add this comic to a series to read it as a chapter and continue the story.',
+  'series.addTo': 'Series',
+  'series.newSeries': 'New series',
+  'series.name': 'Series name',
+  'series.add': 'Add to series',
+  'series.chapterCount': {
+    one: '{count} chapter',
+    other: '{count} chapters'
+  },
+  'photo.takePhoto': 'Take photo',
+  'photo.editTitle': 'Prepare photo',
+  'photo.progress': '{current} of {total}',
+  'photo.loadError': 'Could not open this image.',
+  'photo.cropHint': 'Drag the frame to crop; the yellow corner resizes it.',
+  'photo.rotate': 'Rotate',
+  'photo.resetCrop': 'Whole photo',
+  'photo.size': 'Maximum size',
+  'photo.outputSize': 'Will be saved at {width} × {height} px',
+  'photo.skip': 'Discard',
+  'photo.use': 'USE PHOTO',
+  'photo.cancel': 'Cancel',
+  'camera.title': 'Take photo',
+  'camera.hint': 'Center your face inside the frame, in good light.',
+  'camera.capture': 'CAPTURE',
+  'camera.switch': 'Switch camera',
+  'camera.denied': 'Camera access was denied. Allow it in your browser settings to take photos.',
+  'camera.unavailable': 'No camera is available on this device.',
+  'moderation.title': 'Moderation',
+  'moderation.close': 'Close',
+  'moderation.filters.flagged': 'Rejected',
+  'moderation.filters.overridden': 'Decided by an admin',
+  'moderation.filters.all': 'All',
+  'moderation.empty': 'Nothing logged.',
+  'moderation.loadMore': 'Load more',
+  'moderation.actions.allow': 'Allowed',
+  'moderation.actions.rephrase': 'Rephrase',
+  'moderation.actions.block': 'Blocked',
+  'moderation.deletedUser': 'deleted account',
+  'moderation.sources.prompt': 'Prompt',
+  'moderation.sources.output': 'Generated text',
+  'moderation.overridden': '{action} by {name}',
+  'moderation.overrideAllow': 'Allow this text',
+  'moderation.overrideBlock': 'Block this text',
+  'moderation.overrideClear': 'Back to the rules',
+  'moderation.overrideError': 'Could not save the decision.',
+  'moderation.blocked': 'This prompt is not allowed: {reason}.',
+  'moderation.rephrase': 'Please rephrase your prompt: {reason}.',
+  'moderation.storyRejected': 'The generated story was rejected ({reason}). Try again or change the prompt.',
+  'moderation.categories.personal-data': 'it contains an e-mail address, phone number or document number',
+  'moderation.categories.self-harm': 'it mentions suicide or self-harm',
+  'moderation.categories.sexual': 'sexual content',
+  'moderation.categories.violence': 'graphic violence',
+  'moderation.categories.drugs': 'it mentions drugs',
+  'moderation.categories.profanity': 'it contains profanity',
+  'moderation.categories.override': 'blocked by an administrator',
+  'usage.title': 'AI usage',
+  'usage.close': 'Close',
+  'usage.scopes.me': 'Mine',
+  'usage.scopes.all': 'All accounts',
+  'usage.range': 'Period',
+  'usage.lastDays': {
+    one: 'Last day',
+    other: 'Last {count} days'
+  },
+  'usage.loadError': 'Could not load the usage.',
+  'usage.today': 'Today',
+  'usage.thisMonth': 'This month',
+  'usage.quotas': 'Limits',
+  'usage.daily': 'Cost per day',
+  'usage.dayDetail': '{date}: {cost} in {calls} calls, {failures} failed',
+  'usage.byOperation': 'By operation',
+  'usage.empty': 'No calls yet.',
+  'usage.operation': 'Operation',
+  'usage.calls': 'Calls',
+  'usage.failures': 'Failures',
+  'usage.cached': 'Cached',
+  'usage.latency': 'Average time',
+  'usage.cost': 'Cost',
+  'usage.operations.story': 'Stories',
+  'usage.operations.image': 'Images',
+  'usage.operations.translate': 'Translations',
+  'usage.topComics': 'Most expensive comics',
+  'usage.topUsers': 'Top spending accounts',
+  'usage.callCount': {
+    one: '{count} call',
+    other: '{count} calls'
+  },
+  'usage.deletedUser': 'deleted account',
+  'usage.quotaLabels.user.day': 'Your daily limit',
+  'usage.quotaLabels.user.month': 'Your monthly limit',
+  'usage.quotaLabels.global.day': 'Server daily limit',
+  'usage.quotaLabels.global.month': 'Server monthly limit',
+  'usage.quotaEditor': 'Spending limits',
+  'usage.quotaHint': "Estimated amounts in US dollars. A user's own limit replaces the one for all accounts.",
+  'usage.quotaScopes.global': 'Whole server',
+  'usage.quotaScopes.user': 'Each account',
+  'usage.periods.day': 'per day',
+  'usage.periods.month': 'per month',
+  'usage.removeQuota': 'Remove limit',
+  'usage.noQuotas': 'No limits: usage is not restricted.',
+  'usage.quotaScope': 'Applies to',
+  'usage.quotaPeriod': 'Limit period',
+  'usage.limitPlaceholder': 'Limit in US$',
+  'usage.saveQuota': 'Save limit',
+  'usage.quotaError': 'Could not save the limit.',
+  'usage.rateLimited': 'Too many requests in a row. Try again in {seconds} s.',
+  'usage.quotaExceeded.user.day': 'You reached your daily AI spending limit ({limit}). Try again tomorrow.',
+  'usage.quotaExceeded.user.month': 'You reached your monthly AI spending limit ({limit}).',
+  'usage.quotaExceeded.global.day': 'The server reached its daily AI spending limit. Try again tomorrow.',
+  'usage.quotaExceeded.global.month': 'The server reached its monthly AI spending limit.',
+  'reader.read': 'Read',
+  'reader.continue': 'Continue reading ({percent}%)',
+  'reader.readAgain': 'Read again',
+  'reader.progress': '{percent}% read',
+  'reader.close': 'Exit reader',
+  'reader.panelMode': 'One panel at a time',
+  'reader.pageMode': 'One page at a time',
+  'reader.guidedZoom': 'Guided zoom',
+  'reader.play': 'Auto-play',
+  'reader.pause': 'Pause',
+  'reader.interval': 'Time per step',
+  'reader.seconds': '{seconds} s',
+  'reader.fullscreen': 'Full screen',
+  'reader.exitFullscreen': 'Exit full screen',
+  'reader.previous': 'Previous',
+  'reader.next': 'Next',
+  'reader.panelPosition': 'Panel {current} of {total}',
+  'reader.pagePosition': 'Page {current} of {total}',
+  'reader.empty': 'This comic has no panels yet.',
+  'reader.hint': 'Use the arrow keys, swipe or tap the edges to turn; tap the middle to hide the controls.',
+
+  'create.title': 'New Adventure',
+  'create.close': 'Close',
+  'create.promptLabel': 'What is your story about?',
+  'create.promptPlaceholder': 'E.g. A hero who gains powers after eating cheese bread...',
+  'create.charactersLabel': 'Who is in the story?',
+  'create.noCharacters': 'Create characters with photos to cast them in your comics.',
+  'create.panelCount': 'Panels',
+  'create.panelCountAuto': 'Auto',
+  'create.genre': 'Genre',
+  'create.tone': 'Tone',
+  'create.audience': 'Audience',
+  'create.any': 'Any',
+  'create.style': 'Art style',
+  'create.submit': 'CREATE COMIC NOW!',
+  'create.writingScript': 'WRITING SCRIPT...',
+  'create.generatingPanel': 'GENERATING PANEL {current}/{total}',
+  'create.partialFailure': 'Some panels could not be generated. You can retry from the comic page.',
+  'create.error': 'Something went wrong while generating your comic. Please try again.',
+
+  'viewer.back': 'BACK TO MY LIBRARY',
+  'viewer.generatingPanels': 'GENERATING PANELS {current}/{total}',
+  'viewer.failedPanels': {
+    one: '{count} panel could not be generated.',
+    other: '{count} panels could not be generated.'
+  },
+  'viewer.retry': 'TRY AGAIN',
+  'viewer.imageFailed': 'This image could not be generated',
+  'viewer.imagePending': 'Generating image...',
+  'viewer.originalEdition': 'Original',
+  'viewer.retranslate': 'TRANSLATE AGAIN',
+  'viewer.correctTranslation': 'CORRECT TRANSLATION',
+  'viewer.doneCorrecting': 'DONE',
+  'viewer.noEdition': 'This comic has no {language} edition yet.',
+  'viewer.translate': 'TRANSLATE COMIC',
+  'viewer.translating': 'TRANSLATING...',
+  'viewer.translateError': 'Could not translate this comic. Please try again.',
+  'viewer.download': 'DOWNLOAD COMIC',
+  'viewer.exportFormat': 'File format',
+  'viewer.pageSize': 'Page size',
+  'viewer.pageSizeLetter': 'Letter',
+  'viewer.formatBundle': 'Backup (ZIP)',
+  'viewer.switchToList': 'SWITCH TO LIST',
+  'viewer.switchToPages': 'SWITCH TO PAGES',
+  'viewer.edit': 'EDIT COMIC',
+  'viewer.share': 'SHARE',
+  'viewer.editBalloons': 'EDIT BALLOONS',
+  'viewer.doneEditingBalloons': 'DONE WITH BALLOONS',
+  'viewer.page': 'Page {number}',
+  'viewer.pageTemplate': 'Page layout',
+
+  'panel.label': 'Panel {number}',
+  'panel.position': 'Panel {number} of {total}',
+
+  'balloons.add.speech': 'Speech',
+  'balloons.add.thought': 'Thought',
+  'balloons.add.narration': 'Narration',
+  'balloons.delete': 'Delete balloon',
+  'balloons.hint': 'Drag to move; double-click to edit the text. From the keyboard: arrows move, Shift+arrows resize, Enter edits and Delete removes.',
+  'balloons.spoken.narration': 'Narration: {text}',
+  'balloons.spoken.speech': '{speaker} says: {text}',
+  'balloons.spoken.speechUnattributed': 'Speech: {text}',
+  'balloons.spoken.thought': '{speaker} thinks: {text}',
+  'balloons.spoken.thoughtUnattributed': 'Thought: {text}',
+
+  'layouts.grid-2x2': '2 × 2',
+  'layouts.three-tiers': 'Three tiers',
+  'layouts.two-tiers': 'Two tiers',
+  'layouts.wide-plus-two': 'Wide shot + two',
+  'layouts.splash': 'Full-page splash',
+
+  'genres.adventure': 'Adventure',
+  'genres.comedy': 'Comedy',
+  'genres.drama': 'Drama',
+  'genres.fantasy': 'Fantasy',
+  'genres.horror': 'Horror',
+  'genres.mystery': 'Mystery',
+  'genres.romance': 'Romance',
+  'genres.science-fiction': 'Science fiction',
+  'genres.slice-of-life': 'Slice of life',
+  'genres.superhero': 'Superhero',
+
+  'tones.lighthearted': 'Lighthearted',
+  'tones.heartfelt': 'Heartfelt',
+  'tones.epic': 'Epic',
+  'tones.dark': 'Dark',
+  'tones.absurd': 'Absurd',
+
+  'audiences.kids': 'Kids',
+  'audiences.teens': 'Teens',
+  'audiences.adults': 'Adults',
+
+  'styles.classic': 'Classic',
+  'styles.manga': 'Manga',
+  'styles.noir': 'Noir',
+  'styles.watercolor': 'Watercolour',
+  'styles.franco-belgian': 'Franco-Belgian',
+  'styles.pop-art': 'Pop art',
+  'styles.new': 'New style',
+  'styles.namePlaceholder': 'Style name',
+  'styles.promptPlaceholder': 'Describe the linework, colours, technique...',
+  'styles.save': 'SAVE STYLE',
+  'styles.delete': 'Delete style',
+  'styles.saveError': 'Could not save the style. Check that no other style has the same name.',
+
+  'editor.back': 'BACK TO THE COMIC',
+  'editor.insertHere': 'INSERT PANEL HERE',
+  'editor.addAtEnd': 'ADD PANEL AT THE END',
+  'editor.dragToReorder': 'Drag to reorder',
+  'editor.deletePanel': 'Delete panel',
+  'editor.deletePanelConfirm': 'Are you sure you want to delete this panel?',
+  'editor.captionPlaceholder': 'Panel caption',
+  'editor.scenePlaceholder': 'Describe the scene to generate a new image...',
+  'editor.altText': 'Alt text',
+  'editor.altTextPlaceholder': 'Describe what the image shows...',
+  'editor.altTextHint': 'Read by screen readers in place of the image. When blank, the description the image was generated from is used.',
+  'editor.regenerate': 'REGENERATE',
+  'editor.regenerateError': 'Could not generate a new image for this panel.',
+  'editor.panelSaveError': 'Could not save the changes to this panel.',
+  'editor.characters': 'Characters in this panel',
+  'editor.undo': 'Undo',
+  'editor.redo': 'Redo',
+  'editor.variants': 'Image versions',
+  'editor.alternatives': 'How many images to generate',
+  'editor.generateAlternatives': 'GENERATE {count} ALTERNATIVES',
+  'editor.deleteVariant': 'Delete version',
+  'editor.pruneVariants': 'Clean up versions',
+  'editor.pruneConfirm': 'Delete every unused version in this comic? The undo history will be cleared too.',
+  'editor.pruned': {
+    one: '{count} version deleted.',
+    other: '{count} versions deleted.'
+  },
+
+  'footer.tagline': 'The AI comic book revolution.',
+  'footer.availableOnAppStore': 'Download on the',
+  'footer.availableOnGooglePlay': 'Get it on'
+};
+
+export default en;
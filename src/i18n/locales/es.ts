@@ -0,0 +1,390 @@
+import { Catalog } from '../types';
+
+const es: Catalog = {
+  'app.name': 'Minha HQ',
+  'language.select': 'Idioma de la interfaz',
+
+  'home.createComic': 'CREAR NUEVO CÓMIC',
+  'home.emptyTitle': 'Todavía no hay cómics',
+  'home.emptySubtitle': '¡Empieza tu aventura creando tu primera historia!',
+  'home.deleteComic': 'Eliminar cómic',
+  'home.deleteConfirm': '¿Seguro que quieres eliminar este cómic?',
+  'home.backup': 'Descargar copia de seguridad de la biblioteca',
+  'home.import': 'IMPORTAR',
+  'home.importing': 'IMPORTANDO...',
+  'home.importHint': 'Importar una copia de seguridad de Minha HQ o un archivo CBZ',
+  'home.importError': 'No se pudo importar este archivo.',
+  'characters.title': 'Personajes',
+  'characters.manage': 'Gestionar personajes',
+  'characters.close': 'Cerrar',
+  'characters.namePlaceholder': 'Nombre del personaje',
+  'characters.descriptionPlaceholder': 'Aspecto, personalidad, ropa...',
+  'characters.add': 'CREAR PERSONAJE',
+  'characters.addPhotos': 'Añadir fotos',
+  'characters.deletePhoto': 'Quitar foto',
+  'characters.delete': 'Eliminar personaje',
+  'characters.deleteConfirm': '¿Eliminar a {name}? Las viñetas ya generadas no cambiarán.',
+  'characters.empty': 'Todavía no hay personajes. Crea uno para reutilizarlo en varios cómics.',
+  'characters.saveError': 'No se pudo guardar el personaje. Comprueba que no exista otro con el mismo nombre.',
+  'characters.photoCount': {
+    one: '{count} foto',
+    other: '{count} fotos'
+  },
+
+  'auth.loginTitle': 'Inicia sesión en tu cuenta',
+  'auth.registerTitle': 'Crea tu cuenta',
+  'auth.username': 'Usuario',
+  'auth.password': 'Contraseña',
+  'auth.registerHint': 'El usuario lleva de 3 a 32 letras, números, puntos, guiones o guiones bajos; la contraseña, al menos {count} caracteres.',
+  'auth.loginError': 'Usuario o contraseña incorrectos.',
+  'auth.registerError': 'No se pudo crear la cuenta. Puede que el usuario ya exista.',
+  'auth.login': 'ENTRAR',
+  'auth.register': 'CREAR CUENTA',
+  'auth.switchToRegister': '¿No tienes cuenta? Crea una',
+  'auth.switchToLogin': '¿Ya tienes cuenta? Inicia sesión',
+  'auth.logout': 'Cerrar sesión',
+  'users.title': 'Usuarios',
+  'users.close': 'Cerrar',
+  'users.allLibraries': 'VER TODAS LAS BIBLIOTECAS',
+  'users.comicCount': {
+    one: '{count} cómic',
+    other: '{count} cómics'
+  },
+  'users.role': 'Rol',
+  'users.roles.user': 'Usuario',
+  'users.roles.admin': 'Administrador',
+  'users.openLibrary': 'Biblioteca',
+  'users.roleError': 'No se pudo cambiar el rol de este usuario.',
+  'users.viewingAll': 'Estás viendo los cómics de todos los usuarios.',
+  'users.viewingLibrary': 'Estás viendo la biblioteca de {name}.',
+  'users.backToMine': 'Volver a mi biblioteca',
+
+  'share.title': 'Compartir cómic',
+  'share.close': 'Cerrar',
+  'share.hint': 'Quien tenga el enlace puede leer este cómic sin cuenta, pero no editarlo.',
+  'share.expiry': 'Caducidad del enlace',
+  'share.neverExpires': 'No caduca',
+  'share.expiresIn': {
+    one: 'Caduca en {count} día',
+    other: 'Caduca en {count} días'
+  },
+  'share.expiresOn': 'Caduca el {date}',
+  'share.expired': 'Caducado',
+  'share.create': 'CREAR ENLACE',
+  'share.empty': 'No hay enlaces activos.',
+  'share.copy': 'Copiar',
+  'share.copied': 'Copiado',
+  'share.revoke': 'Revocar',
+  'share.revokeConfirm': '¿Revocar este enlace? Quien lo tenga ya no podrá leer el cómic.',
+  'share.error': 'No se pudo crear el enlace.',
+  'shared.unavailable': 'Este enlace no existe, fue revocado o ha caducado.',
+  'shared.madeWith': 'Hecho con {app}',
+
+  'library.searchPlaceholder': 'Buscar por título, descripción o diálogos...',
+  'library.sort': 'Ordenar',
+  'library.sorts.newest': 'Más recientes',
+  'library.sorts.oldest': 'Más antiguos',
+  'library.sorts.title': 'Título (A–Z)',
+  'library.noResults': 'No se encontraron cómics',
+  'library.noResultsHint': 'Prueba otra búsqueda o quita el filtro de etiqueta.',
+  'library.loadMore': 'Cargar más',
+  'library.loadingMore': 'Cargando...',
+  'tags.placeholder': 'Añadir etiqueta...',
+  'tags.remove': 'Quitar etiqueta {tag}',
+  'series.title': 'Serie',
+  'series.close': 'Cerrar',
+  'series.navigation': 'Capítulos de la serie',
+  'series.previousChapter': 'Capítulo anterior',
+  'series.nextChapter': 'Capítulo siguiente',
+  'series.chapter': 'Capítulo',
+  'series.chapterLabel': 'Capítulo {number}: {title}',
+  'series.cardLabel': '{series} · Cap. {number}',
+  'series.exportScope': 'Qué descargar',
+  'series.exportChapter': 'Este capítulo',
+  'series.exportVolume': 'Serie completa',
+  'series.continue': 'Continuar la historia',
+  'series.continueTitle': 'Siguiente capítulo',
+  'series.continueHint': 'El capítulo {chapter} se escribirá a partir de los resúmenes de los capítulos anteriores, con los mismos personajes.',
+  'series.continuePlaceholder': '¿Qué pasa ahora? (opcional)',
+  'series.continueError': 'No se pudo continuar la historia. Inténtalo de nuevo.',
+  'series.openThreads': 'Tramas abiertas',
+  'series.openThreadsPlaceholder': 'Una trama abierta por línea',
+  'series.summary': 'Resumen',
+  'series.summaryPlaceholder': 'Lo que pasó en este capítulo',
+  'series.notes': 'Notas',
+  'series.saveNotes': 'Guardar notas',
+  'series.moveUp': 'Subir',
+  'series.moveDown': 'Bajar',
+  'series.leave': 'Quitar este cómic de la serie',
+  'series.delete': 'Eliminar serie',
+  'series.deleteConfirm': '¿Eliminar la serie? Sus capítulos quedan en la biblioteca como cómics sueltos.',
+  'series.error': 'No se pudo cambiar la serie.',
+  'series.addHint': 'Añade este cómic a una serie para leerlo como capítulo y continuar la historia.',
+  'series.addTo': 'Serie',
+  'series.newSeries': 'Nueva serie',
+  'series.name': 'Nombre de la serie',
+  'series.add': 'Añadir a la serie',
+  'series.chapterCount': {
+    one: '{count} capítulo',
+    other: '{count} capítulos'
+  },
+  'photo.takePhoto': 'Tomar foto',
+  'photo.editTitle': 'Preparar foto',
+  'photo.progress': '{current} de {total}',
+  'photo.loadError': 'No se pudo abrir esta imagen.',
+  'photo.cropHint': 'Arrastra el marco para recortar; la esquina amarilla cambia el tamaño.',
+  'photo.rotate': 'Girar',
+  'photo.resetCrop': 'Foto completa',
+  'photo.size': 'Tamaño máximo',
+  'photo.outputSize': 'Se guardará con {width} × {height} px',
+  'photo.skip': 'Descartar',
+  'photo.use': 'USAR FOTO',
+  'photo.cancel': 'Cancelar',
+  'camera.title': 'Tomar foto',
+  'camera.hint': 'Centra tu rostro dentro del marco, con buena luz.',
+  'camera.capture': 'CAPTURAR',
+  'camera.switch': 'Cambiar cámara',
+  'camera.denied': 'Se denegó el acceso a la cámara. Permítelo en la configuración del navegador para tomar fotos.',
+  'camera.unavailable': 'No hay ninguna cámara disponible en este dispositivo.',
+  'moderation.title': 'Moderación',
+  'moderation.close': 'Cerrar',
+  'moderation.filters.flagged': 'Rechazados',
+  'moderation.filters.overridden': 'Decididos por un admin',
+  'moderation.filters.all': 'Todos',
+  'moderation.empty': 'Ningún registro.',
+  'moderation.loadMore': 'Cargar más',
+  'moderation.actions.allow': 'Permitido',
+  'moderation.actions.rephrase': 'Reformular',
+  'moderation.actions.block': 'Bloqueado',
+  'moderation.deletedUser': 'cuenta eliminada',
+  'moderation.sources.prompt': 'Pedido',
+  'moderation.sources.output': 'Texto generado',
+  'moderation.overridden': '{action} por {name}',
+  'moderation.overrideAllow': 'Permitir este texto',
+  'moderation.overrideBlock': 'Bloquear este texto',
+  'moderation.overrideClear': 'Volver a las reglas',
+  'moderation.overrideError': 'No se pudo guardar la decisión.',
+  'moderation.blocked': 'Este pedido no está permitido: {reason}.',
+  'moderation.rephrase': 'Reformula el pedido: {reason}.',
+  'moderation.storyRejected': 'La historia generada fue rechazada ({reason}). Inténtalo de nuevo o cambia el pedido.',
+  'moderation.categories.personal-data': 'contiene un correo, teléfono o número de documento',
+  'moderation.categories.self-harm': 'habla de suicidio o autolesiones',
+  'moderation.categories.sexual': 'contenido sexual',
+  'moderation.categories.violence': 'violencia explícita',
+  'moderation.categories.drugs': 'habla de drogas',
+  'moderation.categories.profanity': 'contiene palabrotas',
+  'moderation.categories.override': 'bloqueado por un administrador',
+  'usage.title': 'Uso de IA',
+  'usage.close': 'Cerrar',
+  'usage.scopes.me': 'Mi uso',
+  'usage.scopes.all': 'Todas las cuentas',
+  'usage.range': 'Periodo',
+  'usage.lastDays': {
+    one: 'Último día',
+    other: 'Últimos {count} días'
+  },
+  'usage.loadError': 'No se pudo cargar el uso.',
+  'usage.today': 'Hoy',
+  'usage.thisMonth': 'Este mes',
+  'usage.quotas': 'Límites',
+  'usage.daily': 'Costo por día',
+  'usage.dayDetail': '{date}: {cost} en {calls} llamadas, {failures} con error',
+  'usage.byOperation': 'Por operación',
+  'usage.empty': 'Todavía no hay llamadas.',
+  'usage.operation': 'Operación',
+  'usage.calls': 'Llamadas',
+  'usage.failures': 'Errores',
+  'usage.cached': 'En caché',
+  'usage.latency': 'Tiempo medio',
+  'usage.cost': 'Costo',
+  'usage.operations.story': 'Historias',
+  'usage.operations.image': 'Imágenes',
+  'usage.operations.translate': 'Traducciones',
+  'usage.topComics': 'Cómics más caros',
+  'usage.topUsers': 'Cuentas con más gasto',
+  'usage.callCount': {
+    one: '{count} llamada',
+    other: '{count} llamadas'
+  },
+  'usage.deletedUser': 'cuenta eliminada',
+  'usage.quotaLabels.user.day': 'Tu límite diario',
+  'usage.quotaLabels.user.month': 'Tu límite mensual',
+  'usage.quotaLabels.global.day': 'Límite diario del servidor',
+  'usage.quotaLabels.global.month': 'Límite mensual del servidor',
+  'usage.quotaEditor': 'Límites de gasto',
+  'usage.quotaHint': 'Importes estimados en dólares. El límite de un usuario reemplaza al de todas las cuentas.',
+  'usage.quotaScopes.global': 'Servidor completo',
+  'usage.quotaScopes.user': 'Cada cuenta',
+  'usage.periods.day': 'por día',
+  'usage.periods.month': 'por mes',
+  'usage.removeQuota': 'Quitar límite',
+  'usage.noQuotas': 'Sin límites: el uso no está restringido.',
+  'usage.quotaScope': 'Se aplica a',
+  'usage.quotaPeriod': 'Periodo del límite',
+  'usage.limitPlaceholder': 'Límite en US$',
+  'usage.saveQuota': 'Guardar límite',
+  'usage.quotaError': 'No se pudo guardar el límite.',
+  'usage.rateLimited': 'Demasiadas solicitudes seguidas. Inténtalo de nuevo en {seconds} s.',
+  'usage.quotaExceeded.user.day': 'Alcanzaste tu límite diario de uso de IA ({limit}). Inténtalo de nuevo mañana.',
+  'usage.quotaExceeded.user.month': 'Alcanzaste tu límite mensual de uso de IA ({limit}).',
+  'usage.quotaExceeded.global.day': 'El servidor alcanzó su límite diario de uso de IA. Inténtalo de nuevo mañana.',
+  'usage.quotaExceeded.global.month': 'El servidor alcanzó su límite mensual de uso de IA.',
+  'reader.read': 'Leer',
+  'reader.continue': 'Seguir leyendo ({percent} %)',
+  'reader.readAgain': 'Volver a leer',
+  'reader.progress': '{percent} % leído',
+  'reader.close': 'Salir del lector',
+  'reader.panelMode': 'Una viñeta a la vez',
+  'reader.pageMode': 'Una página a la vez',
+  'reader.guidedZoom': 'Zoom guiado',
+  'reader.play': 'Reproducción automática',
+  'reader.pause': 'Pausar',
+  'reader.interval': 'Tiempo por paso',
+  'reader.seconds': '{seconds} s',
+  'reader.fullscreen': 'Pantalla completa',
+  'reader.exitFullscreen': 'Salir de pantalla completa',
+  'reader.previous': 'Anterior',
+  'reader.next': 'Siguiente',
+  'reader.panelPosition': 'Viñeta {current} de {total}',
+  'reader.pagePosition': 'Página {current} de {total}',
+  'reader.empty': 'Este cómic aún no tiene viñetas.',
+  'reader.hint': 'Usa las flechas, desliza o toca los bordes para pasar; toca el centro para ocultar los controles.',
+
+  'create.title': 'Nueva Aventura',
+  'create.close': 'Cerrar',
+  'create.promptLabel': '¿De qué trata tu historia?',
+  'create.promptPlaceholder': 'Ej.: Un héroe que obtiene poderes al comer pan de queso...',
+  'create.charactersLabel': '¿Quién aparece en la historia?',
+  'create.noCharacters': 'Crea personajes con fotos para que aparezcan en tus cómics.',
+  'create.panelCount': 'Viñetas',
+  'create.panelCountAuto': 'Auto',
+  'create.genre': 'Género',
+  'create.tone': 'Tono',
+  'create.audience': 'Público',
+  'create.any': 'Cualquiera',
+  'create.style': 'Estilo artístico',
+  'create.submit': '¡CREAR CÓMIC AHORA!',
+  'create.writingScript': 'ESCRIBIENDO GUION...',
+  'create.generatingPanel': 'GENERANDO VIÑETA {current}/{total}',
+  'create.partialFailure': 'Algunas viñetas no se pudieron generar. Puedes reintentarlo desde la página del cómic.',
+  'create.error': 'Ocurrió un error al generar tu cómic. Inténtalo de nuevo.',
+
+  'viewer.back': 'VOLVER A MI BIBLIOTECA',
+  'viewer.generatingPanels': 'GENERANDO VIÑETAS {current}/{total}',
+  'viewer.failedPanels': {
+    one: '{count} viñeta no se pudo generar.',
+    other: '{count} viñetas no se pudieron generar.'
+  },
+  'viewer.retry': 'REINTENTAR',
+  'viewer.imageFailed': 'No se pudo generar esta imagen',
+  'viewer.imagePending': 'Generando imagen...',
+  'viewer.originalEdition': 'Original',
+  'viewer.retranslate': 'VOLVER A TRADUCIR',
+  'viewer.correctTranslation': 'CORREGIR TRADUCCIÓN',
+  'viewer.doneCorrecting': 'LISTO',
+  'viewer.noEdition': 'Este cómic aún no tiene una edición en {language}.',
+  'viewer.translate': 'TRADUCIR CÓMIC',
+  'viewer.translating': 'TRADUCIENDO...',
+  'viewer.translateError': 'No se pudo traducir este cómic. Inténtalo de nuevo.',
+  'viewer.download': 'DESCARGAR CÓMIC',
+  'viewer.exportFormat': 'Formato de archivo',
+  'viewer.pageSize': 'Tamaño de página',
+  'viewer.pageSizeLetter': 'Carta',
+  'viewer.formatBundle': 'Copia de seguridad (ZIP)',
+  'viewer.switchToList': 'VER COMO LISTA',
+  'viewer.switchToPages': 'VER COMO PÁGINAS',
+  'viewer.edit': 'EDITAR CÓMIC',
+  'viewer.share': 'COMPARTIR',
+  'viewer.editBalloons': 'EDITAR BOCADILLOS',
+  'viewer.doneEditingBalloons': 'TERMINAR BOCADILLOS',
+  'viewer.page': 'Página {number}',
+  'viewer.pageTemplate': 'Diseño de la página',
+
+  'panel.label': 'Viñeta {number}',
+  'panel.position': 'Viñeta {number} de {total}',
+
+  'balloons.add.speech': 'Diálogo',
+  'balloons.add.thought': 'Pensamiento',
+  'balloons.add.narration': 'Narración',
+  'balloons.delete': 'Eliminar bocadillo',
+  'balloons.hint': 'Arrastra para mover; haz doble clic para editar el texto. Con el teclado: las flechas mueven, Mayús+flechas redimensionan, Intro edita y Supr elimina.',
+  'balloons.spoken.narration': 'Narración: {text}',
+  'balloons.spoken.speech': '{speaker} dice: {text}',
+  'balloons.spoken.speechUnattributed': 'Diálogo: {text}',
+  'balloons.spoken.thought': '{speaker} piensa: {text}',
+  'balloons.spoken.thoughtUnattributed': 'Pensamiento: {text}',
+
+  'layouts.grid-2x2': '2 × 2',
+  'layouts.three-tiers': 'Tres franjas',
+  'layouts.two-tiers': 'Dos franjas',
+  'layouts.wide-plus-two': 'Plano general + dos',
+  'layouts.splash': 'Página completa',
+
+  'genres.adventure': 'Aventura',
+  'genres.comedy': 'Comedia',
+  'genres.drama': 'Drama',
+  'genres.fantasy': 'Fantasía',
+  'genres.horror': 'Terror',
+  'genres.mystery': 'Misterio',
+  'genres.romance': 'Romance',
+  'genres.science-fiction': 'Ciencia ficción',
+  'genres.slice-of-life': 'Vida cotidiana',
+  'genres.superhero': 'Superhéroes',
+
+  'tones.lighthearted': 'Ligero',
+  'tones.heartfelt': 'Emotivo',
+  'tones.epic': 'Épico',
+  'tones.dark': 'Oscuro',
+  'tones.absurd': 'Absurdo',
+
+  'audiences.kids': 'Niños',
+  'audiences.teens': 'Adolescentes',
+  'audiences.adults': 'Adultos',
+
+  'styles.classic': 'Clásico',
+  'styles.manga': 'Manga',
+  'styles.noir': 'Noir',
+  'styles.watercolor': 'Acuarela',
+  'styles.franco-belgian': 'Franco-belga',
+  'styles.pop-art': 'Pop art',
+  'styles.new': 'Nuevo estilo',
+  'styles.namePlaceholder': 'Nombre del estilo',
+  'styles.promptPlaceholder': 'Describe el trazo, los colores, la técnica...',
+  'styles.save': 'GUARDAR ESTILO',
+  'styles.delete': 'Eliminar estilo',
+  'styles.saveError': 'No se pudo guardar el estilo. Comprueba que no exista otro con el mismo nombre.',
+
+  'editor.back': 'VOLVER AL CÓMIC',
+  'editor.insertHere': 'INSERTAR VIÑETA AQUÍ',
+  'editor.addAtEnd': 'AÑADIR VIÑETA AL FINAL',
+  'editor.dragToReorder': 'Arrastra para reordenar',
+  'editor.deletePanel': 'Eliminar viñeta',
+  'editor.deletePanelConfirm': '¿Seguro que quieres eliminar esta viñeta?',
+  'editor.captionPlaceholder': 'Texto de la viñeta',
+  'editor.scenePlaceholder': 'Describe la escena para generar una nueva imagen...',
+  'editor.altText': 'Texto alternativo',
+  'editor.altTextPlaceholder': 'Describe lo que muestra la imagen...',
+  'editor.altTextHint': 'Los lectores de pantalla lo leen en lugar de la imagen. Si está vacío, se usa la descripción con la que se generó la imagen.',
+  'editor.regenerate': 'REGENERAR',
+  'editor.regenerateError': 'No se pudo generar una nueva imagen para esta viñeta.',
+  'editor.panelSaveError': 'No se pudieron guardar los cambios de esta viñeta.',
+  'editor.characters': 'Personajes en esta viñeta',
+  'editor.undo': 'Deshacer',
+  'editor.redo': 'Rehacer',
+  'editor.variants': 'Versiones de la imagen',
+  'editor.alternatives': 'Cuántas imágenes generar',
+  'editor.generateAlternatives': 'GENERAR {count} ALTERNATIVAS',
+  'editor.deleteVariant': 'Eliminar versión',
+  'editor.pruneVariants': 'Limpiar versiones',
+  'editor.pruneConfirm': '¿Eliminar todas las versiones sin usar de este cómic? El historial de deshacer también se borrará.',
+  'editor.pruned': {
+    one: '{count} versión eliminada.',
+    other: '{count} versiones eliminadas.'
+  },
+
+  'footer.tagline': 'La revolución de los cómics con IA.',
+  'footer.availableOnAppStore': 'Disponible en',
+  'footer.availableOnGooglePlay': 'Disponible en'
+};
+
+export default es;
@@ -0,0 +1,390 @@
+import { Catalog } from '../types';
+
+const fr: Catalog = {
+  'app.name': 'Minha HQ',
+  'language.select': "Langue de l'interface",
+
+  'home.createComic': 'CRÉER UNE BD',
+  'home.emptyTitle': 'Aucune BD pour le moment',
+  'home.emptySubtitle': 'Commencez votre aventure en créant votre première histoire !',
+  'home.deleteComic': 'Supprimer la BD',
+  'home.deleteConfirm': 'Voulez-vous vraiment supprimer cette BD ?',
+  'home.backup': 'Télécharger la sauvegarde de la bibliothèque',
+  'home.import': 'IMPORTER',
+  'home.importing': 'IMPORTATION...',
+  'home.importHint': 'Importer une sauvegarde Minha HQ ou un fichier CBZ',
+  'home.importError': "Impossible d'importer ce fichier.",
+  'characters.title': 'Personnages',
+  'characters.manage': 'Gérer les personnages',
+  'characters.close': 'Fermer',
+  'characters.namePlaceholder': 'Nom du personnage',
+  'characters.descriptionPlaceholder': 'Apparence, personnalité, vêtements...',
+  'characters.add': 'CRÉER UN PERSONNAGE',
+  'characters.addPhotos': 'Ajouter des photos',
+  'characters.deletePhoto': 'Retirer la photo',
+  'characters.delete': 'Supprimer le personnage',
+  'characters.deleteConfirm': 'Supprimer {name} ? Les cases déjà générées ne changeront pas.',
+  'characters.empty': "Aucun personnage pour l'instant. Créez-en un pour le réutiliser dans plusieurs BD.",
+  'characters.saveError': "Impossible d'enregistrer le personnage. Vérifiez qu'aucun autre ne porte le même nom.",
+  'characters.photoCount': {
+    one: '{count} photo',
+    other: '{count} photos'
+  },
+
+  'auth.loginTitle': 'Connectez-vous à votre compte',
+  'auth.registerTitle': 'Créez votre compte',
+  'auth.username': "Nom d'utilisateur",
+  'auth.password': 'Mot de passe',
+  'auth.registerHint': "Le nom d'utilisateur compte de 3 à 32 lettres, chiffres, points, tirets ou tirets bas ; le mot de passe au moins {count} caractères.",
+  'auth.loginError': "Nom d'utilisateur ou mot de passe incorrect.",
+  'auth.registerError': "Le compte n'a pas pu être créé. Ce nom d'utilisateur est peut-être déjà pris.",
+  'auth.login': 'SE CONNECTER',
+  'auth.register': 'CRÉER UN COMPTE',
+  'auth.switchToRegister': 'Pas encore de compte ? Créez-en un',
+  'auth.switchToLogin': 'Déjà un compte ? Connectez-vous',
+  'auth.logout': 'Se déconnecter',
+  'users.title': 'Utilisateurs',
+  'users.close': 'Fermer',
+  'users.allLibraries': 'VOIR TOUTES LES BIBLIOTHÈQUES',
+  'users.comicCount': {
+    one: '{count} BD',
+    other: '{count} BD'
+  },
+  'users.role': 'Rôle',
+  'users.roles.user': 'Utilisateur',
+  'users.roles.admin': 'Administrateur',
+  'users.openLibrary': 'Bibliothèque',
+  'users.roleError': "Le rôle de cet utilisateur n'a pas pu être modifié.",
+  'users.viewingAll': 'Vous voyez les BD de tous les utilisateurs.',
+  'users.viewingLibrary': 'Vous voyez la bibliothèque de {name}.',
+  'users.backToMine': 'Revenir à ma bibliothèque',
+
+  'share.title': 'Partager la BD',
+  'share.close': 'Fermer',
+  'share.hint': 'Toute personne ayant le lien peut lire cette BD sans compte, mais pas la modifier.',
+  'share.expiry': 'Expiration du lien',
+  'share.neverExpires': "N'expire jamais",
+  'share.expiresIn': {
+    one: 'Expire dans {count} jour',
+    other: 'Expire dans {count} jours'
+  },
+  'share.expiresOn': 'Expire le {date}',
+  'share.expired': 'Expiré',
+  'share.create': 'CRÉER UN LIEN',
+  'share.empty': 'Aucun lien actif.',
+  'share.copy': 'Copier',
+  'share.copied': 'Copié',
+  'share.revoke': 'Révoquer',
+  'share.revokeConfirm': 'Révoquer ce lien ? Les personnes qui l’ont ne pourront plus lire la BD.',
+  'share.error': "Le lien n'a pas pu être créé.",
+  'shared.unavailable': "Ce lien n'existe pas, a été révoqué ou a expiré.",
+  'shared.madeWith': 'Créé avec {app}',
+
+  'library.searchPlaceholder': 'Rechercher titres, descriptions et dialogues...',
+  'library.sort': 'Trier',
+  'library.sorts.newest': 'Plus récentes',
+  'library.sorts.oldest': 'Plus anciennes',
+  'library.sorts.title': 'Titre (A–Z)',
+  'library.noResults': 'Aucune BD trouvée',
+  'library.noResultsHint': "Essayez une autre recherche ou retirez le filtre d'étiquette.",
+  'library.loadMore': 'Charger plus',
+  'library.loadingMore': 'Chargement...',
+  'tags.placeholder': 'Ajouter une étiquette...',
+  'tags.remove': "Retirer l'étiquette {tag}",
+  'series.title': 'Série',
+  'series.close': 'Fermer',
+  'series.navigation': 'Chapitres de la série',
+  'series.previousChapter': 'Chapitre précédent',
+  'series.nextChapter': 'Chapitre suivant',
+  'series.chapter': 'Chapitre',
+  'series.chapterLabel': 'Chapitre {number} : {title}',
+  'series.cardLabel': '{series} · Ch. {number}',
+  'series.exportScope': 'Que télécharger',
+  'series.exportChapter': 'Ce chapitre',
+  'series.exportVolume': 'Toute la série',
+  'series.continue': "Continuer l'histoire",
+  'series.continueTitle': 'Chapitre suivant',
+  'series.continueHint': 'Le chapitre {chapter} sera écrit à partir des résumés des chapitres précédents, avec les mêmes personnages.',
+  'series.continuePlaceholder': 'Que se passe-t-il ensuite ? (facultatif)',
+  'series.continueError': "Impossible de continuer l'histoire. Veuillez réessayer.",
+  'series.openThreads': 'Intrigues en suspens',
+  'series.openThreadsPlaceholder': 'Une intrigue en suspens par ligne',
+  'series.summary': 'Résumé',
+  'series.summaryPlaceholder': 'Ce qui s’est passé dans ce chapitre',
+  'series.notes': 'Notes',
+  'series.saveNotes': 'Enregistrer les notes',
+  'series.moveUp': 'Monter',
+  'series.moveDown': 'Descendre',
+  'series.leave': 'Retirer cette BD de la série',
+  'series.delete': 'Supprimer la série',
+  'series.deleteConfirm': 'Supprimer la série ? Ses chapitres restent dans la bibliothèque comme BD indépendantes.',
+  'series.error': 'Impossible de modifier la série.',
+  'series.addHint': "Ajoutez cette BD à une série pour la lire comme un chapitre et continuer l'histoire.",
+  'series.addTo': 'Série',
+  'series.newSeries': 'Nouvelle série',
+  'series.name': 'Nom de la série',
+  'series.add': 'Ajouter à la série',
+  'series.chapterCount': {
+    one: '{count} chapitre',
+    other: '{count} chapitres'
+  },
+  'photo.takePhoto': 'Prendre une photo',
+  'photo.editTitle': 'Préparer la photo',
+  'photo.progress': '{current} sur {total}',
+  'photo.loadError': "Impossible d'ouvrir cette image.",
+  'photo.cropHint': 'Faites glisser le cadre pour recadrer ; le coin jaune le redimensionne.',
+  'photo.rotate': 'Pivoter',
+  'photo.resetCrop': 'Photo entière',
+  'photo.size': 'Taille maximale',
+  'photo.outputSize': 'Sera enregistrée en {width} × {height} px',
+  'photo.skip': 'Ignorer',
+  'photo.use': 'UTILISER LA PHOTO',
+  'photo.cancel': 'Annuler',
+  'camera.title': 'Prendre une photo',
+  'camera.hint': 'Centrez votre visage dans le cadre, avec un bon éclairage.',
+  'camera.capture': 'CAPTURER',
+  'camera.switch': 'Changer de caméra',
+  'camera.denied': "L'accès à la caméra a été refusé. Autorisez-le dans les réglages du navigateur pour prendre des photos.",
+  'camera.unavailable': "Aucune caméra n'est disponible sur cet appareil.",
+  'moderation.title': 'Modération',
+  'moderation.close': 'Fermer',
+  'moderation.filters.flagged': 'Refusés',
+  'moderation.filters.overridden': 'Décidés par un admin',
+  'moderation.filters.all': 'Tous',
+  'moderation.empty': 'Aucune entrée.',
+  'moderation.loadMore': 'Charger plus',
+  'moderation.actions.allow': 'Autorisé',
+  'moderation.actions.rephrase': 'À reformuler',
+  'moderation.actions.block': 'Bloqué',
+  'moderation.deletedUser': 'compte supprimé',
+  'moderation.sources.prompt': 'Demande',
+  'moderation.sources.output': 'Texte généré',
+  'moderation.overridden': '{action} par {name}',
+  'moderation.overrideAllow': 'Autoriser ce texte',
+  'moderation.overrideBlock': 'Bloquer ce texte',
+  'moderation.overrideClear': 'Revenir aux règles',
+  'moderation.overrideError': "Impossible d'enregistrer la décision.",
+  'moderation.blocked': "Cette demande n'est pas autorisée : {reason}.",
+  'moderation.rephrase': 'Reformulez votre demande : {reason}.',
+  'moderation.storyRejected': "L'histoire générée a été refusée ({reason}). Réessayez ou modifiez la demande.",
+  'moderation.categories.personal-data': 'elle contient une adresse e-mail, un numéro de téléphone ou de document',
+  'moderation.categories.self-harm': "elle parle de suicide ou d'automutilation",
+  'moderation.categories.sexual': 'contenu sexuel',
+  'moderation.categories.violence': 'violence explicite',
+  'moderation.categories.drugs': 'elle parle de drogues',
+  'moderation.categories.profanity': 'elle contient des grossièretés',
+  'moderation.categories.override': 'bloqué par un administrateur',
+  'usage.title': "Utilisation de l'IA",
+  'usage.close': 'Fermer',
+  'usage.scopes.me': 'Le mien',
+  'usage.scopes.all': 'Tous les comptes',
+  'usage.range': 'Période',
+  'usage.lastDays': {
+    one: 'Dernier jour',
+    other: '{count} derniers jours'
+  },
+  'usage.loadError': "Impossible de charger l'utilisation.",
+  'usage.today': "Aujourd'hui",
+  'usage.thisMonth': 'Ce mois-ci',
+  'usage.quotas': 'Limites',
+  'usage.daily': 'Coût par jour',
+  'usage.dayDetail': '{date} : {cost} pour {calls} appels, {failures} en échec',
+  'usage.byOperation': 'Par opération',
+  'usage.empty': "Aucun appel pour l'instant.",
+  'usage.operation': 'Opération',
+  'usage.calls': 'Appels',
+  'usage.failures': 'Échecs',
+  'usage.cached': 'En cache',
+  'usage.latency': 'Temps moyen',
+  'usage.cost': 'Coût',
+  'usage.operations.story': 'Histoires',
+  'usage.operations.image': 'Images',
+  'usage.operations.translate': 'Traductions',
+  'usage.topComics': 'BD les plus coûteuses',
+  'usage.topUsers': 'Comptes les plus dépensiers',
+  'usage.callCount': {
+    one: '{count} appel',
+    other: '{count} appels'
+  },
+  'usage.deletedUser': 'compte supprimé',
+  'usage.quotaLabels.user.day': 'Votre limite quotidienne',
+  'usage.quotaLabels.user.month': 'Votre limite mensuelle',
+  'usage.quotaLabels.global.day': 'Limite quotidienne du serveur',
+  'usage.quotaLabels.global.month': 'Limite mensuelle du serveur',
+  'usage.quotaEditor': 'Limites de dépenses',
+  'usage.quotaHint': 'Montants estimés en dollars. La limite propre à un utilisateur remplace celle de tous les comptes.',
+  'usage.quotaScopes.global': 'Serveur entier',
+  'usage.quotaScopes.user': 'Chaque compte',
+  'usage.periods.day': 'par jour',
+  'usage.periods.month': 'par mois',
+  'usage.removeQuota': 'Supprimer la limite',
+  'usage.noQuotas': "Aucune limite : l'utilisation n'est pas restreinte.",
+  'usage.quotaScope': "S'applique à",
+  'usage.quotaPeriod': 'Période de la limite',
+  'usage.limitPlaceholder': 'Limite en US$',
+  'usage.saveQuota': 'Enregistrer la limite',
+  'usage.quotaError': "Impossible d'enregistrer la limite.",
+  'usage.rateLimited': "Trop de demandes d'affilée. Réessayez dans {seconds} s.",
+  'usage.quotaExceeded.user.day': "Vous avez atteint votre limite quotidienne d'utilisation de l'IA ({limit}). Réessayez demain.",
+  'usage.quotaExceeded.user.month': "Vous avez atteint votre limite mensuelle d'utilisation de l'IA ({limit}).",
+  'usage.quotaExceeded.global.day': "Le serveur a atteint sa limite quotidienne d'utilisation de l'IA. Réessayez demain.",
+  'usage.quotaExceeded.global.month': "Le serveur a atteint sa limite mensuelle d'utilisation de l'IA.",
+  'reader.read': 'Lire',
+  'reader.continue': 'Reprendre la lecture ({percent} %)',
+  'reader.readAgain': 'Relire',
+  'reader.progress': '{percent} % lu',
+  'reader.close': 'Quitter la lecture',
+  'reader.panelMode': 'Une case à la fois',
+  'reader.pageMode': 'Une page à la fois',
+  'reader.guidedZoom': 'Zoom guidé',
+  'reader.play': 'Lecture automatique',
+  'reader.pause': 'Pause',
+  'reader.interval': 'Durée par étape',
+  'reader.seconds': '{seconds} s',
+  'reader.fullscreen': 'Plein écran',
+  'reader.exitFullscreen': 'Quitter le plein écran',
+  'reader.previous': 'Précédent',
+  'reader.next': 'Suivant',
+  'reader.panelPosition': 'Case {current} sur {total}',
+  'reader.pagePosition': 'Page {current} sur {total}',
+  'reader.empty': "Cette BD n'a pas encore de cases.",
+  'reader.hint': 'Utilisez les flèches, balayez ou touchez les bords pour tourner ; touchez le centre pour masquer les commandes.',
+
+  'create.title': 'Nouvelle Aventure',
+  'create.close': 'Fermer',
+  'create.promptLabel': 'De quoi parle votre histoire ?',
+  'create.promptPlaceholder': 'Ex. : Un héros qui obtient des pouvoirs en mangeant du pain au fromage...',
+  'create.charactersLabel': "Qui apparaît dans l'histoire ?",
+  'create.noCharacters': 'Créez des personnages avec des photos pour les faire jouer dans vos BD.',
+  'create.panelCount': 'Cases',
+  'create.panelCountAuto': 'Auto',
+  'create.genre': 'Genre',
+  'create.tone': 'Ton',
+  'create.audience': 'Public',
+  'create.any': 'Peu importe',
+  'create.style': 'Style graphique',
+  'create.submit': 'CRÉER LA BD !',
+  'create.writingScript': 'ÉCRITURE DU SCÉNARIO...',
+  'create.generatingPanel': 'CRÉATION DE LA CASE {current}/{total}',
+  'create.partialFailure': "Certaines cases n'ont pas pu être générées. Vous pouvez réessayer depuis la page de la BD.",
+  'create.error': 'Une erreur est survenue lors de la création de votre BD. Veuillez réessayer.',
+
+  'viewer.back': 'RETOUR À MA BIBLIOTHÈQUE',
+  'viewer.generatingPanels': 'CRÉATION DES CASES {current}/{total}',
+  'viewer.failedPanels': {
+    one: "{count} case n'a pas pu être générée.",
+    other: "{count} cases n'ont pas pu être générées."
+  },
+  'viewer.retry': 'RÉESSAYER',
+  'viewer.imageFailed': "Cette image n'a pas pu être générée",
+  'viewer.imagePending': "Génération de l'image...",
+  'viewer.originalEdition': 'Original',
+  'viewer.retranslate': 'RETRADUIRE',
+  'viewer.correctTranslation': 'CORRIGER LA TRADUCTION',
+  'viewer.doneCorrecting': 'TERMINER',
+  'viewer.noEdition': "Cette BD n'a pas encore d'édition en {language}.",
+  'viewer.translate': 'TRADUIRE LA BD',
+  'viewer.translating': 'TRADUCTION...',
+  'viewer.translateError': "Impossible de traduire cette BD. Veuillez réessayer.",
+  'viewer.download': 'TÉLÉCHARGER LA BD',
+  'viewer.exportFormat': 'Format du fichier',
+  'viewer.pageSize': 'Format de page',
+  'viewer.pageSizeLetter': 'Lettre US',
+  'viewer.formatBundle': 'Sauvegarde (ZIP)',
+  'viewer.switchToList': 'AFFICHER EN LISTE',
+  'viewer.switchToPages': 'AFFICHER EN PAGES',
+  'viewer.edit': 'MODIFIER LA BD',
+  'viewer.share': 'PARTAGER',
+  'viewer.editBalloons': 'MODIFIER LES BULLES',
+  'viewer.doneEditingBalloons': 'TERMINER LES BULLES',
+  'viewer.page': 'Page {number}',
+  'viewer.pageTemplate': 'Mise en page',
+
+  'panel.label': 'Case {number}',
+  'panel.position': 'Case {number} sur {total}',
+
+  'balloons.add.speech': 'Dialogue',
+  'balloons.add.thought': 'Pensée',
+  'balloons.add.narration': 'Récitatif',
+  'balloons.delete': 'Supprimer la bulle',
+  'balloons.hint': 'Faites glisser pour déplacer ; double-cliquez pour modifier le texte. Au clavier : les flèches déplacent, Maj+flèches redimensionnent, Entrée modifie et Suppr supprime.',
+  'balloons.spoken.narration': 'Narration : {text}',
+  'balloons.spoken.speech': '{speaker} dit : {text}',
+  'balloons.spoken.speechUnattributed': 'Réplique : {text}',
+  'balloons.spoken.thought': '{speaker} pense : {text}',
+  'balloons.spoken.thoughtUnattributed': 'Pensée : {text}',
+
+  'layouts.grid-2x2': '2 × 2',
+  'layouts.three-tiers': 'Trois bandes',
+  'layouts.two-tiers': 'Deux bandes',
+  'layouts.wide-plus-two': 'Plan large + deux',
+  'layouts.splash': 'Pleine page',
+
+  'genres.adventure': 'Aventure',
+  'genres.comedy': 'Comédie',
+  'genres.drama': 'Drame',
+  'genres.fantasy': 'Fantasy',
+  'genres.horror': 'Horreur',
+  'genres.mystery': 'Mystère',
+  'genres.romance': 'Romance',
+  'genres.science-fiction': 'Science-fiction',
+  'genres.slice-of-life': 'Tranche de vie',
+  'genres.superhero': 'Super-héros',
+
+  'tones.lighthearted': 'Léger',
+  'tones.heartfelt': 'Émouvant',
+  'tones.epic': 'Épique',
+  'tones.dark': 'Sombre',
+  'tones.absurd': 'Absurde',
+
+  'audiences.kids': 'Enfants',
+  'audiences.teens': 'Ados',
+  'audiences.adults': 'Adultes',
+
+  'styles.classic': 'Classique',
+  'styles.manga': 'Manga',
+  'styles.noir': 'Noir',
+  'styles.watercolor': 'Aquarelle',
+  'styles.franco-belgian': 'Franco-belge',
+  'styles.pop-art': 'Pop art',
+  'styles.new': 'Nouveau style',
+  'styles.namePlaceholder': 'Nom du style',
+  'styles.promptPlaceholder': 'Décrivez le trait, les couleurs, la technique...',
+  'styles.save': 'ENREGISTRER LE STYLE',
+  'styles.delete': 'Supprimer le style',
+  'styles.saveError': "Impossible d'enregistrer le style. Vérifiez qu'aucun autre style ne porte le même nom.",
+
+  'editor.back': 'RETOUR À LA BD',
+  'editor.insertHere': 'INSÉRER UNE CASE ICI',
+  'editor.addAtEnd': 'AJOUTER UNE CASE À LA FIN',
+  'editor.dragToReorder': 'Glisser pour réordonner',
+  'editor.deletePanel': 'Supprimer la case',
+  'editor.deletePanelConfirm': 'Voulez-vous vraiment supprimer cette case ?',
+  'editor.captionPlaceholder': 'Texte de la case',
+  'editor.scenePlaceholder': 'Décrivez la scène pour générer une nouvelle image...',
+  'editor.altText': 'Texte alternatif',
+  'editor.altTextPlaceholder': "Décrivez ce que montre l'image...",
+  'editor.altTextHint': "Lu par les lecteurs d'écran à la place de l'image. Vide, c'est la description ayant servi à générer l'image qui est utilisée.",
+  'editor.regenerate': 'RÉGÉNÉRER',
+  'editor.regenerateError': "Impossible de générer une nouvelle image pour cette case.",
+  'editor.panelSaveError': "Impossible d'enregistrer les modifications de cette case.",
+  'editor.characters': 'Personnages dans cette case',
+  'editor.undo': 'Annuler',
+  'editor.redo': 'Rétablir',
+  'editor.variants': "Versions de l'image",
+  'editor.alternatives': 'Nombre d’images à générer',
+  'editor.generateAlternatives': 'GÉNÉRER {count} VARIANTES',
+  'editor.deleteVariant': 'Supprimer la version',
+  'editor.pruneVariants': 'Nettoyer les versions',
+  'editor.pruneConfirm': "Supprimer toutes les versions inutilisées de cette BD ? L'historique d'annulation sera aussi effacé.",
+  'editor.pruned': {
+    one: '{count} version supprimée.',
+    other: '{count} versions supprimées.'
+  },
+
+  'footer.tagline': 'La révolution de la bande dessinée avec l’IA.',
+  'footer.availableOnAppStore': 'Disponible sur',
+  'footer.availableOnGooglePlay': 'Disponible sur'
+};
+
+export default fr;
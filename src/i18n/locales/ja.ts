@@ -0,0 +1,382 @@
+import { Catalog } from '../types';
+
+const ja: Catalog = {
+  'app.name': 'Minha HQ',
+  'language.select': '表示言語',
+
+  'home.createComic': '新しいマンガを作る',
+  'home.emptyTitle': 'まだマンガがありません',
+  'home.emptySubtitle': '最初のストーリーを作って冒険を始めましょう！',
+  'home.deleteComic': 'マンガを削除',
+  'home.deleteConfirm': 'このマンガを削除してもよろしいですか？',
+  'home.backup': 'ライブラリのバックアップをダウンロード',
+  'home.import': 'インポート',
+  'home.importing': 'インポート中...',
+  'home.importHint': 'Minha HQ のバックアップまたは CBZ ファイルをインポート',
+  'home.importError': 'このファイルをインポートできませんでした。',
+  'characters.title': 'キャラクター',
+  'characters.manage': 'キャラクターを管理',
+  'characters.close': '閉じる',
+  'characters.namePlaceholder': 'キャラクター名',
+  'characters.descriptionPlaceholder': '見た目、性格、服装など...',
+  'characters.add': 'キャラクターを作成',
+  'characters.addPhotos': '写真を追加',
+  'characters.deletePhoto': '写真を削除',
+  'characters.delete': 'キャラクターを削除',
+  'characters.deleteConfirm': '{name}を削除しますか？生成済みのコマは変わりません。',
+  'characters.empty': 'キャラクターはまだいません。作成すると複数のマンガで使えます。',
+  'characters.saveError': 'キャラクターを保存できませんでした。同じ名前のキャラクターがいないか確認してください。',
+  'characters.photoCount': {
+    other: '{count}枚の写真'
+  },
+
+  'auth.loginTitle': 'アカウントにログイン',
+  'auth.registerTitle': 'アカウントを作成',
+  'auth.username': 'ユーザー名',
+  'auth.password': 'パスワード',
+  'auth.registerHint': 'ユーザー名は英数字・ドット・ハイフン・アンダースコアで3〜32文字、パスワードは{count}文字以上にしてください。',
+  'auth.loginError': 'ユーザー名またはパスワードが違います。',
+  'auth.registerError': 'アカウントを作成できませんでした。このユーザー名はすでに使われている可能性があります。',
+  'auth.login': 'ログイン',
+  'auth.register': 'アカウント作成',
+  'auth.switchToRegister': 'アカウントをお持ちでない方はこちら',
+  'auth.switchToLogin': 'アカウントをお持ちの方はログイン',
+  'auth.logout': 'ログアウト',
+  'users.title': 'ユーザー',
+  'users.close': '閉じる',
+  'users.allLibraries': 'すべてのライブラリを見る',
+  'users.comicCount': {
+    other: '{count}作品'
+  },
+  'users.role': '役割',
+  'users.roles.user': 'ユーザー',
+  'users.roles.admin': '管理者',
+  'users.openLibrary': 'ライブラリ',
+  'users.roleError': 'このユーザーの役割を変更できませんでした。',
+  'users.viewingAll': 'すべてのユーザーのマンガを表示しています。',
+  'users.viewingLibrary': '{name}さんのライブラリを表示しています。',
+  'users.backToMine': '自分のライブラリに戻る',
+
+  'share.title': 'マンガを共有',
+  'share.close': '閉じる',
+  'share.hint': 'リンクを知っている人はアカウントなしでこのマンガを読めますが、編集はできません。',
+  'share.expiry': 'リンクの有効期限',
+  'share.neverExpires': '無期限',
+  'share.expiresIn': {
+    other: '{count}日後に期限切れ'
+  },
+  'share.expiresOn': '{date}に期限切れ',
+  'share.expired': '期限切れ',
+  'share.create': 'リンクを作成',
+  'share.empty': '有効なリンクはありません。',
+  'share.copy': 'コピー',
+  'share.copied': 'コピーしました',
+  'share.revoke': '取り消す',
+  'share.revokeConfirm': 'このリンクを取り消しますか？リンクを持っている人はマンガを読めなくなります。',
+  'share.error': 'リンクを作成できませんでした。',
+  'shared.unavailable': 'このリンクは存在しないか、取り消されたか、期限切れです。',
+  'shared.madeWith': '{app}で作成',
+
+  'library.searchPlaceholder': 'タイトル・説明・セリフを検索...',
+  'library.sort': '並び替え',
+  'library.sorts.newest': '新しい順',
+  'library.sorts.oldest': '古い順',
+  'library.sorts.title': 'タイトル順',
+  'library.noResults': 'コミックが見つかりません',
+  'library.noResultsHint': '別のキーワードで検索するか、タグの絞り込みを解除してください。',
+  'library.loadMore': 'さらに読み込む',
+  'library.loadingMore': '読み込み中...',
+  'tags.placeholder': 'タグを追加...',
+  'tags.remove': 'タグ「{tag}」を削除',
+  'series.title': 'シリーズ',
+  'series.close': '閉じる',
+  'series.navigation': 'シリーズの章',
+  'series.previousChapter': '前の章',
+  'series.nextChapter': '次の章',
+  'series.chapter': '章',
+  'series.chapterLabel': '第{number}章：{title}',
+  'series.cardLabel': '{series}・第{number}章',
+  'series.exportScope': 'ダウンロード範囲',
+  'series.exportChapter': 'この章',
+  'series.exportVolume': 'シリーズ全体',
+  'series.continue': '続きを作る',
+  'series.continueTitle': '次の章',
+  'series.continueHint': '第{chapter}章は、これまでの章のあらすじをもとに同じキャラクターで書かれます。',
+  'series.continuePlaceholder': '次に何が起こる？（任意）',
+  'series.continueError': '続きを作成できませんでした。もう一度お試しください。',
+  'series.openThreads': '未解決の伏線',
+  'series.openThreadsPlaceholder': '1行に1つの伏線',
+  'series.summary': 'あらすじ',
+  'series.summaryPlaceholder': 'この章で起きたこと',
+  'series.notes': 'メモ',
+  'series.saveNotes': 'メモを保存',
+  'series.moveUp': '上へ移動',
+  'series.moveDown': '下へ移動',
+  'series.leave': 'このコミックをシリーズから外す',
+  'series.delete': 'シリーズを削除',
+  'series.deleteConfirm': 'シリーズを削除しますか？章は単独のコミックとしてライブラリに残ります。',
+  'series.error': 'シリーズを変更できませんでした。',
+  'series.addHint': 'このコミックをシリーズに加えると、章として読んだり続きを作ったりできます。',
+  'series.addTo': 'シリーズ',
+  'series.newSeries': '新しいシリーズ',
+  'series.name': 'シリーズ名',
+  'series.add': 'シリーズに追加',
+  'series.chapterCount': {
+    other: '{count}章'
+  },
+  'photo.takePhoto': '写真を撮る',
+  'photo.editTitle': '写真を調整',
+  'photo.progress': '{current} / {total}',
+  'photo.loadError': 'この画像を開けませんでした。',
+  'photo.cropHint': '枠をドラッグして切り抜き、黄色の角でサイズを変えます。',
+  'photo.rotate': '回転',
+  'photo.resetCrop': '写真全体',
+  'photo.size': '最大サイズ',
+  'photo.outputSize': '{width} × {height} px で保存されます',
+  'photo.skip': '破棄',
+  'photo.use': 'この写真を使う',
+  'photo.cancel': 'キャンセル',
+  'camera.title': '写真を撮る',
+  'camera.hint': '明るい場所で、顔を枠の中央に合わせてください。',
+  'camera.capture': '撮影',
+  'camera.switch': 'カメラを切り替え',
+  'camera.denied': 'カメラへのアクセスが拒否されました。写真を撮るにはブラウザの設定で許可してください。',
+  'camera.unavailable': 'この端末で使えるカメラがありません。',
+  'moderation.title': 'モデレーション',
+  'moderation.close': '閉じる',
+  'moderation.filters.flagged': '却下',
+  'moderation.filters.overridden': '管理者が判断',
+  'moderation.filters.all': 'すべて',
+  'moderation.empty': '記録はありません。',
+  'moderation.loadMore': 'さらに読み込む',
+  'moderation.actions.allow': '許可',
+  'moderation.actions.rephrase': '言い換え',
+  'moderation.actions.block': 'ブロック',
+  'moderation.deletedUser': '削除されたアカウント',
+  'moderation.sources.prompt': 'リクエスト',
+  'moderation.sources.output': '生成テキスト',
+  'moderation.overridden': '{name} が{action}',
+  'moderation.overrideAllow': 'このテキストを許可',
+  'moderation.overrideBlock': 'このテキストをブロック',
+  'moderation.overrideClear': 'ルールに戻す',
+  'moderation.overrideError': '判断を保存できませんでした。',
+  'moderation.blocked': 'このリクエストは許可されていません：{reason}。',
+  'moderation.rephrase': 'リクエストを言い換えてください：{reason}。',
+  'moderation.storyRejected': '生成されたストーリーは却下されました（{reason}）。もう一度試すか、リクエストを変えてください。',
+  'moderation.categories.personal-data': 'メールアドレス・電話番号・個人番号が含まれています',
+  'moderation.categories.self-harm': '自殺や自傷に触れています',
+  'moderation.categories.sexual': '性的な内容',
+  'moderation.categories.violence': '過激な暴力',
+  'moderation.categories.drugs': '薬物に触れています',
+  'moderation.categories.profanity': '汚い言葉が含まれています',
+  'moderation.categories.override': '管理者によりブロックされました',
+  'usage.title': 'AI 使用量',
+  'usage.close': '閉じる',
+  'usage.scopes.me': '自分',
+  'usage.scopes.all': '全アカウント',
+  'usage.range': '期間',
+  'usage.lastDays': {
+    other: '過去 {count} 日間'
+  },
+  'usage.loadError': '使用量を読み込めませんでした。',
+  'usage.today': '今日',
+  'usage.thisMonth': '今月',
+  'usage.quotas': '上限',
+  'usage.daily': '日別のコスト',
+  'usage.dayDetail': '{date}: {calls} 回の呼び出しで {cost}（失敗 {failures} 回）',
+  'usage.byOperation': '操作別',
+  'usage.empty': 'まだ呼び出しはありません。',
+  'usage.operation': '操作',
+  'usage.calls': '呼び出し',
+  'usage.failures': '失敗',
+  'usage.cached': 'キャッシュ',
+  'usage.latency': '平均時間',
+  'usage.cost': 'コスト',
+  'usage.operations.story': 'ストーリー',
+  'usage.operations.image': '画像',
+  'usage.operations.translate': '翻訳',
+  'usage.topComics': '最もコストの高いマンガ',
+  'usage.topUsers': '使用額の多いアカウント',
+  'usage.callCount': {
+    other: '{count} 回'
+  },
+  'usage.deletedUser': '削除されたアカウント',
+  'usage.quotaLabels.user.day': 'あなたの 1 日の上限',
+  'usage.quotaLabels.user.month': 'あなたの 1 か月の上限',
+  'usage.quotaLabels.global.day': 'サーバーの 1 日の上限',
+  'usage.quotaLabels.global.month': 'サーバーの 1 か月の上限',
+  'usage.quotaEditor': '使用額の上限',
+  'usage.quotaHint': '金額は米ドルでの概算です。ユーザー個別の上限は全アカウント共通の上限より優先されます。',
+  'usage.quotaScopes.global': 'サーバー全体',
+  'usage.quotaScopes.user': '各アカウント',
+  'usage.periods.day': '1 日あたり',
+  'usage.periods.month': '1 か月あたり',
+  'usage.removeQuota': '上限を削除',
+  'usage.noQuotas': '上限なし：使用は制限されていません。',
+  'usage.quotaScope': '対象',
+  'usage.quotaPeriod': '上限の期間',
+  'usage.limitPlaceholder': '上限（US$）',
+  'usage.saveQuota': '上限を保存',
+  'usage.quotaError': '上限を保存できませんでした。',
+  'usage.rateLimited': '短時間にリクエストが多すぎます。{seconds} 秒後にもう一度お試しください。',
+  'usage.quotaExceeded.user.day': 'AI の 1 日の使用上限（{limit}）に達しました。明日もう一度お試しください。',
+  'usage.quotaExceeded.user.month': 'AI の 1 か月の使用上限（{limit}）に達しました。',
+  'usage.quotaExceeded.global.day': 'サーバーが AI の 1 日の使用上限に達しました。明日もう一度お試しください。',
+  'usage.quotaExceeded.global.month': 'サーバーが AI の 1 か月の使用上限に達しました。',
+  'reader.read': '読む',
+  'reader.continue': '続きから読む（{percent}%）',
+  'reader.readAgain': 'もう一度読む',
+  'reader.progress': '{percent}% 読了',
+  'reader.close': 'リーダーを閉じる',
+  'reader.panelMode': '1コマずつ',
+  'reader.pageMode': '1ページずつ',
+  'reader.guidedZoom': 'ガイド付きズーム',
+  'reader.play': '自動再生',
+  'reader.pause': '一時停止',
+  'reader.interval': '1ステップの時間',
+  'reader.seconds': '{seconds}秒',
+  'reader.fullscreen': '全画面',
+  'reader.exitFullscreen': '全画面を終了',
+  'reader.previous': '前へ',
+  'reader.next': '次へ',
+  'reader.panelPosition': '{current} / {total} コマ',
+  'reader.pagePosition': '{current} / {total} ページ',
+  'reader.empty': 'このコミックにはまだコマがありません。',
+  'reader.hint': '矢印キー、スワイプ、または端のタップでめくれます。中央をタップすると操作パネルを隠せます。',
+
+  'create.title': '新しい冒険',
+  'create.close': '閉じる',
+  'create.promptLabel': 'どんなストーリーですか？',
+  'create.promptPlaceholder': '例：チーズパンを食べて超能力に目覚めたヒーロー…',
+  'create.charactersLabel': '物語に登場するのは？',
+  'create.noCharacters': '写真付きのキャラクターを作成すると、マンガに登場させられます。',
+  'create.panelCount': 'コマ数',
+  'create.panelCountAuto': '自動',
+  'create.genre': 'ジャンル',
+  'create.tone': 'トーン',
+  'create.audience': '対象読者',
+  'create.any': '指定なし',
+  'create.style': '画風',
+  'create.submit': 'マンガを作成！',
+  'create.writingScript': 'シナリオを作成中…',
+  'create.generatingPanel': 'コマを生成中 {current}/{total}',
+  'create.partialFailure': '一部のコマを生成できませんでした。マンガのページから再試行できます。',
+  'create.error': 'マンガの生成中にエラーが発生しました。もう一度お試しください。',
+
+  'viewer.back': 'ライブラリに戻る',
+  'viewer.generatingPanels': 'コマを生成中 {current}/{total}',
+  'viewer.failedPanels': {
+    other: '{count}コマを生成できませんでした。'
+  },
+  'viewer.retry': '再試行',
+  'viewer.imageFailed': 'この画像を生成できませんでした',
+  'viewer.imagePending': '画像を生成中...',
+  'viewer.originalEdition': 'オリジナル',
+  'viewer.retranslate': '再翻訳',
+  'viewer.correctTranslation': '翻訳を修正',
+  'viewer.doneCorrecting': '完了',
+  'viewer.noEdition': 'このマンガには{language}版がまだありません。',
+  'viewer.translate': 'マンガを翻訳',
+  'viewer.translating': '翻訳中…',
+  'viewer.translateError': 'このマンガを翻訳できませんでした。もう一度お試しください。',
+  'viewer.download': 'マンガをダウンロード',
+  'viewer.exportFormat': 'ファイル形式',
+  'viewer.pageSize': '用紙サイズ',
+  'viewer.pageSizeLetter': 'レター',
+  'viewer.formatBundle': 'バックアップ (ZIP)',
+  'viewer.switchToList': 'リスト表示',
+  'viewer.switchToPages': 'ページ表示',
+  'viewer.edit': 'マンガを編集',
+  'viewer.share': '共有',
+  'viewer.editBalloons': '吹き出しを編集',
+  'viewer.doneEditingBalloons': '吹き出しの編集を終了',
+  'viewer.page': '{number}ページ',
+  'viewer.pageTemplate': 'ページレイアウト',
+
+  'panel.label': 'コマ {number}',
+  'panel.position': '{total} コマ中 {number} コマ目',
+
+  'balloons.add.speech': 'セリフ',
+  'balloons.add.thought': '心の声',
+  'balloons.add.narration': 'ナレーション',
+  'balloons.delete': '吹き出しを削除',
+  'balloons.hint': 'ドラッグで移動、ダブルクリックでテキストを編集します。キーボードでは矢印キーで移動、Shift+矢印キーでサイズ変更、Enterで編集、Deleteで削除します。',
+  'balloons.spoken.narration': 'ナレーション：{text}',
+  'balloons.spoken.speech': '{speaker}のセリフ：{text}',
+  'balloons.spoken.speechUnattributed': 'セリフ：{text}',
+  'balloons.spoken.thought': '{speaker}の心の声：{text}',
+  'balloons.spoken.thoughtUnattributed': '心の声：{text}',
+
+  'layouts.grid-2x2': '2 × 2',
+  'layouts.three-tiers': '3段',
+  'layouts.two-tiers': '2段',
+  'layouts.wide-plus-two': 'ワイド＋2コマ',
+  'layouts.splash': '見開き1コマ',
+
+  'genres.adventure': '冒険',
+  'genres.comedy': 'コメディ',
+  'genres.drama': 'ドラマ',
+  'genres.fantasy': 'ファンタジー',
+  'genres.horror': 'ホラー',
+  'genres.mystery': 'ミステリー',
+  'genres.romance': '恋愛',
+  'genres.science-fiction': 'SF',
+  'genres.slice-of-life': '日常',
+  'genres.superhero': 'ヒーロー',
+
+  'tones.lighthearted': '軽やか',
+  'tones.heartfelt': '心温まる',
+  'tones.epic': '壮大',
+  'tones.dark': 'ダーク',
+  'tones.absurd': 'シュール',
+
+  'audiences.kids': '子ども',
+  'audiences.teens': 'ティーン',
+  'audiences.adults': '大人',
+
+  'styles.classic': 'クラシック',
+  'styles.manga': 'マンガ',
+  'styles.noir': 'ノワール',
+  'styles.watercolor': '水彩',
+  'styles.franco-belgian': 'バンド・デシネ',
+  'styles.pop-art': 'ポップアート',
+  'styles.new': '新しい画風',
+  'styles.namePlaceholder': '画風の名前',
+  'styles.promptPlaceholder': '線、色、技法などを説明してください...',
+  'styles.save': '画風を保存',
+  'styles.delete': '画風を削除',
+  'styles.saveError': '画風を保存できませんでした。同じ名前の画風がないか確認してください。',
+
+  'editor.back': 'マンガに戻る',
+  'editor.insertHere': 'ここにコマを挿入',
+  'editor.addAtEnd': '最後にコマを追加',
+  'editor.dragToReorder': 'ドラッグして並べ替え',
+  'editor.deletePanel': 'コマを削除',
+  'editor.deletePanelConfirm': 'このコマを削除してもよろしいですか？',
+  'editor.captionPlaceholder': 'コマのセリフ',
+  'editor.scenePlaceholder': '新しい画像を生成するためにシーンを説明してください…',
+  'editor.altText': '代替テキスト',
+  'editor.altTextPlaceholder': '画像に写っているものを説明してください…',
+  'editor.altTextHint': 'スクリーンリーダーが画像の代わりに読み上げます。空欄の場合は画像の生成に使われた説明を使います。',
+  'editor.regenerate': '再生成',
+  'editor.regenerateError': 'このコマの新しい画像を生成できませんでした。',
+  'editor.panelSaveError': 'このコマの変更を保存できませんでした。',
+  'editor.characters': 'このコマのキャラクター',
+  'editor.undo': '元に戻す',
+  'editor.redo': 'やり直す',
+  'editor.variants': '画像のバージョン',
+  'editor.alternatives': '生成する画像の数',
+  'editor.generateAlternatives': '{count}枚の候補を生成',
+  'editor.deleteVariant': 'バージョンを削除',
+  'editor.pruneVariants': 'バージョンを整理',
+  'editor.pruneConfirm': 'このマンガの未使用のバージョンをすべて削除しますか？元に戻す履歴も消去されます。',
+  'editor.pruned': {
+    other: '{count}件のバージョンを削除しました。'
+  },
+
+  'footer.tagline': 'AIで始まるマンガ革命。',
+  'footer.availableOnAppStore': 'ダウンロード',
+  'footer.availableOnGooglePlay': 'ダウンロード'
+};
+
+export default ja;
@@ -0,0 +1,394 @@
+import { Message } from '../types';
+
+// Source catalog: every key used by the UI is defined here first, and the
+// other locales are checked against it by `npm run i18n:check`.
+const ptBR = {
+  'app.name': 'Minha HQ',
+  'language.select': 'Idioma da interface',
+
+  'home.createComic': 'CRIAR NOVA HQ',
+  'home.emptyTitle': 'Nenhuma HQ ainda',
+  'home.emptySubtitle': 'Comece sua jornada criando sua primeira história!',
+  'home.deleteComic': 'Excluir HQ',
+  'home.deleteConfirm': 'Tem certeza que deseja excluir esta HQ?',
+  'home.backup': 'Baixar backup da biblioteca',
+  'home.import': 'IMPORTAR',
+  'home.importing': 'IMPORTANDO...',
+  'home.importHint': 'Importar um backup do Minha HQ ou um arquivo CBZ',
+  'home.importError': 'Não foi possível importar este arquivo.',
+  'characters.title': 'Personagens',
+  'characters.manage': 'Gerenciar personagens',
+  'characters.close': 'Fechar',
+  'characters.namePlaceholder': 'Nome do personagem',
+  'characters.descriptionPlaceholder': 'Aparência, personalidade, roupas...',
+  'characters.add': 'CRIAR PERSONAGEM',
+  'characters.addPhotos': 'Adicionar fotos',
+  'characters.deletePhoto': 'Remover foto',
+  'characters.delete': 'Excluir personagem',
+  'characters.deleteConfirm': 'Excluir {name}? Os painéis já gerados não mudam.',
+  'characters.empty': 'Nenhum personagem ainda. Crie um para reutilizá-lo em várias HQs.',
+  'characters.saveError': 'Não foi possível salvar o personagem. Verifique se já existe outro com o mesmo nome.',
+  'characters.photoCount': {
+    one: '{count} foto',
+    other: '{count} fotos'
+  },
+
+  'auth.loginTitle': 'Entre na sua conta',
+  'auth.registerTitle': 'Crie sua conta',
+  'auth.username': 'Usuário',
+  'auth.password': 'Senha',
+  'auth.registerHint': 'Use de 3 a 32 letras, números, pontos, hífens ou sublinhados no usuário e pelo menos {count} caracteres na senha.',
+  'auth.loginError': 'Usuário ou senha incorretos.',
+  'auth.registerError': 'Não foi possível criar a conta. Talvez esse usuário já exista.',
+  'auth.login': 'ENTRAR',
+  'auth.register': 'CRIAR CONTA',
+  'auth.switchToRegister': 'Ainda não tem conta? Crie uma',
+  'auth.switchToLogin': 'Já tem conta? Entre',
+  'auth.logout': 'Sair',
+  'users.title': 'Usuários',
+  'users.close': 'Fechar',
+  'users.allLibraries': 'VER TODAS AS BIBLIOTECAS',
+  'users.comicCount': {
+    one: '{count} HQ',
+    other: '{count} HQs'
+  },
+  'users.role': 'Papel',
+  'users.roles.user': 'Usuário',
+  'users.roles.admin': 'Administrador',
+  'users.openLibrary': 'Biblioteca',
+  'users.roleError': 'Não foi possível alterar o papel deste usuário.',
+  'users.viewingAll': 'Você está vendo as HQs de todos os usuários.',
+  'users.viewingLibrary': 'Você está vendo a biblioteca de {name}.',
+  'users.backToMine': 'Voltar para a minha biblioteca',
+
+  'share.title': 'Compartilhar HQ',
+  'share.close': 'Fechar',
+  'share.hint': 'Quem tiver o link pode ler esta HQ sem conta, mas não pode editá-la.',
+  'share.expiry': 'Validade do link',
+  'share.neverExpires': 'Não expira',
+  'share.expiresIn': {
+    one: 'Expira em {count} dia',
+    other: 'Expira em {count} dias'
+  },
+  'share.expiresOn': 'Expira em {date}',
+  'share.expired': 'Expirado',
+  'share.create': 'CRIAR LINK',
+  'share.empty': 'Nenhum link ativo.',
+  'share.copy': 'Copiar',
+  'share.copied': 'Copiado',
+  'share.revoke': 'Revogar',
+  'share.revokeConfirm': 'Revogar este link? Quem o tiver não poderá mais ler a HQ.',
+  'share.error': 'Não foi possível criar o link.',
+  'shared.unavailable': 'Este link não existe, foi revogado ou expirou.',
+  'shared.madeWith': 'Feito com {app}',
+
+  'library.searchPlaceholder': 'Buscar por título, descrição ou falas...',
+  'library.sort': 'Ordenar',
+  'library.sorts.newest': 'Mais recentes',
+  'library.sorts.oldest': 'Mais antigas',
+  'library.sorts.title': 'Título (A–Z)',
+  'library.noResults': 'Nenhuma HQ encontrada',
+  'library.noResultsHint': 'Tente outra busca ou remova o filtro de tag.',
+  'library.loadMore': 'Carregar mais',
+  'library.loadingMore': 'Carregando...',
+  'tags.placeholder': 'Adicionar tag...',
+  'tags.remove': 'Remover tag {tag}',
+  'series.title': 'Série',
+  'series.close': 'Fechar',
+  'series.navigation': 'Capítulos da série',
+  'series.previousChapter': 'Capítulo anterior',
+  'series.nextChapter': 'Próximo capítulo',
+  'series.chapter': 'Capítulo',
+  'series.chapterLabel': 'Capítulo {number}: {title}',
+  'series.cardLabel': '{series} · Cap. {number}',
+  'series.exportScope': 'O que baixar',
+  'series.exportChapter': 'Este capítulo',
+  'series.exportVolume': 'Série inteira',
+  'series.continue': 'Continuar a história',
+  'series.continueTitle': 'Próximo capítulo',
+  'series.continueHint': 'O capítulo {chapter} será escrito a partir dos resumos dos capítulos anteriores, com os mesmos personagens.',
+  'series.continuePlaceholder': 'O que acontece agora? (opcional)',
+  'series.continueError': 'Não foi possível continuar a história. Tente novamente.',
+  'series.openThreads': 'Pontas soltas',
+  'series.openThreadsPlaceholder': 'Uma ponta solta por linha',
+  'series.summary': 'Resumo',
+  'series.summaryPlaceholder': 'O que aconteceu neste capítulo',
+  'series.notes': 'Notas',
+  'series.saveNotes': 'Salvar notas',
+  'series.moveUp': 'Mover para cima',
+  'series.moveDown': 'Mover para baixo',
+  'series.leave': 'Tirar esta HQ da série',
+  'series.delete': 'Excluir série',
+  'series.deleteConfirm': 'Excluir a série? Os capítulos continuam na biblioteca como HQs avulsas.',
+  'series.error': 'Não foi possível alterar a série.',
+  'series.addHint': 'Junte esta HQ a uma série para lê-la como capítulo e continuar a história.',
+  'series.addTo': 'Série',
+  'series.newSeries': 'Nova série',
+  'series.name': 'Nome da série',
+  'series.add': 'Adicionar à série',
+  'series.chapterCount': {
+    one: '{count} capítulo',
+    other: '{count} capítulos'
+  },
+  'photo.takePhoto': 'Tirar foto',
+  'photo.editTitle': 'Preparar foto',
+  'photo.progress': '{current} de {total}',
+  'photo.loadError': 'Não foi possível abrir esta imagem.',
+  'photo.cropHint': 'Arraste o quadro para recortar; o canto amarelo muda o tamanho.',
+  'photo.rotate': 'Girar',
+  'photo.resetCrop': 'Foto inteira',
+  'photo.size': 'Tamanho máximo',
+  'photo.outputSize': 'Será salva com {width} × {height} px',
+  'photo.skip': 'Descartar',
+  'photo.use': 'USAR FOTO',
+  'photo.cancel': 'Cancelar',
+  'camera.title': 'Tirar foto',
+  'camera.hint': 'Centralize o rosto dentro da moldura, com boa iluminação.',
+  'camera.capture': 'CAPTURAR',
+  'camera.switch': 'Trocar câmera',
+  'camera.denied': 'O acesso à câmera foi negado. Permita-o nas configurações do navegador para tirar fotos.',
+  'camera.unavailable': 'Nenhuma câmera disponível neste dispositivo.',
+  'moderation.title': 'Moderação',
+  'moderation.close': 'Fechar',
+  'moderation.filters.flagged': 'Recusados',
+  'moderation.filters.overridden': 'Decididos por admin',
+  'moderation.filters.all': 'Todos',
+  'moderation.empty': 'Nenhum registro.',
+  'moderation.loadMore': 'Carregar mais',
+  'moderation.actions.allow': 'Liberado',
+  'moderation.actions.rephrase': 'Reescrever',
+  'moderation.actions.block': 'Bloqueado',
+  'moderation.deletedUser': 'conta excluída',
+  'moderation.sources.prompt': 'Pedido',
+  'moderation.sources.output': 'Texto gerado',
+  'moderation.overridden': '{action} por {name}',
+  'moderation.overrideAllow': 'Liberar este texto',
+  'moderation.overrideBlock': 'Bloquear este texto',
+  'moderation.overrideClear': 'Voltar às regras',
+  'moderation.overrideError': 'Não foi possível salvar a decisão.',
+  'moderation.blocked': 'Este pedido não é permitido: {reason}.',
+  'moderation.rephrase': 'Reescreva o pedido: {reason}.',
+  'moderation.storyRejected': 'A história gerada foi recusada ({reason}). Tente de novo ou mude o pedido.',
+  'moderation.categories.personal-data': 'contém e-mail, telefone ou número de documento',
+  'moderation.categories.self-harm': 'fala de suicídio ou automutilação',
+  'moderation.categories.sexual': 'conteúdo sexual',
+  'moderation.categories.violence': 'violência explícita',
+  'moderation.categories.drugs': 'fala de drogas',
+  'moderation.categories.profanity': 'contém palavrões',
+  'moderation.categories.override': 'bloqueado por um administrador',
+  'usage.title': 'Uso de IA',
+  'usage.close': 'Fechar',
+  'usage.scopes.me': 'Meu uso',
+  'usage.scopes.all': 'Todas as contas',
+  'usage.range': 'Período',
+  'usage.lastDays': {
+    one: 'Último dia',
+    other: 'Últimos {count} dias'
+  },
+  'usage.loadError': 'Não foi possível carregar o uso.',
+  'usage.today': 'Hoje',
+  'usage.thisMonth': 'Este mês',
+  'usage.quotas': 'Limites',
+  'usage.daily': 'Custo por dia',
+  'usage.dayDetail': '{date}: {cost} em {calls} chamadas, {failures} com falha',
+  'usage.byOperation': 'Por operação',
+  'usage.empty': 'Nenhuma chamada ainda.',
+  'usage.operation': 'Operação',
+  'usage.calls': 'Chamadas',
+  'usage.failures': 'Falhas',
+  'usage.cached': 'Em cache',
+  'usage.latency': 'Tempo médio',
+  'usage.cost': 'Custo',
+  'usage.operations.story': 'Histórias',
+  'usage.operations.image': 'Imagens',
+  'usage.operations.translate': 'Traduções',
+  'usage.topComics': 'HQs mais caras',
+  'usage.topUsers': 'Contas que mais gastaram',
+  'usage.callCount': {
+    one: '{count} chamada',
+    other: '{count} chamadas'
+  },
+  'usage.deletedUser': 'conta excluída',
+  'usage.quotaLabels.user.day': 'Seu limite diário',
+  'usage.quotaLabels.user.month': 'Seu limite mensal',
+  'usage.quotaLabels.global.day': 'Limite diário do servidor',
+  'usage.quotaLabels.global.month': 'Limite mensal do servidor',
+  'usage.quotaEditor': 'Limites de gasto',
+  'usage.quotaHint': 'Valores estimados em dólares. O limite de um usuário substitui o de todas as contas.',
+  'usage.quotaScopes.global': 'Servidor inteiro',
+  'usage.quotaScopes.user': 'Cada conta',
+  'usage.periods.day': 'por dia',
+  'usage.periods.month': 'por mês',
+  'usage.removeQuota': 'Remover limite',
+  'usage.noQuotas': 'Sem limites: o uso não é restringido.',
+  'usage.quotaScope': 'Aplica-se a',
+  'usage.quotaPeriod': 'Período do limite',
+  'usage.limitPlaceholder': 'Limite em US$',
+  'usage.saveQuota': 'Salvar limite',
+  'usage.quotaError': 'Não foi possível salvar o limite.',
+  'usage.rateLimited': 'Muitos pedidos seguidos. Tente de novo em {seconds} s.',
+  'usage.quotaExceeded.user.day': 'Você atingiu seu limite diário de uso de IA ({limit}). Tente de novo amanhã.',
+  'usage.quotaExceeded.user.month': 'Você atingiu seu limite mensal de uso de IA ({limit}).',
+  'usage.quotaExceeded.global.day': 'O servidor atingiu o limite diário de uso de IA. Tente de novo amanhã.',
+  'usage.quotaExceeded.global.month': 'O servidor atingiu o limite mensal de uso de IA.',
+  'reader.read': 'Ler',
+  'reader.continue': 'Continuar lendo ({percent}%)',
+  'reader.readAgain': 'Ler de novo',
+  'reader.progress': '{percent}% lido',
+  'reader.close': 'Sair do modo leitura',
+  'reader.panelMode': 'Um painel por vez',
+  'reader.pageMode': 'Uma página por vez',
+  'reader.guidedZoom': 'Zoom guiado',
+  'reader.play': 'Reproduzir automaticamente',
+  'reader.pause': 'Pausar',
+  'reader.interval': 'Tempo por passo',
+  'reader.seconds': '{seconds} s',
+  'reader.fullscreen': 'Tela cheia',
+  'reader.exitFullscreen': 'Sair da tela cheia',
+  'reader.previous': 'Anterior',
+  'reader.next': 'Próximo',
+  'reader.panelPosition': 'Painel {current} de {total}',
+  'reader.pagePosition': 'Página {current} de {total}',
+  'reader.empty': 'Esta HQ ainda não tem painéis.',
+  'reader.hint': 'Use as setas, deslize ou toque nas bordas para virar; toque no meio para esconder os controles.',
+
+  'create.title': 'Nova Aventura',
+  'create.close': 'Fechar',
+  'create.promptLabel': 'Sobre o que é sua história?',
+  'create.promptPlaceholder': 'Ex: Um herói que descobre poderes ao comer pão de queijo...',
+  'create.charactersLabel': 'Quem aparece na história?',
+  'create.noCharacters': 'Crie personagens com fotos para que apareçam nas suas HQs.',
+  'create.panelCount': 'Painéis',
+  'create.panelCountAuto': 'Auto',
+  'create.genre': 'Gênero',
+  'create.tone': 'Tom',
+  'create.audience': 'Público',
+  'create.any': 'Qualquer',
+  'create.style': 'Estilo de arte',
+  'create.submit': 'CRIAR HQ AGORA!',
+  'create.writingScript': 'CRIANDO ROTEIRO...',
+  'create.generatingPanel': 'GERANDO PAINEL {current}/{total}',
+  'create.partialFailure': 'Alguns painéis não puderam ser gerados. Você pode tentar novamente pela página da HQ.',
+  'create.error': 'Ocorreu um erro ao gerar sua HQ. Tente novamente.',
+
+  'viewer.back': 'VOLTAR PARA MINHA BIBLIOTECA',
+  'viewer.generatingPanels': 'GERANDO PAINÉIS {current}/{total}',
+  'viewer.failedPanels': {
+    one: '{count} painel não pôde ser gerado.',
+    other: '{count} painéis não puderam ser gerados.'
+  },
+  'viewer.retry': 'TENTAR NOVAMENTE',
+  'viewer.imageFailed': 'Não foi possível gerar esta imagem',
+  'viewer.imagePending': 'Gerando imagem...',
+  'viewer.originalEdition': 'Original',
+  'viewer.retranslate': 'RETRADUZIR',
+  'viewer.correctTranslation': 'CORRIGIR TRADUÇÃO',
+  'viewer.doneCorrecting': 'CONCLUIR',
+  'viewer.noEdition': 'Esta HQ ainda não tem uma edição em {language}.',
+  'viewer.translate': 'TRADUZIR HQ',
+  'viewer.translating': 'TRADUZINDO...',
+  'viewer.translateError': 'Não foi possível traduzir esta HQ. Tente novamente.',
+  'viewer.download': 'BAIXAR HQ',
+  'viewer.exportFormat': 'Formato do arquivo',
+  'viewer.pageSize': 'Tamanho da página',
+  'viewer.pageSizeLetter': 'Carta',
+  'viewer.formatBundle': 'Backup (ZIP)',
+  'viewer.switchToList': 'MUDAR PARA LISTA',
+  'viewer.switchToPages': 'MUDAR PARA PÁGINAS',
+  'viewer.edit': 'EDITAR HQ',
+  'viewer.share': 'COMPARTILHAR',
+  'viewer.editBalloons': 'EDITAR BALÕES',
+  'viewer.doneEditingBalloons': 'CONCLUIR BALÕES',
+  'viewer.page': 'Página {number}',
+  'viewer.pageTemplate': 'Layout da página',
+
+  'panel.label': 'Painel {number}',
+  'panel.position': 'Painel {number} de {total}',
+
+  'balloons.add.speech': 'Fala',
+  'balloons.add.thought': 'Pensamento',
+  'balloons.add.narration': 'Narração',
+  'balloons.delete': 'Excluir balão',
+  'balloons.hint': 'Arraste para mover; clique duas vezes para editar o texto. No teclado: setas movem, Shift+setas redimensionam, Enter edita e Delete apaga.',
+  'balloons.spoken.narration': 'Narração: {text}',
+  'balloons.spoken.speech': '{speaker} diz: {text}',
+  'balloons.spoken.speechUnattributed': 'Fala: {text}',
+  'balloons.spoken.thought': '{speaker} pensa: {text}',
+  'balloons.spoken.thoughtUnattributed': 'Pensamento: {text}',
+
+  'layouts.grid-2x2': '2 × 2',
+  'layouts.three-tiers': 'Três faixas',
+  'layouts.two-tiers': 'Duas faixas',
+  'layouts.wide-plus-two': 'Plano geral + dois',
+  'layouts.splash': 'Página inteira',
+
+  'genres.adventure': 'Aventura',
+  'genres.comedy': 'Comédia',
+  'genres.drama': 'Drama',
+  'genres.fantasy': 'Fantasia',
+  'genres.horror': 'Terror',
+  'genres.mystery': 'Mistério',
+  'genres.romance': 'Romance',
+  'genres.science-fiction': 'Ficção científica',
+  'genres.slice-of-life': 'Cotidiano',
+  'genres.superhero': 'Super-herói',
+
+  'tones.lighthearted': 'Leve',
+  'tones.heartfelt': 'Emocionante',
+  'tones.epic': 'Épico',
+  'tones.dark': 'Sombrio',
+  'tones.absurd': 'Absurdo',
+
+  'audiences.kids': 'Crianças',
+  'audiences.teens': 'Adolescentes',
+  'audiences.adults': 'Adultos',
+
+  'styles.classic': 'Clássico',
+  'styles.manga': 'Mangá',
+  'styles.noir': 'Noir',
+  'styles.watercolor': 'Aquarela',
+  'styles.franco-belgian': 'Franco-belga',
+  'styles.pop-art': 'Pop art',
+  'styles.new': 'Novo estilo',
+  'styles.namePlaceholder': 'Nome do estilo',
+  'styles.promptPlaceholder': 'Descreva o traço, as cores, a técnica...',
+  'styles.save': 'SALVAR ESTILO',
+  'styles.delete': 'Excluir estilo',
+  'styles.saveError': 'Não foi possível salvar o estilo. Verifique se já existe outro com o mesmo nome.',
+
+  'editor.back': 'VOLTAR PARA A HQ',
+  'editor.insertHere': 'INSERIR PAINEL AQUI',
+  'editor.addAtEnd': 'ADICIONAR PAINEL NO FINAL',
+  'editor.dragToReorder': 'Arrastar para reordenar',
+  'editor.deletePanel': 'Excluir painel',
+  'editor.deletePanelConfirm': 'Tem certeza que deseja excluir este painel?',
+  'editor.captionPlaceholder': 'Legenda do painel',
+  'editor.scenePlaceholder': 'Descreva a cena para gerar uma nova imagem...',
+  'editor.altText': 'Texto alternativo',
+  'editor.altTextPlaceholder': 'Descreva o que a imagem mostra...',
+  'editor.altTextHint': 'Lido por leitores de tela no lugar da imagem. Em branco, usa a descrição com que a imagem foi gerada.',
+  'editor.regenerate': 'REGERAR',
+  'editor.regenerateError': 'Não foi possível gerar uma nova imagem para este painel.',
+  'editor.panelSaveError': 'Não foi possível salvar as alterações deste painel.',
+  'editor.characters': 'Personagens neste painel',
+  'editor.undo': 'Desfazer',
+  'editor.redo': 'Refazer',
+  'editor.variants': 'Versões da imagem',
+  'editor.alternatives': 'Quantas imagens gerar',
+  'editor.generateAlternatives': 'GERAR {count} ALTERNATIVAS',
+  'editor.deleteVariant': 'Excluir versão',
+  'editor.pruneVariants': 'Limpar versões',
+  'editor.pruneConfirm': 'Excluir todas as versões não usadas desta HQ? O histórico de desfazer também será apagado.',
+  'editor.pruned': {
+    one: '{count} versão excluída.',
+    other: '{count} versões excluídas.'
+  },
+
+  'footer.tagline': 'A revolução das histórias em quadrinhos com IA.',
+  'footer.availableOnAppStore': 'Disponível na',
+  'footer.availableOnGooglePlay': 'Disponível no'
+} satisfies Record<string, Message>;
+
+export type MessageKey = keyof typeof ptBR;
+
+export default ptBR;
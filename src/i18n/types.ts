@@ -0,0 +1,11 @@
+// Plural messages are keyed by Intl.PluralRules categories and chosen by the
+// `count` parameter; `other` is always required as the fallback form.
+export type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+
+export type Message = string | PluralMessage;
+
+export type MessageParams = Record<string, string | number>;
+
+// Translations may lag behind the source catalog: missing keys fall back to
+// pt-BR at runtime and are reported by `npm run i18n:check`.
+export type Catalog = Partial<Record<import('./locales/pt-BR').MessageKey, Message>>;
@@ -0,0 +1,9 @@
+export const LANGUAGES = [
+  { code: 'pt-BR', name: 'Português (Brasil)' },
+  { code: 'en', name: 'English' },
+  { code: 'es', name: 'Español' },
+  { code: 'fr', name: 'Français' },
+  { code: 'ja', name: '日本語' }
+];
+
+export const findLanguage = (code: string) => LANGUAGES.find(l => l.code === code);
@@ -0,0 +1,106 @@
+import type { AspectRatio, PanelSize } from './services/ai';
+
+// Page templates shared by the viewer, the PDF export and image generation.
+// Slots are fractions of a portrait page (PAGE_ASPECT wide by 1 tall), in
+// reading order; each asks the image model for the closest aspect ratio.
+
+export const PAGE_ASPECT = 3 / 4;
+
+export interface LayoutSlot {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  aspectRatio: AspectRatio;
+}
+
+export const PAGE_TEMPLATES = {
+  'grid-2x2': [
+    { x: 0, y: 0, width: 0.5, height: 0.5, aspectRatio: '3:4' },
+    { x: 0.5, y: 0, width: 0.5, height: 0.5, aspectRatio: '3:4' },
+    { x: 0, y: 0.5, width: 0.5, height: 0.5, aspectRatio: '3:4' },
+    { x: 0.5, y: 0.5, width: 0.5, height: 0.5, aspectRatio: '3:4' },
+  ],
+  'three-tiers': [
+    { x: 0, y: 0, width: 1, height: 1 / 3, aspectRatio: '16:9' },
+    { x: 0, y: 1 / 3, width: 1, height: 1 / 3, aspectRatio: '16:9' },
+    { x: 0, y: 2 / 3, width: 1, height: 1 / 3, aspectRatio: '16:9' },
+  ],
+  'two-tiers': [
+    { x: 0, y: 0, width: 1, height: 0.5, aspectRatio: '4:3' },
+    { x: 0, y: 0.5, width: 1, height: 0.5, aspectRatio: '4:3' },
+  ],
+  'wide-plus-two': [
+    { x: 0, y: 0, width: 1, height: 0.45, aspectRatio: '16:9' },
+    { x: 0, y: 0.45, width: 0.5, height: 0.55, aspectRatio: '3:4' },
+    { x: 0.5, y: 0.45, width: 0.5, height: 0.55, aspectRatio: '3:4' },
+  ],
+  'splash': [
+    { x: 0, y: 0, width: 1, height: 1, aspectRatio: '3:4' },
+  ],
+} satisfies Record<string, LayoutSlot[]>;
+
+export type PageTemplateId = keyof typeof PAGE_TEMPLATES;
+
+export const PAGE_TEMPLATE_IDS = Object.keys(PAGE_TEMPLATES) as PageTemplateId[];
+
+// Used for pages the comic has no stored template for, e.g. panels added later.
+export const DEFAULT_PAGE_TEMPLATE: PageTemplateId = 'grid-2x2';
+
+export const isPageTemplate = (value: unknown): value is PageTemplateId =>
+  PAGE_TEMPLATE_IDS.includes(value as PageTemplateId);
+
+// Fits templates to the beats of a new story: splashes get a page of their
+// own, a wide beat followed by two regular ones opens a "wide plus two" page,
+// and the remaining runs fill 2x2, three-tier or two-tier pages.
+export function planPages(sizes: PanelSize[]): PageTemplateId[] {
+  const pages: PageTemplateId[] = [];
+  let index = 0;
+  while (index < sizes.length) {
+    if (sizes[index] === 'splash') {
+      pages.push('splash');
+      index++;
+      continue;
+    }
+    if (sizes[index] === 'wide' && sizes[index + 1] === 'standard' && sizes[index + 2] === 'standard') {
+      pages.push('wide-plus-two');
+      index += 3;
+      continue;
+    }
+    let count = 1;
+    while (count < 4 && index + count < sizes.length && sizes[index + count] === 'standard') count++;
+    pages.push(count === 4 ? 'grid-2x2' : count === 3 ? 'three-tiers' : count === 2 ? 'two-tiers' : 'splash');
+    index += count;
+  }
+  return pages;
+}
+
+export interface Page<T> {
+  template: PageTemplateId;
+  slots: LayoutSlot[];
+  panels: T[];
+}
+
+// Flows panels into pages in order. Templates beyond the stored ones are the
+// default, and only the last page may leave slots empty.
+export function paginate<T>(templates: PageTemplateId[], panels: T[]): Page<T>[] {
+  const pages: Page<T>[] = [];
+  let index = 0;
+  while (index < panels.length) {
+    const template = templates[pages.length] ?? DEFAULT_PAGE_TEMPLATE;
+    const slots: LayoutSlot[] = PAGE_TEMPLATES[template];
+    pages.push({ template, slots, panels: panels.slice(index, index + slots.length) });
+    index += slots.length;
+  }
+  return pages;
+}
+
+// The slot a panel lands in, by its position in the comic.
+export function panelSlot(templates: PageTemplateId[], panelCount: number, panelIndex: number): LayoutSlot | null {
+  const indexes = Array.from({ length: panelCount }, (_, index) => index);
+  for (const page of paginate(templates, indexes)) {
+    const position = page.panels.indexOf(panelIndex);
+    if (position !== -1) return page.slots[position];
+  }
+  return null;
+}
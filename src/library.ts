@@ -0,0 +1,26 @@
+// Library listing options shared by the API and the home screen.
+
+export const COMIC_SORTS = ['newest', 'oldest', 'title'] as const;
+export type ComicSort = typeof COMIC_SORTS[number];
+export const DEFAULT_COMIC_SORT: ComicSort = 'newest';
+
+export const isComicSort = (value: unknown): value is ComicSort => COMIC_SORTS.includes(value as ComicSort);
+
+export const COMICS_PAGE_SIZE = 24;
+export const MAX_COMICS_PAGE_SIZE = 100;
+
+export const MAX_TAGS = 20;
+export const MAX_TAG_LENGTH = 40;
+
+// Trims tags, drops empty ones and keeps the first spelling of tags that only differ in case.
+export function normalizeTags(tags: string[]): string[] {
+  const seen = new Set<string>();
+  const result: string[] = [];
+  for (const tag of tags) {
+    const trimmed = tag.trim().replace(/\s+/g, ' ');
+    if (!trimmed || seen.has(trimmed.toLowerCase())) continue;
+    seen.add(trimmed.toLowerCase());
+    result.push(trimmed);
+  }
+  return result;
+}
@@ -1,10 +1,24 @@
 import {StrictMode} from 'react';
 import {createRoot} from 'react-dom/client';
 import App from './App.tsx';
+import { I18nProvider } from './i18n';
+import { AuthProvider } from './auth';
+import SharedReader from './components/SharedReader';
 import './index.css';
 
+// Share links (/s/<token>) open the read-only reader, which needs no account.
+const shareToken = window.location.pathname.match(/^\/s\/([\w-]+)\/?$/)?.[1];
+
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
-    <App />
+    <I18nProvider>
+      {shareToken ? (
+        <SharedReader token={shareToken} />
+      ) : (
+        <AuthProvider>
+          <App />
+        </AuthProvider>
+      )}
+    </I18nProvider>
   </StrictMode>,
 );
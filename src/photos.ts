@@ -0,0 +1,90 @@
+// Preparing reference photos in the browser, before they are uploaded. Phone
+// pictures are often 12 megapixels or more; the image model gains nothing from
+// that, so photos are cropped, rotated and downscaled here and re-encoded as JPEG.
+
+export interface PhotoCrop {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type Rotation = 0 | 90 | 180 | 270;
+
+export const FULL_CROP: PhotoCrop = { x: 0, y: 0, width: 1, height: 1 };
+
+export const MIN_CROP_SIZE = 0.1;
+
+// Longest side of the prepared photo, in pixels.
+export const PHOTO_SIZES = [512, 1024, 1536];
+export const DEFAULT_PHOTO_SIZE = 1024;
+
+const JPEG_QUALITY = 0.9;
+
+export const loadImage = (src: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Could not load image'));
+    image.src = src;
+  });
+
+// Crops are kept as fractions of the rotated image, so turning the photo turns the crop with it.
+export const rotateCrop = ({ x, y, width, height }: PhotoCrop): PhotoCrop =>
+  ({ x: 1 - y - height, y: x, width: height, height: width });
+
+export const rotatedSize = (image: HTMLImageElement, rotation: Rotation) =>
+  rotation % 180 === 0
+    ? { width: image.naturalWidth, height: image.naturalHeight }
+    : { width: image.naturalHeight, height: image.naturalWidth };
+
+// Pixel size of the prepared photo: the crop, scaled down (never up) to fit maxSize.
+export function outputSize(image: HTMLImageElement, rotation: Rotation, crop: PhotoCrop, maxSize: number) {
+  const rotated = rotatedSize(image, rotation);
+  const width = rotated.width * crop.width;
+  const height = rotated.height * crop.height;
+  const scale = Math.min(1, maxSize / Math.max(width, height));
+  return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+}
+
+export function preparePhoto(image: HTMLImageElement, rotation: Rotation, crop: PhotoCrop, maxSize: number) {
+  const rotated = rotatedSize(image, rotation);
+  const size = outputSize(image, rotation, crop, maxSize);
+  const scale = size.width / (rotated.width * crop.width);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = size.width;
+  canvas.height = size.height;
+  const ctx = canvas.getContext('2d')!;
+  // JPEG has no transparency; transparent PNGs get a white background instead of black.
+  ctx.fillStyle = '#fff';
+  ctx.fillRect(0, 0, size.width, size.height);
+  ctx.scale(scale, scale);
+  ctx.translate(-crop.x * rotated.width, -crop.y * rotated.height);
+  ctx.translate(rotated.width / 2, rotated.height / 2);
+  ctx.rotate((rotation * Math.PI) / 180);
+  ctx.drawImage(image, -image.naturalWidth / 2, -image.naturalHeight / 2);
+  return canvas.toDataURL('image/jpeg', JPEG_QUALITY);
+}
+
+// The still shown in the camera preview, at the camera's full resolution.
+export function captureFrame(video: HTMLVideoElement) {
+  const canvas = document.createElement('canvas');
+  canvas.width = video.videoWidth;
+  canvas.height = video.videoHeight;
+  canvas.getContext('2d')!.drawImage(video, 0, 0);
+  return canvas.toDataURL('image/jpeg', JPEG_QUALITY);
+}
+
+// Portrait 3:4 box centred in the frame, where the camera view asks for the face.
+// Captured photos start with it as their crop.
+export function faceGuide(frameWidth: number, frameHeight: number): PhotoCrop {
+  const height = Math.min(frameHeight * 0.8, frameWidth * 0.8 * (4 / 3));
+  const width = height * 0.75;
+  return {
+    x: (frameWidth - width) / 2 / frameWidth,
+    y: (frameHeight - height) / 2 / frameHeight,
+    width: width / frameWidth,
+    height: height / frameHeight,
+  };
+}
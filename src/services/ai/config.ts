@@ -0,0 +1,14 @@
+import { AIProviderConfig } from './types';
+
+export const DEFAULT_TEXT_MODEL = "gemini-3-flash-preview";
+export const DEFAULT_IMAGE_MODEL = "gemini-2.5-flash-image";
+
+// AI_PROVIDER selects the adapter ("gemini" or "mock"); AI_TEXT_MODEL and
+// AI_IMAGE_MODEL override the model names passed to it.
+export function getAIConfig(): AIProviderConfig {
+  return {
+    provider: process.env.AI_PROVIDER || "gemini",
+    textModel: process.env.AI_TEXT_MODEL || DEFAULT_TEXT_MODEL,
+    imageModel: process.env.AI_IMAGE_MODEL || DEFAULT_IMAGE_MODEL,
+  };
+}
@@ -0,0 +1,23 @@
+// A provider call that did not produce what was asked. `retryable` tells
+// transient failures (an overloaded model, an answer that could not be parsed)
+// from ones that would only fail again, such as a refused prompt.
+export class AIProviderError extends Error {
+  constructor(message: string, readonly retryable: boolean) {
+    super(message);
+  }
+}
+
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+const RETRYABLE_CODES = new Set(["ECONNRESET", "ECONNREFUSED", "ETIMEDOUT", "EAI_AGAIN", "EPIPE", "UND_ERR_SOCKET", "UND_ERR_CONNECT_TIMEOUT"]);
+
+// Whether trying the same call again may succeed. SDK errors carry the HTTP
+// status; network failures carry a Node error code, sometimes on their `cause`.
+export function isRetryable(error: unknown): boolean {
+  if (error instanceof AIProviderError) return error.retryable;
+  if (!error || typeof error !== "object") return false;
+  const { status, code, cause } = error as { status?: unknown; code?: unknown; cause?: unknown };
+  if (typeof status === "number") return RETRYABLE_STATUSES.has(status);
+  if (typeof code === "string" && RETRYABLE_CODES.has(code)) return true;
+  if (error instanceof TypeError && error.message === "fetch failed") return true;
+  return cause !== undefined && cause !== error && isRetryable(cause);
+}
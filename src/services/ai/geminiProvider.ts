@@ -0,0 +1,203 @@
+import { GoogleGenAI, Type } from "@google/genai";
+import { AIProvider, AIProviderConfig, ComicStory, PanelImageOptions, StoryCharacter, StoryContinuity, StoryOptions } from './types';
+import { AIProviderError } from './errors';
+import { DEFAULT_STYLE_ID, findBuiltInStyle } from '../../generation';
+
+const inlineImage = (dataUrl: string) => {
+  const [header, data] = dataUrl.split(',');
+  const mimeType = /^data:([^;,]+)/.exec(header)?.[1] || "image/png";
+  return { inlineData: { data: data ?? dataUrl, mimeType } };
+};
+
+// Reasons the model gives for stopping without an answer because of the
+// content; asking again with the same prompt would be refused again.
+const REFUSAL_REASONS = new Set(["SAFETY", "PROHIBITED_CONTENT", "BLOCKLIST", "SPII", "RECITATION", "IMAGE_SAFETY", "IMAGE_PROHIBITED_CONTENT"]);
+
+const AUDIENCE_PROMPTS: Record<string, string> = {
+  kids: "crianças de 6 a 10 anos: linguagem simples e nada de violência ou sustos fortes",
+  teens: "adolescentes de 11 a 17 anos",
+  adults: "adultos",
+};
+
+// Extra instructions for the script from the options chosen when creating the comic.
+function storyDirections({ genre, tone, audience }: StoryOptions) {
+  return [
+    genre && `Gênero: ${genre}.`,
+    tone && `Tom: ${tone}.`,
+    audience && `Público-alvo: ${AUDIENCE_PROMPTS[audience] || audience}.`,
+  ].filter(Boolean).map(line => `\n        ${line}`).join("");
+}
+
+// Earlier chapters of the series, so the new one picks up where the last ended.
+function continuityDirections(continuity?: StoryContinuity) {
+  if (!continuity) return "";
+  const chapters = continuity.chapters.map(c => `- Capítulo ${c.number}, "${c.title}": ${c.summary}`).join("\n        ");
+  const threads = continuity.openThreads.length
+    ? `\n        Pontas soltas que este capítulo pode desenvolver ou resolver:\n        ${continuity.openThreads.map(t => `- ${t}`).join("\n        ")}`
+    : "";
+  return `
+        Esta história é o capítulo ${continuity.chapters.length + 1} de uma série e deve continuar os capítulos anteriores,
+        mantendo personagens, cenários e acontecimentos coerentes com eles:
+        ${chapters}${threads}`;
+}
+
+export function createGeminiProvider(config: AIProviderConfig): AIProvider {
+  const getAI = () => {
+    const apiKey = process.env.GEMINI_API_KEY;
+    if (!apiKey) throw new Error("GEMINI_API_KEY is not set");
+    return new GoogleGenAI({ apiKey });
+  };
+
+  return {
+    name: "gemini",
+
+    async generateStory(prompt: string, language: string, characters: StoryCharacter[] = [], options: StoryOptions = {}): Promise<ComicStory> {
+      const ai = getAI();
+      const cast = characters.length
+        ? `
+        Os personagens da história são (use exatamente estes nomes):
+        ${characters.map(c => `- ${c.name}${c.description ? `: ${c.description}` : ""}`).join("\n        ")}
+        Para cada painel, liste em "characters" os nomes dos personagens que aparecem nele.`
+        : "";
+      const response = await ai.models.generateContent({
+        model: config.textModel,
+        contents: `Crie uma história curta para uma história em quadrinhos baseada no seguinte tema: "${prompt}".
+        Retorne a história dividida em ${options.panelCount ? `exatamente ${options.panelCount}` : "4 a 6"} painéis.${storyDirections(options)}${continuityDirections(options.continuity)}
+        Para cada painel, forneça uma descrição visual detalhada (para geração de imagem) e, em "elements", os textos do painel na ordem de leitura:
+        narração ("narration"), falas ("speech") e pensamentos ("thought"). Em falas e pensamentos, informe em "speaker" o nome de quem fala.
+        Em "size", use "wide" para planos gerais que apresentam um cenário, "splash" para no máximo um momento culminante que mereça uma página inteira e "standard" para os demais.${cast}
+        Em "summary", resuma a história em até três frases, e em "openThreads" liste as questões que ficaram sem resolução no final.
+        O idioma da resposta deve ser ${language}.`,
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: {
+            type: Type.OBJECT,
+            properties: {
+              title: { type: Type.STRING },
+              panels: {
+                type: Type.ARRAY,
+                items: {
+                  type: Type.OBJECT,
+                  properties: {
+                    visualDescription: { type: Type.STRING },
+                    size: { type: Type.STRING, enum: ["standard", "wide", "splash"] },
+                    elements: {
+                      type: Type.ARRAY,
+                      items: {
+                        type: Type.OBJECT,
+                        properties: {
+                          type: { type: Type.STRING, enum: ["speech", "thought", "narration"] },
+                          speaker: { type: Type.STRING },
+                          text: { type: Type.STRING }
+                        },
+                        required: ["type", "text"]
+                      }
+                    },
+                    characters: { type: Type.ARRAY, items: { type: Type.STRING } }
+                  },
+                  required: ["visualDescription", "elements"]
+                }
+              },
+              summary: { type: Type.STRING },
+              openThreads: { type: Type.ARRAY, items: { type: Type.STRING } }
+            },
+            required: ["title", "panels"]
+          }
+        }
+      });
+
+      let story: ComicStory;
+      try {
+        // Remove markdown code blocks if present
+        story = JSON.parse((response.text || "").replace(/```json|```/g, "").trim());
+      } catch (e) {
+        console.error("Failed to parse AI response:", response.text);
+        throw new AIProviderError("O roteiro gerado veio em um formato inválido", true);
+      }
+      if (!Array.isArray(story?.panels) || story.panels.length === 0) {
+        throw new AIProviderError("O roteiro gerado não tem painéis", true);
+      }
+      return story;
+    },
+
+    async generatePanelImage(description: string, { references = [], aspectRatio = "1:1", style }: PanelImageOptions = {}) {
+      const ai = getAI();
+
+      const parts: any[] = [
+        { text: `Gere uma imagem de estilo história em quadrinhos (comic book style) baseada na seguinte descrição: ${description}. ${style || findBuiltInStyle(DEFAULT_STYLE_ID)!.prompt}` }
+      ];
+
+      // Each character's photos follow a label, so the model can tell the people apart.
+      for (const reference of references) {
+        parts.push({
+          text: reference.name
+            ? `Fotos de referência de ${reference.name}${reference.description ? ` (${reference.description})` : ""}. Faça com que ${reference.name} se pareça com a pessoa nestas fotos.`
+            : "Incorpore as características da pessoa/objeto na imagem enviada para que o personagem se pareça com ela."
+        });
+        parts.push(...reference.images.map(inlineImage));
+      }
+
+      const response = await ai.models.generateContent({
+        model: config.imageModel,
+        contents: { parts },
+        config: {
+          imageConfig: {
+            aspectRatio
+          }
+        }
+      });
+
+      const candidate = response.candidates?.[0];
+      for (const part of candidate?.content?.parts || []) {
+        if (part.inlineData) {
+          return `data:${part.inlineData.mimeType || "image/png"};base64,${part.inlineData.data}`;
+        }
+      }
+
+      const reason = response.promptFeedback?.blockReason || candidate?.finishReason;
+      if (reason && REFUSAL_REASONS.has(reason)) {
+        throw new AIProviderError(`O modelo recusou gerar esta imagem (${reason})`, false);
+      }
+      throw new AIProviderError("O modelo não retornou uma imagem", true);
+    },
+
+    async translate(text: string, targetLanguage: string) {
+      const ai = getAI();
+      const response = await ai.models.generateContent({
+        model: config.textModel,
+        contents: `Traduza o seguinte texto para o idioma "${targetLanguage}":\n\n${text}`,
+      });
+      return response.text || "";
+    },
+
+    async translateBatch(texts: string[], targetLanguage: string) {
+      const ai = getAI();
+      const response = await ai.models.generateContent({
+        model: config.textModel,
+        contents: `Traduza cada item do array JSON a seguir para o idioma "${targetLanguage}".
+        Retorne um array JSON com o mesmo número de itens, na mesma ordem, contendo apenas as traduções.
+
+        ${JSON.stringify(texts)}`,
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: {
+            type: Type.ARRAY,
+            items: { type: Type.STRING }
+          }
+        }
+      });
+
+      let translated: unknown;
+      try {
+        translated = JSON.parse((response.text || "[]").replace(/```json|```/g, "").trim());
+      } catch (e) {
+        translated = null;
+      }
+      // The model sometimes drops or merges items; another try usually gets it right.
+      if (!Array.isArray(translated) || translated.length !== texts.length) {
+        throw new AIProviderError(`Expected ${texts.length} translations, got ${Array.isArray(translated) ? translated.length : "none"}`, true);
+      }
+      return translated.map(String);
+    },
+  };
+}
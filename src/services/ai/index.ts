@@ -0,0 +1,33 @@
+import { getAIConfig } from './config';
+import { createGeminiProvider } from './geminiProvider';
+import { createMockProvider } from './mockProvider';
+import { AIProvider } from './types';
+
+export { AIProviderError, isRetryable } from './errors';
+export { withRetries } from './retry';
+export type { RetryOptions } from './retry';
+export type { AIProvider, AIProviderConfig, AspectRatio, CharacterReference, ComicStory, PanelImageOptions, PanelSize, PreviousChapter, StoryCharacter, StoryContinuity, StoryElement, StoryOptions, StoryPanel } from './types';
+
+let cached: { key: string; provider: AIProvider } | null = null;
+
+// Returns the adapter selected by the current configuration, rebuilding it
+// only when the configuration changes.
+export function getProvider(): AIProvider {
+  const config = getAIConfig();
+  const key = JSON.stringify(config);
+  if (cached?.key === key) return cached.provider;
+
+  let provider: AIProvider;
+  switch (config.provider) {
+    case "gemini":
+      provider = createGeminiProvider(config);
+      break;
+    case "mock":
+      provider = createMockProvider();
+      break;
+    default:
+      throw new Error(`Unknown AI_PROVIDER "${config.provider}"`);
+  }
+  cached = { key, provider };
+  return provider;
+}
@@ -0,0 +1,179 @@
+import { AIProvider, AspectRatio, ComicStory, PanelImageOptions, PanelSize, StoryCharacter, StoryElement, StoryOptions } from './types';
+import { AIProviderError } from './errors';
+import { createRaster, encodePNG, fillCircle, fillRect, RGB } from './png';
+
+// Length of the longer side; the other follows the requested aspect ratio.
+const IMAGE_SIZE = 512;
+
+const PALETTE: RGB[] = [
+  [250, 204, 21],
+  [239, 68, 68],
+  [59, 130, 246],
+  [34, 197, 94],
+  [168, 85, 247],
+  [249, 115, 22],
+  [236, 72, 153],
+  [20, 184, 166],
+];
+
+const BEATS: Record<string, { visual: string; type: StoryElement["type"]; text: string; size?: PanelSize }[]> = {
+  "pt-BR": [
+    { visual: "Plano geral apresentando o cenário", size: "wide", type: "narration", text: "Tudo começou em um dia comum..." },
+    { visual: "Close no rosto do protagonista, surpreso", type: "speech", text: "O que é isso?!" },
+    { visual: "Cena de ação com linhas de movimento", type: "narration", text: "Não havia tempo a perder." },
+    { visual: "O obstáculo surge, ameaçador", type: "speech", text: "Não vou desistir agora!" },
+    { visual: "Momento decisivo com explosão de cores", size: "splash", type: "thought", text: "É agora ou nunca..." },
+    { visual: "Pôr do sol, o protagonista sorrindo", type: "narration", text: "Fim... ou apenas o começo?" },
+  ],
+  en: [
+    { visual: "Wide shot introducing the setting", size: "wide", type: "narration", text: "It all started on an ordinary day..." },
+    { visual: "Close-up of the hero's surprised face", type: "speech", text: "What is that?!" },
+    { visual: "Action scene with speed lines", type: "narration", text: "There was no time to lose." },
+    { visual: "The obstacle appears, menacing", type: "speech", text: "I won't give up now!" },
+    { visual: "Decisive moment with a burst of colour", size: "splash", type: "thought", text: "It's now or never..." },
+    { visual: "Sunset, the hero smiling", type: "narration", text: "The end... or just the beginning?" },
+  ],
+};
+
+const HERO: Record<string, string> = { "pt-BR": "Protagonista", en: "Hero" };
+
+const RECAP: Record<string, { summary: (hero: string, prompt: string) => string; thread: (hero: string) => string; chapter: string }> = {
+  "pt-BR": {
+    summary: (hero, prompt) => `${hero} enfrentou um obstáculo ameaçador: ${prompt}.`,
+    thread: hero => `De onde veio o obstáculo que ${hero} enfrentou?`,
+    chapter: "Capítulo",
+  },
+  en: {
+    summary: (hero, prompt) => `${hero} faced a menacing obstacle: ${prompt}.`,
+    thread: hero => `Where did the obstacle ${hero} faced come from?`,
+    chapter: "Chapter",
+  },
+};
+
+// FNV-1a, so the same prompt always seeds the same output.
+function hashString(value: string) {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// mulberry32
+function createRandom(seed: number) {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const pick = <T>(random: () => number, items: T[]) => items[Math.floor(random() * items.length)];
+
+// Waits AI_MOCK_DELAY_MS, then fails with a transient error at the rate set
+// by AI_MOCK_FAILURE_RATE (0 to 1), to exercise retries and failed panels offline.
+const delay = async () => {
+  const ms = Number(process.env.AI_MOCK_DELAY_MS || 0);
+  if (ms > 0) await new Promise(resolve => setTimeout(resolve, ms));
+  if (Math.random() < Number(process.env.AI_MOCK_FAILURE_RATE || 0)) {
+    throw new AIProviderError("Falha simulada do provedor", true);
+  }
+};
+
+function drawPlaceholder(seedText: string, aspectRatio: AspectRatio) {
+  const random = createRandom(hashString(seedText));
+  const background = pick(random, PALETTE);
+  const [ratioWidth, ratioHeight] = aspectRatio.split(":").map(Number);
+  const width = Math.round(IMAGE_SIZE * Math.min(1, ratioWidth / ratioHeight));
+  const height = Math.round(IMAGE_SIZE * Math.min(1, ratioHeight / ratioWidth));
+  const raster = createRaster(width, height, background);
+
+  // Halftone dots over the background, comic style.
+  const dot: RGB = background.map(c => Math.max(0, c - 40)) as RGB;
+  for (let row = 0; row * 16 < height; row++) {
+    for (let x = row % 2 ? 16 : 8; x < width; x += 16) fillCircle(raster, x, row * 16 + 8, 3, dot);
+  }
+
+  const shapes = 3 + Math.floor(random() * 4);
+  for (let i = 0; i < shapes; i++) {
+    const color = pick(random, PALETTE);
+    const x = random() * width;
+    const y = random() * height;
+    const size = 40 + random() * 120;
+    if (random() < 0.5) {
+      fillCircle(raster, x, y, size + 4, [0, 0, 0]);
+      fillCircle(raster, x, y, size, color);
+    } else {
+      fillRect(raster, Math.round(x - 4), Math.round(y - 4), Math.round(size * 1.5 + 8), Math.round(size + 8), [0, 0, 0]);
+      fillRect(raster, Math.round(x), Math.round(y), Math.round(size * 1.5), Math.round(size), color);
+    }
+  }
+
+  // Panel frame.
+  const frame = 10;
+  fillRect(raster, 0, 0, width, frame, [0, 0, 0]);
+  fillRect(raster, 0, height - frame, width, frame, [0, 0, 0]);
+  fillRect(raster, 0, 0, frame, height, [0, 0, 0]);
+  fillRect(raster, width - frame, 0, frame, height, [0, 0, 0]);
+
+  return encodePNG(raster);
+}
+
+// Offline provider for development, demos and tests: no key, no network,
+// and identical input always yields identical output.
+export function createMockProvider(): AIProvider {
+  return {
+    name: "mock",
+
+    async generateStory(prompt: string, language: string, characters: StoryCharacter[] = [], options: StoryOptions = {}): Promise<ComicStory> {
+      await delay();
+      const random = createRandom(hashString(`${language}:${prompt}`));
+      const beats = BEATS[language] || BEATS.en;
+      const count = options.panelCount || 4 + Math.floor(random() * 3);
+      const recap = RECAP[language] || RECAP.en;
+      const chapter = options.continuity ? options.continuity.chapters.length + 1 : null;
+      const words = prompt.split(/\s+/).slice(0, 6).join(" ") || "Mock";
+      const title = chapter ? `${recap.chapter} ${chapter}: ${words}` : words;
+      const names = characters.map(c => c.name);
+      const hero = names[0] || HERO[language] || HERO.en;
+
+      return {
+        title: title.charAt(0).toUpperCase() + title.slice(1),
+        summary: recap.summary(hero, prompt),
+        // Each chapter resolves the oldest open thread and leaves a new one.
+        openThreads: [...(options.continuity?.openThreads.slice(1) || []), recap.thread(hero)],
+        // Longer stories cycle through the beats again.
+        panels: Array.from({ length: count }, (_, index) => {
+          const beat = beats[index % beats.length];
+          const round = index >= beats.length ? ` #${Math.floor(index / beats.length) + 1}` : "";
+          // The whole cast opens the story; later panels feature a random subset.
+          const cast = index === 0 ? names : names.filter(() => random() < 0.5);
+          return {
+            visualDescription: `${beat.visual}${round}: ${prompt}${cast.length ? ` (${cast.join(", ")})` : ""}`,
+            size: beat.size || "standard",
+            elements: [{ type: beat.type, speaker: beat.type === "narration" ? undefined : cast[0] || hero, text: beat.text }],
+            characters: cast,
+          };
+        }),
+      };
+    },
+
+    async generatePanelImage(description: string, { references = [], aspectRatio = "1:1", style = "", variant = 0 }: PanelImageOptions = {}) {
+      await delay();
+      const seed = [description, style, variant || "", ...references.flatMap(r => [r.name, ...r.images.map(image => image.slice(-64))])].join(":");
+      return `data:image/png;base64,${drawPlaceholder(seed, aspectRatio).toString("base64")}`;
+    },
+
+    async translate(text: string, targetLanguage: string) {
+      await delay();
+      return `[${targetLanguage}] ${text}`;
+    },
+
+    async translateBatch(texts: string[], targetLanguage: string) {
+      await delay();
+      return texts.map(text => `[${targetLanguage}] ${text}`);
+    },
+  };
+}
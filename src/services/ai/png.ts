@@ -0,0 +1,80 @@
+import { deflateSync } from "zlib";
+
+export type RGB = [number, number, number];
+
+// A tiny RGB raster with just enough drawing primitives for placeholder art.
+export interface Raster {
+  width: number;
+  height: number;
+  pixels: Uint8Array;
+}
+
+export function createRaster(width: number, height: number, background: RGB): Raster {
+  const pixels = new Uint8Array(width * height * 3);
+  for (let i = 0; i < width * height; i++) pixels.set(background, i * 3);
+  return { width, height, pixels };
+}
+
+export function setPixel(raster: Raster, x: number, y: number, color: RGB) {
+  if (x < 0 || y < 0 || x >= raster.width || y >= raster.height) return;
+  raster.pixels.set(color, (Math.floor(y) * raster.width + Math.floor(x)) * 3);
+}
+
+export function fillRect(raster: Raster, x: number, y: number, w: number, h: number, color: RGB) {
+  for (let py = Math.max(0, y); py < Math.min(raster.height, y + h); py++) {
+    for (let px = Math.max(0, x); px < Math.min(raster.width, x + w); px++) {
+      setPixel(raster, px, py, color);
+    }
+  }
+}
+
+export function fillCircle(raster: Raster, cx: number, cy: number, r: number, color: RGB) {
+  for (let py = Math.floor(cy - r); py <= cy + r; py++) {
+    for (let px = Math.floor(cx - r); px <= cx + r; px++) {
+      if ((px - cx) ** 2 + (py - cy) ** 2 <= r * r) setPixel(raster, px, py, color);
+    }
+  }
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(bytes: Uint8Array) {
+  let crc = 0xffffffff;
+  for (const byte of bytes) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function chunk(type: string, data: Uint8Array) {
+  const body = Buffer.concat([Buffer.from(type, "ascii"), data]);
+  const out = Buffer.alloc(body.length + 8);
+  out.writeUInt32BE(data.length, 0);
+  body.copy(out, 4);
+  out.writeUInt32BE(crc32(body), body.length + 4);
+  return out;
+}
+
+export function encodePNG(raster: Raster): Buffer {
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(raster.width, 0);
+  header.writeUInt32BE(raster.height, 4);
+  header[8] = 8; // bit depth
+  header[9] = 2; // color type: truecolor RGB
+
+  // Every scanline is prefixed with filter type 0 (none).
+  const stride = raster.width * 3;
+  const scanlines = Buffer.alloc((stride + 1) * raster.height);
+  for (let y = 0; y < raster.height; y++) {
+    Buffer.from(raster.pixels.buffer, y * stride, stride).copy(scanlines, y * (stride + 1) + 1);
+  }
+
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    chunk("IHDR", header),
+    chunk("IDAT", deflateSync(scanlines)),
+    chunk("IEND", new Uint8Array(0)),
+  ]);
+}
@@ -0,0 +1,35 @@
+import { isRetryable } from './errors';
+
+export interface RetryOptions {
+  // Tries in total, the first one included.
+  attempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+// AI_RETRY_ATTEMPTS and AI_RETRY_BASE_DELAY_MS override the defaults; one attempt turns retrying off.
+export function getRetryOptions(): RetryOptions {
+  return {
+    attempts: Math.max(1, Number(process.env.AI_RETRY_ATTEMPTS) || 3),
+    baseDelayMs: Number(process.env.AI_RETRY_BASE_DELAY_MS) || 1000,
+    maxDelayMs: 30_000,
+  };
+}
+
+// "Full jitter": a random wait of up to twice the previous ceiling, so clients
+// that failed together do not all come back at the same moment.
+const backoff = (attempt: number, { baseDelayMs, maxDelayMs }: RetryOptions) =>
+  Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+
+// Runs `call` until it succeeds, fails with an error that is not worth
+// retrying, or runs out of attempts; the last error is thrown.
+export async function withRetries<T>(call: (attempt: number) => Promise<T>, options: RetryOptions = getRetryOptions()): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await call(attempt);
+    } catch (error) {
+      if (attempt >= options.attempts || !isRetryable(error)) throw error;
+      await new Promise(resolve => setTimeout(resolve, backoff(attempt, options)));
+    }
+  }
+}
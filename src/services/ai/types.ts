@@ -0,0 +1,94 @@
+// One piece of text in a panel. Speech and thoughts name their speaker.
+export interface StoryElement {
+  type: 'speech' | 'thought' | 'narration';
+  speaker?: string;
+  text: string;
+}
+
+// How much room a beat deserves on the page: wide establishing shots and
+// full-page splashes get their own page templates.
+export type PanelSize = 'standard' | 'wide' | 'splash';
+
+// Aspect ratios the image models accept, as width:height.
+export type AspectRatio = '1:1' | '3:4' | '4:3' | '9:16' | '16:9';
+
+export interface StoryPanel {
+  visualDescription: string;
+  size?: PanelSize;
+  // Text in reading order, placed over the art as balloons and narration boxes.
+  elements?: StoryElement[];
+  // Flat caption printed below the art, from providers without structured text.
+  caption?: string;
+  // Names of the cast members who appear in the panel, as given to generateStory.
+  characters?: string[];
+}
+
+export interface StoryCharacter {
+  name: string;
+  description: string;
+}
+
+// A recurring character for image generation, with its photos as data URLs.
+// Legacy single reference photos have no name.
+export interface CharacterReference extends StoryCharacter {
+  images: string[];
+}
+
+export interface PreviousChapter {
+  number: number;
+  title: string;
+  summary: string;
+}
+
+// What a new chapter of a series has to stay consistent with.
+export interface StoryContinuity {
+  chapters: PreviousChapter[];
+  // Plot points left open at the end of the latest chapter.
+  openThreads: string[];
+}
+
+// Shape of the story beyond the prompt. Values are ids from src/generation.ts.
+export interface StoryOptions {
+  panelCount?: number;
+  genre?: string;
+  tone?: string;
+  audience?: string;
+  // Set when the story continues a series instead of starting from scratch.
+  continuity?: StoryContinuity;
+}
+
+export interface PanelImageOptions {
+  references?: CharacterReference[];
+  aspectRatio?: AspectRatio;
+  // Art direction appended to the description, from the comic's style preset.
+  style?: string;
+  // Tells alternatives for the same description apart; providers that are
+  // random anyway may ignore it.
+  variant?: number;
+}
+
+export interface ComicStory {
+  title: string;
+  panels: StoryPanel[];
+  // A few sentences on what happened, and what is left unresolved, for the next chapter to build on.
+  summary?: string;
+  openThreads?: string[];
+}
+
+export interface AIProviderConfig {
+  provider: string;
+  textModel: string;
+  imageModel: string;
+}
+
+// Everything the app asks of a generative backend. Images are returned as
+// data URLs. A call that cannot deliver throws, with an AIProviderError
+// when the backend can tell whether trying again might help.
+export interface AIProvider {
+  readonly name: string;
+  generateStory(prompt: string, language: string, characters?: StoryCharacter[], options?: StoryOptions): Promise<ComicStory>;
+  generatePanelImage(description: string, options?: PanelImageOptions): Promise<string>;
+  translate(text: string, targetLanguage: string): Promise<string>;
+  // Translates every entry in a single request; the result keeps the input order and length.
+  translateBatch(texts: string[], targetLanguage: string): Promise<string[]>;
+}
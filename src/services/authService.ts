@@ -0,0 +1,32 @@
+import { User, UserRole, UserSummary } from '../types';
+
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(url, init && {
+    ...init,
+    headers: { 'Content-Type': 'application/json' }
+  });
+  if (!res.ok) throw new Error((await res.json()).error);
+  return res.json();
+}
+
+// Null when there is no valid session cookie.
+export async function fetchCurrentUser(): Promise<User | null> {
+  const res = await fetch('/api/auth/me');
+  if (res.status === 401) return null;
+  if (!res.ok) throw new Error((await res.json()).error);
+  return res.json();
+}
+
+export const login = (username: string, password: string) =>
+  request<User>('/api/auth/login', { method: 'POST', body: JSON.stringify({ username, password }) });
+
+export const register = (username: string, password: string) =>
+  request<User>('/api/auth/register', { method: 'POST', body: JSON.stringify({ username, password }) });
+
+export const logout = () => request<{ success: boolean }>('/api/auth/logout', { method: 'POST' });
+
+// Admins only.
+export const fetchUsers = () => request<UserSummary[]>('/api/users');
+
+export const setUserRole = (id: string, role: UserRole) =>
+  request<User>(`/api/users/${id}`, { method: 'PATCH', body: JSON.stringify({ role }) });
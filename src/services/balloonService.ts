@@ -0,0 +1,25 @@
+import { Balloon, BalloonType, ComicTranslation } from '../types';
+
+async function request<T>(url: string, init: RequestInit): Promise<T> {
+  const res = await fetch(url, { ...init, headers: { 'Content-Type': 'application/json' } });
+  if (!res.ok) throw new Error((await res.json()).error);
+  return res.json();
+}
+
+const balloonsUrl = (comicId: string, panelId: string) => `/api/comics/${comicId}/panels/${panelId}/balloons`;
+
+export const addBalloon = (comicId: string, panelId: string, type: BalloonType) =>
+  request<Balloon>(balloonsUrl(comicId, panelId), { method: 'POST', body: JSON.stringify({ type }) });
+
+export const updateBalloon = (comicId: string, panelId: string, balloonId: string, changes: Partial<Omit<Balloon, 'id' | 'order_index'>>) =>
+  request<Balloon>(`${balloonsUrl(comicId, panelId)}/${balloonId}`, { method: 'PATCH', body: JSON.stringify(changes) });
+
+export const deleteBalloon = (comicId: string, panelId: string, balloonId: string) =>
+  request<{ success: boolean }>(`${balloonsUrl(comicId, panelId)}/${balloonId}`, { method: 'DELETE' });
+
+// Text corrections in an edition are stored as manual translations, not on the balloon itself.
+export const correctBalloonTranslation = (comicId: string, language: string, balloonId: string, text: string) =>
+  request<ComicTranslation>(`/api/comics/${comicId}/translations/${language}/balloons/${balloonId}`, {
+    method: 'PATCH',
+    body: JSON.stringify({ text })
+  });
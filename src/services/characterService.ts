@@ -0,0 +1,33 @@
+import { Character } from '../types';
+
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(url, init && {
+    ...init,
+    headers: { 'Content-Type': 'application/json' }
+  });
+  if (!res.ok) throw new Error((await res.json()).error);
+  return res.json();
+}
+
+export const fetchCharacters = () => request<Character[]>('/api/characters');
+
+export const createCharacter = (name: string, description: string, photos: string[] = []) =>
+  request<Character>('/api/characters', { method: 'POST', body: JSON.stringify({ name, description, photos }) });
+
+export const updateCharacter = (id: string, changes: Partial<Pick<Character, 'name' | 'description'>>) =>
+  request<Character>(`/api/characters/${id}`, { method: 'PATCH', body: JSON.stringify(changes) });
+
+export const deleteCharacter = (id: string) =>
+  request<{ success: boolean }>(`/api/characters/${id}`, { method: 'DELETE' });
+
+export const addCharacterPhoto = (id: string, image: string) =>
+  request<Character>(`/api/characters/${id}/photos`, { method: 'POST', body: JSON.stringify({ image }) });
+
+export const deleteCharacterPhoto = (id: string, photoId: string) =>
+  request<Character>(`/api/characters/${id}/photos/${photoId}`, { method: 'DELETE' });
+
+export const setPanelCharacters = (comicId: string, panelId: string, characterIds: string[]) =>
+  request<{ character_ids: string[] }>(`/api/comics/${comicId}/panels/${panelId}/characters`, {
+    method: 'PUT',
+    body: JSON.stringify({ characterIds })
+  });
@@ -1,94 +1,159 @@
-import { GoogleGenAI, Type, GenerateContentResponse } from "@google/genai";
-
-const getAI = () => {
-  const apiKey = process.env.GEMINI_API_KEY;
-  if (!apiKey) throw new Error("GEMINI_API_KEY is not set");
-  return new GoogleGenAI({ apiKey });
-};
-
-export async function generateComicStory(prompt: string, language: string = "pt-BR") {
-  const ai = getAI();
-  const response = await ai.models.generateContent({
-    model: "gemini-3-flash-preview",
-    contents: `Crie uma história curta para uma história em quadrinhos baseada no seguinte tema: "${prompt}". 
-    Retorne a história dividida em 4 a 6 painéis. 
-    Para cada painel, forneça uma descrição visual detalhada (para geração de imagem) e um texto de legenda ou balão de fala.
-    O idioma da resposta deve ser ${language}.`,
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.OBJECT,
-        properties: {
-          title: { type: Type.STRING },
-          panels: {
-            type: Type.ARRAY,
-            items: {
-              type: Type.OBJECT,
-              properties: {
-                visualDescription: { type: Type.STRING },
-                caption: { type: Type.STRING }
-              },
-              required: ["visualDescription", "caption"]
-            }
-          }
-        },
-        required: ["title", "panels"]
-      }
-    }
-  });
+import { getProvider, PanelImageOptions, StoryCharacter, StoryOptions, withRetries } from './ai';
+import { getAIConfig } from './ai/config';
 
-  try {
-    const text = response.text || "{}";
-    // Remove markdown code blocks if present
-    const cleanJson = text.replace(/```json|```/g, "").trim();
-    return JSON.parse(cleanJson);
-  } catch (e) {
-    console.error("Failed to parse AI response:", response.text);
-    return { title: "História Sem Título", panels: [] };
-  }
+// Entry points used by the rest of the app. They delegate to the provider
+// selected through AI_PROVIDER (see ./ai/config.ts), Gemini by default.
+// Every call names who it is made for and passes through the usage hooks,
+// which the server uses to enforce quotas and keep the usage ledger.
+// Transient failures are retried with backoff, and answers are kept in the
+// response cache, when one is set, so that an identical request is not paid twice.
+
+export type AIOperation = "story" | "image" | "translate";
+
+export interface UsageContext {
+  userId: string | null;
+  comicId?: string | null;
+  jobId?: string | null;
+}
+
+// One provider call, or one answer served from the cache. Sizes are in
+// characters of text and number of images.
+export interface UsageRecord {
+  operation: AIOperation;
+  provider: string;
+  model: string;
+  context: UsageContext;
+  inputChars: number;
+  inputImages: number;
+  outputChars: number;
+  outputImages: number;
+  latencyMs: number;
+  error: string | null;
+  cached: boolean;
+}
+
+export interface UsageHooks {
+  // Throws to refuse the call before anything is sent.
+  before(operation: AIOperation, context: UsageContext): void;
+  after(record: UsageRecord): void;
 }
 
-export async function generatePanelImage(description: string, referenceImageBase64?: string) {
-  const ai = getAI();
-  
-  const parts: any[] = [
-    { text: `Gere uma imagem de estilo história em quadrinhos (comic book style) baseada na seguinte descrição: ${description}. Use cores vibrantes e traços fortes.` }
-  ];
-
-  if (referenceImageBase64) {
-    parts.push({
-      inlineData: {
-        data: referenceImageBase64.split(',')[1] || referenceImageBase64,
-        mimeType: "image/png"
-      }
-    });
-    parts[0].text += " Incorpore as características da pessoa/objeto na imagem enviada para que o personagem se pareça com ela.";
+let hooks: UsageHooks | null = null;
+
+export function setUsageHooks(next: UsageHooks | null) {
+  hooks = next;
+}
+
+// Identifies an answer: `request` holds every input that shapes it.
+export interface CacheKey {
+  operation: AIOperation;
+  provider: string;
+  model: string;
+  request: unknown;
+}
+
+export interface ResponseCache {
+  // Resolves to undefined when there is no usable answer.
+  get(key: CacheKey): Promise<unknown>;
+  set(key: CacheKey, response: unknown): Promise<void>;
+  delete(key: CacheKey): Promise<void>;
+}
+
+let cache: ResponseCache | null = null;
+
+export function setResponseCache(next: ResponseCache | null) {
+  cache = next;
+}
+
+function cacheKey(operation: AIOperation, request: unknown): CacheKey {
+  const config = getAIConfig();
+  return { operation, provider: config.provider, model: operation === "image" ? config.imageModel : config.textModel, request };
+}
+
+interface Size {
+  chars: number;
+  images: number;
+}
+
+async function tracked<T>(
+  operation: AIOperation,
+  context: UsageContext,
+  request: unknown,
+  input: Size,
+  call: () => Promise<T>,
+  output: (result: T) => Size
+): Promise<T> {
+  const key = cacheKey(operation, request);
+  const record = { operation, provider: key.provider, model: key.model, context, inputChars: input.chars, inputImages: input.images };
+
+  const lookup = Date.now();
+  const hit = await cache?.get(key) as T | undefined;
+  if (hit !== undefined) {
+    const size = output(hit);
+    hooks?.after({ ...record, outputChars: size.chars, outputImages: size.images, latencyMs: Date.now() - lookup, error: null, cached: true });
+    return hit;
   }
 
-  const response = await ai.models.generateContent({
-    model: "gemini-2.5-flash-image",
-    contents: { parts },
-    config: {
-      imageConfig: {
-        aspectRatio: "1:1"
-      }
+  // Every attempt reaches the provider, so each is checked and recorded on its own.
+  const result = await withRetries(async () => {
+    hooks?.before(operation, context);
+    const started = Date.now();
+    try {
+      const result = await call();
+      const size = output(result);
+      hooks?.after({ ...record, outputChars: size.chars, outputImages: size.images, latencyMs: Date.now() - started, error: null, cached: false });
+      return result;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      hooks?.after({ ...record, outputChars: 0, outputImages: 0, latencyMs: Date.now() - started, error: message, cached: false });
+      throw error;
     }
   });
+  // The answer is good either way; failing to keep it only costs a future call.
+  await cache?.set(key, result).catch(error => console.error("Failed to cache AI response:", error));
+  return result;
+}
 
-  for (const part of response.candidates?.[0]?.content?.parts || []) {
-    if (part.inlineData) {
-      return `data:image/png;base64,${part.inlineData.data}`;
-    }
-  }
-  
-  return null;
+const textSize = (...texts: (string | undefined)[]) => texts.reduce((sum, text) => sum + (text?.length ?? 0), 0);
+
+export async function generateComicStory(
+  prompt: string,
+  language: string = "pt-BR",
+  characters: StoryCharacter[] = [],
+  options: StoryOptions = {},
+  context: UsageContext
+) {
+  const input = {
+    chars: textSize(prompt, ...characters.flatMap(c => [c.name, c.description]), JSON.stringify(options.continuity ?? "")),
+    images: 0,
+  };
+  return tracked("story", context, [prompt, language, characters, options], input, () => getProvider().generateStory(prompt, language, characters, options),
+    story => ({ chars: JSON.stringify(story).length, images: 0 }));
 }
 
-export async function translateText(text: string, targetLanguage: string) {
-  const ai = getAI();
-  const response = await ai.models.generateContent({
-    model: "gemini-3-flash-preview",
-    contents: `Traduza o seguinte texto para o idioma "${targetLanguage}":\n\n${text}`,
-  });
-  return response.text;
+// Drops the cached story written for the same arguments, e.g. once moderation
+// rejects it, so that asking again writes a new one instead of reusing it.
+export async function discardComicStory(prompt: string, language: string, characters: StoryCharacter[], options: StoryOptions) {
+  await cache?.delete(cacheKey("story", [prompt, language, characters, options]));
+}
+
+export async function generatePanelImage(description: string, options: PanelImageOptions = {}, context: UsageContext) {
+  const references = options.references || [];
+  const input = {
+    chars: textSize(description, options.style, ...references.flatMap(r => [r.name, r.description])),
+    images: references.reduce((sum, reference) => sum + reference.images.length, 0),
+  };
+  return tracked("image", context, [description, options], input, () => getProvider().generatePanelImage(description, options),
+    () => ({ chars: 0, images: 1 }));
+}
+
+export async function translateText(text: string, targetLanguage: string, context: UsageContext) {
+  return tracked("translate", context, [text, targetLanguage], { chars: text.length, images: 0 }, () => getProvider().translate(text, targetLanguage),
+    translated => ({ chars: translated.length, images: 0 }));
+}
+
+export async function translateTexts(texts: string[], targetLanguage: string, context: UsageContext) {
+  if (texts.length === 0) return [];
+  return tracked("translate", context, [texts, targetLanguage], { chars: textSize(...texts), images: 0 }, () => getProvider().translateBatch(texts, targetLanguage),
+    translated => ({ chars: textSize(...translated), images: 0 }));
 }
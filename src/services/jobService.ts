@@ -0,0 +1,38 @@
+import { GenerationJob } from '../types';
+import { responseError } from './moderationService';
+
+export const isJobFinished = (job: GenerationJob) => job.status === 'completed' || job.status === 'failed';
+
+// Opens the job's Server-Sent Events stream. The stream is closed once the
+// job finishes, or earlier by calling the returned function.
+export function subscribeToJob(jobId: string, onUpdate: (job: GenerationJob) => void) {
+  const source = new EventSource(`/api/jobs/${jobId}/events`);
+  source.onmessage = (event) => {
+    const job: GenerationJob = JSON.parse(event.data);
+    onUpdate(job);
+    if (isJobFinished(job)) source.close();
+  };
+  return () => source.close();
+}
+
+export function waitForJob(jobId: string, onUpdate?: (job: GenerationJob) => void) {
+  return new Promise<GenerationJob>((resolve) => {
+    subscribeToJob(jobId, (job) => {
+      onUpdate?.(job);
+      if (isJobFinished(job)) resolve(job);
+    });
+  });
+}
+
+export async function fetchLatestJob(comicId: string): Promise<GenerationJob | null> {
+  const res = await fetch(`/api/jobs?comic_id=${encodeURIComponent(comicId)}`);
+  const jobs: GenerationJob[] = await res.json();
+  return jobs[0] || null;
+}
+
+// Draws again every panel of the comic whose image failed, in a new job.
+export async function retryFailedPanels(comicId: string): Promise<GenerationJob> {
+  const res = await fetch(`/api/comics/${comicId}/retry-failed`, { method: 'POST' });
+  if (!res.ok) throw await responseError(res);
+  return res.json();
+}
@@ -0,0 +1,36 @@
+import { ComicPage, ReadingProgress, TagCount } from '../types';
+import { ComicSort } from '../library';
+
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(url, init && {
+    ...init,
+    headers: { 'Content-Type': 'application/json' }
+  });
+  if (!res.ok) throw new Error((await res.json()).error);
+  return res.json();
+}
+
+export interface ComicQuery {
+  q?: string;
+  tag?: string | null;
+  sort?: ComicSort;
+  owner?: string;
+  cursor?: string | null;
+}
+
+// One page of the library; pass the returned `next_cursor` as `cursor` for the next.
+export function fetchComicPage(query: ComicQuery) {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(query)) {
+    if (value) params.set(key, value);
+  }
+  return request<ComicPage>(`/api/comics?${params}`);
+}
+
+export const fetchTags = () => request<TagCount[]>('/api/tags');
+
+export const setComicTags = (comicId: string, tags: string[]) =>
+  request<{ tags: string[] }>(`/api/comics/${comicId}/tags`, { method: 'PUT', body: JSON.stringify({ tags }) });
+
+export const saveReadingProgress = (comicId: string, panelId: string) =>
+  request<ReadingProgress>(`/api/comics/${comicId}/progress`, { method: 'PUT', body: JSON.stringify({ panel_id: panelId }) });
@@ -0,0 +1,68 @@
+import { ApiError, ModerationAction, ModerationDecision, ModerationVerdict } from '../types';
+import { MessageKey } from '../i18n';
+import { UsageLimitError, usageLimitMessage } from './usageService';
+
+// Categories of the built-in rules, described by the `moderation.categories.*`
+// messages. Rules added by the operator show their own reason instead.
+const MODERATION_CATEGORIES = ['personal-data', 'self-harm', 'sexual', 'violence', 'drugs', 'profanity', 'override'];
+
+export type DecisionFilter = 'flagged' | 'overridden' | 'all';
+
+// Thrown when the moderation rules refused a prompt, so callers can say why.
+export class ContentRejectedError extends Error {
+  constructor(readonly verdict: ModerationVerdict, message: string) {
+    super(message);
+  }
+}
+
+// The error to throw for a failed API response.
+export async function responseError(res: Response) {
+  const body: ApiError = await res.json();
+  if (body.moderation) return new ContentRejectedError(body.moderation, body.error);
+  if (res.status === 429) return new UsageLimitError(body.error, body.quota ?? null, Number(res.headers.get('Retry-After')) || null);
+  return new Error(body.error);
+}
+
+// `output` verdicts are about a generated story rather than what the user typed.
+export function moderationMessage(
+  t: (key: MessageKey, params?: Record<string, string | number>) => string,
+  verdict: ModerationVerdict,
+  source: 'prompt' | 'output' = 'prompt'
+) {
+  const reason = verdict.category && MODERATION_CATEGORIES.includes(verdict.category)
+    ? t(`moderation.categories.${verdict.category}` as MessageKey)
+    : verdict.reason || '';
+  if (source === 'output') return t('moderation.storyRejected', { reason });
+  return t(verdict.action === 'block' ? 'moderation.blocked' : 'moderation.rephrase', { reason });
+}
+
+// What to tell the user about a request the server refused on purpose, or
+// null when it simply failed.
+export function refusalMessage(
+  t: (key: MessageKey, params?: Record<string, string | number>) => string,
+  error: unknown,
+  locale: string
+) {
+  if (error instanceof ContentRejectedError) return moderationMessage(t, error.verdict);
+  if (error instanceof UsageLimitError) return usageLimitMessage(t, error, locale);
+  return null;
+}
+
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(url, init && {
+    ...init,
+    headers: { 'Content-Type': 'application/json' }
+  });
+  if (!res.ok) throw await responseError(res);
+  return res.json();
+}
+
+export function fetchModerationDecisions(filter: DecisionFilter, before?: number) {
+  const params = new URLSearchParams({ filter });
+  if (before) params.set('before', String(before));
+  return request<ModerationDecision[]>(`/api/moderation/decisions?${params}`);
+}
+
+// null drops the override and lets the rules decide again.
+export const overrideDecision = (id: number, action: Exclude<ModerationAction, 'rephrase'> | null) =>
+  request<ModerationDecision>(`/api/moderation/decisions/${id}/override`, { method: 'PUT', body: JSON.stringify({ action }) });
@@ -0,0 +1,39 @@
+import { GenerationJob, Series, SeriesChapter, SeriesSummary } from '../types';
+import { responseError } from './moderationService';
+
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(url, init && {
+    ...init,
+    headers: { 'Content-Type': 'application/json' }
+  });
+  if (!res.ok) throw await responseError(res);
+  return res.json();
+}
+
+export const fetchSeriesList = () => request<SeriesSummary[]>('/api/series');
+
+export const fetchSeries = (id: string) => request<Series>(`/api/series/${id}`);
+
+export const createSeries = (title: string, comicIds: string[]) =>
+  request<Series>('/api/series', { method: 'POST', body: JSON.stringify({ title, comicIds }) });
+
+// `comicIds` reorders the chapters and must list all of them.
+export const updateSeries = (id: string, changes: { title?: string; description?: string | null; comicIds?: string[] }) =>
+  request<Series>(`/api/series/${id}`, { method: 'PATCH', body: JSON.stringify(changes) });
+
+// The chapters are kept as standalone comics.
+export const deleteSeries = (id: string) => request<{ success: boolean }>(`/api/series/${id}`, { method: 'DELETE' });
+
+// Appends the comic to a series, or takes it out of its series with null.
+export const setComicSeries = (comicId: string, seriesId: string | null) =>
+  request<Series | null>(`/api/comics/${comicId}/series`, { method: 'PUT', body: JSON.stringify({ seriesId }) });
+
+export const saveContinuity = (comicId: string, summary: string, openThreads: string[]) =>
+  request<Pick<SeriesChapter, 'summary' | 'open_threads'>>(`/api/comics/${comicId}/continuity`, {
+    method: 'PUT',
+    body: JSON.stringify({ summary, open_threads: openThreads })
+  });
+
+// Queues the next chapter; a comic outside any series starts one.
+export const continueStory = (comicId: string, prompt: string) =>
+  request<GenerationJob>(`/api/comics/${comicId}/continue`, { method: 'POST', body: JSON.stringify({ prompt }) });
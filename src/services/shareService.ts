@@ -0,0 +1,23 @@
+import { ShareLink, SharedComic } from '../types';
+
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(url, init && {
+    ...init,
+    headers: { 'Content-Type': 'application/json' }
+  });
+  if (!res.ok) throw new Error((await res.json()).error);
+  return res.json();
+}
+
+export const shareUrl = (token: string) => `${window.location.origin}/s/${token}`;
+
+export const fetchShareLinks = (comicId: string) => request<ShareLink[]>(`/api/comics/${comicId}/shares`);
+
+// Without `expiresInDays` the link works until it is revoked.
+export const createShareLink = (comicId: string, expiresInDays: number | null) =>
+  request<ShareLink>(`/api/comics/${comicId}/shares`, { method: 'POST', body: JSON.stringify({ expiresInDays }) });
+
+export const revokeShareLink = (comicId: string, token: string) =>
+  request<{ success: boolean }>(`/api/comics/${comicId}/shares/${token}`, { method: 'DELETE' });
+
+export const fetchSharedComic = (token: string) => request<SharedComic>(`/api/shared/${token}`);
@@ -0,0 +1,19 @@
+import { StylePreset } from '../generation';
+
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(url, init && {
+    ...init,
+    headers: { 'Content-Type': 'application/json' }
+  });
+  if (!res.ok) throw new Error((await res.json()).error);
+  return res.json();
+}
+
+// Built-in presets first, then the ones saved by the user.
+export const fetchStyles = () => request<StylePreset[]>('/api/styles');
+
+export const createStyle = (name: string, prompt: string) =>
+  request<StylePreset>('/api/styles', { method: 'POST', body: JSON.stringify({ name, prompt }) });
+
+export const deleteStyle = (id: string) =>
+  request<{ success: boolean }>(`/api/styles/${id}`, { method: 'DELETE' });
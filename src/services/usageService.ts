@@ -0,0 +1,41 @@
+import { QuotaPeriod, UsageQuota, UsageQuotaStatus, UsageSummary } from '../types';
+import { MessageKey } from '../i18n';
+
+// Thrown when the server refused to start a generation: the user hit a
+// spending quota (`quota`) or sent too many requests in a row (`retryAfter`, in seconds).
+export class UsageLimitError extends Error {
+  constructor(message: string, readonly quota: UsageQuotaStatus | null, readonly retryAfter: number | null) {
+    super(message);
+  }
+}
+
+export const formatUsd = (value: number, locale: string) =>
+  new Intl.NumberFormat(locale, { style: 'currency', currency: 'USD', minimumFractionDigits: 2, maximumFractionDigits: value > 0 && value < 0.01 ? 4 : 2 }).format(value);
+
+export function usageLimitMessage(
+  t: (key: MessageKey, params?: Record<string, string | number>) => string,
+  error: UsageLimitError,
+  locale: string
+) {
+  if (!error.quota) return t('usage.rateLimited', { seconds: error.retryAfter ?? 60 });
+  return t(`usage.quotaExceeded.${error.quota.scope}.${error.quota.period}`, { limit: formatUsd(error.quota.limit_usd, locale) });
+}
+
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(url, init && {
+    ...init,
+    headers: { 'Content-Type': 'application/json' }
+  });
+  if (!res.ok) throw new Error((await res.json()).error);
+  return res.json();
+}
+
+// `all` sums up every account and is for admins only.
+export const fetchUsage = (scope: 'me' | 'all', days: number) =>
+  request<UsageSummary>(`/api/usage?${new URLSearchParams({ scope, days: String(days) })}`);
+
+export const fetchQuotas = () => request<UsageQuota[]>('/api/usage/quotas');
+
+// A null limit removes the quota.
+export const saveQuota = (scope: string, period: QuotaPeriod, limit_usd: number | null) =>
+  request<UsageQuota[]>('/api/usage/quotas', { method: 'PUT', body: JSON.stringify({ scope, period, limit_usd }) });
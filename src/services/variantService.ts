@@ -0,0 +1,28 @@
+import { HistoryState, PanelVariant } from '../types';
+
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(url, init && { ...init, headers: { 'Content-Type': 'application/json' } });
+  if (!res.ok) throw new Error((await res.json()).error);
+  return res.json();
+}
+
+const variantsUrl = (comicId: string, panelId: string) => `/api/comics/${comicId}/panels/${panelId}/variants`;
+
+// Every image a panel has had, newest first.
+export const fetchVariants = (comicId: string, panelId: string) =>
+  request<PanelVariant[]>(variantsUrl(comicId, panelId));
+
+export const activateVariant = (comicId: string, panelId: string, variantId: string) =>
+  request<HistoryState & { image_url: string }>(`${variantsUrl(comicId, panelId)}/${variantId}/activate`, { method: 'POST' });
+
+export const deleteVariant = (comicId: string, panelId: string, variantId: string) =>
+  request<{ success: boolean }>(`${variantsUrl(comicId, panelId)}/${variantId}`, { method: 'DELETE' });
+
+// Drops the alternatives nobody picked and the undo history that points at them.
+export const pruneVariants = (comicId: string) =>
+  request<{ deleted_variants: number; deleted_assets: number }>(`/api/comics/${comicId}/variants/prune`, { method: 'POST', body: '{}' });
+
+export const fetchHistory = (comicId: string) => request<HistoryState>(`/api/comics/${comicId}/history`);
+
+export const stepHistory = (comicId: string, direction: 'undo' | 'redo') =>
+  request<HistoryState & { panel_id: string }>(`/api/comics/${comicId}/${direction}`, { method: 'POST' });
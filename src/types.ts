@@ -0,0 +1,332 @@
+import type { PageTemplateId } from './layouts';
+import type { Audience, Genre, Tone } from './generation';
+
+export type BalloonType = 'speech' | 'thought' | 'narration';
+
+// Text placed over the panel art. Coordinates are fractions (0-1) of the
+// image size, so balloons keep their place at any display or export size.
+// Narration boxes have no tail.
+export interface Balloon {
+  id: string;
+  order_index: number;
+  type: BalloonType;
+  speaker: string | null;
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  tail_x: number | null;
+  tail_y: number | null;
+}
+
+// Whether a panel's image is on its way or failed to generate; 'idle' otherwise.
+export type PanelImageStatus = 'idle' | 'pending' | 'failed';
+
+export interface Panel {
+  id?: string;
+  image_url: string | null;
+  image_status: PanelImageStatus;
+  // Why the latest attempt failed, while image_status is 'failed'.
+  image_error: string | null;
+  // What the image was generated from; null for uploaded images.
+  visual_description: string | null;
+  // Written by the user; takes the place of the visual description as the image's alt text.
+  alt_text: string | null;
+  caption: string;
+  order_index: number;
+  character_ids?: string[];
+  balloons?: Balloon[];
+}
+
+// An image generated (or uploaded) for a panel. The panel shows whichever
+// variant matches its image_url.
+export interface PanelVariant {
+  id: string;
+  image_url: string;
+  thumbnail_url: string | null;
+  description: string | null;
+  created_at: string;
+}
+
+export interface HistoryState {
+  can_undo: boolean;
+  can_redo: boolean;
+}
+
+export type UserRole = 'user' | 'admin';
+
+// Admins can open and manage every library; users only their own.
+export interface User {
+  id: string;
+  username: string;
+  role: UserRole;
+}
+
+// What admins see when listing accounts.
+export interface UserSummary extends User {
+  created_at: string;
+  comic_count: number;
+}
+
+export interface Comic {
+  id: string;
+  title: string;
+  description: string;
+  owner_id?: string | null;
+  // Only filled in when an admin lists libraries other than their own.
+  owner_name?: string | null;
+  cover_url?: string | null;
+  tags?: string[];
+  panels?: Panel[];
+  // Template of each page in order; pages past the end use the default template.
+  page_templates?: PageTemplateId[];
+  settings?: ComicSettings | null;
+  series_id?: string | null;
+  chapter_number?: number | null;
+  // Filled in by the library listing.
+  series_title?: string | null;
+  // The comic's series with all its chapters, when opened on its own.
+  series?: Series | null;
+  // Where the current user stopped reading; null if they never opened it in the reader.
+  reading_progress?: ReadingProgress | null;
+}
+
+// `panel_index` is the last panel read, counted from 0.
+export interface ReadingProgress {
+  panel_index: number;
+  panel_count: number;
+  updated_at: string;
+}
+
+// A comic as a chapter of its series, with the notes the next chapter is generated from.
+export interface SeriesChapter {
+  id: string;
+  title: string;
+  chapter_number: number;
+  cover_url?: string | null;
+  summary: string | null;
+  open_threads: string[];
+}
+
+export interface Series {
+  id: string;
+  title: string;
+  description: string | null;
+  owner_id?: string | null;
+  created_at?: string;
+  chapters: SeriesChapter[];
+}
+
+// A series as listed for picking one, without its chapters.
+export interface SeriesSummary extends Omit<Series, 'chapters'> {
+  chapter_count: number;
+}
+
+// One page of the library listing; pass `next_cursor` back to get the next one.
+export interface ComicPage {
+  comics: Comic[];
+  next_cursor: string | null;
+}
+
+export interface TagCount {
+  tag: string;
+  count: number;
+}
+
+// How a comic was generated. The style is copied from its preset, so
+// regenerated panels keep the look even if the preset is deleted.
+export interface ComicSettings {
+  panel_count: number | null;
+  genre: Genre | null;
+  tone: Tone | null;
+  audience: Audience | null;
+  style_id: string;
+  style_name: string;
+  style_prompt: string;
+}
+
+// A read-only link to a comic. Expired and revoked links stop working;
+// revoked ones are no longer listed.
+export interface ShareLink {
+  token: string;
+  created_at: string;
+  expires_at: string | null;
+}
+
+// What a share link shows: the comic without ids of its owner or settings,
+// with image URLs that work without an account.
+export interface SharedComic {
+  title: string;
+  description: string;
+  panels: Panel[];
+  page_templates: PageTemplateId[];
+}
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export type JobStepStatus = 'pending' | 'running' | 'completed' | 'failed' | 'skipped';
+
+export interface JobStep {
+  id: string;
+  kind: 'story' | 'panel';
+  position: number;
+  panel_id: string | null;
+  status: JobStepStatus;
+  attempts: number;
+  error: string | null;
+}
+
+export interface GenerationJob {
+  id: string;
+  type: 'comic' | 'panel';
+  comic_id: string | null;
+  status: JobStatus;
+  error: string | null;
+  steps: JobStep[];
+  progress: { current: number; total: number };
+  // Set when the job failed because the generated story was rejected.
+  moderation?: ModerationVerdict | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PanelTranslation {
+  panel_id: string;
+  caption: string;
+  is_manual: boolean;
+}
+
+export interface BalloonTranslation {
+  balloon_id: string;
+  text: string;
+  is_manual: boolean;
+}
+
+export interface ComicTranslation {
+  comic_id: string;
+  language: string;
+  title: string;
+  description: string;
+  title_is_manual: boolean;
+  description_is_manual: boolean;
+  panels: PanelTranslation[];
+  balloons: BalloonTranslation[];
+  updated_at: string;
+}
+
+export interface CharacterPhoto {
+  id: string;
+  image_url: string;
+  thumbnail_url: string | null;
+}
+
+export interface Character {
+  id: string;
+  name: string;
+  description: string;
+  photos: CharacterPhoto[];
+  owner_id: string | null;
+  created_at: string;
+}
+
+// The body of every error response from the API.
+export interface ApiError {
+  error: string;
+  code: string;
+  details?: ApiErrorDetail[];
+  // Only on `content_rejected` errors.
+  moderation?: ModerationVerdict;
+  // Only on `quota_exceeded` errors.
+  quota?: UsageQuotaStatus;
+}
+
+// One invalid field of a request, e.g. `{ path: 'body.title', message: 'is required' }`.
+export interface ApiErrorDetail {
+  path: string;
+  message: string;
+}
+
+// `rephrase` asks for the text to be reworded; `block` refuses it outright.
+export type ModerationAction = 'allow' | 'rephrase' | 'block';
+
+// What the moderation rules decided about a prompt or a generated story.
+// `category` names the kind of problem (`violence`, `personal-data`, ...)
+// and `reason` explains it in the words of the rule.
+export interface ModerationVerdict {
+  decision_id: number;
+  action: ModerationAction;
+  category: string | null;
+  reason: string | null;
+}
+
+// An entry of the moderation log. An admin override decides every later
+// check of the same text, whatever the rules say.
+export interface ModerationDecision {
+  id: number;
+  user_id: string | null;
+  username: string | null;
+  job_id: string | null;
+  comic_id: string | null;
+  source: 'prompt' | 'output';
+  field: string;
+  text: string;
+  audience: string | null;
+  level: string;
+  action: ModerationAction;
+  rule_id: string | null;
+  category: string | null;
+  reason: string | null;
+  override_action: 'allow' | 'block' | null;
+  overridden_by_name: string | null;
+  overridden_at: string | null;
+  created_at: string;
+}
+
+export type QuotaPeriod = 'day' | 'month';
+
+// A spending limit in USD. `scope` is 'global' for the whole instance, 'user'
+// for every account, or the id of one user (named by `username`).
+export interface UsageQuota {
+  scope: string;
+  period: QuotaPeriod;
+  limit_usd: number;
+  username?: string | null;
+}
+
+// A limit that applies to the current user, with what has been spent against it.
+export interface UsageQuotaStatus {
+  scope: 'global' | 'user';
+  period: QuotaPeriod;
+  limit_usd: number;
+  spent_usd: number;
+}
+
+export interface UsageDay {
+  day: string;
+  cost_usd: number;
+  calls: number;
+  failures: number;
+}
+
+export interface UsageByOperation {
+  operation: 'story' | 'image' | 'translate';
+  calls: number;
+  failures: number;
+  // Calls answered from the response cache, at no cost.
+  cached: number;
+  cost_usd: number;
+  avg_latency_ms: number;
+}
+
+// Estimated costs of AI calls, one user's or everyone's.
+export interface UsageSummary {
+  days: UsageDay[];
+  operations: UsageByOperation[];
+  top_comics: { comic_id: string; title: string; cost_usd: number; calls: number }[];
+  // Only when summarizing every account.
+  top_users: { user_id: string | null; username: string | null; cost_usd: number; calls: number }[];
+  today_usd: number;
+  month_usd: number;
+  quotas: UsageQuotaStatus[];
+}
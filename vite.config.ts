@@ -1,5 +1,7 @@
+/// <reference types="vitest/config" />
 import tailwindcss from '@tailwindcss/vite';
 import react from '@vitejs/plugin-react';
+import os from 'os';
 import path from 'path';
 import {defineConfig, loadEnv} from 'vite';
 
@@ -20,5 +22,12 @@ export default defineConfig(({mode}) => {
       // Do not modifyâfile watching is disabled to prevent flickering during agent edits.
       hmr: process.env.DISABLE_HMR !== 'true',
     },
+    test: {
+      // Each test file gets its own in-memory database; images go to a scratch directory.
+      env: {
+        DATABASE_PATH: ':memory:',
+        ASSETS_DIR: path.join(os.tmpdir(), 'minha-hq-test-assets'),
+      },
+    },
   };
 });